@@ -1,21 +1,40 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { Suspense, useEffect, useMemo, useRef, useState } from "react";
 import { FormShell } from "@/components/forms/form-shell";
 import { FloraDirectory } from "@/components/flora/FloraDirectory";
 import { FloraInvites } from "@/components/flora/FloraInvites";
 import { NewFloraWizard } from "@/components/flora/NewFloraWizard";
 import { FloraDashboard } from "@/components/flora/FloraDashboard";
-import { useFlora } from "@/providers/flora-provider";
+import { MessageLinkListener } from "@/components/messages/MessageLinkListener";
+import { MessageSearch } from "@/components/messages/MessageSearch";
+import { isFloraArchived, useFlora } from "@/providers/flora-provider";
 import { useWallet } from "@/providers/wallet-provider";
 import { useIdentity } from "@/providers/identity-provider";
 import { useToast } from "@/providers/toast-provider";
+import { useReadState } from "@/providers/read-state-provider";
 import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { sendFloraJoinRequest } from "@/lib/hedera/flora";
+import type { FloraRegistryEntry } from "@/lib/hedera/flora-registry";
+import { resolveProfileByIdentifier } from "@/lib/hedera/profile-lookup";
+import type { MessageLinkTarget } from "@/lib/message-index";
 import { AccountId } from "@hashgraph/sdk";
 
 export default function FloraPage() {
-  const { floras, invites, acceptInvite, declineInvite, toggleMute, isMuted } = useFlora();
-  const { sdk, accountId: walletAccountId } = useWallet();
+  const {
+    floras,
+    invites,
+    acceptInvite,
+    declineInvite,
+    toggleMute,
+    isMuted,
+    syncFloraMembership,
+    reconciling,
+    refreshFloras,
+  } = useFlora();
+  const { unreadTotals, markAllRead } = useReadState();
+  const { sdk, accountId: walletAccountId, network } = useWallet();
   const signer = useMemo(() => {
     if (!sdk || !walletAccountId) {
       return null;
@@ -30,6 +49,9 @@ export default function FloraPage() {
   const { pushToast } = useToast();
   const [processingInviteId, setProcessingInviteId] = useState<string | null>(null);
   const [selectedFloraId, setSelectedFloraId] = useState<string | null>(null);
+  const [requestingJoinId, setRequestingJoinId] = useState<string | null>(null);
+  const [messageFocus, setMessageFocus] = useState<MessageLinkTarget | null>(null);
+  const appliedFocusRef = useRef<MessageLinkTarget | null>(null);
 
   useEffect(() => {
     if (floras.length === 0) {
@@ -37,10 +59,23 @@ export default function FloraPage() {
       return;
     }
     if (!selectedFloraId || !floras.some((flora) => flora.id === selectedFloraId)) {
-      setSelectedFloraId(floras[0].id);
+      setSelectedFloraId((floras.find((flora) => !isFloraArchived(flora)) ?? floras[0]).id);
     }
   }, [floras, selectedFloraId]);
 
+  useEffect(() => {
+    const floraId = messageFocus?.floraId;
+    if (
+      !floraId ||
+      appliedFocusRef.current === messageFocus ||
+      !floras.some((flora) => flora.id === floraId)
+    ) {
+      return;
+    }
+    appliedFocusRef.current = messageFocus;
+    setSelectedFloraId(floraId);
+  }, [floras, messageFocus]);
+
   const selectedFlora = useMemo(
     () => floras.find((flora) => flora.id === selectedFloraId) ?? null,
     [floras, selectedFloraId],
@@ -59,6 +94,45 @@ export default function FloraPage() {
     }
   };
 
+  const handleRequestJoin = async (entry: FloraRegistryEntry) => {
+    if (!signer || !activeIdentity) {
+      return;
+    }
+    setRequestingJoinId(entry.floraId);
+    try {
+      const initiator = await resolveProfileByIdentifier(entry.initiatorAccountId, {
+        network,
+        requireInboundTopic: true,
+      });
+      if (!initiator?.inboundTopicId) {
+        throw new Error("The flora initiator has no inbound topic to receive join requests");
+      }
+      await sendFloraJoinRequest(signer, initiator.inboundTopicId, {
+        type: "flora_join_request",
+        from: activeIdentity.accountId,
+        to: entry.initiatorAccountId,
+        content: `Request to join ${entry.name}`,
+        sentAt: new Date().toISOString(),
+        floraId: entry.floraId,
+        floraAccountId: entry.accountId,
+        requesterAlias: activeIdentity.alias,
+      });
+      pushToast({
+        title: "Join request sent",
+        description: `Members of ${entry.name} will vote on your request.`,
+        variant: "success",
+      });
+    } catch (error) {
+      pushToast({
+        title: "Join request failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "error",
+      });
+    } finally {
+      setRequestingJoinId(null);
+    }
+  };
+
   const handleDeclineInvite = (inviteId: string) => {
     declineInvite(inviteId);
     pushToast({ title: "Invite declined" });
@@ -66,6 +140,9 @@ export default function FloraPage() {
 
   return (
     <section className="space-y-8">
+      <Suspense fallback={null}>
+        <MessageLinkListener onTarget={setMessageFocus} />
+      </Suspense>
       <Card className="space-y-3 rounded-3xl p-6 shadow-lg backdrop-blur">
         <p className="text-sm font-medium text-brand-blue">Coordination</p>
         <h1 className="text-3xl font-semibold tracking-tight text-foreground">
@@ -84,12 +161,39 @@ export default function FloraPage() {
         <div className="space-y-6">
           <FormShell
             title="Flora Directory"
-            description="List active and pending groups with membership metadata."
+            description="List your groups or browse floras published to the HCS-2 flora registry."
+            actions={
+              <div className="flex flex-wrap gap-2">
+                {unreadTotals.flora > 0 ? (
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    onClick={() => markAllRead(["flora"])}
+                    className="rounded-full"
+                  >
+                    Mark all read ({unreadTotals.flora})
+                  </Button>
+                ) : null}
+                <Button
+                  type="button"
+                  variant="secondary"
+                  onClick={() => void refreshFloras()}
+                  disabled={reconciling || !activeIdentity}
+                  className="rounded-full"
+                >
+                  {reconciling ? "Syncing…" : "Refresh from network"}
+                </Button>
+              </div>
+            }
           >
             <FloraDirectory
               floras={floras}
               selectedId={selectedFloraId}
               onSelect={setSelectedFloraId}
+              network={network}
+              accountId={activeIdentity?.accountId ?? null}
+              requestingJoinId={requestingJoinId}
+              onRequestJoin={(entry) => void handleRequestJoin(entry)}
             />
           </FormShell>
           <FormShell
@@ -116,12 +220,17 @@ export default function FloraPage() {
         title="Flora Activity"
         description="Inspect communication, proposals, and state updates for the selected flora."
       >
+        <div className="mb-4">
+          <MessageSearch ownerAccountId={activeIdentity?.accountId ?? null} />
+        </div>
         <FloraDashboard
           flora={selectedFlora}
           signer={signer}
           accountId={selectedFlora && activeIdentity ? activeIdentity.accountId : null}
           muted={selectedFlora ? isMuted(selectedFlora.id) : false}
           onToggleMute={toggleMute}
+          onMembershipChange={syncFloraMembership}
+          focus={messageFocus && messageFocus.floraId === selectedFloraId ? messageFocus : null}
         />
       </FormShell>
     </section>
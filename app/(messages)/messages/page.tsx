@@ -1,26 +1,69 @@
 "use client";
 
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Suspense, useCallback, useEffect, useMemo, useRef, useState } from "react";
 import type {
   ConnectionRequestTimelineItem,
   ConnectionRequestStatus,
   ResolvedContact,
 } from "@/components/messages/Inbox";
+import { AutoAcceptPanel } from "@/components/messages/AutoAcceptPanel";
 import { ComposeForm } from "@/components/messages/ComposeForm";
+import { ConnectionThread } from "@/components/messages/ConnectionThread";
+import { InboxPolicyPanel } from "@/components/messages/InboxPolicyPanel";
+import { MessageLinkListener } from "@/components/messages/MessageLinkListener";
+import { MessageSearch } from "@/components/messages/MessageSearch";
 import { useIdentity } from "@/providers/identity-provider";
 import { useWallet } from "@/providers/wallet-provider";
+import { useFlora } from "@/providers/flora-provider";
+import { useReadState } from "@/providers/read-state-provider";
 import { fetchLatestProfileForAccount } from "@/lib/hedera/registry";
+import { getMirrorSuggestedRefreshInterval } from "@/lib/hedera/mirror";
+import type { FloraRecord } from "@/lib/hedera/flora";
+import type { DAppSigner } from "@/lib/hedera/wallet-types";
 import { readAccountData, writeAccountData, storageNamespaces } from "@/lib/storage";
-import { createConnectionTopic, type ConnectionRecord } from "@/lib/hedera/connections";
-import type { ConnectionRequestEvent } from "@/lib/hedera/messaging";
 import {
-  fetchConnectionMessages,
+  createConnectionTopic,
+  getConnectionState,
+  isConnectionClosed,
+  requestedConnectionTopicId,
+  transitionConnection,
+  type ConnectionRecord,
+  type ConnectionState,
+} from "@/lib/hedera/connections";
+import {
+  deriveConnectionKey,
+  generateConnectionKeyPair,
+  pendingHandshakeId,
+} from "@/lib/hedera/connection-crypto";
+import {
+  appendAutoAcceptLog,
+  describeAutoAcceptRule,
+  matchAutoAcceptRule,
+  normalizeAutoAcceptConfig,
+  type AutoAcceptConfig,
+  type AutoAcceptLogEntry,
+} from "@/lib/hedera/auto-accept";
+import {
+  allowAccount,
+  blockAccount,
+  filterInboxEvents,
+  normalizeInboxPolicy,
+  type BlockedInboxEvent,
+  type InboxPolicy,
+} from "@/lib/hedera/inbox-policy";
+import type {
+  ConnectionCreatedEvent,
+  ConnectionRequestEvent,
+  ConnectionTopicMessage,
+} from "@/lib/hedera/messaging";
+import {
   fetchInboxEvents,
-  subscribeConnectionTopic,
+  sendConnectionClose,
+  sendConnectionRequest,
   subscribeInbox,
-  type ConnectionTopicMessage,
   type InboxEvent,
 } from "@/lib/hedera/messaging";
+import { indexMessages, type MessageLinkTarget } from "@/lib/message-index";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { getLogger } from "@/lib/logger";
@@ -28,6 +71,149 @@ import { useToast } from "@/providers/toast-provider";
 import { topicExplorerUrl } from "@/config/topics";
 import { AccountId } from "@hashgraph/sdk";
 
+const CONNECTION_STATE_LABELS: Record<ConnectionState, string> = {
+  requested: "Requested",
+  "pending-confirmation": "Awaiting confirmation",
+  active: "Active",
+  "closed-by-me": "Closed",
+  "closed-by-peer": "Closed by peer",
+};
+
+type AcceptOutcome = { ok: true; connectionTopicId: string } | { ok: false; error: string };
+
+const CONNECTIONS_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+type PetalAutoAcceptTarget = {
+  accountId: string;
+  inboundTopicId: string;
+  outboundTopicId: string;
+};
+
+/**
+ * Applies a petal's stored auto-accept rules to its inbox while another
+ * identity is active, saving new connections and log entries to its storage.
+ * `evaluated` remembers requests that matched no rule between polls.
+ */
+async function autoAcceptForPetal(
+  signer: DAppSigner,
+  petal: PetalAutoAcceptTarget,
+  floras: FloraRecord[],
+  evaluated: Set<number>,
+): Promise<void> {
+  const config = normalizeAutoAcceptConfig(
+    readAccountData<Partial<AutoAcceptConfig> | null>(
+      storageNamespaces.autoAccept,
+      petal.accountId,
+      null,
+    ),
+  );
+  if (!config.enabled || config.rules.length === 0) {
+    return;
+  }
+
+  const readConnections = () =>
+    readAccountData<ConnectionRecord[] | null>(storageNamespaces.connections, petal.accountId, []) ??
+    [];
+  const policy = normalizeInboxPolicy(
+    readAccountData<Partial<InboxPolicy> | null>(
+      storageNamespaces.inboxPolicy,
+      petal.accountId,
+      null,
+    ),
+  );
+  const { allowed } = await filterInboxEvents(
+    await fetchInboxEvents(petal.inboundTopicId, 20),
+    policy,
+    {
+      localAccountId: petal.accountId,
+      knownAccountIds: readConnections().map((connection) => connection.contactAccountId),
+    },
+  );
+  let log =
+    readAccountData<AutoAcceptLogEntry[]>(storageNamespaces.autoAcceptLog, petal.accountId, []) ??
+    [];
+  const handled = new Set(log.map((entry) => entry.requestSequenceNumber));
+
+  for (const event of allowed) {
+    if (
+      event.kind !== "connection-request" ||
+      !event.operator ||
+      handled.has(event.sequenceNumber) ||
+      evaluated.has(event.sequenceNumber)
+    ) {
+      continue;
+    }
+    const operator = event.operator;
+    if (
+      readConnections().some(
+        (connection) =>
+          connection.connectionId === event.sequenceNumber &&
+          connection.contactAccountId === operator.accountId,
+      )
+    ) {
+      continue;
+    }
+    const rule = await matchAutoAcceptRule(event, config.rules, { floras, log });
+    evaluated.add(event.sequenceNumber);
+    if (!rule) {
+      continue;
+    }
+
+    let outcome: AcceptOutcome;
+    try {
+      const { connectionTopicId, encryption } = await createConnectionTopic({
+        signer,
+        localAccountId: petal.accountId,
+        localInboundTopicId: petal.inboundTopicId,
+        localOutboundTopicId: petal.outboundTopicId,
+        remoteAccountId: operator.accountId,
+        remoteInboundTopicId: operator.inboundTopicId,
+        requestSequenceNumber: event.sequenceNumber,
+        requestorOutboundTopicId: event.requestorOutboundTopicId ?? undefined,
+        memo: event.memo,
+        remoteEncryptionPublicKey: event.encryptionPublicKey,
+      });
+      const record: ConnectionRecord = {
+        connectionTopicId,
+        contactAccountId: operator.accountId,
+        contactAlias: event.requestorAlias,
+        contactDisplayName: event.requestorDisplayName,
+        contactInboundTopicId: operator.inboundTopicId,
+        connectionId: event.sequenceNumber,
+        createdAt: new Date().toISOString(),
+        encryption,
+        state: "active",
+      };
+      writeAccountData(
+        storageNamespaces.connections,
+        petal.accountId,
+        [record, ...readConnections()],
+        { ttlMs: CONNECTIONS_TTL_MS },
+      );
+      outcome = { ok: true, connectionTopicId };
+    } catch (error) {
+      outcome = {
+        ok: false,
+        error: error instanceof Error ? error.message : "Failed to create connection",
+      };
+    }
+    log = appendAutoAcceptLog(log, {
+      requestSequenceNumber: event.sequenceNumber,
+      accountId: operator.accountId,
+      rule: describeAutoAcceptRule(rule, floras),
+      timestamp: new Date().toISOString(),
+      ...(outcome.ok
+        ? { outcome: "accepted", connectionTopicId: outcome.connectionTopicId }
+        : { outcome: "failed", error: outcome.error }),
+    });
+    writeAccountData(storageNamespaces.autoAcceptLog, petal.accountId, log);
+  }
+}
+
+function inboxEventSequence(event: InboxEvent): number {
+  return event.kind === "direct-message" ? event.message.sequenceNumber : event.sequenceNumber;
+}
+
 function decodeMessageText(raw?: string | null): string | null {
   if (!raw) {
     return null;
@@ -72,6 +258,9 @@ export default function MessagesPage() {
   const logger = getLogger("messages-page");
   const { activeIdentity, petals, updatePetal } = useIdentity();
   const { sdk, accountId: walletAccountId } = useWallet();
+  const { floras } = useFlora();
+  const { unreadCount, unreadTotals, lastReadSequence, markRead, markAllRead, trackMessaging } =
+    useReadState();
   const signer = useMemo(() => {
     if (!sdk || !walletAccountId) {
       return null;
@@ -92,12 +281,35 @@ export default function MessagesPage() {
   const [requestStatuses, setRequestStatuses] = useState<Record<number, ConnectionRequestStatus>>({});
   const [preferredConnectionId, setPreferredConnectionId] = useState<string | null>(null);
   const [connectionQuery, setConnectionQuery] = useState("");
-  const [threadMessages, setThreadMessages] = useState<ConnectionTopicMessage[]>([]);
-  const [isThreadLoading, setIsThreadLoading] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+  const [closingConnectionId, setClosingConnectionId] = useState<string | null>(null);
+  const [busyConnectionId, setBusyConnectionId] = useState<string | null>(null);
   const [sidebarInboxEvents, setSidebarInboxEvents] = useState<InboxEvent[]>([]);
   const [isChatsOpen, setIsChatsOpen] = useState(true);
   const [isRequestsOpen, setIsRequestsOpen] = useState(true);
   const [isFeedOpen, setIsFeedOpen] = useState(true);
+  const [isBlockedOpen, setIsBlockedOpen] = useState(false);
+  const [isAutoAcceptOpen, setIsAutoAcceptOpen] = useState(false);
+  const [autoAccept, setAutoAccept] = useState<AutoAcceptConfig>(() => normalizeAutoAcceptConfig());
+  const [autoAcceptLog, setAutoAcceptLog] = useState<AutoAcceptLogEntry[]>([]);
+  const [autoAcceptPass, setAutoAcceptPass] = useState(0);
+  const autoAcceptRunningRef = useRef(false);
+  const autoAcceptEvaluatedRef = useRef<Set<number>>(new Set());
+  const petalAutoAcceptEvaluatedRef = useRef(new Map<string, Set<number>>());
+  const florasRef = useRef(floras);
+  const [inboxPolicy, setInboxPolicy] = useState<InboxPolicy>(() => normalizeInboxPolicy());
+  const [inboxFilter, setInboxFilter] = useState<{
+    allowed: InboxEvent[];
+    blocked: BlockedInboxEvent[];
+  }>({ allowed: [], blocked: [] });
+
+  const [messageFocus, setMessageFocus] = useState<MessageLinkTarget | null>(null);
+  const indexedInboxRef = useRef(new Set<string>());
+  const appliedFocusRef = useRef<MessageLinkTarget | null>(null);
+  const [inboxReadSnapshot, setInboxReadSnapshot] = useState<{
+    topicId: string | null;
+    sequenceNumber: number | null;
+  }>({ topicId: null, sequenceNumber: null });
 
   const connectionsStorageAccount = activeIdentity?.accountId ?? null;
 
@@ -120,12 +332,91 @@ export default function MessagesPage() {
         return;
       }
       writeAccountData(storageNamespaces.connections, connectionsStorageAccount, records, {
-        ttlMs: 7 * 24 * 60 * 60 * 1000,
+        ttlMs: CONNECTIONS_TTL_MS,
+      });
+    },
+    [connectionsStorageAccount],
+  );
+
+  useEffect(() => {
+    if (!connectionsStorageAccount) {
+      setInboxPolicy(normalizeInboxPolicy());
+      return;
+    }
+    const stored = readAccountData<Partial<InboxPolicy> | null>(
+      storageNamespaces.inboxPolicy,
+      connectionsStorageAccount,
+      null,
+    );
+    setInboxPolicy(normalizeInboxPolicy(stored));
+  }, [connectionsStorageAccount]);
+
+  const updateInboxPolicy = useCallback(
+    (updater: (policy: InboxPolicy) => InboxPolicy) => {
+      setInboxPolicy((prev) => {
+        const next = updater(prev);
+        if (connectionsStorageAccount) {
+          writeAccountData(storageNamespaces.inboxPolicy, connectionsStorageAccount, next);
+        }
+        return next;
       });
     },
     [connectionsStorageAccount],
   );
 
+  useEffect(() => {
+    trackMessaging({ connections, blockedAccountIds: inboxPolicy.blockedAccountIds });
+  }, [connections, inboxPolicy.blockedAccountIds, trackMessaging]);
+
+  useEffect(() => {
+    autoAcceptEvaluatedRef.current = new Set();
+    if (!connectionsStorageAccount) {
+      setAutoAccept(normalizeAutoAcceptConfig());
+      setAutoAcceptLog([]);
+      return;
+    }
+    setAutoAccept(
+      normalizeAutoAcceptConfig(
+        readAccountData<Partial<AutoAcceptConfig> | null>(
+          storageNamespaces.autoAccept,
+          connectionsStorageAccount,
+          null,
+        ),
+      ),
+    );
+    setAutoAcceptLog(
+      readAccountData<AutoAcceptLogEntry[]>(
+        storageNamespaces.autoAcceptLog,
+        connectionsStorageAccount,
+        [],
+      ) ?? [],
+    );
+  }, [connectionsStorageAccount]);
+
+  const updateAutoAccept = useCallback(
+    (next: AutoAcceptConfig) => {
+      if (!connectionsStorageAccount) {
+        return;
+      }
+      autoAcceptEvaluatedRef.current = new Set();
+      petalAutoAcceptEvaluatedRef.current.delete(connectionsStorageAccount);
+      setAutoAccept(next);
+      writeAccountData(storageNamespaces.autoAccept, connectionsStorageAccount, next);
+    },
+    [connectionsStorageAccount],
+  );
+
+  const recordAutoAccept = useCallback(
+    (accountId: string, entry: AutoAcceptLogEntry | null) => {
+      setAutoAcceptLog((current) => {
+        const next = entry ? appendAutoAcceptLog(current, entry) : [];
+        writeAccountData(storageNamespaces.autoAcceptLog, accountId, next);
+        return next;
+      });
+    },
+    [],
+  );
+
   const resolvedInboundTopicId = useMemo(() => {
     if (!activeIdentity) return null;
     if (activeIdentity.type === "petal") {
@@ -135,6 +426,21 @@ export default function MessagesPage() {
     return baseInboundTopicId;
   }, [activeIdentity, petals, baseInboundTopicId]);
 
+  if (inboxReadSnapshot.topicId !== resolvedInboundTopicId) {
+    // Items newer than the marker at page entry keep their "new" highlight while
+    // the inbox is marked read below.
+    setInboxReadSnapshot({
+      topicId: resolvedInboundTopicId,
+      sequenceNumber: resolvedInboundTopicId ? lastReadSequence(resolvedInboundTopicId) : null,
+    });
+  }
+
+  const isNewInboxEvent = useCallback(
+    (sequenceNumber: number) =>
+      inboxReadSnapshot.sequenceNumber !== null && sequenceNumber > inboxReadSnapshot.sequenceNumber,
+    [inboxReadSnapshot.sequenceNumber],
+  );
+
   const resolvedOutboundTopicId = useMemo(() => {
     if (!activeIdentity) return null;
     if (activeIdentity.type === "petal") {
@@ -199,6 +505,48 @@ export default function MessagesPage() {
     };
   }, [resolvedInboundTopicId, logger]);
 
+  useEffect(() => {
+    if (!resolvedInboundTopicId || sidebarInboxEvents.length === 0) {
+      return;
+    }
+    markRead(
+      resolvedInboundTopicId,
+      Math.max(...sidebarInboxEvents.map((event) => inboxEventSequence(event))),
+    );
+  }, [markRead, resolvedInboundTopicId, sidebarInboxEvents]);
+
+  useEffect(() => {
+    if (!connectionsStorageAccount || !resolvedInboundTopicId) {
+      return;
+    }
+    const pending = inboxFilter.allowed.filter(
+      (event): event is Extract<InboxEvent, { kind: "direct-message" }> =>
+        event.kind === "direct-message" &&
+        event.message.verification !== "forged" &&
+        !indexedInboxRef.current.has(`${resolvedInboundTopicId}:${event.message.sequenceNumber}`),
+    );
+    if (pending.length === 0) {
+      return;
+    }
+    const keys = pending.map((event) => `${resolvedInboundTopicId}:${event.message.sequenceNumber}`);
+    keys.forEach((key) => indexedInboxRef.current.add(key));
+    indexMessages(
+      pending.map((event) => ({
+        ownerAccountId: connectionsStorageAccount,
+        source: "direct-message",
+        topicId: resolvedInboundTopicId,
+        sequenceNumber: event.message.sequenceNumber,
+        consensusTimestamp: event.message.consensusTimestamp,
+        sender: event.message.from,
+        conversation: "Direct messages",
+        text: decodeMessageText(event.message.content) ?? event.message.content,
+      })),
+    ).catch((error) => {
+      keys.forEach((key) => indexedInboxRef.current.delete(key));
+      logger.warn("messages:inbox-index", error);
+    });
+  }, [connectionsStorageAccount, inboxFilter.allowed, logger, resolvedInboundTopicId]);
+
   useEffect(() => {
     if (!activeIdentity?.accountId) {
       setBaseInboundTopicId(null);
@@ -268,80 +616,186 @@ export default function MessagesPage() {
     };
   }, [activeIdentity, petals, updatePetal]);
 
+  const updateConnections = useCallback(
+    (updater: (current: ConnectionRecord[]) => ConnectionRecord[]) => {
+      setConnections((current) => {
+        const next = updater(current);
+        if (next !== current) {
+          persistConnections(next);
+        }
+        return next;
+      });
+    },
+    [persistConnections],
+  );
+
+  const handleConnectionCreated = useCallback(
+    (record: ConnectionRecord) => {
+      updateConnections((current) => [
+        record,
+        ...current.filter((item) => item.connectionTopicId !== record.connectionTopicId),
+      ]);
+      setPreferredConnectionId(record.connectionTopicId);
+    },
+    [updateConnections],
+  );
+
+  const handleConnectionRequested = useCallback(
+    (record: ConnectionRecord) => {
+      updateConnections((current) => [record, ...current]);
+    },
+    [updateConnections],
+  );
+
   useEffect(() => {
-    if (!preferredConnectionId) {
-      setThreadMessages([]);
-      setIsThreadLoading(false);
+    if (!connectionsStorageAccount) {
       return;
     }
-    const connection = connections.find(
-      (item) => item.connectionTopicId === preferredConnectionId,
+    const known = new Set(connections.map((connection) => connection.connectionTopicId));
+    const requestedTopicIds = new Set(
+      connections
+        .filter((connection) => getConnectionState(connection) === "requested")
+        .map((connection) => connection.connectionTopicId),
     );
-    if (!connection) {
-      setThreadMessages([]);
-      setIsThreadLoading(false);
+    const pendingKeys = readAccountData<Record<string, string>>(
+      storageNamespaces.connectionKeys,
+      connectionsStorageAccount,
+      {},
+    );
+    // Only confirmations of requests we sent, paid for by the account that
+    // accepted them, may open a connection or supply its handshake key.
+    const confirmations = inboxFilter.allowed.filter((event): event is ConnectionCreatedEvent => {
+      if (
+        event.kind !== "connection-created" ||
+        !event.connectionTopicId ||
+        !event.operator ||
+        event.connectionId === null ||
+        known.has(event.connectionTopicId) ||
+        event.payerAccountId !== event.operator.accountId
+      ) {
+        return false;
+      }
+      return (
+        requestedTopicIds.has(requestedConnectionTopicId(event.operator.accountId, event.connectionId)) ||
+        Boolean(pendingKeys[pendingHandshakeId(event.operator.accountId, event.connectionId)])
+      );
+    });
+    if (confirmations.length === 0) {
       return;
     }
 
     let cancelled = false;
-    setIsThreadLoading(true);
 
-    fetchConnectionMessages(preferredConnectionId, 200)
-      .then((history) => {
-        if (!cancelled) {
-          setThreadMessages(history);
-        }
-      })
-      .catch((error) => {
-        if (!cancelled) {
-          logger.warn("messages:thread-history", error);
-        }
-      })
-      .finally(() => {
-        if (!cancelled) {
-          setIsThreadLoading(false);
+    (async () => {
+      const confirmed: Array<{
+        event: ConnectionCreatedEvent;
+        topicId: string;
+        operator: NonNullable<ConnectionCreatedEvent["operator"]>;
+        encryption: ConnectionRecord["encryption"];
+      }> = [];
+      for (const event of confirmations) {
+        const topicId = event.connectionTopicId as string;
+        const operator = event.operator as NonNullable<ConnectionCreatedEvent["operator"]>;
+        const handshakeId = pendingHandshakeId(operator.accountId, event.connectionId ?? 0);
+        const privateKey = pendingKeys[handshakeId];
+        let encryption: ConnectionRecord["encryption"];
+        if (privateKey && event.encryptionPublicKey) {
+          try {
+            encryption = await deriveConnectionKey(privateKey, event.encryptionPublicKey, topicId);
+          } catch (error) {
+            logger.warn("messages:connection-key", error);
+          }
         }
+        delete pendingKeys[handshakeId];
+        confirmed.push({ event, topicId, operator, encryption });
+      }
+      if (cancelled) {
+        return;
+      }
+      writeAccountData(storageNamespaces.connectionKeys, connectionsStorageAccount, pendingKeys, {
+        ttlMs: 7 * 24 * 60 * 60 * 1000,
       });
-
-    const unsubscribe = subscribeConnectionTopic(preferredConnectionId, (message) => {
-      setThreadMessages((current) => {
-        const exists = current.some(
-          (item) => item.consensusTimestamp === message.consensusTimestamp,
-        );
-        if (exists) {
-          return current;
+      const placeholders = new Map(
+        confirmed.map(({ event, topicId, operator }) => [
+          requestedConnectionTopicId(operator.accountId, event.connectionId ?? 0),
+          topicId,
+        ]),
+      );
+      updateConnections((current) => {
+        let next = current;
+        for (const { event, topicId, operator, encryption } of confirmed) {
+          if (next.some((item) => item.connectionTopicId === topicId)) {
+            continue;
+          }
+          const placeholder = requestedConnectionTopicId(operator.accountId, event.connectionId ?? 0);
+          const requested = next.find((item) => item.connectionTopicId === placeholder);
+          if (requested && getConnectionState(requested) === "requested") {
+            next = next.map((item) =>
+              item === requested
+                ? transitionConnection(item, {
+                    type: "confirmed",
+                    connectionTopicId: topicId,
+                    encryption,
+                  })
+                : item,
+            );
+          } else {
+            next = [
+              {
+                connectionTopicId: topicId,
+                contactAccountId: operator.accountId,
+                contactInboundTopicId: operator.inboundTopicId,
+                connectionId: event.connectionId ?? 0,
+                createdAt: new Date().toISOString(),
+                encryption,
+                state: "active",
+              },
+              ...next,
+            ];
+          }
         }
-        return [...current, message].sort(
-          (a, b) =>
-            (consensusTimestampToMs(a.consensusTimestamp) ?? 0) -
-            (consensusTimestampToMs(b.consensusTimestamp) ?? 0),
-        );
+        return next;
       });
-    });
+      setPreferredConnectionId((current) =>
+        current ? (placeholders.get(current) ?? current) : current,
+      );
+    })();
 
     return () => {
       cancelled = true;
-      unsubscribe?.();
     };
-  }, [preferredConnectionId, connections, logger]);
+  }, [connections, connectionsStorageAccount, inboxFilter.allowed, logger, updateConnections]);
 
-  const handleConnectionCreated = useCallback(
-    (record: ConnectionRecord) => {
-      setConnections((current) => {
-        const filtered = current.filter(
-          (item) => item.connectionTopicId !== record.connectionTopicId,
-        );
-        const next = [record, ...filtered];
-        persistConnections(next);
-        return next;
-      });
-      setPreferredConnectionId(record.connectionTopicId);
+  const knownAccountIds = useMemo(
+    () => connections.map((connection) => connection.contactAccountId),
+    [connections],
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    void filterInboxEvents(sidebarInboxEvents, inboxPolicy, {
+      localAccountId: connectionsStorageAccount,
+      knownAccountIds,
+    }).then((result) => {
+      if (!cancelled) {
+        setInboxFilter(result);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [connectionsStorageAccount, inboxPolicy, knownAccountIds, sidebarInboxEvents]);
+
+  const handleBlockSender = useCallback(
+    (accountId: string) => {
+      updateInboxPolicy((policy) => blockAccount(policy, accountId));
+      pushToast({ title: `Blocked ${accountId}`, variant: "success" });
     },
-    [persistConnections],
+    [pushToast, updateInboxPolicy],
   );
 
   const connectionRequests = useMemo(() => {
-    const items = sidebarInboxEvents
+    const items = inboxFilter.allowed
       .filter((event): event is Extract<InboxEvent, { kind: "connection-request" }> => event.kind === "connection-request")
       .map((event) => {
         const contact: ResolvedContact = {
@@ -363,7 +817,7 @@ export default function MessagesPage() {
         (consensusTimestampToMs(a.event.consensusTimestamp) ?? 0) -
         (consensusTimestampToMs(b.event.consensusTimestamp) ?? 0),
     );
-  }, [sidebarInboxEvents, requestStatuses]);
+  }, [inboxFilter.allowed, requestStatuses]);
 
   const pendingRequests = useMemo(() =>
     connectionRequests.filter((item) => {
@@ -372,12 +826,18 @@ export default function MessagesPage() {
     }),
   [connectionRequests, requestStatuses]);
 
+  const archivedCount = useMemo(
+    () => connections.filter((connection) => connection.archived).length,
+    [connections],
+  );
+
   const filteredConnections = useMemo(() => {
     const normalized = connectionQuery.trim().toLowerCase();
+    const visible = connections.filter((connection) => Boolean(connection.archived) === showArchived);
     if (!normalized) {
-      return connections;
+      return visible;
     }
-    return connections.filter((connection) => {
+    return visible.filter((connection) => {
       const label =
         connection.contactDisplayName ??
         connection.contactAlias ??
@@ -388,18 +848,42 @@ export default function MessagesPage() {
         connection.connectionTopicId.toLowerCase().includes(normalized)
       );
     });
-  }, [connectionQuery, connections]);
+  }, [connectionQuery, connections, showArchived]);
 
   const activeConnection = useMemo(
     () => connections.find((item) => item.connectionTopicId === preferredConnectionId) ?? null,
     [connections, preferredConnectionId],
   );
 
+  const activeState = activeConnection ? getConnectionState(activeConnection) : null;
+
   const handleSelectConnection = useCallback((connectionId: string) => {
     setPreferredConnectionId(connectionId);
     setTimeout(() => composerRef.current?.scrollIntoView({ behavior: "smooth", block: "start" }), 0);
   }, []);
 
+  useEffect(() => {
+    if (!messageFocus || appliedFocusRef.current === messageFocus) {
+      return;
+    }
+    const connection = connections.find((item) => item.connectionTopicId === messageFocus.topicId);
+    if (connection) {
+      appliedFocusRef.current = messageFocus;
+      setShowArchived(Boolean(connection.archived));
+      setPreferredConnectionId(connection.connectionTopicId);
+    } else if (messageFocus.topicId === resolvedInboundTopicId) {
+      appliedFocusRef.current = messageFocus;
+      setIsFeedOpen(true);
+      setTimeout(
+        () =>
+          document
+            .querySelector(`[data-inbox-sequence="${messageFocus.sequenceNumber}"]`)
+            ?.scrollIntoView({ behavior: "smooth", block: "nearest" }),
+        0,
+      );
+    }
+  }, [connections, messageFocus, resolvedInboundTopicId]);
+
   const handleScrollToComposer = useCallback(() => {
     composerRef.current?.scrollIntoView({ behavior: "smooth", block: "start" });
   }, []);
@@ -443,32 +927,8 @@ export default function MessagesPage() {
     [pushToast, logger],
   );
 
-  const conversationTimeline = useMemo(() => {
-    return threadMessages
-      .slice()
-      .map((message) => {
-        const decoded = decodeMessageText(message.data ?? message.memo ?? "");
-        const timestampMs = consensusTimestampToMs(message.consensusTimestamp) ?? Date.now();
-        return {
-          id: `${message.consensusTimestamp}:${message.sequenceNumber}`,
-          text: decoded ?? message.data ?? message.memo ?? "",
-          timestampMs,
-          fromSelf: message.operator?.accountId === activeIdentity?.accountId,
-        };
-      })
-      .sort((a, b) => a.timestampMs - b.timestampMs);
-  }, [threadMessages, activeIdentity?.accountId]);
-
-  const threadEndRef = useRef<HTMLDivElement | null>(null);
-
-  useEffect(() => {
-    if (threadEndRef.current) {
-      threadEndRef.current.scrollIntoView({ behavior: "smooth", block: "end" });
-    }
-  }, [conversationTimeline.length, preferredConnectionId]);
-
   const sidebarDirectMessages = useMemo(() => {
-    return sidebarInboxEvents
+    return inboxFilter.allowed
       .filter((event) => event.kind === "direct-message")
       .sort(
         (a, b) =>
@@ -487,17 +947,17 @@ export default function MessagesPage() {
           },
         };
       });
-  }, [sidebarInboxEvents]);
+  }, [inboxFilter.allowed]);
 
   const handleAcceptRequest = useCallback(
-    async (event: ConnectionRequestEvent, contact: ResolvedContact) => {
+    async (event: ConnectionRequestEvent, contact: ResolvedContact): Promise<AcceptOutcome> => {
       if (!signer || !activeIdentity?.accountId || !resolvedInboundTopicId) {
         pushToast({
           title: "Missing signer",
           description: "Reconnect your wallet or activate an identity",
           variant: "error",
         });
-        return;
+        return { ok: false, error: "Missing signer" };
       }
       if (!resolvedOutboundTopicId) {
         pushToast({
@@ -505,7 +965,7 @@ export default function MessagesPage() {
           description: "Publish a profile for this identity before accepting",
           variant: "error",
         });
-        return;
+        return { ok: false, error: "Outbound topic required" };
       }
       if (!event.operator) {
         pushToast({
@@ -513,7 +973,7 @@ export default function MessagesPage() {
           description: "Missing operator metadata from requester",
           variant: "error",
         });
-        return;
+        return { ok: false, error: "Missing operator metadata from requester" };
       }
 
       setRequestStatuses((current) => ({
@@ -522,7 +982,16 @@ export default function MessagesPage() {
       }));
 
       try {
-        const connectionTopicId = await createConnectionTopic({
+        const pendingRecord: Omit<ConnectionRecord, "connectionTopicId"> = {
+          contactAccountId: event.operator.accountId,
+          contactAlias: contact.alias ?? event.requestorAlias,
+          contactDisplayName: contact.displayName ?? event.requestorDisplayName,
+          contactInboundTopicId: event.operator.inboundTopicId,
+          connectionId: event.sequenceNumber,
+          createdAt: new Date().toISOString(),
+          state: "pending-confirmation",
+        };
+        const { connectionTopicId, encryption } = await createConnectionTopic({
           signer,
           localAccountId: activeIdentity.accountId,
           localInboundTopicId: resolvedInboundTopicId,
@@ -532,19 +1001,18 @@ export default function MessagesPage() {
           requestSequenceNumber: event.sequenceNumber,
           requestorOutboundTopicId: event.requestorOutboundTopicId ?? undefined,
           memo: event.memo,
+          remoteEncryptionPublicKey: event.encryptionPublicKey,
+          onTopicCreated: (created) => handleConnectionCreated({ ...pendingRecord, ...created }),
         });
 
-        const record: ConnectionRecord = {
-          connectionTopicId,
-          contactAccountId: event.operator.accountId,
-          contactAlias: contact.alias ?? event.requestorAlias,
-          contactDisplayName: contact.displayName ?? event.requestorDisplayName,
-          contactInboundTopicId: event.operator.inboundTopicId,
-          connectionId: event.sequenceNumber,
-          createdAt: new Date().toISOString(),
-        };
-
-        handleConnectionCreated(record);
+        updateConnections((current) =>
+          current.map((item) =>
+            item.connectionTopicId === connectionTopicId &&
+            getConnectionState(item) === "pending-confirmation"
+              ? transitionConnection(item, { type: "confirmed", connectionTopicId, encryption })
+              : item,
+          ),
+        );
         setRequestStatuses((current) => ({
           ...current,
           [event.sequenceNumber]: { status: "accepted" },
@@ -555,6 +1023,7 @@ export default function MessagesPage() {
           description: connectionTopicId,
           variant: "success",
         });
+        return { ok: true, connectionTopicId };
       } catch (error) {
         const message = error instanceof Error ? error.message : "Failed to create connection";
         logger.error("messages:accept-request", error);
@@ -563,6 +1032,7 @@ export default function MessagesPage() {
           [event.sequenceNumber]: { status: "error", error: message },
         }));
         pushToast({ title: "Connection failed", description: message, variant: "error" });
+        return { ok: false, error: message };
       }
     },
     [
@@ -572,6 +1042,318 @@ export default function MessagesPage() {
       resolvedOutboundTopicId,
       pushToast,
       handleConnectionCreated,
+      updateConnections,
+      logger,
+    ],
+  );
+
+  const autoAcceptReady = Boolean(signer && resolvedInboundTopicId && resolvedOutboundTopicId);
+
+  useEffect(() => {
+    const accountId = connectionsStorageAccount;
+    if (
+      !accountId ||
+      !autoAcceptReady ||
+      !autoAccept.enabled ||
+      autoAccept.rules.length === 0 ||
+      autoAcceptRunningRef.current
+    ) {
+      return;
+    }
+    const handled = new Set(autoAcceptLog.map((entry) => entry.requestSequenceNumber));
+    const candidates = pendingRequests.filter((item) => {
+      const sequenceNumber = item.event.sequenceNumber;
+      return (
+        (requestStatuses[sequenceNumber]?.status ?? "idle") === "idle" &&
+        !handled.has(sequenceNumber) &&
+        !autoAcceptEvaluatedRef.current.has(sequenceNumber) &&
+        !connections.some(
+          (connection) =>
+            connection.connectionId === sequenceNumber &&
+            connection.contactAccountId === item.event.operator?.accountId,
+        )
+      );
+    });
+    if (candidates.length === 0) {
+      return;
+    }
+
+    autoAcceptRunningRef.current = true;
+    void (async () => {
+      let log = autoAcceptLog;
+      try {
+        for (const item of candidates) {
+          const evaluated = autoAcceptEvaluatedRef.current;
+          const rule = await matchAutoAcceptRule(item.event, autoAccept.rules, { floras, log });
+          if (evaluated !== autoAcceptEvaluatedRef.current) {
+            break;
+          }
+          evaluated.add(item.event.sequenceNumber);
+          if (!rule) {
+            continue;
+          }
+          const outcome = await handleAcceptRequest(item.event, item.contact);
+          const entry: AutoAcceptLogEntry = {
+            requestSequenceNumber: item.event.sequenceNumber,
+            accountId: item.contact.accountId,
+            rule: describeAutoAcceptRule(rule, floras),
+            timestamp: new Date().toISOString(),
+            ...(outcome.ok
+              ? { outcome: "accepted", connectionTopicId: outcome.connectionTopicId }
+              : { outcome: "failed", error: outcome.error }),
+          };
+          log = appendAutoAcceptLog(log, entry);
+          recordAutoAccept(accountId, entry);
+        }
+      } catch (error) {
+        logger.warn("messages:auto-accept", error);
+      } finally {
+        autoAcceptRunningRef.current = false;
+        setAutoAcceptPass((pass) => pass + 1);
+      }
+    })();
+  }, [
+    autoAccept,
+    autoAcceptLog,
+    autoAcceptPass,
+    autoAcceptReady,
+    connections,
+    connectionsStorageAccount,
+    floras,
+    handleAcceptRequest,
+    logger,
+    pendingRequests,
+    recordAutoAccept,
+    requestStatuses,
+  ]);
+
+  useEffect(() => {
+    florasRef.current = floras;
+  }, [floras]);
+
+  // Petal list refreshes hand back new arrays; key the poller on the inbox topics alone.
+  const petalAutoAcceptKey = useMemo(() => {
+    const targets: PetalAutoAcceptTarget[] = petals.flatMap((petal) =>
+      petal.accountId !== connectionsStorageAccount && petal.inboundTopicId && petal.outboundTopicId
+        ? [
+            {
+              accountId: petal.accountId,
+              inboundTopicId: petal.inboundTopicId,
+              outboundTopicId: petal.outboundTopicId,
+            },
+          ]
+        : [],
+    );
+    return JSON.stringify(targets);
+  }, [connectionsStorageAccount, petals]);
+
+  useEffect(() => {
+    const targets = JSON.parse(petalAutoAcceptKey) as PetalAutoAcceptTarget[];
+    if (!signer || targets.length === 0) {
+      return;
+    }
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const poll = async () => {
+      if (!autoAcceptRunningRef.current) {
+        autoAcceptRunningRef.current = true;
+        try {
+          for (const petal of targets) {
+            if (cancelled) {
+              break;
+            }
+            const evaluatedByPetal = petalAutoAcceptEvaluatedRef.current;
+            const evaluated = evaluatedByPetal.get(petal.accountId) ?? new Set<number>();
+            evaluatedByPetal.set(petal.accountId, evaluated);
+            try {
+              await autoAcceptForPetal(signer, petal, florasRef.current, evaluated);
+            } catch (error) {
+              logger.warn("messages:petal-auto-accept", error);
+            }
+          }
+        } finally {
+          autoAcceptRunningRef.current = false;
+          setAutoAcceptPass((pass) => pass + 1);
+        }
+      }
+      if (!cancelled) {
+        timer = setTimeout(poll, getMirrorSuggestedRefreshInterval());
+      }
+    };
+    void poll();
+
+    return () => {
+      cancelled = true;
+      if (timer) {
+        clearTimeout(timer);
+      }
+    };
+  }, [logger, petalAutoAcceptKey, signer]);
+
+  const handleCloseConnection = useCallback(
+    async (record: ConnectionRecord) => {
+      if (!signer || !activeIdentity?.accountId || !resolvedInboundTopicId) {
+        pushToast({
+          title: "Missing signer",
+          description: "Reconnect your wallet or activate an identity",
+          variant: "error",
+        });
+        return;
+      }
+      setClosingConnectionId(null);
+      setBusyConnectionId(record.connectionTopicId);
+      try {
+        await sendConnectionClose(
+          signer,
+          record.connectionTopicId,
+          { inboundTopicId: resolvedInboundTopicId, accountId: activeIdentity.accountId },
+          "Conversation closed",
+        );
+        updateConnections((current) =>
+          current.map((item) =>
+            item.connectionTopicId === record.connectionTopicId
+              ? transitionConnection(item, { type: "close-sent", reason: "Conversation closed" })
+              : item,
+          ),
+        );
+        pushToast({ title: "Connection closed", variant: "success" });
+      } catch (error) {
+        logger.error("messages:close-connection", error);
+        pushToast({
+          title: "Close failed",
+          description: error instanceof Error ? error.message : "Unknown error",
+          variant: "error",
+        });
+      } finally {
+        setBusyConnectionId(null);
+      }
+    },
+    [signer, activeIdentity, resolvedInboundTopicId, pushToast, updateConnections, logger],
+  );
+
+  const handleConnectionClosed = useCallback(
+    (topicId: string, message: ConnectionTopicMessage) => {
+      updateConnections((current) =>
+        current.map((item) => {
+          const state = getConnectionState(item);
+          if (
+            item.connectionTopicId !== topicId ||
+            (state !== "active" && state !== "pending-confirmation")
+          ) {
+            return item;
+          }
+          // The mirror payer, not the declared operator, says which side closed.
+          const bySelf = message.payerAccountId === activeIdentity?.accountId;
+          if (!bySelf && message.payerAccountId !== item.contactAccountId) {
+            return item;
+          }
+          return transitionConnection(item, {
+            type: bySelf ? "close-sent" : "close-received",
+            reason: message.reason,
+          });
+        }),
+      );
+    },
+    [activeIdentity?.accountId, updateConnections],
+  );
+
+  const handleArchiveConnection = useCallback(
+    (record: ConnectionRecord, archived: boolean) => {
+      updateConnections((current) =>
+        current.map((item) =>
+          item.connectionTopicId === record.connectionTopicId ? { ...item, archived } : item,
+        ),
+      );
+    },
+    [updateConnections],
+  );
+
+  const handleReopenConnection = useCallback(
+    async (record: ConnectionRecord) => {
+      if (
+        !signer ||
+        !activeIdentity?.accountId ||
+        !resolvedInboundTopicId ||
+        !resolvedOutboundTopicId
+      ) {
+        pushToast({
+          title: "Missing topics",
+          description: "Publish a profile with inbound and outbound topics to reopen chats",
+          variant: "error",
+        });
+        return;
+      }
+      setBusyConnectionId(record.connectionTopicId);
+      try {
+        const keyPair = record.encryption ? await generateConnectionKeyPair() : null;
+        const result = await sendConnectionRequest({
+          signer,
+          localAccountId: activeIdentity.accountId,
+          localInboundTopicId: resolvedInboundTopicId,
+          localOutboundTopicId: resolvedOutboundTopicId,
+          remoteAccountId: record.contactAccountId,
+          remoteInboundTopicId: record.contactInboundTopicId,
+          memo: "Reopening our conversation",
+          requestorAlias: resolvedAlias ?? undefined,
+          requestorDisplayName: resolvedDisplayName ?? undefined,
+          encryptionPublicKey: keyPair?.publicKey,
+        });
+        const sequenceNumber = result.requestSequenceNumber ?? 0;
+        if (keyPair) {
+          const pendingKeys = readAccountData<Record<string, string>>(
+            storageNamespaces.connectionKeys,
+            activeIdentity.accountId,
+            {},
+          );
+          pendingKeys[pendingHandshakeId(record.contactAccountId, sequenceNumber)] =
+            keyPair.privateKey;
+          writeAccountData(storageNamespaces.connectionKeys, activeIdentity.accountId, pendingKeys, {
+            ttlMs: 7 * 24 * 60 * 60 * 1000,
+          });
+        }
+        const requested: ConnectionRecord = {
+          connectionTopicId: requestedConnectionTopicId(record.contactAccountId, sequenceNumber),
+          contactAccountId: record.contactAccountId,
+          contactAlias: record.contactAlias,
+          contactDisplayName: record.contactDisplayName,
+          contactInboundTopicId: record.contactInboundTopicId,
+          connectionId: sequenceNumber,
+          createdAt: new Date().toISOString(),
+          state: "requested",
+        };
+        updateConnections((current) => [
+          requested,
+          ...current.map((item) =>
+            item.connectionTopicId === record.connectionTopicId ? { ...item, archived: true } : item,
+          ),
+        ]);
+        setPreferredConnectionId(requested.connectionTopicId);
+        pushToast({
+          title: "Request sent",
+          description: "The chat reopens once they accept",
+          variant: "success",
+        });
+      } catch (error) {
+        logger.error("messages:reopen-connection", error);
+        pushToast({
+          title: "Reopen failed",
+          description: error instanceof Error ? error.message : "Unknown error",
+          variant: "error",
+        });
+      } finally {
+        setBusyConnectionId(null);
+      }
+    },
+    [
+      signer,
+      activeIdentity,
+      resolvedInboundTopicId,
+      resolvedOutboundTopicId,
+      resolvedAlias,
+      resolvedDisplayName,
+      pushToast,
+      updateConnections,
       logger,
     ],
   );
@@ -580,6 +1362,9 @@ export default function MessagesPage() {
 
   return (
     <section className="space-y-6">
+      <Suspense fallback={null}>
+        <MessageLinkListener onTarget={setMessageFocus} />
+      </Suspense>
       <Card className="rounded-3xl p-6 shadow-lg backdrop-blur">
         <div className="flex flex-wrap items-center justify-between gap-4">
           <div>
@@ -685,6 +1470,9 @@ export default function MessagesPage() {
               placeholder="Search chats"
               className="mt-1 rounded-2xl px-4 py-2"
             />
+            <div className="mt-2">
+              <MessageSearch ownerAccountId={connectionsStorageAccount} />
+            </div>
           </div>
 
           <div className="min-h-[120px] overflow-hidden">
@@ -694,7 +1482,7 @@ export default function MessagesPage() {
                 onClick={() => setIsChatsOpen((prev) => !prev)}
                 className="flex items-center justify-between px-4 pt-3 text-xs font-semibold uppercase tracking-wide text-holNavy/60"
               >
-                <span>Chats</span>
+                <span>{showArchived ? "Archived chats" : "Chats"}</span>
                 <span className="flex items-center gap-2">
                   <span>{filteredConnections.length}</span>
                   <span aria-hidden="true" className={`transition ${isChatsOpen ? "rotate-0" : "-rotate-90"}`}>
@@ -702,6 +1490,24 @@ export default function MessagesPage() {
                   </span>
                 </span>
               </button>
+              {archivedCount > 0 || showArchived ? (
+                <button
+                  type="button"
+                  onClick={() => setShowArchived((prev) => !prev)}
+                  className="px-4 pt-1 text-left text-[11px] font-semibold text-holBlue hover:text-holPurple"
+                >
+                  {showArchived ? "Back to chats" : `Show archived (${archivedCount})`}
+                </button>
+              ) : null}
+              {unreadTotals.messages > 0 ? (
+                <button
+                  type="button"
+                  onClick={() => markAllRead(["inbox", "connection"])}
+                  className="px-4 pt-1 text-left text-[11px] font-semibold text-holBlue hover:text-holPurple"
+                >
+                  Mark all read ({unreadTotals.messages})
+                </button>
+              ) : null}
               <div
                 className={`mt-2 px-2 pb-4 transition-all duration-200 ${
                   isChatsOpen ? "max-h-[120px]" : "max-h-0"
@@ -712,7 +1518,9 @@ export default function MessagesPage() {
                     <p className="px-2 text-sm text-holNavy/60">
                       {connections.length === 0
                         ? "No channels yet. Accept a request or start a direct message."
-                        : "No chats match that filter."}
+                        : showArchived
+                          ? "No archived chats match that filter."
+                          : "No chats match that filter."}
                     </p>
                   ) : (
                     filteredConnections.map((connection) => {
@@ -720,6 +1528,8 @@ export default function MessagesPage() {
                         connection.contactDisplayName ??
                         (connection.contactAlias ? `@${connection.contactAlias}` : connection.contactAccountId);
                       const isActive = preferredConnectionId === connection.connectionTopicId;
+                      const state = getConnectionState(connection);
+                      const unread = isActive ? 0 : unreadCount(connection.connectionTopicId);
                       return (
                         <button
                           type="button"
@@ -741,9 +1551,31 @@ export default function MessagesPage() {
                               {label}
                             </p>
                             <p className={`text-xs ${isActive ? "text-white/80" : "text-holNavy/60"}`}>
-                              Topic {connection.connectionTopicId}
+                              {connection.encryption ? (
+                                <span aria-label="End-to-end encrypted">🔒 </span>
+                              ) : null}
+                              {state === "requested"
+                                ? "Waiting for them to accept"
+                                : `Topic ${connection.connectionTopicId}`}
                             </p>
+                            {state !== "active" ? (
+                              <p
+                                className={`text-[11px] font-semibold ${
+                                  isActive ? "text-white/80" : "text-holNavy/60"
+                                }`}
+                              >
+                                {CONNECTION_STATE_LABELS[state]}
+                              </p>
+                            ) : null}
                           </div>
+                          {unread > 0 ? (
+                            <span
+                              aria-label={`${unread} unread`}
+                              className="rounded-full bg-rose-500 px-2 py-0.5 text-[11px] font-semibold text-white"
+                            >
+                              {unread > 99 ? "99+" : unread}
+                            </span>
+                          ) : null}
                         </button>
                       );
                     })
@@ -789,7 +1621,14 @@ export default function MessagesPage() {
                           key={`sidebar-request-${item.event.sequenceNumber}`}
                           className="rounded-2xl border border-border bg-card px-3 py-2 text-sm text-foreground shadow-sm"
                         >
-                          <p className="font-semibold">{label}</p>
+                          <p className="flex items-center justify-between gap-2 font-semibold">
+                            {label}
+                            {isNewInboxEvent(item.event.sequenceNumber) ? (
+                              <span className="rounded-full bg-rose-500 px-2 py-0.5 text-[10px] font-semibold uppercase text-white">
+                                New
+                              </span>
+                            ) : null}
+                          </p>
                           {item.event.note ? (
                             <p className="mt-1 text-xs text-holNavy/60">“{item.event.note}”</p>
                           ) : null}
@@ -819,6 +1658,15 @@ export default function MessagesPage() {
                                 ? "Channel ready"
                                 : "Accept"}
                           </button>
+                          {item.event.operator?.accountId ? (
+                            <button
+                              type="button"
+                              onClick={() => handleBlockSender(item.event.operator!.accountId)}
+                              className="mt-1 w-full text-center text-[11px] font-semibold text-holNavy/60 hover:text-rose-600"
+                            >
+                              Block sender
+                            </button>
+                          ) : null}
                         </div>
                       );
                     })}
@@ -853,10 +1701,19 @@ export default function MessagesPage() {
                     {sidebarDirectMessages.map((event, index) => (
                       <li
                         key={`${event.kind}-${index}`}
-                        className="rounded-2xl border border-border bg-card px-3 py-2 shadow-sm"
+                        data-inbox-sequence={event.message.sequenceNumber}
+                        className={`rounded-2xl border border-border bg-card px-3 py-2 shadow-sm ${
+                          messageFocus?.topicId === resolvedInboundTopicId &&
+                          messageFocus?.sequenceNumber === event.message.sequenceNumber
+                            ? "ring-2 ring-amber-400"
+                            : ""
+                        }`}
                       >
                         <div className="flex items-center justify-between text-[11px] text-holNavy/60">
-                          <span className="font-semibold text-[var(--text-primary)]">
+                          <span className="flex items-center gap-1 font-semibold text-[var(--text-primary)]">
+                            {isNewInboxEvent(event.message.sequenceNumber) ? (
+                              <span aria-label="New" className="h-2 w-2 rounded-full bg-rose-500" />
+                            ) : null}
                             {event.message.from}
                           </span>
                           <time dateTime={event.message.consensusTimestamp}>
@@ -875,12 +1732,81 @@ export default function MessagesPage() {
                         ) : (
                           <p className="mt-1 text-xs text-holNavy/60">{event.kind}</p>
                         )}
+                        <button
+                          type="button"
+                          onClick={() =>
+                            handleBlockSender(event.message.payerAccountId ?? event.message.from)
+                          }
+                          className="mt-1 text-[11px] font-semibold text-holNavy/60 hover:text-rose-600"
+                        >
+                          Block sender
+                        </button>
                       </li>
                     ))}
                   </ul>
                 )
               ) : null}
             </div>
+
+            <div>
+              <button
+                type="button"
+                onClick={() => setIsBlockedOpen((prev) => !prev)}
+                className="flex w-full items-center justify-between text-xs font-semibold uppercase tracking-wide text-holNavy/60"
+              >
+                <span>Blocked</span>
+                <span className="flex items-center gap-2">
+                  <span className="rounded-full bg-holBlue/15 px-2 py-0.5 text-[var(--text-primary)]">
+                    {inboxFilter.blocked.length}
+                  </span>
+                  <span aria-hidden="true" className={`transition ${isBlockedOpen ? "rotate-0" : "-rotate-90"}`}>
+                    ▸
+                  </span>
+                </span>
+              </button>
+              {isBlockedOpen ? (
+                <InboxPolicyPanel
+                  policy={inboxPolicy}
+                  blocked={inboxFilter.blocked}
+                  onChange={(next) => updateInboxPolicy(() => next)}
+                  onAllowSender={(accountId) =>
+                    updateInboxPolicy((policy) => allowAccount(policy, accountId))
+                  }
+                />
+              ) : null}
+            </div>
+
+            <div>
+              <button
+                type="button"
+                onClick={() => setIsAutoAcceptOpen((prev) => !prev)}
+                className="flex w-full items-center justify-between text-xs font-semibold uppercase tracking-wide text-holNavy/60"
+              >
+                <span>Auto-accept</span>
+                <span className="flex items-center gap-2">
+                  <span className="rounded-full bg-holBlue/15 px-2 py-0.5 text-[var(--text-primary)]">
+                    {autoAccept.enabled ? autoAccept.rules.length : "off"}
+                  </span>
+                  <span aria-hidden="true" className={`transition ${isAutoAcceptOpen ? "rotate-0" : "-rotate-90"}`}>
+                    ▸
+                  </span>
+                </span>
+              </button>
+              {isAutoAcceptOpen ? (
+                <AutoAcceptPanel
+                  config={autoAccept}
+                  log={autoAcceptLog}
+                  floras={floras}
+                  signerReady={autoAcceptReady}
+                  onChange={updateAutoAccept}
+                  onClearLog={() => {
+                    if (connectionsStorageAccount) {
+                      recordAutoAccept(connectionsStorageAccount, null);
+                    }
+                  }}
+                />
+              ) : null}
+            </div>
           </div>
         </aside>
 
@@ -898,11 +1824,84 @@ export default function MessagesPage() {
                   : identityLabel}
               </h2>
               <p className="text-xs text-holNavy/60">
-                {activeConnection ? activeConnection.connectionTopicId : resolvedInboundTopicId ?? "No topic"}
+                {activeConnection
+                  ? activeState === "requested"
+                    ? `Connection request #${activeConnection.connectionId}`
+                    : activeConnection.connectionTopicId
+                  : resolvedInboundTopicId ?? "No topic"}
+                {activeState && activeState !== "active"
+                  ? ` · ${CONNECTION_STATE_LABELS[activeState]}`
+                  : ""}
               </p>
+              {activeConnection && activeState !== "requested" ? (
+                <p
+                  className={`mt-1 text-xs font-semibold ${
+                    activeConnection.encryption ? "text-emerald-600" : "text-holNavy/60"
+                  }`}
+                >
+                  {activeConnection.encryption
+                    ? "🔒 End-to-end encrypted"
+                    : "Not encrypted · messages are readable on the public topic"}
+                </p>
+              ) : null}
             </div>
             <div className="flex flex-wrap items-center gap-2 text-xs">
-              {activeConnection ? (
+              {activeConnection && (activeState === "active" || activeState === "pending-confirmation") ? (
+                closingConnectionId === activeConnection.connectionTopicId ? (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => void handleCloseConnection(activeConnection)}
+                      className="rounded-full bg-rose-600 px-3 py-1 font-semibold text-white hover:bg-rose-700"
+                    >
+                      Confirm close
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setClosingConnectionId(null)}
+                      className="rounded-full border border-holNavy/10 px-3 py-1 font-semibold text-holNavy/70 hover:border-holBlue/40 hover:text-holBlue"
+                    >
+                      Cancel
+                    </button>
+                  </>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => setClosingConnectionId(activeConnection.connectionTopicId)}
+                    disabled={busyConnectionId === activeConnection.connectionTopicId}
+                    className="rounded-full border border-holNavy/10 px-3 py-1 font-semibold text-rose-600 hover:border-rose-300 disabled:opacity-60"
+                  >
+                    {busyConnectionId === activeConnection.connectionTopicId
+                      ? "Closing…"
+                      : "Close connection"}
+                  </button>
+                )
+              ) : null}
+              {activeConnection && isConnectionClosed(activeConnection) ? (
+                <button
+                  type="button"
+                  onClick={() => void handleReopenConnection(activeConnection)}
+                  disabled={busyConnectionId === activeConnection.connectionTopicId}
+                  className="rounded-full border border-holNavy/10 px-3 py-1 font-semibold text-holNavy/70 hover:border-holBlue/40 hover:text-holBlue disabled:opacity-60"
+                >
+                  {busyConnectionId === activeConnection.connectionTopicId ? "Reopening…" : "Reopen"}
+                </button>
+              ) : null}
+              {activeConnection &&
+              (activeConnection.archived ||
+                activeState === "requested" ||
+                isConnectionClosed(activeConnection)) ? (
+                <button
+                  type="button"
+                  onClick={() =>
+                    handleArchiveConnection(activeConnection, !activeConnection.archived)
+                  }
+                  className="rounded-full border border-holNavy/10 px-3 py-1 font-semibold text-holNavy/70 hover:border-holBlue/40 hover:text-holBlue"
+                >
+                  {activeConnection.archived ? "Unarchive" : "Archive"}
+                </button>
+              ) : null}
+              {activeConnection && activeState !== "requested" ? (
                 <a
                   href={topicExplorerUrl(activeConnection.connectionTopicId)}
                   target="_blank"
@@ -923,63 +1922,38 @@ export default function MessagesPage() {
           </div>
 
           <div className="flex-1 overflow-hidden bg-muted">
-            {activeConnection ? (
-              <div className="flex h-full flex-col">
-                <div className="flex-1 overflow-y-auto px-6 py-6">
-                  <div className="flex min-h-full flex-col justify-end">
-                    {conversationTimeline.length === 0 ? (
-                      <div className="flex h-full flex-col items-center justify-center gap-3 text-center text-holNavy/60">
-                        <p className="text-lg font-semibold text-[var(--text-primary)]">No messages yet</p>
-                        <p className="max-w-sm text-sm text-holNavy/60">
-                          Start the conversation with{" "}
-                          {activeConnection.contactDisplayName ??
-                            activeConnection.contactAlias ??
-                            activeConnection.contactAccountId}
-                          .
-                        </p>
-                      </div>
-                    ) : (
-                      <>
-                        <ul className="space-y-4">
-                          {conversationTimeline.map((item) => (
-                            <li key={item.id} className={`flex ${item.fromSelf ? "justify-end" : "justify-start"}`}>
-                              <div
-                                className={`max-w-[75%] rounded-3xl px-4 py-2 text-sm shadow-sm ${
-                                  item.fromSelf
-                                    ? "rounded-br-sm bg-holBlue text-white"
-                                    : "rounded-bl-sm border border-border bg-card text-foreground"
-                                }`}
-                              >
-                                <p>
-                                  {item.text || (
-                                    <span className="text-xs italic opacity-80">(no payload provided)</span>
-                                  )}
-                                </p>
-                              <span
-                                className={`mt-1 block text-[11px] ${
-                                  item.fromSelf ? "text-white/80" : "text-holNavy/60"
-                                }`}
-                              >
-                                {new Date(item.timestampMs).toLocaleTimeString([], {
-                                  hour: "2-digit",
-                                  minute: "2-digit",
-                                })}
-                              </span>
-                              </div>
-                            </li>
-                          ))}
-                        </ul>
-                        <div ref={threadEndRef} />
-                      </>
-                    )}
-                  </div>
-                </div>
-                {isThreadLoading ? (
-                  <div className="border-t border-border bg-muted px-4 py-2 text-center text-xs text-muted-foreground">
-                    Loading thread…
-                  </div>
-                ) : null}
+            {activeConnection && activeState === "requested" ? (
+              <div className="flex h-full flex-col items-center justify-center gap-3 text-center text-holNavy/60">
+                <p className="text-lg font-semibold text-[var(--text-primary)]">Request sent</p>
+                <p className="max-w-sm text-sm text-holNavy/60">
+                  The chat opens once{" "}
+                  {activeConnection.contactDisplayName ??
+                    activeConnection.contactAlias ??
+                    activeConnection.contactAccountId}{" "}
+                  accepts your connection request.
+                </p>
               </div>
+            ) : activeConnection ? (
+              <ConnectionThread
+                key={activeConnection.connectionTopicId}
+                topicId={activeConnection.connectionTopicId}
+                accountId={activeIdentity?.accountId ?? null}
+                encryptionKey={activeConnection.encryption?.key}
+                signer={signer}
+                lastReadSequence={lastReadSequence(activeConnection.connectionTopicId)}
+                focusSequence={
+                  messageFocus?.topicId === activeConnection.connectionTopicId
+                    ? messageFocus.sequenceNumber
+                    : null
+                }
+                onRead={markRead}
+                onConnectionClosed={handleConnectionClosed}
+                contactName={
+                  activeConnection.contactDisplayName ??
+                  activeConnection.contactAlias ??
+                  activeConnection.contactAccountId
+                }
+              />
             ) : (
               <div className="flex h-full flex-col items-center justify-center gap-3 text-center text-holNavy/60">
                 <p className="text-lg font-semibold text-[var(--text-primary)]">Select a chat</p>
@@ -1000,6 +1974,7 @@ export default function MessagesPage() {
               senderAlias={resolvedAlias}
               senderDisplayName={resolvedDisplayName}
               preferredConnectionId={preferredConnectionId}
+              onConnectionRequested={handleConnectionRequested}
             />
           </div>
         </div>
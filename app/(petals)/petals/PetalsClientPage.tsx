@@ -1,29 +1,54 @@
 "use client";
 
-import { useCallback, useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { FormShell } from "@/components/forms/form-shell";
 import { PetalCreateForm, type CreatePetalValues } from "@/components/petals/PetalCreateForm";
 import { PetalList } from "@/components/petals/PetalList";
+import { TokenPortfolioPanel } from "@/components/petals/TokenPortfolioPanel";
+import {
+  PetalFundingPanel,
+  type PetalTransferDirection,
+} from "@/components/petals/PetalFundingPanel";
+import { PetalRetirePanel } from "@/components/petals/PetalRetirePanel";
+import { PetalBatchForm } from "@/components/petals/PetalBatchForm";
+import { PetalDetailPanel } from "@/components/petals/PetalDetailPanel";
 import { ProfileForm, type ProfileFormValues } from "@/components/profile/ProfileForm";
 import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
 import { AuthRequired } from "@/components/auth/auth-required";
 import { useWallet } from "@/providers/wallet-provider";
 import { useIdentity } from "@/providers/identity-provider";
 import { AccountId } from "@hashgraph/sdk";
 import {
+  checkPetalRetirement,
   createPetalAccount,
+  deletePetalAccount,
   fetchPetalRecord,
+  isPetalBalanceLow,
+  sweepPetalsToBase,
+  transferHbar,
   updatePetalMemo,
+  type PetalHistory,
   type PetalRecord,
 } from "@/lib/hedera/petals";
 import {
   createOrUpdateProfile,
+  publishRegistryTombstone,
   type ProfilePublishingEvent,
   type ProfilePublishingStep,
 } from "@/lib/hedera/profile";
 import { useTransactionFlow } from "@/providers/transaction-flow-provider";
 import { getSignerPublicKeyString } from "@/lib/hedera/keys";
 import { getLogger } from "@/lib/logger";
+import { sendConnectionClose } from "@/lib/hedera/messaging";
+import type { ConnectionRecord } from "@/lib/hedera/connections";
+import { readAccountData, storageNamespaces, writeAccountData } from "@/lib/storage";
+import {
+  createPetalBatch,
+  runPetalBatch,
+  type PetalBatch,
+  type PetalManifestRow,
+} from "@/lib/hedera/petal-manifest";
 
 export default function PetalsPage() {
   const logger = getLogger("petals-page");
@@ -43,13 +68,36 @@ export default function PetalsPage() {
     petals,
     addPetal,
     updatePetal,
+    updatePetals,
+    removePetal,
     activateIdentity,
     activeIdentity,
+    discoveringPetals,
+    rescanPetals,
   } = useIdentity();
   const { startFlow } = useTransactionFlow();
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
   const [selectedPetalId, setSelectedPetalId] = useState<string | null>(null);
   const [basePublicKey, setBasePublicKey] = useState<string | null>(null);
+  const [isSweeping, setIsSweeping] = useState(false);
+  const [batch, setBatch] = useState<PetalBatch | null>(null);
+  const [batchRunning, setBatchRunning] = useState(false);
+  const stopBatchRef = useRef(false);
+  const detailRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    setBatch(readAccountData<PetalBatch | null>(storageNamespaces.petalBatch, baseAccountId, null));
+  }, [baseAccountId]);
+
+  const persistBatch = useCallback(
+    (next: PetalBatch | null) => {
+      setBatch(next);
+      writeAccountData(storageNamespaces.petalBatch, baseAccountId, next, {
+        ttlMs: 7 * 24 * 60 * 60 * 1000,
+      });
+    },
+    [baseAccountId],
+  );
 
   useEffect(() => {
     let cancelled = false;
@@ -278,10 +326,355 @@ export default function PetalsPage() {
     }
   };
 
+  const lowBalancePetals = useMemo(() => petals.filter(isPetalBalanceLow), [petals]);
+
+  const handleTransfer = async (direction: PetalTransferDirection, amountHbar: number) => {
+    if (!selectedPetal) {
+      throw new Error("Select a petal to fund");
+    }
+    if (!signer || !baseAccountId) {
+      throw new Error("Connect your wallet before moving HBAR");
+    }
+    const label = selectedPetal.alias ?? selectedPetal.accountId;
+    await transferHbar({
+      signer,
+      payerAccountId: baseAccountId,
+      fromAccountId: direction === "top-up" ? baseAccountId : selectedPetal.accountId,
+      toAccountId: direction === "top-up" ? selectedPetal.accountId : baseAccountId,
+      amountHbar,
+      memo: direction === "top-up" ? `Top up petal ${label}` : `Withdraw from petal ${label}`,
+    });
+    const current = selectedPetal.balanceHbar ?? 0;
+    updatePetal(selectedPetal.accountId, {
+      balanceHbar:
+        direction === "top-up" ? current + amountHbar : Math.max(0, current - amountHbar),
+    });
+    setStatusMessage(
+      direction === "top-up"
+        ? `Sent ${amountHbar} ℏ to ${label}.`
+        : `Withdrew ${amountHbar} ℏ from ${label} to the base account.`,
+    );
+  };
+
+  const handleThresholdChange = (thresholdHbar: number) => {
+    if (!selectedPetal) {
+      return;
+    }
+    updatePetal(selectedPetal.accountId, { lowBalanceThresholdHbar: thresholdHbar });
+    setStatusMessage(
+      `Low balance warning for ${selectedPetal.alias ?? selectedPetal.accountId} set to ${thresholdHbar} ℏ.`,
+    );
+  };
+
+  const handleSweep = async () => {
+    if (!signer || !baseAccountId || petals.length === 0) {
+      return;
+    }
+    setStatusMessage(null);
+    setIsSweeping(true);
+    const flow = startFlow({
+      title: "Sweeping petals to base",
+      subtitle: baseAccountId,
+      steps: [{ id: "sweep", label: "Transfer petal balances" }],
+    });
+    try {
+      flow.activateStep("sweep");
+      const result = await sweepPetalsToBase({
+        signer,
+        baseAccountId,
+        petalAccountIds: petals.map((petal) => petal.accountId),
+      });
+      updatePetals(
+        Object.fromEntries(
+          Object.entries(result.balances).map(([accountId, balanceHbar]) => [
+            accountId,
+            { balanceHbar },
+          ]),
+        ),
+      );
+      flow.completeStep("sweep", `${result.transactionIds.length} transfer(s) submitted`);
+      flow.finish(`Swept ${result.sweptHbar.toFixed(2)} ℏ to ${baseAccountId}.`);
+      setStatusMessage(`Swept ${result.sweptHbar.toFixed(2)} ℏ from petals to the base account.`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unable to sweep petals";
+      flow.failStep("sweep", message);
+      logger.error("Failed to sweep petals", error);
+      setStatusMessage(message);
+    } finally {
+      setIsSweeping(false);
+    }
+  };
+
+  const runBatch = async (target: PetalBatch) => {
+    if (!signer || !baseAccountId || !basePublicKey) {
+      setStatusMessage("Connect your wallet before provisioning petals");
+      return;
+    }
+    setStatusMessage(null);
+    setBatchRunning(true);
+    stopBatchRef.current = false;
+    const flow = startFlow({
+      title: "Provisioning petals",
+      subtitle: `${target.rows.length} rows`,
+      steps: target.rows.map((row) => ({ id: row.alias, label: `@${row.alias}` })),
+    });
+    target.rows
+      .filter((row) => row.status === "done")
+      .forEach((row) => flow.skipStep(row.alias, "Already provisioned"));
+
+    let previous = target;
+    try {
+      const result = await runPetalBatch(target, {
+        shouldStop: () => stopBatchRef.current,
+        onUpdate: (next) => {
+          persistBatch(next);
+          next.rows.forEach((row, index) => {
+            if (row === previous.rows[index]) {
+              return;
+            }
+            if (row.status === "done") {
+              flow.completeStep(row.alias, row.accountId);
+            } else if (row.status === "created") {
+              flow.setStepProgress(row.alias, undefined, `Account ${row.accountId} created`);
+            } else if (row.status === "failed") {
+              flow.skipStep(row.alias, `Failed: ${row.error ?? "unknown error"}`);
+            }
+          });
+          previous = next;
+        },
+        createAccount: async (row) => {
+          flow.activateStep(row.alias, "Creating account");
+          const petalAccountId = await createPetalAccount({
+            signer,
+            baseAccountId,
+            basePublicKey,
+            alias: row.alias,
+            initialBalance: row.initialBalance,
+          });
+          return petalAccountId;
+        },
+        publishProfile: async (row, petalAccountId) => {
+          // Hydrated here rather than in createAccount so a mirror lookup
+          // failure keeps the new account ID on the row for resume.
+          addPetal(await fetchPetalRecord(petalAccountId, baseAccountId, row.alias));
+          flow.activateStep(row.alias, "Publishing profile");
+          const profile = await createOrUpdateProfile(
+            {
+              accountId: petalAccountId,
+              alias: row.alias,
+              displayName: row.displayName,
+              avatarUrl: row.avatarUrl,
+              bio: row.bio,
+            },
+            signer,
+            {
+              payerAccountId: baseAccountId,
+              network: walletNetwork,
+              onStep: (event) => {
+                if (event.type === "progress") {
+                  flow.setStepProgress(row.alias, event.progressPercent, event.message);
+                } else if (event.type === "start") {
+                  flow.activateStep(row.alias, event.message);
+                }
+              },
+            },
+          );
+          updatePetal(petalAccountId, {
+            displayName: row.displayName,
+            inboundTopicId: profile.inboundTopicId,
+            outboundTopicId: profile.outboundTopicId,
+            hasProfile: true,
+            profileReference: profile.profileReference,
+            profileTopicId: profile.profileTopicId,
+          });
+        },
+      });
+
+      const done = result.rows.filter((row) => row.status === "done").length;
+      const failed = result.rows.filter((row) => row.status === "failed").length;
+      const summary =
+        failed > 0
+          ? `${done}/${result.rows.length} petals provisioned; ${failed} failed and can be resumed.`
+          : `${done}/${result.rows.length} petals provisioned.`;
+      flow.finish(summary);
+      setStatusMessage(summary);
+    } catch (error) {
+      logger.error("Petal batch failed", error);
+      setStatusMessage(error instanceof Error ? error.message : "Petal batch failed");
+    } finally {
+      setBatchRunning(false);
+    }
+  };
+
+  const handleBatchStart = (rows: PetalManifestRow[]) => {
+    const existing = new Set(petals.map((petal) => petal.alias));
+    const next = createPetalBatch(rows.filter((row) => !existing.has(row.alias)));
+    if (next.rows.length < rows.length) {
+      setStatusMessage(
+        `Skipped ${rows.length - next.rows.length} row(s) whose alias already belongs to a petal.`,
+      );
+    }
+    if (next.rows.length === 0) {
+      return;
+    }
+    persistBatch(next);
+    void runBatch(next);
+  };
+
+  const selectedConnections = useMemo(
+    () =>
+      selectedPetal
+        ? readAccountData<ConnectionRecord[]>(
+            storageNamespaces.connections,
+            selectedPetal.accountId,
+            [],
+          )
+        : [],
+    [selectedPetal],
+  );
+
+  const handleRetire = async () => {
+    if (!selectedPetal) {
+      throw new Error("Select a petal to retire");
+    }
+    if (!signer || !baseAccountId) {
+      throw new Error("Connect your wallet before retiring a petal");
+    }
+    const petal = selectedPetal;
+    const label = petal.alias ?? petal.accountId;
+    setStatusMessage(null);
+    const flow = startFlow({
+      title: `Retiring ${label}`,
+      subtitle: petal.accountId,
+      steps: [
+        { id: "check", label: "Check account can be deleted" },
+        { id: "connections", label: "Close HCS-10 connections" },
+        { id: "registry", label: "Publish registry tombstone" },
+        { id: "delete", label: "Delete account and return balance" },
+      ],
+    });
+    let currentStep = "check";
+    try {
+      flow.activateStep("check");
+      const { alreadyDeleted } = await checkPetalRetirement(petal.accountId);
+      flow.completeStep("check", alreadyDeleted ? "Account already deleted" : undefined);
+
+      currentStep = "connections";
+      if (alreadyDeleted || selectedConnections.length === 0 || !petal.inboundTopicId) {
+        flow.skipStep(
+          "connections",
+          selectedConnections.length === 0 ? "No open connections" : "Petal can no longer pay",
+        );
+      } else {
+        flow.activateStep("connections");
+        const operator = { inboundTopicId: petal.inboundTopicId, accountId: petal.accountId };
+        let closed = 0;
+        for (const connection of selectedConnections) {
+          try {
+            await sendConnectionClose(
+              signer,
+              connection.connectionTopicId,
+              operator,
+              "Petal account retired",
+            );
+            closed += 1;
+          } catch (error) {
+            logger.warn("Failed to close connection", connection.connectionTopicId, error);
+          }
+          flow.setStepProgress(
+            "connections",
+            Math.round((closed / selectedConnections.length) * 100),
+            `${closed}/${selectedConnections.length} closed`,
+          );
+        }
+        flow.completeStep("connections", `${closed}/${selectedConnections.length} closed`);
+      }
+
+      currentStep = "registry";
+      if (petal.hasProfile) {
+        flow.activateStep("registry");
+        await publishRegistryTombstone({
+          signer,
+          accountId: petal.accountId,
+          alias: petal.alias,
+          payerAccountId: baseAccountId,
+          network: walletNetwork,
+        });
+        flow.completeStep("registry");
+      } else {
+        flow.skipStep("registry", "No registry profile");
+      }
+
+      currentStep = "delete";
+      if (alreadyDeleted) {
+        flow.skipStep("delete", "Account already deleted");
+      } else {
+        flow.activateStep("delete");
+        const transactionId = await deletePetalAccount({
+          signer,
+          baseAccountId,
+          petalAccountId: petal.accountId,
+        });
+        flow.completeStep("delete", transactionId);
+      }
+
+      writeAccountData(storageNamespaces.connections, petal.accountId, []);
+      removePetal(petal.accountId);
+      setSelectedPetalId(null);
+      flow.finish(`${label} retired.`);
+      setStatusMessage(`${label} retired and its balance returned to the base account.`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unable to retire petal";
+      flow.failStep(currentStep, message);
+      logger.error("Failed to retire petal", error);
+      throw error;
+    }
+  };
+
+  const handleRescan = async () => {
+    setStatusMessage(null);
+    try {
+      const added = await rescanPetals();
+      setStatusMessage(
+        added > 0
+          ? `Found ${added} new petal${added === 1 ? "" : "s"} on the network.`
+          : "No new petals found for this key.",
+      );
+    } catch (error) {
+      logger.error("Failed to rescan petals", error);
+      setStatusMessage(error instanceof Error ? error.message : "Unable to scan for petals");
+    }
+  };
+
+  const portfolioIdentities = useMemo(
+    () => [
+      ...(baseAccountId ? [{ accountId: baseAccountId, label: `Base · ${baseAccountId}` }] : []),
+      ...petals.map((petal) => ({
+        accountId: petal.accountId,
+        label: petal.alias ? `${petal.alias} · ${petal.accountId}` : petal.accountId,
+      })),
+    ],
+    [baseAccountId, petals],
+  );
+
   const handleManage = useCallback((accountId: string) => {
     setSelectedPetalId(accountId);
+    detailRef.current?.scrollIntoView({ behavior: "smooth", block: "start" });
   }, []);
 
+  const handlePetalHistory = useCallback(
+    (history: PetalHistory) => {
+      updatePetal(history.accountId, {
+        ...(history.createdAt ? { createdAt: history.createdAt } : {}),
+        createdTransactionId: history.createdTransactionId,
+        lastActivityAt: history.lastActivityAt,
+        verified: history.verification.verified,
+        verificationReason: history.verification.reason,
+      });
+    },
+    [updatePetal],
+  );
+
   return (
     <section className="space-y-8">
       <Card className="space-y-3 rounded-3xl p-6 shadow-lg backdrop-blur">
@@ -300,11 +693,42 @@ export default function PetalsPage() {
         {statusMessage ? (
           <p className="text-sm text-brand-green">{statusMessage}</p>
         ) : null}
+        {lowBalancePetals.length > 0 ? (
+          <p className="text-sm text-amber-600">
+            {lowBalancePetals.length === 1
+              ? `${lowBalancePetals[0].alias ?? lowBalancePetals[0].accountId} is`
+              : `${lowBalancePetals.length} petals are`}{" "}
+            below the low balance warning and may be unable to pay for messaging or profile
+            publishing.
+          </p>
+        ) : null}
       </Card>
       <div className="grid gap-6 lg:grid-cols-[minmax(0,3fr)_minmax(0,2fr)]">
         <FormShell
           title="Petal Directory"
           description="Each petal appears with balance, memo, and active status."
+          actions={
+            <>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => void handleSweep()}
+                disabled={!signer || isSweeping || petals.length === 0}
+                className="rounded-full"
+              >
+                {isSweeping ? "Sweeping…" : "Sweep all to base"}
+              </Button>
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={() => void handleRescan()}
+                disabled={!signer || discoveringPetals}
+                className="rounded-full"
+              >
+                {discoveringPetals ? "Scanning…" : "Rescan petals"}
+              </Button>
+            </>
+          }
         >
           <PetalList
             petals={petals}
@@ -315,6 +739,21 @@ export default function PetalsPage() {
           />
         </FormShell>
         <div className="space-y-6">
+          {selectedPetal && baseAccountId ? (
+            <div ref={detailRef} className="scroll-mt-6">
+              <FormShell
+                title="Petal Details"
+                description="Ledger history for this petal from the mirror node."
+              >
+                <PetalDetailPanel
+                  key={selectedPetal.accountId}
+                  petal={selectedPetal}
+                  baseAccountId={baseAccountId}
+                  onHistory={handlePetalHistory}
+                />
+              </FormShell>
+            </div>
+          ) : null}
           <FormShell
           title="Creation Workflow"
           description="Seed new accounts, configure memos, and link profiles."
@@ -331,6 +770,34 @@ export default function PetalsPage() {
             />
           </AuthRequired>
         </FormShell>
+          {selectedPetal ? (
+            <FormShell
+              title="Petal Funding"
+              description="Move HBAR between the base account and this petal. The base account pays the fees."
+            >
+              <PetalFundingPanel
+                key={selectedPetal.accountId}
+                petal={selectedPetal}
+                disabled={!signer || !baseAccountId}
+                onTransfer={handleTransfer}
+                onThresholdChange={handleThresholdChange}
+              />
+            </FormShell>
+          ) : null}
+          {selectedPetal ? (
+            <FormShell
+              title="Retire Petal"
+              description="Permanently delete this petal once it is no longer needed."
+            >
+              <PetalRetirePanel
+                key={selectedPetal.accountId}
+                petal={selectedPetal}
+                connectionCount={selectedConnections.length}
+                disabled={!signer || !baseAccountId}
+                onRetire={handleRetire}
+              />
+            </FormShell>
+          ) : null}
           <FormShell
             title="Petal Profile"
             description="Reuse the profile workflow to register this petal's identity."
@@ -358,6 +825,38 @@ export default function PetalsPage() {
           </FormShell>
         </div>
       </div>
+      <FormShell
+        title="Batch Provisioning"
+        description="Create many petals from a CSV or JSON manifest and publish a profile for each. Unfinished rows can be resumed later."
+      >
+        <AuthRequired
+          enabled={Boolean(signer && baseAccountId && basePublicKey)}
+          title="Wallet required"
+          description="Connect your wallet to provision petals in bulk."
+        >
+          <PetalBatchForm
+            batch={batch}
+            running={batchRunning}
+            disabled={!signer || !baseAccountId || !basePublicKey || batchRunning}
+            onStart={handleBatchStart}
+            onResume={() => batch && void runBatch(batch)}
+            onStop={() => {
+              stopBatchRef.current = true;
+            }}
+            onClear={() => persistBatch(null)}
+          />
+        </AuthRequired>
+      </FormShell>
+      <FormShell
+        title="Token Portfolio"
+        description="Fungible balances and NFTs held by each identity, with token association controls."
+      >
+        <TokenPortfolioPanel
+          identities={portfolioIdentities}
+          signer={signer}
+          network={walletNetwork}
+        />
+      </FormShell>
     </section>
   );
 }
@@ -2,7 +2,11 @@
 
 import { useCallback, useEffect, useMemo, useRef, useState, type ReactNode } from "react";
 import { FormShell } from "@/components/forms/form-shell";
-import { ProfileForm, type ProfileFormValues } from "@/components/profile/ProfileForm";
+import {
+  ProfileForm,
+  type ProfileFormValues,
+  type ProfileSubmitOptions,
+} from "@/components/profile/ProfileForm";
 import { TopicMessageList } from "@/components/topics/topic-message-list";
 import { topicExplorerUrl, tryGetTopicId } from "@/config/topics";
 import { env, isDebug } from "@/config/env";
@@ -364,7 +368,7 @@ export default function ProfilePage() {
 
   const canViewProfile = Boolean(profileReference);
 
-  const handleSubmit = async (values: ProfileFormValues) => {
+  const handleSubmit = async (values: ProfileFormValues, options: ProfileSubmitOptions) => {
     if (!signer || !accountId) {
       throw new Error("Connect a wallet before publishing a profile.");
     }
@@ -424,7 +428,14 @@ export default function ProfilePage() {
           profileTopicId: lastProfileTopicId,
         },
         signer,
-        { payerAccountId: accountId, onStep: handleEvent, network: walletNetwork },
+        {
+          payerAccountId: accountId,
+          onStep: handleEvent,
+          network: walletNetwork,
+          inboundFee: options.inboundFee
+            ? { ...options.inboundFee, collectorAccountId: accountId }
+            : undefined,
+        },
       );
 
       setLastInboundTopicId(result.inboundTopicId);
@@ -607,6 +618,7 @@ export default function ProfilePage() {
               disabled={!signer || topicsBootstrapping || !topicsReady}
               signer={signer}
               network={walletNetwork}
+              allowInboundFee={!lastInboundTopicId}
               disabledMessage={
                 !signer
                   ? "Connect your wallet to publish or update a profile."
@@ -4,6 +4,7 @@ import type { ReactNode } from "react";
 import { WalletProvider } from "@/providers/wallet-provider";
 import { IdentityProvider } from "@/providers/identity-provider";
 import { FloraProvider } from "@/providers/flora-provider";
+import { ReadStateProvider } from "@/providers/read-state-provider";
 import { DebugProvider } from "@/providers/debug-provider";
 import { ToastProvider } from "@/providers/toast-provider";
 import { TransactionFlowProvider } from "@/providers/transaction-flow-provider";
@@ -13,11 +14,13 @@ export function AppProviders({ children }: { children: ReactNode }) {
     <WalletProvider>
       <IdentityProvider>
         <FloraProvider>
-          <DebugProvider>
-            <ToastProvider>
-              <TransactionFlowProvider>{children}</TransactionFlowProvider>
-            </ToastProvider>
-          </DebugProvider>
+          <ReadStateProvider>
+            <DebugProvider>
+              <ToastProvider>
+                <TransactionFlowProvider>{children}</TransactionFlowProvider>
+              </ToastProvider>
+            </DebugProvider>
+          </ReadStateProvider>
         </FloraProvider>
       </IdentityProvider>
     </WalletProvider>
@@ -1,45 +1,116 @@
 "use client";
 
 import { Buffer } from "buffer";
-import { useCallback, useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
   fetchTopicMessages,
+  getMirrorSuggestedRefreshInterval,
   subscribeTopicWebsocket,
   type MirrorTopicMessage,
 } from "@/lib/hedera/mirror";
 import {
+  proposeFloraScheduledTransaction,
+  scheduleFloraDissolution,
+  scheduleFloraKeyRotation,
   sendFloraChat,
+  sendFloraDissolved,
+  sendFloraMemberRemoved,
   sendFloraProposal,
   sendFloraStateUpdate,
   sendFloraVote,
   type FloraChatMessage,
+  type FloraCreateRequestPayload,
+  type FloraMembershipAction,
   type FloraProposalMessage,
   type FloraStateMessage,
   type FloraVoteMessage,
 } from "@/lib/hedera/flora";
-import type { FloraRecord } from "@/providers/flora-provider";
+import {
+  fetchScheduleStatuses,
+  type ScheduledAction,
+  type ScheduleStatus,
+} from "@/lib/hedera/schedules";
+import {
+  collectMembershipScheduleIds,
+  defaultFloraThreshold,
+  isFloraDissolved,
+  isFloraJoinAccepted,
+  isFloraMemberRemoved,
+  resolveFloraMembership,
+  scaleFloraThreshold,
+  tallyFloraJoinRequests,
+  tallyFloraProposals,
+  type ProposalTally,
+  type TallyInputMessage,
+} from "@/lib/hedera/flora-tally";
+import {
+  computeFloraStateHash,
+  verifyFloraStateHash,
+  type FloraStateInput,
+  type StateHashVerification,
+} from "@/lib/hedera/state-hash";
+import {
+  isFloraArchived,
+  type FloraMembershipChange,
+  type FloraRecord,
+} from "@/providers/flora-provider";
+import { ProposalTallyCard } from "@/components/flora/ProposalTallyCard";
+import { FloraJoinRequests } from "@/components/flora/FloraJoinRequests";
+import { ScheduledProposalStatus } from "@/components/flora/ScheduledProposalStatus";
 import { isDebug } from "@/config/env";
 import { useDebug } from "@/providers/debug-provider";
+import { useReadState } from "@/providers/read-state-provider";
+import { useWallet } from "@/providers/wallet-provider";
+import { indexMessages, type IndexedMessage, type MessageLinkTarget } from "@/lib/message-index";
 import { AuthRequired } from "@/components/auth/auth-required";
 import { getLogger } from "@/lib/logger";
 import type { DAppSigner } from "@/lib/hedera/wallet-types";
 
 const MAX_EVENTS = 200;
 
+const VOTING_WINDOWS: Array<{ label: string; hours: number | null }> = [
+  { label: "No deadline", hours: null },
+  { label: "24 hours", hours: 24 },
+  { label: "3 days", hours: 72 },
+  { label: "7 days", hours: 168 },
+];
+
 type FloraDashboardProps = {
   flora: FloraRecord | null;
   signer: DAppSigner | null;
   accountId: string | null;
   muted: boolean;
   onToggleMute: (floraId: string) => void;
+  onMembershipChange: (floraId: string, change: FloraMembershipChange) => void;
+  /** Chat message or proposal to scroll to and highlight. */
+  focus?: MessageLinkTarget | null;
 };
 
+type ProposalKind = "text" | ScheduledAction["kind"] | FloraMembershipAction["kind"];
+
 type FloraEvent = {
   id: string;
   payload: unknown;
   timestamp: string;
+  sequenceNumber: number;
+  payerAccountId?: string;
 };
 
+const MEMBERSHIP_MESSAGE_TYPES = new Set(["flora_join_request", "flora_join_vote"]);
+
+function toTallyInput(events: FloraEvent[]): TallyInputMessage[] {
+  return events.map((event) => ({
+    payload: event.payload,
+    consensusTimestamp: event.timestamp,
+    payerAccountId: event.payerAccountId,
+  }));
+}
+
+function isFloraCreateAnnouncement(payload: unknown): payload is FloraCreateRequestPayload {
+  const candidate = payload as Partial<FloraCreateRequestPayload> | null;
+  return candidate?.type === "flora_create_request" && Boolean(candidate.flora?.initiator);
+}
+
 function decodeMessage(message: MirrorTopicMessage) {
   if (!message.message) {
     return null;
@@ -56,22 +127,75 @@ function decodeMessage(message: MirrorTopicMessage) {
   }
 }
 
-export function FloraDashboard({ flora, signer, accountId, muted, onToggleMute }: FloraDashboardProps) {
+function StateHashBadge({ status }: { status: StateHashVerification | null }) {
+  if (status === "verified") {
+    return (
+      <span className="rounded-full bg-emerald-100 px-2 py-0.5 font-semibold text-emerald-800">
+        Verified
+      </span>
+    );
+  }
+  if (status === "mismatch") {
+    return (
+      <span className="rounded-full bg-rose-100 px-2 py-0.5 font-semibold text-rose-700">
+        Hash mismatch
+      </span>
+    );
+  }
+  if (status === "unverifiable") {
+    return (
+      <span className="rounded-full bg-slate-100 px-2 py-0.5 font-semibold text-slate-600">
+        Unverifiable
+      </span>
+    );
+  }
+  return <span className="text-holNavy/50">Verifying…</span>;
+}
+
+export function FloraDashboard({
+  flora,
+  signer,
+  accountId,
+  muted,
+  onToggleMute,
+  onMembershipChange,
+  focus = null,
+}: FloraDashboardProps) {
   const logger = getLogger("flora-dashboard");
   const [commEvents, setCommEvents] = useState<FloraEvent[]>([]);
   const [txEvents, setTxEvents] = useState<FloraEvent[]>([]);
   const [stateEvents, setStateEvents] = useState<FloraEvent[]>([]);
   const [chatMessage, setChatMessage] = useState("");
   const [proposalText, setProposalText] = useState("");
-  const [proposalId, setProposalId] = useState("");
+  const [proposalKind, setProposalKind] = useState<ProposalKind>("text");
+  const [proposalTarget, setProposalTarget] = useState("");
+  const [proposalAmount, setProposalAmount] = useState("");
+  const [proposalTokenId, setProposalTokenId] = useState("");
+  const [proposalMemo, setProposalMemo] = useState("");
+  const [proposalAssociations, setProposalAssociations] = useState("");
+  const [proposalMemberId, setProposalMemberId] = useState("");
+  const [proposalBeneficiary, setProposalBeneficiary] = useState("");
+  const [applyingProposalId, setApplyingProposalId] = useState<string | null>(null);
+  const [proposalError, setProposalError] = useState<string | null>(null);
+  const [proposalSubmitting, setProposalSubmitting] = useState(false);
   const [stateSummary, setStateSummary] = useState("");
-  const [voteProposalId, setVoteProposalId] = useState("");
-  const [voteChoice, setVoteChoice] = useState<"yes" | "no">("yes");
+  const [votingWindowHours, setVotingWindowHours] = useState<number | null>(null);
+  const [stateVerifications, setStateVerifications] = useState<
+    Record<string, StateHashVerification>
+  >({});
+  const [scheduleStatuses, setScheduleStatuses] = useState<Record<string, ScheduleStatus | null>>(
+    {},
+  );
+  const verificationRequests = useRef(new Set<string>());
+  const indexedEvents = useRef(new Set<string>());
+  const scrolledFocus = useRef<string | null>(null);
 
   const communicationTopic = flora?.topics.communication ?? null;
   const transactionTopic = flora?.topics.transaction ?? null;
   const stateTopic = flora?.topics.state ?? null;
   const { debugMode } = useDebug();
+  const { markRead } = useReadState();
+  const { network } = useWallet();
   const memberNames = useMemo(() => {
     if (!flora) return {} as Record<string, string>;
     return flora.members.reduce<Record<string, string>>((acc, member) => {
@@ -80,6 +204,150 @@ export function FloraDashboard({ flora, signer, accountId, muted, onToggleMute }
     }, {});
   }, [flora]);
 
+  const tally = useMemo(
+    () =>
+      tallyFloraProposals(toTallyInput(txEvents), {
+        members: flora?.members.map((member) => member.accountId) ?? [],
+        threshold: flora?.threshold,
+      }),
+    [flora, txEvents],
+  );
+
+  const joinTally = useMemo(
+    () =>
+      tallyFloraJoinRequests(toTallyInput([...commEvents, ...stateEvents]), {
+        members: flora?.members.map((member) => member.accountId) ?? [],
+        threshold: flora?.threshold,
+      }),
+    [commEvents, flora, stateEvents],
+  );
+
+  const announcement = useMemo(
+    () =>
+      [...commEvents]
+        .reverse()
+        .map((event) => event.payload)
+        .find(isFloraCreateAnnouncement) ?? null,
+    [commEvents],
+  );
+
+  const foundingMembership = useMemo(() => {
+    if (!announcement) {
+      return null;
+    }
+    const members = [
+      announcement.flora.initiator.accountId,
+      ...announcement.flora.members.map((member) => member.accountId),
+    ];
+    return {
+      members,
+      threshold: announcement.flora.threshold ?? defaultFloraThreshold(members.length),
+    };
+  }, [announcement]);
+
+  const appliedProposalIds = useMemo(
+    () =>
+      new Set(
+        stateEvents
+          .map((event) => event.payload)
+          .filter((payload) => isFloraMemberRemoved(payload) || isFloraDissolved(payload))
+          .map((payload) => (payload as { proposalId: string }).proposalId),
+      ),
+    [stateEvents],
+  );
+
+  const floraId = flora?.id ?? null;
+
+  const membershipScheduleIds = useMemo(
+    () => collectMembershipScheduleIds(toTallyInput(stateEvents)),
+    [stateEvents],
+  );
+
+  const executedScheduleIds = useMemo(
+    () =>
+      new Set(
+        Object.entries(scheduleStatuses)
+          .filter(([, status]) => status === "executed")
+          .map(([scheduleId]) => scheduleId),
+      ),
+    [scheduleStatuses],
+  );
+
+  useEffect(() => {
+    const unresolved = membershipScheduleIds.filter(
+      (scheduleId) => (scheduleStatuses[scheduleId] ?? "pending") === "pending",
+    );
+    if (unresolved.length === 0) {
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(
+      () => {
+        fetchScheduleStatuses(unresolved, network)
+          .then((statuses) => {
+            if (!cancelled) {
+              setScheduleStatuses((current) => ({ ...current, ...Object.fromEntries(statuses) }));
+            }
+          })
+          .catch((error) => logger.warn("Failed to load membership schedules", error));
+      },
+      unresolved.some((scheduleId) => !(scheduleId in scheduleStatuses))
+        ? 0
+        : getMirrorSuggestedRefreshInterval(),
+    );
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [logger, membershipScheduleIds, network, scheduleStatuses]);
+
+  const floraHistory = useMemo(
+    () => toTallyInput([...commEvents, ...txEvents, ...stateEvents]),
+    [commEvents, stateEvents, txEvents],
+  );
+
+  useEffect(() => {
+    if (!floraId || !foundingMembership) {
+      return;
+    }
+    const stateMessages = toTallyInput(stateEvents);
+    const membership = resolveFloraMembership(floraHistory, foundingMembership, {
+      executedScheduleIds,
+    });
+    if (!membership) {
+      return;
+    }
+    const aliases = stateMessages.reduce<Record<string, string | undefined>>((acc, message) => {
+      if (isFloraJoinAccepted(message.payload)) {
+        acc[message.payload.candidateAccountId] = message.payload.candidateAlias;
+      }
+      return acc;
+    }, {});
+    onMembershipChange(floraId, {
+      members: membership.members,
+      threshold: membership.threshold,
+      aliases,
+      dissolved: membership.dissolved,
+    });
+  }, [executedScheduleIds, floraHistory, floraId, foundingMembership, onMembershipChange, stateEvents]);
+
+  const floraAccountId = flora?.accountId ?? null;
+  const floraThreshold = flora?.threshold;
+  const memberIdsKey = flora?.members.map((member) => member.accountId).join(",") ?? "";
+
+  const stateHashInput = useMemo<FloraStateInput | null>(() => {
+    if (!floraAccountId || !communicationTopic || !transactionTopic || !stateTopic) {
+      return null;
+    }
+    const memberAccountIds = memberIdsKey ? memberIdsKey.split(",") : [];
+    return {
+      accountId: floraAccountId,
+      threshold: floraThreshold ?? defaultFloraThreshold(memberAccountIds.length),
+      memberAccountIds,
+      topicIds: [communicationTopic, transactionTopic, stateTopic],
+    };
+  }, [communicationTopic, floraAccountId, floraThreshold, memberIdsKey, stateTopic, transactionTopic]);
+
   const subscribe = useCallback(
     (topicId: string | null, setter: React.Dispatch<React.SetStateAction<FloraEvent[]>>) => {
       if (!topicId) {
@@ -96,6 +364,8 @@ export function FloraDashboard({ flora, signer, accountId, muted, onToggleMute }
               payload: decodeMessage(message),
               timestamp: message.consensusTimestamp,
               id: `${message.consensusTimestamp}:${message.sequenceNumber}`,
+              sequenceNumber: message.sequenceNumber,
+              payerAccountId: message.payer_account_id,
             }))
             .filter((item) => item.payload !== null) as FloraEvent[];
           setter(events.reverse());
@@ -117,6 +387,8 @@ export function FloraDashboard({ flora, signer, accountId, muted, onToggleMute }
               id: `${message.consensusTimestamp}:${message.sequenceNumber}`,
               payload,
               timestamp: message.consensusTimestamp,
+              sequenceNumber: message.sequenceNumber,
+              payerAccountId: message.payer_account_id,
             },
             ...current,
           ];
@@ -133,9 +405,126 @@ export function FloraDashboard({ flora, signer, accountId, muted, onToggleMute }
   );
 
   useEffect(() => subscribe(communicationTopic, setCommEvents), [communicationTopic, subscribe]);
+
+  useEffect(() => {
+    if (!communicationTopic || commEvents.length === 0) {
+      return;
+    }
+    markRead(communicationTopic, Math.max(...commEvents.map((event) => event.sequenceNumber)));
+  }, [commEvents, communicationTopic, markRead]);
+
+  useEffect(() => {
+    if (!flora || !accountId || !communicationTopic || !transactionTopic) {
+      return;
+    }
+    const toIndex = (topicId: string, event: FloraEvent): IndexedMessage | null => {
+      const payload = event.payload as FloraChatMessage | FloraProposalMessage | null;
+      const text =
+        payload?.type === "flora_chat"
+          ? payload.content
+          : payload?.type === "flora_proposal"
+            ? payload.text
+            : undefined;
+      if (
+        !payload ||
+        typeof text !== "string" ||
+        indexedEvents.current.has(`${topicId}:${event.sequenceNumber}`)
+      ) {
+        return null;
+      }
+      return {
+        ownerAccountId: accountId,
+        source: "flora",
+        topicId,
+        sequenceNumber: event.sequenceNumber,
+        consensusTimestamp: event.timestamp,
+        sender: memberNames[payload.from] ?? payload.from,
+        conversation: payload.type === "flora_proposal" ? `${flora.name} · proposals` : flora.name,
+        text,
+        floraId: flora.id,
+      };
+    };
+    const pending = [
+      ...commEvents.map((event) => toIndex(communicationTopic, event)),
+      ...txEvents.map((event) => toIndex(transactionTopic, event)),
+    ].filter((message): message is IndexedMessage => message !== null);
+    if (pending.length === 0) {
+      return;
+    }
+    const keys = pending.map((message) => `${message.topicId}:${message.sequenceNumber}`);
+    keys.forEach((key) => indexedEvents.current.add(key));
+    indexMessages(pending).catch((error) => {
+      keys.forEach((key) => indexedEvents.current.delete(key));
+      logger.warn("Failed to index flora messages", error);
+    });
+  }, [accountId, commEvents, communicationTopic, flora, logger, memberNames, transactionTopic, txEvents]);
+
+  const focusedProposalId = useMemo(() => {
+    if (!focus || focus.topicId !== transactionTopic) {
+      return null;
+    }
+    const event = txEvents.find((item) => item.sequenceNumber === focus.sequenceNumber);
+    return (event?.payload as Partial<FloraProposalMessage> | null)?.proposalId ?? null;
+  }, [focus, transactionTopic, txEvents]);
+
+  const focusSelector =
+    focus && focus.topicId === communicationTopic
+      ? `[data-flora-sequence="${focus.sequenceNumber}"]`
+      : focusedProposalId
+        ? `[data-proposal-id="${CSS.escape(focusedProposalId)}"]`
+        : null;
+
+  useEffect(() => {
+    if (!focusSelector || scrolledFocus.current === focusSelector) {
+      return;
+    }
+    const element = document.querySelector(focusSelector);
+    if (element) {
+      scrolledFocus.current = focusSelector;
+      element.scrollIntoView({ behavior: "smooth", block: "nearest" });
+    }
+  }, [commEvents, focusSelector, txEvents]);
+
   useEffect(() => subscribe(transactionTopic, setTxEvents), [transactionTopic, subscribe]);
   useEffect(() => subscribe(stateTopic, setStateEvents), [stateTopic, subscribe]);
 
+  useEffect(() => {
+    verificationRequests.current.clear();
+    setStateVerifications({});
+  }, [floraAccountId, stateTopic]);
+
+  useEffect(() => {
+    if (!stateHashInput) {
+      return;
+    }
+    for (const event of stateEvents) {
+      const payload = event.payload as FloraStateMessage;
+      if (!payload?.stateHash) {
+        continue;
+      }
+      // Each post is checked against the roster in force when it was published.
+      const roster = foundingMembership
+        ? (resolveFloraMembership(floraHistory, foundingMembership, {
+            executedScheduleIds,
+            asOf: event.timestamp,
+          }) ?? foundingMembership)
+        : null;
+      const input: FloraStateInput = {
+        ...stateHashInput,
+        ...(roster ? { memberAccountIds: roster.members, threshold: roster.threshold } : {}),
+        ...(payload.stateHashTopics?.length ? { topicIds: payload.stateHashTopics } : {}),
+      };
+      const requestKey = `${event.id}|${input.memberAccountIds.join(",")}|${input.threshold}`;
+      if (verificationRequests.current.has(requestKey)) {
+        continue;
+      }
+      verificationRequests.current.add(requestKey);
+      void verifyFloraStateHash(input, payload.stateHash, event.timestamp).then((result) => {
+        setStateVerifications((current) => ({ ...current, [event.id]: result }));
+      });
+    }
+  }, [executedScheduleIds, floraHistory, foundingMembership, stateEvents, stateHashInput]);
+
   if (!flora) {
     return (
       <div className="rounded-lg border border-dashed border-slate-300 bg-slate-50 p-6 text-sm text-slate-500">
@@ -144,7 +533,8 @@ export function FloraDashboard({ flora, signer, accountId, muted, onToggleMute }
     );
   }
 
-  const canInteract = Boolean(signer && accountId);
+  const archived = isFloraArchived(flora);
+  const canInteract = Boolean(signer && accountId) && !archived;
 
   async function handleSendChat(event: React.FormEvent) {
     event.preventDefault();
@@ -161,37 +551,205 @@ export function FloraDashboard({ flora, signer, accountId, muted, onToggleMute }
     setChatMessage("");
   }
 
+  function buildProposalAction(): ScheduledAction | null {
+    switch (proposalKind) {
+      case "hbar_transfer":
+        return {
+          kind: "hbar_transfer",
+          toAccountId: proposalTarget.trim(),
+          amountHbar: Number(proposalAmount),
+        };
+      case "token_transfer":
+        return {
+          kind: "token_transfer",
+          tokenId: proposalTokenId.trim(),
+          toAccountId: proposalTarget.trim(),
+          amount: Number(proposalAmount),
+        };
+      case "account_update":
+        return {
+          kind: "account_update",
+          memo: proposalMemo.trim() ? proposalMemo.trim() : undefined,
+          maxAutomaticTokenAssociations: proposalAssociations.trim()
+            ? Number(proposalAssociations)
+            : undefined,
+        };
+      default:
+        return null;
+    }
+  }
+
+  function buildMembershipAction(): FloraMembershipAction | null {
+    if (proposalKind === "remove_member") {
+      return proposalMemberId ? { kind: "remove_member", accountId: proposalMemberId } : null;
+    }
+    if (proposalKind === "dissolve") {
+      const beneficiary = proposalBeneficiary.trim() || accountId;
+      return beneficiary ? { kind: "dissolve", beneficiaryAccountId: beneficiary } : null;
+    }
+    return null;
+  }
+
+  function resetProposalForm() {
+    setProposalMemberId("");
+    setProposalBeneficiary("");
+    setProposalText("");
+    setProposalTarget("");
+    setProposalAmount("");
+    setProposalTokenId("");
+    setProposalMemo("");
+    setProposalAssociations("");
+  }
+
   async function handleSendProposal(event: React.FormEvent) {
     event.preventDefault();
-    if (!canInteract || !transactionTopic || !proposalText.trim() || !proposalId.trim() || !accountId || !signer) {
+    if (!canInteract || !transactionTopic || !accountId || !signer || !flora) {
       return;
     }
-    const payload: FloraProposalMessage = {
-      type: "flora_proposal",
-      proposalId: proposalId.trim(),
-      from: accountId,
-      text: proposalText.trim(),
-      sentAt: new Date().toISOString(),
-    };
-    await sendFloraProposal(signer, transactionTopic, payload);
-    setProposalId("");
-    setProposalText("");
+    setProposalError(null);
+    const deadline =
+      votingWindowHours === null
+        ? undefined
+        : new Date(Date.now() + votingWindowHours * 60 * 60 * 1000).toISOString();
+
+    if (proposalKind === "remove_member" || proposalKind === "dissolve") {
+      const membership = buildMembershipAction();
+      if (!membership) {
+        setProposalError("Choose the member to remove.");
+        return;
+      }
+      const summary =
+        membership.kind === "dissolve"
+          ? `Dissolve the flora and send the remaining balance to ${membership.beneficiaryAccountId}`
+          : `Remove ${memberNames[membership.accountId] ?? membership.accountId} from the flora`;
+      const payload: FloraProposalMessage = {
+        type: "flora_proposal",
+        proposalId: `proposal-${Date.now().toString(36)}`,
+        from: accountId,
+        text: proposalText.trim() ? `${summary}: ${proposalText.trim()}` : summary,
+        sentAt: new Date().toISOString(),
+        deadline,
+        membership,
+      };
+      await sendFloraProposal(signer, transactionTopic, payload);
+      resetProposalForm();
+      return;
+    }
+
+    const action = buildProposalAction();
+    if (!action) {
+      if (!proposalText.trim()) {
+        return;
+      }
+      const payload: FloraProposalMessage = {
+        type: "flora_proposal",
+        proposalId: `proposal-${Date.now().toString(36)}`,
+        from: accountId,
+        text: proposalText.trim(),
+        sentAt: new Date().toISOString(),
+        deadline,
+      };
+      await sendFloraProposal(signer, transactionTopic, payload);
+      resetProposalForm();
+      return;
+    }
+
+    if (!flora.accountId) {
+      setProposalError("This flora has no account to schedule transactions against.");
+      return;
+    }
+
+    setProposalSubmitting(true);
+    try {
+      await proposeFloraScheduledTransaction(signer, transactionTopic, {
+        floraAccountId: flora.accountId,
+        from: accountId,
+        action,
+        text: proposalText,
+        deadline,
+      });
+      resetProposalForm();
+    } catch (error) {
+      logger.error("Failed to schedule flora transaction", error);
+      setProposalError(error instanceof Error ? error.message : "Failed to schedule transaction");
+    } finally {
+      setProposalSubmitting(false);
+    }
   }
 
-  async function handleSendVote(event: React.FormEvent) {
-    event.preventDefault();
-    if (!canInteract || !transactionTopic || !voteProposalId.trim() || !accountId || !signer) {
+  async function handleVote(proposalId: string, vote: FloraVoteMessage["vote"]) {
+    if (!canInteract || !transactionTopic || !accountId || !signer) {
       return;
     }
     const payload: FloraVoteMessage = {
       type: "flora_vote",
-      proposalId: voteProposalId.trim(),
+      proposalId,
       from: accountId,
-      vote: voteChoice,
+      vote,
       sentAt: new Date().toISOString(),
     };
-    await sendFloraVote(signer, transactionTopic, payload);
-    setVoteProposalId("");
+    try {
+      await sendFloraVote(signer, transactionTopic, payload);
+    } catch (error) {
+      logger.error("Failed to submit flora vote", error);
+    }
+  }
+
+  async function handleApplyMembership(proposalTally: ProposalTally) {
+    const membership = proposalTally.proposal.membership;
+    if (!canInteract || !accountId || !signer || !flora?.accountId || !membership) {
+      return;
+    }
+    const memberIds = flora.members.map((member) => member.accountId);
+    const currentThreshold = flora.threshold ?? defaultFloraThreshold(memberIds.length);
+    setApplyingProposalId(proposalTally.proposalId);
+    setProposalError(null);
+    try {
+      if (membership.kind === "remove_member") {
+        const members = memberIds.filter((memberId) => memberId !== membership.accountId);
+        const rotation = await scheduleFloraKeyRotation(signer, {
+          floraAccountId: flora.accountId,
+          topics: flora.topics,
+          memberAccountIds: members,
+          threshold: scaleFloraThreshold(currentThreshold, memberIds.length, members.length),
+          memo: `Flora ${flora.name}: remove ${membership.accountId}`,
+          network,
+        });
+        await sendFloraMemberRemoved(signer, flora.topics.state, {
+          type: "flora_member_removed",
+          proposalId: proposalTally.proposalId,
+          from: accountId,
+          accountId: membership.accountId,
+          members: rotation.memberAccountIds,
+          threshold: rotation.threshold,
+          scheduleIds: rotation.scheduleIds,
+          sentAt: new Date().toISOString(),
+        });
+      } else {
+        const scheduleIds = await scheduleFloraDissolution(signer, {
+          floraAccountId: flora.accountId,
+          topics: flora.topics,
+          memberAccountIds: memberIds,
+          threshold: currentThreshold,
+          beneficiaryAccountId: membership.beneficiaryAccountId,
+          memo: `Flora ${flora.name}: dissolve`,
+          network,
+        });
+        await sendFloraDissolved(signer, flora.topics.state, {
+          type: "flora_dissolved",
+          proposalId: proposalTally.proposalId,
+          from: accountId,
+          beneficiaryAccountId: membership.beneficiaryAccountId,
+          scheduleIds,
+          sentAt: new Date().toISOString(),
+        });
+      }
+    } catch (error) {
+      logger.error("Failed to apply flora membership change", error);
+      setProposalError(error instanceof Error ? error.message : "Failed to apply membership change");
+    } finally {
+      setApplyingProposalId(null);
+    }
   }
 
   async function handleStateUpdate(event: React.FormEvent) {
@@ -199,12 +757,24 @@ export function FloraDashboard({ flora, signer, accountId, muted, onToggleMute }
     if (!canInteract || !stateTopic || !stateSummary.trim() || !accountId || !signer) {
       return;
     }
+    let stateHash: string | null = null;
+    let stateHashTopics: string[] | undefined;
+    if (stateHashInput) {
+      try {
+        const computed = await computeFloraStateHash(stateHashInput);
+        stateHash = computed.stateHash;
+        stateHashTopics = computed.topics;
+      } catch (error) {
+        logger.warn("Failed to compute flora state hash", error);
+      }
+    }
     const payload: FloraStateMessage = {
       type: "flora_state",
       from: accountId,
       summary: stateSummary.trim(),
       sentAt: new Date().toISOString(),
-      stateHash: null,
+      stateHash,
+      stateHashTopics,
     };
     await sendFloraStateUpdate(signer, stateTopic, payload);
     setStateSummary("");
@@ -216,7 +786,14 @@ export function FloraDashboard({ flora, signer, accountId, muted, onToggleMute }
         <div>
           <h2 className="text-2xl font-semibold text-holNavy">{flora.name}</h2>
           <p className="text-xs text-holNavy/60">
-            {flora.status === "pending" ? "Awaiting confirmations" : "Active"} · Topics: Comm {communicationTopic}
+            {flora.status === "pending"
+              ? "Awaiting confirmations"
+              : flora.status === "dissolved"
+                ? "Dissolved · read only"
+                : flora.status === "removed"
+                  ? "You were removed · read only"
+                  : "Active"}{" "}
+            · Topics: Comm {communicationTopic}
           </p>
         </div>
         <button
@@ -237,25 +814,39 @@ export function FloraDashboard({ flora, signer, accountId, muted, onToggleMute }
           <h3 className="text-sm font-medium text-holNavy">Communication</h3>
           <div className="rounded-lg border border-holNavy/10 bg-white/90 p-4 shadow-sm">
             <ul className="max-h-72 space-y-2 overflow-y-auto text-sm text-holNavy">
-              {commEvents.map((event) => (
-                <li key={event.id} className="rounded border border-holNavy/10 p-2">
-                  <p
-                    className="font-medium text-holNavy"
-                    title={(event.payload as FloraChatMessage)?.from}
+              {commEvents
+                .filter(
+                  (event) =>
+                    !MEMBERSHIP_MESSAGE_TYPES.has((event.payload as { type?: string })?.type ?? ""),
+                )
+                .map((event) => (
+                  <li
+                    key={event.id}
+                    data-flora-sequence={event.sequenceNumber}
+                    className={`rounded border border-holNavy/10 p-2 ${
+                      focus?.topicId === communicationTopic &&
+                      focus?.sequenceNumber === event.sequenceNumber
+                        ? "ring-2 ring-amber-400"
+                        : ""
+                    }`}
                   >
-                    {memberNames[(event.payload as FloraChatMessage)?.from ?? ""] ?? (event.payload as FloraChatMessage)?.from ?? "Unknown"}
-                  </p>
-                  <p>{(event.payload as FloraChatMessage)?.content ?? ""}</p>
-                  <p className="text-xs text-holNavy/60">
-                    {new Date(Number(event.timestamp) * 1000).toLocaleString()}
-                  </p>
-                  {debugMode ? (
-                    <pre className="mt-1 overflow-x-auto rounded bg-holBlue/10 p-2 text-[11px] text-holNavy/70">
-                      {JSON.stringify(event.payload, null, 2)}
-                    </pre>
-                  ) : null}
-                </li>
-              ))}
+                    <p
+                      className="font-medium text-holNavy"
+                      title={(event.payload as FloraChatMessage)?.from}
+                    >
+                      {memberNames[(event.payload as FloraChatMessage)?.from ?? ""] ?? (event.payload as FloraChatMessage)?.from ?? "Unknown"}
+                    </p>
+                    <p>{(event.payload as FloraChatMessage)?.content ?? ""}</p>
+                    <p className="text-xs text-holNavy/60">
+                      {new Date(Number(event.timestamp) * 1000).toLocaleString()}
+                    </p>
+                    {debugMode ? (
+                      <pre className="mt-1 overflow-x-auto rounded bg-holBlue/10 p-2 text-[11px] text-holNavy/70">
+                        {JSON.stringify(event.payload, null, 2)}
+                      </pre>
+                    ) : null}
+                  </li>
+                ))}
             </ul>
             <AuthRequired
               enabled={canInteract}
@@ -288,25 +879,26 @@ export function FloraDashboard({ flora, signer, accountId, muted, onToggleMute }
             <div>
               <h4 className="text-xs font-semibold uppercase text-holNavy/60">Proposals</h4>
               <ul className="mt-2 max-h-60 space-y-2 overflow-y-auto text-sm text-holNavy">
-                {txEvents
-                  .filter((event) => (event.payload as { type?: string })?.type === "flora_proposal")
-                  .map((event) => {
-                    const payload = event.payload as FloraProposalMessage;
-                    return (
-                      <li key={event.id} className="rounded border border-holNavy/10 p-2">
-                        <p className="font-semibold text-holNavy">Proposal {payload.proposalId}</p>
-                        <p>{payload.text}</p>
-                        <p className="text-xs text-holNavy/60" title={payload.from}>
-                          By {memberNames[payload.from] ?? payload.from}
-                        </p>
-                        {debugMode ? (
-                          <pre className="mt-1 overflow-x-auto rounded bg-holBlue/10 p-2 text-[11px] text-holNavy/70">
-                            {JSON.stringify(payload, null, 2)}
-                          </pre>
-                        ) : null}
-                      </li>
-                    );
-                  })}
+                {tally.proposals.length === 0 ? (
+                  <li className="text-xs text-holNavy/60">No proposals yet.</li>
+                ) : (
+                  [...tally.proposals].reverse().map((proposalTally) => (
+                    <ProposalTallyCard
+                      key={proposalTally.proposalId}
+                      tally={proposalTally}
+                      memberNames={memberNames}
+                      accountId={accountId}
+                      signer={signer}
+                      canVote={canInteract && !muted}
+                      debugMode={debugMode}
+                      applied={appliedProposalIds.has(proposalTally.proposalId)}
+                      applying={applyingProposalId === proposalTally.proposalId}
+                      onVote={handleVote}
+                      onApply={(target) => void handleApplyMembership(target)}
+                      highlighted={focusedProposalId === proposalTally.proposalId}
+                    />
+                  ))
+                )}
               </ul>
             </div>
             <AuthRequired
@@ -316,63 +908,145 @@ export function FloraDashboard({ flora, signer, accountId, muted, onToggleMute }
             >
               <form className="space-y-2" onSubmit={handleSendProposal}>
                 <div className="flex gap-2">
-                  <input
-                    type="text"
-                    value={proposalId}
-                    onChange={(event) => setProposalId(event.target.value)}
+                  <select
+                    value={proposalKind}
+                    onChange={(event) => setProposalKind(event.target.value as ProposalKind)}
                     disabled={!canInteract}
                     className="w-40 rounded-md border border-holNavy/20 px-3 py-2 text-sm shadow-sm focus:border-holBlue focus:outline-none focus:ring-2 focus:ring-holBlue/30 disabled:cursor-not-allowed disabled:opacity-60"
-                    placeholder="proposal-id"
-                  />
+                  >
+                    <option value="text">Discussion</option>
+                    <option value="hbar_transfer" disabled={!flora.accountId}>
+                      HBAR transfer
+                    </option>
+                    <option value="token_transfer" disabled={!flora.accountId}>
+                      Token transfer
+                    </option>
+                    <option value="account_update" disabled={!flora.accountId}>
+                      Account update
+                    </option>
+                    <option value="remove_member" disabled={!flora.accountId}>
+                      Remove member
+                    </option>
+                    <option value="dissolve" disabled={!flora.accountId}>
+                      Dissolve flora
+                    </option>
+                  </select>
                   <input
                     type="text"
                     value={proposalText}
                     onChange={(event) => setProposalText(event.target.value)}
                     disabled={!canInteract}
                     className="flex-1 rounded-md border border-holNavy/20 px-3 py-2 text-sm shadow-sm focus:border-holBlue focus:outline-none focus:ring-2 focus:ring-holBlue/30 disabled:cursor-not-allowed disabled:opacity-60"
-                    placeholder="Describe the proposal"
+                    placeholder={proposalKind === "text" ? "Describe the proposal" : "Description (optional)"}
                   />
                 </div>
-                <button
-                  type="submit"
-                  disabled={!canInteract || muted}
-                  className="rounded-full bg-holBlue px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-holPurple disabled:cursor-not-allowed disabled:opacity-60"
-                >
-                  Publish proposal
-                </button>
-              </form>
-            </AuthRequired>
-            <AuthRequired
-              enabled={canInteract}
-              title="Wallet required"
-              description="Connect your wallet to submit votes."
-            >
-              <form className="space-y-2" onSubmit={handleSendVote}>
-                <div className="flex gap-2">
-                  <input
-                    type="text"
-                    value={voteProposalId}
-                    onChange={(event) => setVoteProposalId(event.target.value)}
-                    disabled={!canInteract}
-                    className="w-40 rounded-md border border-holNavy/20 px-3 py-2 text-sm shadow-sm focus:border-holBlue focus:outline-none focus:ring-2 focus:ring-holBlue/30 disabled:cursor-not-allowed disabled:opacity-60"
-                    placeholder="proposal-id"
-                  />
+                {proposalKind === "hbar_transfer" || proposalKind === "token_transfer" ? (
+                  <div className="flex gap-2">
+                    {proposalKind === "token_transfer" ? (
+                      <input
+                        type="text"
+                        value={proposalTokenId}
+                        onChange={(event) => setProposalTokenId(event.target.value)}
+                        disabled={!canInteract}
+                        className="w-32 rounded-md border border-holNavy/20 px-3 py-2 text-sm shadow-sm focus:border-holBlue focus:outline-none focus:ring-2 focus:ring-holBlue/30 disabled:cursor-not-allowed disabled:opacity-60"
+                        placeholder="Token 0.0.x"
+                      />
+                    ) : null}
+                    <input
+                      type="text"
+                      value={proposalTarget}
+                      onChange={(event) => setProposalTarget(event.target.value)}
+                      disabled={!canInteract}
+                      className="flex-1 rounded-md border border-holNavy/20 px-3 py-2 text-sm shadow-sm focus:border-holBlue focus:outline-none focus:ring-2 focus:ring-holBlue/30 disabled:cursor-not-allowed disabled:opacity-60"
+                      placeholder="Recipient 0.0.x"
+                    />
+                    <input
+                      type="number"
+                      min="0"
+                      step={proposalKind === "hbar_transfer" ? "0.00000001" : "1"}
+                      value={proposalAmount}
+                      onChange={(event) => setProposalAmount(event.target.value)}
+                      disabled={!canInteract}
+                      className="w-32 rounded-md border border-holNavy/20 px-3 py-2 text-sm shadow-sm focus:border-holBlue focus:outline-none focus:ring-2 focus:ring-holBlue/30 disabled:cursor-not-allowed disabled:opacity-60"
+                      placeholder={proposalKind === "hbar_transfer" ? "HBAR" : "Base units"}
+                    />
+                  </div>
+                ) : null}
+                {proposalKind === "remove_member" ? (
                   <select
-                    value={voteChoice}
-                    onChange={(event) => setVoteChoice(event.target.value as "yes" | "no")}
+                    value={proposalMemberId}
+                    onChange={(event) => setProposalMemberId(event.target.value)}
                     disabled={!canInteract}
-                    className="rounded-md border border-holNavy/20 px-3 py-2 text-sm shadow-sm focus:border-holBlue focus:outline-none focus:ring-2 focus:ring-holBlue/30 disabled:cursor-not-allowed disabled:opacity-60"
+                    className="w-full rounded-md border border-holNavy/20 px-3 py-2 text-sm shadow-sm focus:border-holBlue focus:outline-none focus:ring-2 focus:ring-holBlue/30 disabled:cursor-not-allowed disabled:opacity-60"
                   >
-                    <option value="yes">Yes</option>
-                    <option value="no">No</option>
+                    <option value="">Select a member</option>
+                    {flora.members
+                      .filter((member) => member.accountId !== accountId)
+                      .map((member) => (
+                        <option key={member.accountId} value={member.accountId}>
+                          {member.alias ?? member.accountId}
+                        </option>
+                      ))}
                   </select>
-                </div>
+                ) : null}
+                {proposalKind === "dissolve" ? (
+                  <input
+                    type="text"
+                    value={proposalBeneficiary}
+                    onChange={(event) => setProposalBeneficiary(event.target.value)}
+                    disabled={!canInteract}
+                    className="w-full rounded-md border border-holNavy/20 px-3 py-2 text-sm shadow-sm focus:border-holBlue focus:outline-none focus:ring-2 focus:ring-holBlue/30 disabled:cursor-not-allowed disabled:opacity-60"
+                    placeholder={`Send remaining balance to (default ${accountId ?? "you"})`}
+                  />
+                ) : null}
+                {proposalKind === "account_update" ? (
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={proposalMemo}
+                      onChange={(event) => setProposalMemo(event.target.value)}
+                      disabled={!canInteract}
+                      className="flex-1 rounded-md border border-holNavy/20 px-3 py-2 text-sm shadow-sm focus:border-holBlue focus:outline-none focus:ring-2 focus:ring-holBlue/30 disabled:cursor-not-allowed disabled:opacity-60"
+                      placeholder="New account memo"
+                    />
+                    <input
+                      type="number"
+                      min="-1"
+                      value={proposalAssociations}
+                      onChange={(event) => setProposalAssociations(event.target.value)}
+                      disabled={!canInteract}
+                      className="w-40 rounded-md border border-holNavy/20 px-3 py-2 text-sm shadow-sm focus:border-holBlue focus:outline-none focus:ring-2 focus:ring-holBlue/30 disabled:cursor-not-allowed disabled:opacity-60"
+                      placeholder="Max auto associations"
+                    />
+                  </div>
+                ) : null}
+                <select
+                  value={votingWindowHours ?? ""}
+                  onChange={(event) =>
+                    setVotingWindowHours(event.target.value ? Number(event.target.value) : null)
+                  }
+                  disabled={!canInteract}
+                  className="rounded-md border border-holNavy/20 px-3 py-2 text-sm shadow-sm focus:border-holBlue focus:outline-none focus:ring-2 focus:ring-holBlue/30 disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  {VOTING_WINDOWS.map((option) => (
+                    <option key={option.label} value={option.hours ?? ""}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                {proposalError ? <p className="text-xs text-rose-600">{proposalError}</p> : null}
                 <button
                   type="submit"
-                  disabled={!canInteract || muted}
-                  className="rounded-full bg-holNavy px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-holPurple disabled:cursor-not-allowed disabled:opacity-60"
+                  disabled={!canInteract || muted || proposalSubmitting}
+                  className="rounded-full bg-holBlue px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-holPurple disabled:cursor-not-allowed disabled:opacity-60"
                 >
-                  Submit vote
+                  {proposalSubmitting
+                    ? "Scheduling…"
+                    : proposalKind === "text" ||
+                        proposalKind === "remove_member" ||
+                        proposalKind === "dissolve"
+                      ? "Publish proposal"
+                      : "Schedule & publish"}
                 </button>
               </form>
             </AuthRequired>
@@ -380,11 +1054,95 @@ export function FloraDashboard({ flora, signer, accountId, muted, onToggleMute }
         </div>
       </section>
 
+      <section className="space-y-3">
+        <h3 className="text-sm font-medium text-holNavy">Membership</h3>
+        <div className="rounded-lg border border-holNavy/10 bg-white/90 p-4 shadow-sm">
+          <FloraJoinRequests
+            flora={flora}
+            requests={joinTally.requests}
+            memberNames={memberNames}
+            accountId={accountId}
+            signer={signer}
+            canInteract={canInteract && !muted}
+          />
+        </div>
+      </section>
+
       <section className="space-y-3">
         <h3 className="text-sm font-medium text-holNavy">State Updates</h3>
         <div className="space-y-3 rounded-lg border border-holNavy/10 bg-white/90 p-4 shadow-sm">
+          {announcement?.flora.topicKeyScheduleIds?.length ? (
+            <div className="rounded border border-holNavy/10 p-2 text-sm text-holNavy">
+              <p className="font-semibold">Topic key lock</p>
+              <p className="text-xs text-holNavy/60">
+                The topics were created under a 1-of-{foundingMembership?.members.length ?? "M"}{" "}
+                admin key. Sign these schedules to move them to the{" "}
+                {foundingMembership?.threshold ?? "T"}-of-{foundingMembership?.members.length ?? "M"}{" "}
+                flora KeyList.
+              </p>
+              {announcement.flora.topicKeyScheduleIds.map((scheduleId) => (
+                <ScheduledProposalStatus
+                  key={scheduleId}
+                  scheduleId={scheduleId}
+                  signer={signer}
+                  disabled={!canInteract}
+                />
+              ))}
+            </div>
+          ) : null}
           <ul className="max-h-60 space-y-2 overflow-y-auto text-sm text-holNavy">
             {stateEvents.map((event) => {
+              if (isFloraJoinAccepted(event.payload)) {
+                const accepted = event.payload;
+                return (
+                  <li key={event.id} className="rounded border border-holNavy/10 p-2">
+                    <p className="font-semibold text-holNavy" title={accepted.from}>
+                      {memberNames[accepted.from] ?? accepted.from}
+                    </p>
+                    <p>
+                      Added {accepted.candidateAlias ?? accepted.candidateAccountId} · now{" "}
+                      {accepted.threshold} of {accepted.members.length}
+                    </p>
+                    {accepted.scheduleIds.map((scheduleId) => (
+                      <ScheduledProposalStatus
+                        key={scheduleId}
+                        scheduleId={scheduleId}
+                        signer={signer}
+                        disabled={!canInteract}
+                      />
+                    ))}
+                    <p className="text-xs text-holNavy/60">
+                      {new Date(Number(event.timestamp) * 1000).toLocaleString()}
+                    </p>
+                  </li>
+                );
+              }
+              if (isFloraMemberRemoved(event.payload) || isFloraDissolved(event.payload)) {
+                const change = event.payload;
+                return (
+                  <li key={event.id} className="rounded border border-holNavy/10 p-2">
+                    <p className="font-semibold text-holNavy" title={change.from}>
+                      {memberNames[change.from] ?? change.from}
+                    </p>
+                    <p>
+                      {isFloraMemberRemoved(change)
+                        ? `Removed ${memberNames[change.accountId] ?? change.accountId} · now ${change.threshold} of ${change.members.length}`
+                        : `Dissolved the flora · balance to ${change.beneficiaryAccountId}`}
+                    </p>
+                    {change.scheduleIds.map((scheduleId) => (
+                      <ScheduledProposalStatus
+                        key={scheduleId}
+                        scheduleId={scheduleId}
+                        signer={signer}
+                        disabled={!signer || !accountId}
+                      />
+                    ))}
+                    <p className="text-xs text-holNavy/60">
+                      {new Date(Number(event.timestamp) * 1000).toLocaleString()}
+                    </p>
+                  </li>
+                );
+              }
               const payload = event.payload as FloraStateMessage;
               return (
                 <li key={event.id} className="rounded border border-holNavy/10 p-2">
@@ -393,7 +1151,14 @@ export function FloraDashboard({ flora, signer, accountId, muted, onToggleMute }
                   </p>
                   <p>{payload.summary}</p>
                   {payload.stateHash ? (
-                    <p className="text-xs text-holNavy/60">State hash: {payload.stateHash}</p>
+                    <div className="flex flex-wrap items-center gap-2 text-xs text-holNavy/60">
+                      <span className="break-all font-mono">State hash: {payload.stateHash}</span>
+                      <StateHashBadge
+                        status={
+                          stateVerifications[event.id] ?? (stateHashInput ? null : "unverifiable")
+                        }
+                      />
+                    </div>
                   ) : null}
                   <p className="text-xs text-holNavy/60">
                     {new Date(Number(event.timestamp) * 1000).toLocaleString()}
@@ -1,27 +1,265 @@
 "use client";
 
-import type { FloraRecord } from "@/providers/flora-provider";
+import { useEffect, useMemo, useState } from "react";
+import { isFloraArchived, type FloraRecord } from "@/providers/flora-provider";
 import { topicExplorerUrl } from "@/config/topics";
+import {
+  filterRegisteredFloras,
+  listRegisteredFloras,
+  type FloraRegistryEntry,
+} from "@/lib/hedera/flora-registry";
+import { Input } from "@/components/ui/input";
+import { Spinner } from "@/components/ui/Spinner";
+import { useReadState } from "@/providers/read-state-provider";
 
 function formatTopicId(id: string) {
   return `${id.slice(0, 10)}…${id.slice(-6)}`;
 }
 
+type DirectoryMode = "mine" | "registry";
+
 type FloraDirectoryProps = {
   floras: FloraRecord[];
   selectedId: string | null;
   onSelect: (floraId: string) => void;
+  network: "mainnet" | "testnet";
+  accountId: string | null;
+  requestingJoinId: string | null;
+  onRequestJoin: (entry: FloraRegistryEntry) => void;
 };
 
-export function FloraDirectory({ floras, selectedId, onSelect }: FloraDirectoryProps) {
-  if (floras.length === 0) {
-    return (
-      <div className="flex min-h-[200px] items-center justify-center rounded-lg border border-dashed border-slate-300 bg-slate-50/50 text-sm text-slate-500">
-        No floras yet. Create one to coordinate with other agents.
+export function FloraDirectory({
+  floras,
+  selectedId,
+  onSelect,
+  network,
+  accountId,
+  requestingJoinId,
+  onRequestJoin,
+}: FloraDirectoryProps) {
+  const [mode, setMode] = useState<DirectoryMode>("mine");
+
+  return (
+    <div className="space-y-4">
+      <div className="inline-flex rounded-full border border-holNavy/15 bg-white p-1 text-xs font-semibold">
+        {(
+          [
+            ["mine", "My floras"],
+            ["registry", "Browse registry"],
+          ] as const
+        ).map(([value, label]) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => setMode(value)}
+            className={`rounded-full px-3 py-1 transition ${
+              mode === value ? "bg-holNavy text-white" : "text-holNavy hover:bg-holBlue/10"
+            }`}
+          >
+            {label}
+          </button>
+        ))}
       </div>
-    );
-  }
+      {mode === "mine" ? (
+        <MyFloraList floras={floras} selectedId={selectedId} onSelect={onSelect} />
+      ) : (
+        <FloraRegistryBrowser
+          floras={floras}
+          network={network}
+          accountId={accountId}
+          requestingJoinId={requestingJoinId}
+          onRequestJoin={onRequestJoin}
+        />
+      )}
+    </div>
+  );
+}
+
+type FloraRegistryBrowserProps = {
+  floras: FloraRecord[];
+  network: "mainnet" | "testnet";
+  accountId: string | null;
+  requestingJoinId: string | null;
+  onRequestJoin: (entry: FloraRegistryEntry) => void;
+};
+
+function FloraRegistryBrowser({
+  floras,
+  network,
+  accountId,
+  requestingJoinId,
+  onRequestJoin,
+}: FloraRegistryBrowserProps) {
+  const [entries, setEntries] = useState<FloraRegistryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    listRegisteredFloras({ network })
+      .then((results) => {
+        if (!cancelled) {
+          setEntries(results);
+        }
+      })
+      .catch((loadError) => {
+        if (!cancelled) {
+          setError(loadError instanceof Error ? loadError.message : "Failed to load registry");
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [network]);
+
+  const knownFloraIds = useMemo(() => new Set(floras.map((flora) => flora.id)), [floras]);
+  const visibleEntries = useMemo(() => filterRegisteredFloras(entries, query), [entries, query]);
 
+  return (
+    <div className="space-y-3">
+      <Input
+        type="search"
+        value={query}
+        onChange={(event) => setQuery(event.target.value)}
+        className="border-holNavy/20 focus-visible:ring-holBlue/30"
+        placeholder="Search by name, #tag, or account"
+      />
+      {loading ? (
+        <div className="flex items-center gap-2 text-sm text-holNavy/70">
+          <Spinner size="sm" /> Loading flora registry…
+        </div>
+      ) : error ? (
+        <p className="text-sm text-rose-700">{error}</p>
+      ) : visibleEntries.length === 0 ? (
+        <div className="flex min-h-[120px] items-center justify-center rounded-lg border border-dashed border-slate-300 bg-slate-50/50 text-sm text-slate-500">
+          {entries.length === 0 ? "No floras have been registered yet." : "No floras match your search."}
+        </div>
+      ) : (
+        <ul className="space-y-3">
+          {visibleEntries.map((entry) => {
+            const isMember = knownFloraIds.has(entry.floraId);
+            return (
+              <li
+                key={entry.floraId}
+                className="rounded-xl border border-holNavy/10 bg-white p-4 shadow-sm"
+              >
+                <div className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
+                  <div className="min-w-0">
+                    <p className="text-lg font-semibold text-holNavy">{entry.name}</p>
+                    <p className="text-xs text-slate-600">
+                      {entry.memberCount} members
+                      {entry.threshold ? ` · ${entry.threshold} of ${entry.memberCount} threshold` : ""}
+                      {entry.accountId ? ` · ${entry.accountId}` : ""}
+                      {entry.scope === "global" ? " · Global registry" : ""}
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      Communication topic{" "}
+                      <a
+                        href={topicExplorerUrl(entry.floraId)}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="text-holBlue hover:text-holPurple"
+                      >
+                        {formatTopicId(entry.floraId)}
+                      </a>
+                    </p>
+                    {entry.purposeTags.length > 0 ? (
+                      <div className="mt-2 flex flex-wrap gap-1">
+                        {entry.purposeTags.map((tag) => (
+                          <span
+                            key={tag}
+                            className="rounded-full bg-holPurple/10 px-2 py-0.5 text-[11px] font-medium text-holNavy"
+                          >
+                            #{tag}
+                          </span>
+                        ))}
+                      </div>
+                    ) : null}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => onRequestJoin(entry)}
+                    disabled={
+                      !accountId ||
+                      isMember ||
+                      entry.initiatorAccountId === accountId ||
+                      requestingJoinId !== null
+                    }
+                    className="shrink-0 rounded-full border border-holNavy/20 px-3 py-1 text-xs font-semibold text-holNavy transition hover:bg-holBlue/10 disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    {isMember
+                      ? "Member"
+                      : requestingJoinId === entry.floraId
+                        ? "Requesting…"
+                        : "Request to join"}
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+const STATUS_LABELS: Record<FloraRecord["status"], string> = {
+  pending: "Pending",
+  active: "Active",
+  removed: "Removed",
+  dissolved: "Dissolved",
+};
+
+function MyFloraList({
+  floras,
+  selectedId,
+  onSelect,
+}: Pick<FloraDirectoryProps, "floras" | "selectedId" | "onSelect">) {
+  const [showArchived, setShowArchived] = useState(false);
+  const activeFloras = floras.filter((flora) => !isFloraArchived(flora));
+  const archivedFloras = floras.filter(isFloraArchived);
+
+  return (
+    <div className="space-y-3">
+      {activeFloras.length === 0 ? (
+        <div className="flex min-h-[200px] items-center justify-center rounded-lg border border-dashed border-slate-300 bg-slate-50/50 text-sm text-slate-500">
+          No floras yet. Create one to coordinate with other agents.
+        </div>
+      ) : (
+        <FloraCards floras={activeFloras} selectedId={selectedId} onSelect={onSelect} />
+      )}
+      {archivedFloras.length > 0 ? (
+        <div className="space-y-3">
+          <button
+            type="button"
+            onClick={() => setShowArchived((current) => !current)}
+            className="text-xs font-semibold text-holNavy/70 hover:text-holPurple"
+          >
+            {showArchived ? "Hide" : "Show"} archived floras ({archivedFloras.length})
+          </button>
+          {showArchived ? (
+            <FloraCards floras={archivedFloras} selectedId={selectedId} onSelect={onSelect} />
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+function FloraCards({
+  floras,
+  selectedId,
+  onSelect,
+}: Pick<FloraDirectoryProps, "floras" | "selectedId" | "onSelect">) {
+  const { unreadCount } = useReadState();
   return (
     <ul className="space-y-3">
       {floras.map((flora) => (
@@ -43,11 +281,29 @@ export function FloraDirectory({ floras, selectedId, onSelect }: FloraDirectoryP
         >
           <div className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
             <div>
-              <p className="text-lg font-semibold text-holNavy">{flora.name}</p>
+              <p className="flex items-center gap-2 text-lg font-semibold text-holNavy">
+                {flora.name}
+                {selectedId !== flora.id && unreadCount(flora.topics.communication) > 0 ? (
+                  <span className="rounded-full bg-rose-500 px-2 py-0.5 text-[11px] font-semibold text-white">
+                    {unreadCount(flora.topics.communication)} new
+                  </span>
+                ) : null}
+              </p>
               <p className="text-xs uppercase tracking-wide text-holNavy/60">
-                {flora.status === "pending" ? "Pending" : "Active"}
+                {STATUS_LABELS[flora.status]}
               </p>
               <dl className="mt-2 grid gap-2 text-xs text-slate-600 sm:grid-cols-2">
+                {flora.accountId ? (
+                  <div>
+                    <dt className="font-medium text-holNavy/60">Flora account</dt>
+                    <dd>
+                      {flora.accountId}
+                      {flora.threshold
+                        ? ` · ${flora.threshold} of ${flora.members.length}`
+                        : null}
+                    </dd>
+                  </div>
+                ) : null}
                 <div>
                   <dt className="font-medium text-holNavy/60">Communication topic</dt>
                   <dd>
@@ -0,0 +1,314 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { fetchInboxEvents, type DirectMessage } from "@/lib/hedera/messaging";
+import {
+  postFloraJoinRequest,
+  scheduleFloraKeyRotation,
+  sendFloraJoinAccepted,
+  sendFloraJoinAcceptedInvite,
+  sendFloraJoinVote,
+  type FloraJoinRequestPayload,
+  type FloraJoinVoteMessage,
+} from "@/lib/hedera/flora";
+import {
+  defaultFloraThreshold,
+  scaleFloraThreshold,
+  type JoinRequestTally,
+} from "@/lib/hedera/flora-tally";
+import { resolveProfileByIdentifier } from "@/lib/hedera/profile-lookup";
+import type { DAppSigner } from "@/lib/hedera/wallet-types";
+import type { FloraRecord } from "@/providers/flora-provider";
+import { useWallet } from "@/providers/wallet-provider";
+import { getLogger } from "@/lib/logger";
+
+type FloraJoinRequestsProps = {
+  flora: FloraRecord;
+  requests: JoinRequestTally[];
+  memberNames: Record<string, string>;
+  accountId: string | null;
+  signer: DAppSigner | null;
+  canInteract: boolean;
+};
+
+const STATUS_LABELS: Record<JoinRequestTally["status"], string> = {
+  open: "Voting",
+  passed: "Approved",
+  rejected: "Rejected",
+  expired: "Expired",
+};
+
+function isJoinRequestForFlora(
+  message: DirectMessage,
+  floraId: string,
+): message is DirectMessage & FloraJoinRequestPayload {
+  const candidate = message as Partial<FloraJoinRequestPayload>;
+  return candidate.type === "flora_join_request" && candidate.floraId === floraId;
+}
+
+export function FloraJoinRequests({
+  flora,
+  requests,
+  memberNames,
+  accountId,
+  signer,
+  canInteract,
+}: FloraJoinRequestsProps) {
+  const logger = getLogger("flora-join-requests");
+  const { network } = useWallet();
+  const [inboxRequests, setInboxRequests] = useState<FloraJoinRequestPayload[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const memberIds = useMemo(() => flora.members.map((member) => member.accountId), [flora.members]);
+
+  useEffect(() => {
+    if (!accountId) {
+      setInboxRequests([]);
+      return;
+    }
+    let cancelled = false;
+    resolveProfileByIdentifier(accountId, { network, requireInboundTopic: true })
+      .then(async (profile) => {
+        if (!profile?.inboundTopicId) {
+          return [];
+        }
+        const events = await fetchInboxEvents(profile.inboundTopicId);
+        return events
+          .filter((event) => event.kind === "direct-message")
+          .map((event) => event.message)
+          .filter((message) => isJoinRequestForFlora(message, flora.id));
+      })
+      .then((messages) => {
+        if (!cancelled) {
+          setInboxRequests(messages);
+        }
+      })
+      .catch((loadError) => {
+        logger.warn("Failed to load flora join requests from inbox", loadError);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [accountId, flora.id, logger, network]);
+
+  const pendingInboxRequests = useMemo(() => {
+    const tracked = new Set(
+      requests
+        .filter((request) => request.status === "open" || request.status === "passed")
+        .map((request) => request.request.candidateAccountId),
+    );
+    const seen = new Set<string>();
+    return inboxRequests.filter((request) => {
+      if (memberIds.includes(request.from) || tracked.has(request.from) || seen.has(request.from)) {
+        return false;
+      }
+      seen.add(request.from);
+      return true;
+    });
+  }, [inboxRequests, memberIds, requests]);
+
+  const visibleRequests = useMemo(
+    () => [...requests].filter((request) => !request.accepted).reverse(),
+    [requests],
+  );
+
+  async function runAction(id: string, action: () => Promise<void>) {
+    setBusyId(id);
+    setError(null);
+    try {
+      await action();
+    } catch (actionError) {
+      logger.error("Flora membership action failed", actionError);
+      setError(actionError instanceof Error ? actionError.message : "Membership action failed");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  function handleOpenVote(request: FloraJoinRequestPayload) {
+    if (!signer || !accountId) {
+      return;
+    }
+    void runAction(request.from, async () => {
+      const candidate = await resolveProfileByIdentifier(request.from, { network }).catch(
+        () => null,
+      );
+      await postFloraJoinRequest(signer, flora.topics.communication, {
+        type: "flora_join_request",
+        requestId: `join-${request.from}-${Date.now().toString(36)}`,
+        from: accountId,
+        candidateAccountId: request.from,
+        candidateAlias: request.requesterAlias ?? candidate?.alias,
+        candidateInboundTopicId: candidate?.inboundTopicId,
+        sentAt: new Date().toISOString(),
+      });
+    });
+  }
+
+  function handleVote(request: JoinRequestTally, vote: FloraJoinVoteMessage["vote"]) {
+    if (!signer || !accountId) {
+      return;
+    }
+    void runAction(request.requestId, () =>
+      sendFloraJoinVote(signer, flora.topics.communication, {
+        type: "flora_join_vote",
+        requestId: request.requestId,
+        from: accountId,
+        candidateAccountId: request.request.candidateAccountId,
+        vote,
+        sentAt: new Date().toISOString(),
+      }),
+    );
+  }
+
+  function handleFinalize(request: JoinRequestTally) {
+    if (!signer || !accountId || !flora.accountId) {
+      return;
+    }
+    const floraAccountId = flora.accountId;
+    const candidateId = request.request.candidateAccountId;
+    void runAction(request.requestId, async () => {
+      const members = [...memberIds, candidateId];
+      const threshold = scaleFloraThreshold(
+        flora.threshold ?? defaultFloraThreshold(memberIds.length),
+        memberIds.length,
+        members.length,
+      );
+      const rotation = await scheduleFloraKeyRotation(signer, {
+        floraAccountId,
+        topics: flora.topics,
+        memberAccountIds: members,
+        threshold,
+        memo: `Flora ${flora.name}: add ${candidateId}`,
+      });
+      await sendFloraJoinAccepted(signer, flora.topics.state, {
+        type: "flora_join_accepted",
+        requestId: request.requestId,
+        from: accountId,
+        candidateAccountId: candidateId,
+        candidateAlias: request.request.candidateAlias,
+        members: rotation.memberAccountIds,
+        threshold: rotation.threshold,
+        scheduleIds: rotation.scheduleIds,
+        sentAt: new Date().toISOString(),
+      });
+
+      if (request.request.candidateInboundTopicId) {
+        await sendFloraJoinAcceptedInvite(signer, request.request.candidateInboundTopicId, {
+          type: "flora_join_accepted",
+          from: accountId,
+          to: candidateId,
+          content: `Your request to join ${flora.name} was accepted`,
+          sentAt: new Date().toISOString(),
+          flora: {
+            name: flora.name,
+            accountId: floraAccountId,
+            threshold: rotation.threshold,
+            purposeTags: flora.purposeTags,
+            communicationTopicId: flora.topics.communication,
+            transactionTopicId: flora.topics.transaction,
+            stateTopicId: flora.topics.state,
+            initiator: { accountId: flora.initiatorAccountId },
+            members: rotation.memberAccountIds
+              .filter((memberId) => memberId !== flora.initiatorAccountId)
+              .map((memberId) => ({
+                accountId: memberId,
+                alias:
+                  memberId === candidateId
+                    ? request.request.candidateAlias
+                    : flora.members.find((member) => member.accountId === memberId)?.alias,
+              })),
+          },
+        });
+      }
+    });
+  }
+
+  if (pendingInboxRequests.length === 0 && visibleRequests.length === 0) {
+    return <p className="text-xs text-holNavy/60">No pending join requests.</p>;
+  }
+
+  return (
+    <div className="space-y-3 text-sm text-holNavy">
+      {pendingInboxRequests.length > 0 ? (
+        <div>
+          <h4 className="text-xs font-semibold uppercase text-holNavy/60">Received in your inbox</h4>
+          <ul className="mt-2 space-y-2">
+            {pendingInboxRequests.map((request) => (
+              <li
+                key={request.from}
+                className="flex items-center justify-between gap-2 rounded border border-holNavy/10 p-2"
+              >
+                <span title={request.from}>
+                  {request.requesterAlias ?? request.from} wants to join
+                </span>
+                <button
+                  type="button"
+                  onClick={() => handleOpenVote(request)}
+                  disabled={!canInteract || busyId !== null}
+                  className="rounded-full border border-holNavy/20 px-3 py-1 text-xs font-semibold text-holNavy transition hover:bg-holBlue/10 disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  {busyId === request.from ? "Posting…" : "Open vote"}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+      {visibleRequests.length > 0 ? (
+        <ul className="space-y-2">
+          {visibleRequests.map((request) => {
+            const candidate = request.request.candidateAccountId;
+            const ownVote = accountId
+              ? request.votes.find((vote) => vote.accountId === accountId)?.vote ?? null
+              : null;
+            return (
+              <li key={request.requestId} className="rounded border border-holNavy/10 p-2">
+                <div className="flex items-start justify-between gap-2">
+                  <p className="font-semibold" title={candidate}>
+                    {request.request.candidateAlias ?? candidate}
+                  </p>
+                  <span className="shrink-0 rounded-full bg-holBlue/10 px-2 py-0.5 text-[11px] font-semibold">
+                    {STATUS_LABELS[request.status]}
+                  </span>
+                </div>
+                <p className="text-xs text-holNavy/60">
+                  Proposed by {memberNames[request.request.from] ?? request.request.from} ·{" "}
+                  {request.yes} yes · {request.no} no · {request.threshold} of {request.memberCount}{" "}
+                  needed
+                </p>
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {request.status === "open"
+                    ? (["yes", "no"] as const).map((choice) => (
+                        <button
+                          key={choice}
+                          type="button"
+                          onClick={() => handleVote(request, choice)}
+                          disabled={!canInteract || busyId !== null || ownVote === choice}
+                          className="rounded-full border border-holNavy/20 px-3 py-1 text-xs font-semibold text-holNavy transition hover:bg-holBlue/10 disabled:cursor-not-allowed disabled:opacity-60"
+                        >
+                          {ownVote === choice ? `Voted ${choice}` : `Vote ${choice}`}
+                        </button>
+                      ))
+                    : null}
+                  {request.status === "passed" ? (
+                    <button
+                      type="button"
+                      onClick={() => handleFinalize(request)}
+                      disabled={!canInteract || busyId !== null || !flora.accountId}
+                      className="rounded-full bg-holBlue px-3 py-1 text-xs font-semibold text-white transition hover:bg-holPurple disabled:cursor-not-allowed disabled:opacity-60"
+                    >
+                      {busyId === request.requestId ? "Rotating keys…" : "Add member & rotate keys"}
+                    </button>
+                  ) : null}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      ) : null}
+      {error ? <p className="text-xs text-rose-600">{error}</p> : null}
+    </div>
+  );
+}
@@ -3,6 +3,8 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { z } from "zod";
 import { listRecentProfiles, type RegistryProfile } from "@/lib/hedera/registry";
+import { defaultFloraThreshold } from "@/lib/hedera/flora-tally";
+import { normalizePurposeTags } from "@/lib/hedera/flora-registry";
 import { resolveProfileByIdentifier, searchRegistryProfiles } from "@/lib/hedera/profile-lookup";
 import { useIdentity } from "@/providers/identity-provider";
 import { useWallet } from "@/providers/wallet-provider";
@@ -55,6 +57,8 @@ export function NewFloraWizard() {
   const [name, setName] = useState("");
   const [aliasInput, setAliasInput] = useState("");
   const [invitees, setInvitees] = useState<PendingInvitee[]>([]);
+  const [thresholdInput, setThresholdInput] = useState<number | null>(null);
+  const [tagsInput, setTagsInput] = useState("");
   const [status, setStatus] = useState<WizardState>("idle");
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
   const [recentProfiles, setRecentProfiles] = useState<RegistryProfile[]>([]);
@@ -63,6 +67,9 @@ export function NewFloraWizard() {
   const [suggestionsLoading, setSuggestionsLoading] = useState(false);
   const { pushToast } = useToast();
 
+  const memberCount = invitees.length + 1;
+  const threshold = Math.min(thresholdInput ?? defaultFloraThreshold(memberCount), memberCount);
+
   const canCreate = useMemo(() => {
     return Boolean(name.trim() && invitees.length > 0 && signer && activeIdentity);
   }, [name, invitees.length, signer, activeIdentity]);
@@ -232,6 +239,11 @@ export function NewFloraWizard() {
       return;
     }
 
+    if (threshold < 1 || threshold > memberCount) {
+      setStatusMessage(`Threshold must be between 1 and ${memberCount}`);
+      return;
+    }
+
     setStatus("creating");
     setStatusMessage(null);
 
@@ -239,11 +251,15 @@ export function NewFloraWizard() {
       await createFlora(
         parsedName.data,
         invitees.map((item) => item.profile),
+        threshold,
         signer,
         activeIdentity.alias,
+        normalizePurposeTags(tagsInput),
       );
       setName("");
       setInvitees([]);
+      setThresholdInput(null);
+      setTagsInput("");
       setStatusMessage("Flora requested. Awaiting member responses.");
       pushToast({ title: "Flora request sent", variant: "success" });
     } catch (error) {
@@ -395,6 +411,42 @@ export function NewFloraWizard() {
           </div>
         </div>
 
+        <div className="flex flex-col gap-2">
+          <label className="text-sm font-medium text-holNavy">Approval threshold</label>
+          <div className="flex items-center gap-3">
+            <Input
+              type="number"
+              min={1}
+              max={memberCount}
+              value={threshold}
+              onChange={(event) => {
+                const parsed = Number.parseInt(event.target.value, 10);
+                setThresholdInput(Number.isNaN(parsed) ? null : Math.max(1, parsed));
+              }}
+              disabled={walletDisabled}
+              className="w-24 border-holNavy/20 focus-visible:ring-holBlue/30"
+            />
+            <span className="text-xs text-slate-500">
+              of {memberCount} member signatures required by the flora account KeyList
+            </span>
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <label className="text-sm font-medium text-holNavy">Purpose tags</label>
+          <Input
+            type="text"
+            value={tagsInput}
+            onChange={(event) => setTagsInput(event.target.value)}
+            disabled={walletDisabled}
+            className="border-holNavy/20 focus-visible:ring-holBlue/30"
+            placeholder="treasury, research, defi"
+          />
+          <span className="text-xs text-slate-500">
+            Published with the flora to the registry so others can find it.
+          </span>
+        </div>
+
         {statusMessage ? <p className="text-sm text-holNavy/70">{statusMessage}</p> : null}
 
         <Button
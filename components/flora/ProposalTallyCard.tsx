@@ -0,0 +1,135 @@
+"use client";
+
+import type { FloraVoteMessage } from "@/lib/hedera/flora";
+import type { ProposalStatus, ProposalTally } from "@/lib/hedera/flora-tally";
+import type { DAppSigner } from "@/lib/hedera/wallet-types";
+import { ScheduledProposalStatus } from "@/components/flora/ScheduledProposalStatus";
+
+type ProposalTallyCardProps = {
+  tally: ProposalTally;
+  memberNames: Record<string, string>;
+  accountId: string | null;
+  signer: DAppSigner | null;
+  canVote: boolean;
+  debugMode: boolean;
+  applied: boolean;
+  applying: boolean;
+  onVote: (proposalId: string, vote: FloraVoteMessage["vote"]) => void;
+  onApply: (tally: ProposalTally) => void;
+  highlighted?: boolean;
+};
+
+const STATUS_LABELS: Record<ProposalStatus, string> = {
+  open: "Open",
+  passed: "Passed",
+  rejected: "Rejected",
+  expired: "Expired",
+};
+
+const STATUS_CLASSES: Record<ProposalStatus, string> = {
+  open: "bg-holBlue/10 text-holNavy",
+  passed: "bg-emerald-100 text-emerald-800",
+  rejected: "bg-rose-100 text-rose-700",
+  expired: "bg-slate-200 text-slate-700",
+};
+
+export function ProposalTallyCard({
+  tally,
+  memberNames,
+  accountId,
+  signer,
+  canVote,
+  debugMode,
+  applied,
+  applying,
+  onVote,
+  onApply,
+  highlighted = false,
+}: ProposalTallyCardProps) {
+  const { proposal } = tally;
+  const ownVote = accountId
+    ? tally.votes.find((vote) => vote.accountId === accountId)?.vote ?? null
+    : null;
+  const votingClosed = tally.status === "expired";
+
+  return (
+    <li
+      data-proposal-id={tally.proposalId}
+      className={`rounded border border-holNavy/10 p-2 ${highlighted ? "ring-2 ring-amber-400" : ""}`}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <p className="font-semibold text-holNavy">Proposal {tally.proposalId}</p>
+        <span
+          className={`shrink-0 rounded-full px-2 py-0.5 text-[11px] font-semibold ${STATUS_CLASSES[tally.status]}`}
+        >
+          {STATUS_LABELS[tally.status]}
+        </span>
+      </div>
+      <p>{proposal.text}</p>
+      <p className="text-xs text-holNavy/60" title={proposal.from}>
+        By {memberNames[proposal.from] ?? proposal.from}
+        {tally.deadline ? ` · Voting closes ${new Date(tally.deadline).toLocaleString()}` : ""}
+      </p>
+      <p className="mt-1 text-xs text-holNavy/70">
+        {tally.yes} yes · {tally.no} no · {tally.threshold} of {tally.memberCount} needed
+        {tally.quorumReached ? " · Quorum reached" : ""}
+      </p>
+      {tally.votes.length > 0 ? (
+        <ul className="mt-1 flex flex-wrap gap-1">
+          {tally.votes.map((vote) => (
+            <li
+              key={vote.accountId}
+              title={vote.accountId}
+              className={`rounded-full px-2 py-0.5 text-[11px] font-medium ${
+                vote.vote === "yes" ? "bg-emerald-50 text-emerald-800" : "bg-rose-50 text-rose-700"
+              }`}
+            >
+              {memberNames[vote.accountId] ?? vote.accountId}: {vote.vote}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+      {proposal.scheduleId ? (
+        <ScheduledProposalStatus
+          scheduleId={proposal.scheduleId}
+          signer={signer}
+          disabled={!canVote}
+        />
+      ) : null}
+      <div className="mt-2 flex flex-wrap gap-2">
+        {(["yes", "no"] as const).map((choice) => (
+          <button
+            key={choice}
+            type="button"
+            onClick={() => onVote(tally.proposalId, choice)}
+            disabled={!canVote || votingClosed || ownVote === choice}
+            className="rounded-full border border-holNavy/20 px-3 py-1 text-xs font-semibold text-holNavy transition hover:bg-holBlue/10 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {ownVote === choice ? `Voted ${choice}` : `Vote ${choice}`}
+          </button>
+        ))}
+        {proposal.membership && tally.status === "passed" ? (
+          <button
+            type="button"
+            onClick={() => onApply(tally)}
+            disabled={!canVote || applied || applying}
+            className="rounded-full bg-holBlue px-3 py-1 text-xs font-semibold text-white transition hover:bg-holPurple disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {applied
+              ? "Applied"
+              : applying
+                ? "Rotating keys…"
+                : proposal.membership.kind === "dissolve"
+                  ? "Dissolve flora"
+                  : "Remove member & rotate keys"}
+          </button>
+        ) : null}
+      </div>
+      {debugMode ? (
+        <pre className="mt-1 overflow-x-auto rounded bg-holBlue/10 p-2 text-[11px] text-holNavy/70">
+          {JSON.stringify(proposal, null, 2)}
+        </pre>
+      ) : null}
+    </li>
+  );
+}
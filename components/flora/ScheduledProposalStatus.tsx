@@ -0,0 +1,134 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { getMirrorSuggestedRefreshInterval } from "@/lib/hedera/mirror";
+import {
+  fetchScheduleSnapshot,
+  signScheduledTransaction,
+  type ScheduleSnapshot,
+  type ScheduleStatus,
+} from "@/lib/hedera/schedules";
+import type { DAppSigner } from "@/lib/hedera/wallet-types";
+import { Spinner } from "@/components/ui/Spinner";
+import { useToast } from "@/providers/toast-provider";
+import { useWallet } from "@/providers/wallet-provider";
+import { getLogger } from "@/lib/logger";
+
+type ScheduledProposalStatusProps = {
+  scheduleId: string;
+  signer: DAppSigner | null;
+  disabled?: boolean;
+};
+
+const STATUS_LABELS: Record<ScheduleStatus, string> = {
+  pending: "Pending signatures",
+  executed: "Executed",
+  expired: "Expired",
+  deleted: "Deleted",
+};
+
+const STATUS_CLASSES: Record<ScheduleStatus, string> = {
+  pending: "bg-amber-100 text-amber-800",
+  executed: "bg-emerald-100 text-emerald-800",
+  expired: "bg-slate-200 text-slate-700",
+  deleted: "bg-rose-100 text-rose-700",
+};
+
+export function ScheduledProposalStatus({
+  scheduleId,
+  signer,
+  disabled = false,
+}: ScheduledProposalStatusProps) {
+  const logger = getLogger("scheduled-proposal-status");
+  const { pushToast } = useToast();
+  const { network } = useWallet();
+  const [snapshot, setSnapshot] = useState<ScheduleSnapshot | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [signing, setSigning] = useState(false);
+
+  const refresh = useCallback(async (): Promise<ScheduleStatus | null> => {
+    try {
+      const result = await fetchScheduleSnapshot(scheduleId, network);
+      setSnapshot(result);
+      return result?.status ?? null;
+    } catch (error) {
+      logger.warn("Failed to load schedule status", error);
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, [logger, network, scheduleId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const poll = async () => {
+      const status = await refresh();
+      if (!cancelled && (status === null || status === "pending")) {
+        timer = setTimeout(poll, getMirrorSuggestedRefreshInterval());
+      }
+    };
+    void poll();
+
+    return () => {
+      cancelled = true;
+      if (timer) {
+        clearTimeout(timer);
+      }
+    };
+  }, [refresh]);
+
+  const handleSign = async () => {
+    if (!signer) {
+      return;
+    }
+    setSigning(true);
+    try {
+      await signScheduledTransaction(signer, scheduleId);
+      pushToast({ title: "Schedule signed", variant: "success" });
+      await refresh();
+    } catch (error) {
+      pushToast({
+        title: "Signing failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "error",
+      });
+    } finally {
+      setSigning(false);
+    }
+  };
+
+  const status = snapshot?.status ?? null;
+
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-holNavy/70">
+      <span className="font-mono">Schedule {scheduleId}</span>
+      {loading ? (
+        <Spinner size="sm" />
+      ) : status ? (
+        <span className={`rounded-full px-2 py-0.5 font-semibold ${STATUS_CLASSES[status]}`}>
+          {STATUS_LABELS[status]}
+        </span>
+      ) : (
+        <span className="rounded-full bg-slate-100 px-2 py-0.5 font-semibold text-slate-600">
+          Not indexed yet
+        </span>
+      )}
+      {snapshot ? <span>{snapshot.signatureCount} signature(s)</span> : null}
+      {snapshot?.status === "pending" && snapshot.expiresAt ? (
+        <span>Expires {new Date(snapshot.expiresAt).toLocaleString()}</span>
+      ) : null}
+      {status === "pending" ? (
+        <button
+          type="button"
+          onClick={handleSign}
+          disabled={disabled || !signer || signing}
+          className="rounded-full bg-holNavy px-3 py-1 font-semibold text-white shadow-sm transition hover:bg-holPurple disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {signing ? "Signing…" : "Sign"}
+        </button>
+      ) : null}
+    </div>
+  );
+}
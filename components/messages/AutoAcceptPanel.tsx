@@ -0,0 +1,194 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import {
+  describeAutoAcceptRule,
+  type AutoAcceptConfig,
+  type AutoAcceptLogEntry,
+  type AutoAcceptRule,
+} from "@/lib/hedera/auto-accept";
+import type { FloraRecord } from "@/lib/hedera/flora";
+
+type AutoAcceptPanelProps = {
+  config: AutoAcceptConfig;
+  log: AutoAcceptLogEntry[];
+  floras: FloraRecord[];
+  signerReady: boolean;
+  onChange: (config: AutoAcceptConfig) => void;
+  onClearLog: () => void;
+};
+
+type RuleType = AutoAcceptRule["type"];
+
+const ENTITY_ID_PATTERN = /^\d+\.\d+\.\d+$/u;
+
+export function AutoAcceptPanel({
+  config,
+  log,
+  floras,
+  signerReady,
+  onChange,
+  onClearLog,
+}: AutoAcceptPanelProps) {
+  const [ruleType, setRuleType] = useState<RuleType>("account");
+  const [value, setValue] = useState("");
+  const [minBalance, setMinBalance] = useState("1");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const trimmed = value.trim();
+    const id = crypto.randomUUID();
+    let rule: AutoAcceptRule;
+    if (ruleType === "flora-member") {
+      rule = { id, type: "flora-member", floraId: trimmed || undefined };
+    } else if (!ENTITY_ID_PATTERN.test(trimmed)) {
+      setError(ruleType === "account" ? "Enter an account ID" : "Enter a token ID");
+      return;
+    } else if (ruleType === "account") {
+      rule = { id, type: "account", accountId: trimmed };
+    } else {
+      const parsed = Number.parseInt(minBalance, 10);
+      rule = { id, type: "token-holder", tokenId: trimmed, minBalance: parsed > 0 ? parsed : 1 };
+    }
+    setError(null);
+    setValue("");
+    onChange({ ...config, rules: [...config.rules, rule] });
+  };
+
+  return (
+    <div className="mt-3 space-y-3 text-xs text-foreground">
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={config.enabled}
+          onChange={(event) => onChange({ ...config, enabled: event.target.checked })}
+        />
+        Accept matching requests automatically
+      </label>
+      {config.enabled && !signerReady ? (
+        <p className="text-[11px] text-amber-700">
+          Connect a wallet and publish a profile for this identity to run the rules.
+        </p>
+      ) : null}
+
+      {config.rules.length === 0 ? (
+        <p className="text-sm text-holNavy/60">No rules yet.</p>
+      ) : (
+        <ul className="space-y-1">
+          {config.rules.map((rule) => (
+            <li
+              key={rule.id}
+              className="flex items-center justify-between gap-2 rounded-xl border border-border bg-card px-3 py-1.5"
+            >
+              <span>{describeAutoAcceptRule(rule, floras)}</span>
+              <button
+                type="button"
+                onClick={() =>
+                  onChange({ ...config, rules: config.rules.filter((item) => item.id !== rule.id) })
+                }
+                className="text-[11px] font-semibold text-holNavy/60 hover:text-rose-600"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleAdd} className="space-y-2">
+        <div className="flex gap-2">
+          <select
+            value={ruleType}
+            onChange={(event) => {
+              setRuleType(event.target.value as RuleType);
+              setValue("");
+            }}
+            className="rounded-md border border-input bg-background px-2 py-1"
+          >
+            <option value="account">Account</option>
+            <option value="flora-member">Flora member</option>
+            <option value="token-holder">Token holder</option>
+          </select>
+          {ruleType === "flora-member" ? (
+            <select
+              value={value}
+              onChange={(event) => setValue(event.target.value)}
+              className="min-w-0 flex-1 rounded-md border border-input bg-background px-2 py-1"
+            >
+              <option value="">Any flora</option>
+              {floras.map((flora) => (
+                <option key={flora.id} value={flora.id}>
+                  {flora.name}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <input
+              value={value}
+              onChange={(event) => setValue(event.target.value)}
+              placeholder={ruleType === "account" ? "0.0.1234" : "Token ID"}
+              className="min-w-0 flex-1 rounded-md border border-input bg-background px-2 py-1"
+            />
+          )}
+        </div>
+        {ruleType === "token-holder" ? (
+          <label className="flex items-center justify-between gap-2">
+            <span>Minimum balance (smallest unit)</span>
+            <input
+              type="number"
+              min="1"
+              value={minBalance}
+              onChange={(event) => setMinBalance(event.target.value)}
+              className="w-20 rounded-md border border-input bg-background px-2 py-1"
+            />
+          </label>
+        ) : null}
+        {error ? <p className="text-[11px] text-rose-600">{error}</p> : null}
+        <button
+          type="submit"
+          className="rounded-full bg-holBlue px-3 py-1 text-[11px] font-semibold text-white hover:bg-holPurple"
+        >
+          Add rule
+        </button>
+      </form>
+
+      <div>
+        <div className="flex items-center justify-between">
+          <p className="font-semibold uppercase tracking-wide text-holNavy/60">Activity</p>
+          {log.length > 0 ? (
+            <button
+              type="button"
+              onClick={onClearLog}
+              className="text-[11px] font-semibold text-holBlue hover:text-holPurple"
+            >
+              Clear
+            </button>
+          ) : null}
+        </div>
+        {log.length === 0 ? (
+          <p className="mt-1 text-holNavy/60">Nothing has been auto-accepted yet.</p>
+        ) : (
+          <ul className="mt-1 max-h-[120px] space-y-1 overflow-y-auto pr-1">
+            {log.map((entry) => (
+              <li
+                key={`${entry.requestSequenceNumber}-${entry.timestamp}`}
+                className="rounded-xl border border-border bg-card px-3 py-1.5"
+              >
+                <div className="flex items-center justify-between gap-2 text-[11px] text-holNavy/60">
+                  <span className="font-semibold text-[var(--text-primary)]">{entry.accountId}</span>
+                  <time dateTime={entry.timestamp}>{new Date(entry.timestamp).toLocaleString()}</time>
+                </div>
+                <p className={entry.outcome === "failed" ? "text-rose-600" : "text-holNavy/60"}>
+                  {entry.outcome === "accepted"
+                    ? `Accepted via ${entry.rule} · ${entry.connectionTopicId ?? "—"}`
+                    : `Failed via ${entry.rule}: ${entry.error ?? "unknown error"}`}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -12,8 +12,26 @@ import {
   type RegistryProfile,
 } from "@/lib/hedera/registry";
 import { resolveProfileByIdentifier, searchRegistryProfiles } from "@/lib/hedera/profile-lookup";
-import { sendConnectionRequest, sendConnectionMessage } from "@/lib/hedera/messaging";
-import type { ConnectionRecord } from "@/lib/hedera/connections";
+import {
+  sendConnectionAttachment,
+  sendConnectionMessage,
+  sendConnectionRequest,
+  sendConnectionTransaction,
+} from "@/lib/hedera/messaging";
+import {
+  assertConnectionOpen,
+  getConnectionState,
+  isConnectionClosed,
+  requestedConnectionTopicId,
+  type ConnectionRecord,
+} from "@/lib/hedera/connections";
+import { generateConnectionKeyPair, pendingHandshakeId } from "@/lib/hedera/connection-crypto";
+import {
+  describeTopicFees,
+  fetchTopicFeeSchedule,
+  type TopicFeeSchedule,
+} from "@/lib/hedera/topic-fees";
+import { readAccountData, storageNamespaces, writeAccountData } from "@/lib/storage";
 import type { DAppSigner } from "@/lib/hedera/wallet-types";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -33,6 +51,7 @@ type ComposeFormProps = {
   senderAlias?: string | null;
   senderDisplayName?: string | null;
   preferredConnectionId?: string | null;
+  onConnectionRequested?: (record: ConnectionRecord) => void;
 };
 
 type ComposeState = "idle" | "resolving" | "sending";
@@ -46,20 +65,33 @@ export function ComposeForm({
   senderAlias,
   senderDisplayName,
   preferredConnectionId,
+  onConnectionRequested,
 }: ComposeFormProps) {
   const logger = getLogger("compose-form");
   const { network } = useWallet();
   const [recipient, setRecipient] = useState("");
   const [message, setMessage] = useState("");
+  const [attachment, setAttachment] = useState<File | null>(null);
+  const [approvalScheduleId, setApprovalScheduleId] = useState("");
+  const [encryptRequest, setEncryptRequest] = useState(false);
   const [status, setStatus] = useState<ComposeState>("idle");
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
   const [resolvedProfile, setResolvedProfile] = useState<RegistryProfile | null>(null);
+  const [feeSchedule, setFeeSchedule] = useState<TopicFeeSchedule | null>(null);
+  const [feeLoading, setFeeLoading] = useState(false);
   const [recentContacts, setRecentContacts] = useState<string[]>([]);
-  const [mode, setMode] = useState<"direct" | "connection">(
-    connections.length > 0 ? "connection" : "direct",
+  const [selectedConnectionId, setSelectedConnectionId] = useState<string>("");
+  const channelConnections = useMemo(
+    () =>
+      connections.filter(
+        (connection) =>
+          getConnectionState(connection) !== "requested" &&
+          (!connection.archived || connection.connectionTopicId === selectedConnectionId),
+      ),
+    [connections, selectedConnectionId],
   );
-  const [selectedConnectionId, setSelectedConnectionId] = useState<string>(
-    connections[0]?.connectionTopicId ?? "",
+  const [mode, setMode] = useState<"direct" | "connection">(
+    channelConnections.length > 0 ? "connection" : "direct",
   );
   const [cachedProfiles, setCachedProfiles] = useState<RegistryProfile[]>([]);
   const [searchResults, setSearchResults] = useState<RegistryProfile[]>([]);
@@ -69,16 +101,22 @@ export function ComposeForm({
   const { pushToast } = useToast();
 
   const selectedConnection = useMemo(
-    () => connections.find((connection) => connection.connectionTopicId === selectedConnectionId) ?? null,
-    [connections, selectedConnectionId],
+    () =>
+      channelConnections.find(
+        (connection) => connection.connectionTopicId === selectedConnectionId,
+      ) ?? null,
+    [channelConnections, selectedConnectionId],
   );
+  const connectionEncrypted = Boolean(selectedConnection?.encryption);
 
   useEffect(() => {
     if (!preferredConnectionId) {
       return;
     }
     const exists = connections.some(
-      (connection) => connection.connectionTopicId === preferredConnectionId,
+      (connection) =>
+        connection.connectionTopicId === preferredConnectionId &&
+        getConnectionState(connection) !== "requested",
     );
     if (!exists) {
       return;
@@ -87,15 +125,56 @@ export function ComposeForm({
     setSelectedConnectionId(preferredConnectionId);
   }, [preferredConnectionId, connections]);
 
+  const remoteInboundTopicId = resolvedProfile?.inboundTopicId ?? null;
+
+  useEffect(() => {
+    if (mode !== "direct" || !remoteInboundTopicId) {
+      setFeeSchedule(null);
+      setFeeLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setFeeLoading(true);
+    fetchTopicFeeSchedule(remoteInboundTopicId, senderAccountId, network)
+      .then((schedule) => {
+        if (!cancelled) {
+          setFeeSchedule(schedule);
+        }
+      })
+      .catch((error) => {
+        if (!cancelled) {
+          logger.warn("Failed to load inbound topic fees", error);
+          setFeeSchedule(null);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setFeeLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [mode, remoteInboundTopicId, senderAccountId, network, logger]);
+
+  const requestFee = feeSchedule ? describeTopicFees(feeSchedule) : null;
+
   const canSendDirect = Boolean(
     signer &&
       senderAccountId &&
       inboundTopicId &&
       outboundTopicId &&
-      resolvedProfile?.inboundTopicId,
+      resolvedProfile?.inboundTopicId &&
+      !feeLoading,
   );
   const canSendConnection = Boolean(
-    signer && senderAccountId && inboundTopicId && selectedConnection,
+    signer &&
+      senderAccountId &&
+      inboundTopicId &&
+      selectedConnection &&
+      getConnectionState(selectedConnection) === "active",
   );
   const isReady = mode === "direct" ? canSendDirect : canSendConnection;
   const walletDisabled = !signer;
@@ -144,14 +223,14 @@ export function ComposeForm({
   }, [cachedProfiles]);
 
   useEffect(() => {
-    if (mode === "connection" && connections.length === 0) {
+    if (mode === "connection" && channelConnections.length === 0) {
       setMode("direct");
       return;
     }
-    if (mode === "connection" && connections.length > 0 && !selectedConnection) {
-      setSelectedConnectionId(connections[0]!.connectionTopicId);
+    if (mode === "connection" && channelConnections.length > 0 && !selectedConnection) {
+      setSelectedConnectionId(channelConnections[0]!.connectionTopicId);
     }
-  }, [mode, connections, selectedConnection]);
+  }, [mode, channelConnections, selectedConnection]);
 
   useEffect(() => {
     if (mode !== "direct") {
@@ -308,6 +387,13 @@ export function ComposeForm({
     setStatusMessage(null);
   }, [mode, selectedConnectionId]);
 
+  useEffect(() => {
+    if (connectionEncrypted) {
+      setAttachment(null);
+      setApprovalScheduleId("");
+    }
+  }, [connectionEncrypted]);
+
   async function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
     event.preventDefault();
     setIsSuggestionsOpen(false);
@@ -319,8 +405,8 @@ export function ComposeForm({
 
     const trimmedMessage = message.trim();
 
-    if (mode === "connection" && !trimmedMessage) {
-      setStatusMessage("Enter a message");
+    if (mode === "connection" && !trimmedMessage && !attachment) {
+      setStatusMessage("Enter a message or attach a file");
       return;
     }
 
@@ -330,20 +416,71 @@ export function ComposeForm({
         return;
       }
 
+      try {
+        assertConnectionOpen(selectedConnection);
+      } catch (error) {
+        setStatusMessage(error instanceof Error ? error.message : "Connection is not open");
+        return;
+      }
+
       setStatus("sending");
       setStatusMessage(null);
 
+      const operator = { inboundTopicId, accountId: senderAccountId };
+      const options = {
+        network,
+        onProgress: (update: { message: string }) => setStatusMessage(update.message),
+      };
+      const encryptionKey = selectedConnection.encryption?.key;
+      const scheduleId = approvalScheduleId.trim();
+
       try {
-        await sendConnectionMessage(
-          signer,
-          selectedConnection.connectionTopicId,
-          {
-            inboundTopicId,
-            accountId: senderAccountId,
-          },
-          trimmedMessage,
-        );
-        setMessage("");
+        if (scheduleId) {
+          if (!/^\d+\.\d+\.\d+$/u.test(scheduleId)) {
+            throw new Error("Schedule ID must look like 0.0.1234");
+          }
+          if (attachment) {
+            throw new Error("Send attachments separately from approval requests");
+          }
+          await sendConnectionTransaction(
+            signer,
+            selectedConnection.connectionTopicId,
+            operator,
+            { scheduleId, description: trimmedMessage },
+            { encryptionKey },
+          );
+          setMessage("");
+          setApprovalScheduleId("");
+          setStatusMessage("Approval request sent");
+          pushToast({ title: "Approval request sent", variant: "success" });
+          return;
+        }
+        if (trimmedMessage) {
+          await sendConnectionMessage(
+            signer,
+            selectedConnection.connectionTopicId,
+            operator,
+            trimmedMessage,
+            undefined,
+            { ...options, encryptionKey },
+          );
+          setMessage("");
+        }
+        if (attachment) {
+          await sendConnectionAttachment(
+            signer,
+            selectedConnection.connectionTopicId,
+            operator,
+            {
+              content: await attachment.arrayBuffer(),
+              fileName: attachment.name,
+              mimeType: attachment.type || "application/octet-stream",
+            },
+            undefined,
+            { ...options, encryptionKey },
+          );
+          setAttachment(null);
+        }
         setStatusMessage("Message sent");
         pushToast({ title: "Message sent", variant: "success" });
       } catch (error) {
@@ -374,7 +511,8 @@ export function ComposeForm({
     setStatusMessage("Sending connection request…");
 
     try {
-      await sendConnectionRequest({
+      const keyPair = encryptRequest ? await generateConnectionKeyPair() : null;
+      const result = await sendConnectionRequest({
         signer,
         localAccountId: senderAccountId,
         localInboundTopicId: inboundTopicId,
@@ -385,7 +523,36 @@ export function ComposeForm({
         memo: trimmedMessage,
         requestorAlias: senderAlias ?? undefined,
         requestorDisplayName: senderDisplayName ?? undefined,
+        encryptionPublicKey: keyPair?.publicKey,
+        feeSchedule: feeSchedule?.topicId === resolvedProfile.inboundTopicId ? feeSchedule : undefined,
       });
+      if (result.requestSequenceNumber) {
+        onConnectionRequested?.({
+          connectionTopicId: requestedConnectionTopicId(
+            resolvedProfile.accountId,
+            result.requestSequenceNumber,
+          ),
+          contactAccountId: resolvedProfile.accountId,
+          contactAlias: resolvedProfile.alias ?? undefined,
+          contactDisplayName: resolvedProfile.displayName ?? undefined,
+          contactInboundTopicId: resolvedProfile.inboundTopicId,
+          connectionId: result.requestSequenceNumber,
+          createdAt: new Date().toISOString(),
+          state: "requested",
+        });
+      }
+      if (keyPair && result.requestSequenceNumber) {
+        const pendingKeys = readAccountData<Record<string, string>>(
+          storageNamespaces.connectionKeys,
+          senderAccountId,
+          {},
+        );
+        pendingKeys[pendingHandshakeId(resolvedProfile.accountId, result.requestSequenceNumber)] =
+          keyPair.privateKey;
+        writeAccountData(storageNamespaces.connectionKeys, senderAccountId, pendingKeys, {
+          ttlMs: 7 * 24 * 60 * 60 * 1000,
+        });
+      }
       updateRecentContacts(recipient);
       setMessage("");
       setStatusMessage("Connection request sent");
@@ -527,7 +694,7 @@ export function ComposeForm({
           <Button
             type="button"
             onClick={handleConnectionMode}
-            disabled={walletDisabled || connections.length === 0}
+            disabled={walletDisabled || channelConnections.length === 0}
             variant={mode === "connection" ? "default" : "outline"}
             size="sm"
             className="rounded-full px-3 py-1 text-xs"
@@ -622,6 +789,19 @@ export function ComposeForm({
                 </Button>
               ))}
             </div>
+            <label className="flex items-start gap-2 text-xs text-muted-foreground">
+              <input
+                type="checkbox"
+                checked={encryptRequest}
+                onChange={(event) => setEncryptRequest(event.target.checked)}
+                disabled={walletDisabled}
+                className="mt-0.5"
+              />
+              <span>
+                Encrypt the connection end-to-end. If the recipient&apos;s app does not support
+                it, the connection falls back to plaintext.
+              </span>
+            </label>
             {resolvedProfile ? (
               <p className="text-xs text-muted-foreground">
                 Resolved:{" "}
@@ -629,6 +809,16 @@ export function ComposeForm({
                 {resolvedProfile.alias ? ` · @${resolvedProfile.alias}` : ""}
               </p>
             ) : null}
+            {feeLoading ? (
+              <p className="flex items-center gap-2 text-xs text-muted-foreground">
+                <Spinner size="sm" /> Checking the recipient&apos;s inbox fee…
+              </p>
+            ) : requestFee ? (
+              <p className="rounded-md border border-amber-300 bg-amber-50 p-2 text-xs text-amber-800 dark:border-amber-500/40 dark:bg-amber-500/10 dark:text-amber-200">
+                This inbox charges {requestFee} per connection request, on top of the network
+                fee. Your wallet will not be charged more than this amount.
+              </p>
+            ) : null}
           </div>
         ) : (
           <div className="flex flex-col gap-2">
@@ -639,12 +829,13 @@ export function ComposeForm({
               disabled={walletDisabled}
               className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm text-foreground shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 ring-offset-background"
             >
-              {connections.map((connection) => (
+              {channelConnections.map((connection) => (
                 <option key={connection.connectionTopicId} value={connection.connectionTopicId}>
                   {connection.contactDisplayName ??
                     connection.contactAlias ??
                     connection.contactAccountId}{" "}
                   · {connection.connectionTopicId}
+                  {isConnectionClosed(connection) ? " (closed)" : ""}
                 </option>
               ))}
             </select>
@@ -654,6 +845,16 @@ export function ComposeForm({
                 {selectedConnection.contactDisplayName ??
                   selectedConnection.contactAlias ??
                   selectedConnection.contactAccountId}
+                {selectedConnection.encryption
+                  ? " · 🔒 end-to-end encrypted; attachments and approval requests are off"
+                  : " · not encrypted"}
+              </p>
+            ) : null}
+            {selectedConnection && getConnectionState(selectedConnection) !== "active" ? (
+              <p className="text-xs text-rose-600">
+                {isConnectionClosed(selectedConnection)
+                  ? "This connection is closed. Reopen it from the chat header to send messages."
+                  : "This connection is waiting for confirmation."}
               </p>
             ) : null}
           </div>
@@ -673,6 +874,62 @@ export function ComposeForm({
               : "Say hello or share coordination details"
           }
         />
+        {mode === "connection" && connectionEncrypted ? (
+          <p className="text-xs text-muted-foreground">
+            Attachments and approval requests would be published unencrypted, so they are
+            disabled on encrypted connections.
+          </p>
+        ) : null}
+        {mode === "connection" && !connectionEncrypted ? (
+          <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+            <label className="cursor-pointer rounded-full border border-border px-3 py-1 font-medium text-foreground transition hover:bg-muted">
+              {attachment ? "Change attachment" : "Attach file"}
+              <input
+                type="file"
+                className="sr-only"
+                disabled={walletDisabled || status !== "idle"}
+                onChange={(event) => {
+                  setAttachment(event.target.files?.[0] ?? null);
+                  event.target.value = "";
+                }}
+              />
+            </label>
+            {attachment ? (
+              <>
+                <span>
+                  {attachment.name} · {attachment.size.toLocaleString()} bytes
+                </span>
+                <button
+                  type="button"
+                  onClick={() => setAttachment(null)}
+                  className="underline"
+                  disabled={status !== "idle"}
+                >
+                  Remove
+                </button>
+              </>
+            ) : (
+              <span>Large messages and files are inscribed via HCS-1.</span>
+            )}
+          </div>
+        ) : null}
+        {mode === "connection" && !connectionEncrypted ? (
+          <label className="flex flex-col gap-1 text-xs text-muted-foreground">
+            <span className="font-medium text-foreground">
+              Request approval for a scheduled transaction (optional)
+            </span>
+            <Input
+              value={approvalScheduleId}
+              onChange={(event) => setApprovalScheduleId(event.target.value)}
+              disabled={walletDisabled || status !== "idle"}
+              placeholder="Schedule ID, e.g. 0.0.1234"
+              autoComplete="off"
+            />
+            <span>
+              The message becomes the approval card&apos;s description and is sent unencrypted.
+            </span>
+          </label>
+        ) : null}
       </div>
       {mode === "direct" && status === "resolving" ? (
         <p className="flex items-center gap-2 text-xs text-muted-foreground">
@@ -692,7 +949,9 @@ export function ComposeForm({
             <Spinner size="sm" /> Sending…
           </span>
         ) : mode === "direct" ? (
-          "Send request"
+          requestFee && !feeSchedule?.exempt ? `Send request · ${requestFee}` : "Send request"
+        ) : approvalScheduleId.trim() ? (
+          "Request approval"
         ) : (
           "Send message"
         )}
@@ -0,0 +1,520 @@
+"use client";
+
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
+import {
+  fetchConnectionMessagePage,
+  mergeConnectionMessages,
+  subscribeConnectionTopic,
+  type ConnectionTopicMessage,
+} from "@/lib/hedera/messaging";
+import { openConnectionData } from "@/lib/hedera/connection-crypto";
+import { indexMessages } from "@/lib/message-index";
+import { getLogger } from "@/lib/logger";
+import type { DAppSigner } from "@/lib/hedera/wallet-types";
+import { Hcs1Content } from "@/components/messages/Hcs1Content";
+import { TransactionApprovalCard } from "@/components/messages/TransactionApprovalCard";
+
+type ConnectionThreadProps = {
+  topicId: string;
+  accountId: string | null;
+  contactName: string;
+  encryptionKey?: string;
+  signer?: DAppSigner | null;
+  /** Read marker when the thread was opened; later messages are shown as unread. */
+  lastReadSequence?: number | null;
+  onRead?: (topicId: string, sequenceNumber: number) => void;
+  /** Message to scroll to and highlight, loading older pages until it is found. */
+  focusSequence?: number | null;
+  onConnectionClosed?: (topicId: string, message: ConnectionTopicMessage) => void;
+};
+
+type ThreadState = {
+  topicId: string;
+  messages: ConnectionTopicMessage[];
+  cursor: string | null;
+  loadingInitial: boolean;
+  loadingOlder: boolean;
+  error: string | null;
+};
+
+const PAGE_SIZE = 50;
+
+function decodeMessageText(raw?: string | null): string | null {
+  if (!raw) {
+    return null;
+  }
+  const trimmed = raw.trim();
+  if (!trimmed) {
+    return null;
+  }
+  const looksBase64 = /^[A-Za-z0-9+/=]+$/.test(trimmed) && trimmed.length % 4 === 0;
+  if (!looksBase64) {
+    return trimmed;
+  }
+  try {
+    if (typeof atob === "function") {
+      return atob(trimmed);
+    }
+  } catch {
+    // fall through to Buffer decode
+  }
+  try {
+    return Buffer.from(trimmed, "base64").toString("utf-8");
+  } catch {
+    return trimmed;
+  }
+}
+
+function messageId(message: ConnectionTopicMessage): string {
+  return `${message.consensusTimestamp}:${message.sequenceNumber}`;
+}
+
+function consensusTimestampToMs(value: string): number {
+  const [seconds, fraction = "0"] = value.split(".");
+  return Number(seconds) * 1000 + Math.floor(Number(`0.${fraction}`) * 1000);
+}
+
+function emptyThread(topicId: string): ThreadState {
+  return {
+    topicId,
+    messages: [],
+    cursor: null,
+    loadingInitial: true,
+    loadingOlder: false,
+    error: null,
+  };
+}
+
+export function ConnectionThread({
+  topicId,
+  accountId,
+  contactName,
+  encryptionKey,
+  signer = null,
+  lastReadSequence = null,
+  onRead,
+  focusSequence = null,
+  onConnectionClosed,
+}: ConnectionThreadProps) {
+  const logger = getLogger("connection-thread");
+  const [thread, setThread] = useState<ThreadState>(() => emptyThread(topicId));
+  const [decrypted, setDecrypted] = useState<Record<string, string | null>>({});
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+  const topSentinelRef = useRef<HTMLDivElement | null>(null);
+  const endRef = useRef<HTMLDivElement | null>(null);
+  const scrollAnchorRef = useRef<{ height: number; top: number } | null>(null);
+  const newestSequenceRef = useRef<number | null>(null);
+  const reportedCloseRef = useRef<string | null>(null);
+  const firstUnreadRef = useRef<HTMLLIElement | null>(null);
+  const [readMarker] = useState(lastReadSequence);
+  const [showJump, setShowJump] = useState(true);
+  const indexedRef = useRef(new Set<string>());
+  const focusedSequenceRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setThread(emptyThread(topicId));
+    newestSequenceRef.current = null;
+
+    fetchConnectionMessagePage(topicId, { limit: PAGE_SIZE })
+      .then((page) => {
+        if (cancelled) {
+          return;
+        }
+        setThread((current) => ({
+          ...current,
+          messages: mergeConnectionMessages(current.messages, page.messages),
+          cursor: page.cursor,
+          loadingInitial: false,
+        }));
+      })
+      .catch((error) => {
+        if (cancelled) {
+          return;
+        }
+        logger.warn("messages:thread-history", error);
+        setThread((current) => ({
+          ...current,
+          loadingInitial: false,
+          error: "Unable to load conversation history",
+        }));
+      });
+
+    const unsubscribe = subscribeConnectionTopic(topicId, (message) => {
+      setThread((current) => {
+        if (current.topicId !== topicId) {
+          return current;
+        }
+        const messages = mergeConnectionMessages(current.messages, [message]);
+        return messages === current.messages ? current : { ...current, messages };
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, [topicId, logger]);
+
+  useEffect(() => {
+    const sealed = thread.messages.filter(
+      (message) => message.encrypted && message.data && !(messageId(message) in decrypted),
+    );
+    if (!encryptionKey || sealed.length === 0) {
+      return;
+    }
+    let cancelled = false;
+    Promise.all(
+      sealed.map(async (message) => {
+        try {
+          const plaintext = await openConnectionData(encryptionKey, message.data ?? "", topicId);
+          return [messageId(message), plaintext];
+        } catch (error) {
+          logger.warn("messages:thread-decrypt", error);
+          return [messageId(message), null];
+        }
+      }),
+    ).then((entries) => {
+      if (!cancelled) {
+        setDecrypted((current) => ({ ...current, ...Object.fromEntries(entries) }));
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [decrypted, encryptionKey, logger, thread.messages, topicId]);
+
+  useEffect(() => {
+    const close = thread.messages.filter((message) => message.op === "close_connection").at(-1);
+    if (!close || !onConnectionClosed || reportedCloseRef.current === messageId(close)) {
+      return;
+    }
+    reportedCloseRef.current = messageId(close);
+    onConnectionClosed(thread.topicId, close);
+  }, [onConnectionClosed, thread.messages, thread.topicId]);
+
+  useEffect(() => {
+    const newest = thread.messages.at(-1)?.sequenceNumber;
+    if (newest !== undefined && onRead) {
+      onRead(topicId, newest);
+    }
+  }, [onRead, thread.messages, topicId]);
+
+  const loadOlder = useCallback(() => {
+    if (!thread.cursor || thread.loadingOlder || thread.loadingInitial) {
+      return;
+    }
+    const cursor = thread.cursor;
+    const container = scrollRef.current;
+    scrollAnchorRef.current = container
+      ? { height: container.scrollHeight, top: container.scrollTop }
+      : null;
+    setThread((current) => ({ ...current, loadingOlder: true, error: null }));
+
+    fetchConnectionMessagePage(topicId, { cursor, limit: PAGE_SIZE })
+      .then((page) => {
+        setThread((current) =>
+          current.topicId !== topicId
+            ? current
+            : {
+                ...current,
+                messages: mergeConnectionMessages(current.messages, page.messages),
+                cursor: page.cursor,
+                loadingOlder: false,
+              },
+        );
+      })
+      .catch((error) => {
+        logger.warn("messages:thread-older", error);
+        scrollAnchorRef.current = null;
+        setThread((current) => ({
+          ...current,
+          loadingOlder: false,
+          error: "Unable to load older messages",
+        }));
+      });
+  }, [logger, thread.cursor, thread.loadingInitial, thread.loadingOlder, topicId]);
+
+  useEffect(() => {
+    const root = scrollRef.current;
+    const sentinel = topSentinelRef.current;
+    if (!root || !sentinel || !thread.cursor || typeof IntersectionObserver === "undefined") {
+      return;
+    }
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          loadOlder();
+        }
+      },
+      { root, rootMargin: "200px 0px 0px 0px" },
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [loadOlder, thread.cursor]);
+
+  useLayoutEffect(() => {
+    const container = scrollRef.current;
+    const newest = thread.messages.at(-1)?.sequenceNumber ?? null;
+    const anchor = scrollAnchorRef.current;
+
+    if (container && anchor && !thread.loadingOlder) {
+      // Older pages are prepended, so keep the viewport on the same message.
+      container.scrollTop = container.scrollHeight - anchor.height + anchor.top;
+      scrollAnchorRef.current = null;
+    } else if (newest !== null && newest !== newestSequenceRef.current) {
+      endRef.current?.scrollIntoView({
+        behavior: newestSequenceRef.current === null ? "auto" : "smooth",
+        block: "end",
+      });
+    }
+    newestSequenceRef.current = newest;
+  }, [thread.messages, thread.loadingOlder]);
+
+  const timeline = useMemo(
+    () =>
+      thread.messages.map((message) => {
+        const id = messageId(message);
+        const encrypted = Boolean(message.encrypted);
+        const plaintext = encrypted ? decrypted[id] : undefined;
+        return {
+          id,
+          closed: message.op === "close_connection",
+          reason: message.reason,
+          scheduleId: message.op === "transaction" ? message.scheduleId : undefined,
+          description: message.op === "transaction" ? message.data : undefined,
+          encrypted,
+          undecryptable: encrypted && (plaintext === null || !encryptionKey),
+          text: encrypted
+            ? plaintext ?? ""
+            : decodeMessageText(message.data ?? message.memo ?? "") ?? message.data ?? message.memo ?? "",
+          reference: message.reference,
+          timestampMs: consensusTimestampToMs(message.consensusTimestamp),
+          fromSelf: message.operator?.accountId === accountId,
+          sequenceNumber: message.sequenceNumber,
+          consensusTimestamp: message.consensusTimestamp,
+          sender: message.operator?.accountId,
+        };
+      }),
+    [thread.messages, accountId, decrypted, encryptionKey],
+  );
+
+  const unread = useMemo(() => {
+    if (readMarker === null) {
+      return { firstId: null, count: 0 };
+    }
+    const items = timeline.filter((item) => item.sequenceNumber > readMarker && !item.fromSelf);
+    return { firstId: items[0]?.id ?? null, count: items.length };
+  }, [readMarker, timeline]);
+
+  useEffect(() => {
+    if (!accountId) {
+      return;
+    }
+    // Decrypted plaintext stays in memory; only public messages reach the search index.
+    const pending = timeline.filter(
+      (item) => !item.closed && !item.encrypted && item.text && !indexedRef.current.has(item.id),
+    );
+    if (pending.length === 0) {
+      return;
+    }
+    pending.forEach((item) => indexedRef.current.add(item.id));
+    indexMessages(
+      pending.map((item) => ({
+        ownerAccountId: accountId,
+        source: "connection",
+        topicId,
+        sequenceNumber: item.sequenceNumber,
+        consensusTimestamp: item.consensusTimestamp,
+        sender: item.fromSelf ? "You" : item.sender ?? contactName,
+        conversation: contactName,
+        text: item.text,
+      })),
+    ).catch((error) => {
+      pending.forEach((item) => indexedRef.current.delete(item.id));
+      logger.warn("messages:thread-index", error);
+    });
+  }, [accountId, contactName, logger, timeline, topicId]);
+
+  const focusLoaded =
+    focusSequence !== null && timeline.some((item) => item.sequenceNumber === focusSequence);
+
+  useEffect(() => {
+    if (focusSequence === null || thread.loadingInitial) {
+      return;
+    }
+    if (focusLoaded) {
+      if (focusedSequenceRef.current === focusSequence) {
+        return;
+      }
+      focusedSequenceRef.current = focusSequence;
+      scrollRef.current
+        ?.querySelector(`[data-sequence="${focusSequence}"]`)
+        ?.scrollIntoView({ behavior: "smooth", block: "center" });
+      return;
+    }
+    const oldest = thread.messages[0]?.sequenceNumber;
+    if (oldest !== undefined && oldest > focusSequence && thread.cursor) {
+      loadOlder();
+    }
+  }, [focusLoaded, focusSequence, loadOlder, thread.cursor, thread.loadingInitial, thread.messages]);
+
+  const jumpToFirstUnread = () => {
+    firstUnreadRef.current?.scrollIntoView({ behavior: "smooth", block: "start" });
+    setShowJump(false);
+  };
+
+  return (
+    <div className="flex h-full flex-col">
+      {unread.firstId && showJump ? (
+        <div className="flex items-center justify-between gap-3 border-b border-border bg-muted px-4 py-2 text-xs">
+          <span className="font-medium text-foreground">
+            {unread.count} unread {unread.count === 1 ? "message" : "messages"}
+          </span>
+          <span className="flex items-center gap-3">
+            <button
+              type="button"
+              onClick={jumpToFirstUnread}
+              className="font-semibold text-holBlue hover:text-holPurple"
+            >
+              Jump to first unread
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowJump(false)}
+              aria-label="Dismiss"
+              className="text-muted-foreground hover:text-foreground"
+            >
+              ×
+            </button>
+          </span>
+        </div>
+      ) : null}
+      <div ref={scrollRef} className="flex-1 overflow-y-auto px-6 py-6">
+        <div className="flex min-h-full flex-col justify-end">
+          {thread.cursor ? (
+            <div ref={topSentinelRef} className="mb-4 flex justify-center">
+              <button
+                type="button"
+                onClick={loadOlder}
+                disabled={thread.loadingOlder || thread.loadingInitial}
+                className="rounded-full border border-border bg-card px-3 py-1 text-xs font-medium text-muted-foreground transition hover:bg-muted disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                {thread.loadingOlder ? "Loading older messages…" : "Load older messages"}
+              </button>
+            </div>
+          ) : null}
+          {timeline.length === 0 && !thread.loadingInitial ? (
+            <div className="flex h-full flex-col items-center justify-center gap-3 text-center text-holNavy/60">
+              <p className="text-lg font-semibold text-[var(--text-primary)]">No messages yet</p>
+              <p className="max-w-sm text-sm text-holNavy/60">
+                Start the conversation with {contactName}.
+              </p>
+            </div>
+          ) : (
+            <>
+              {!thread.cursor && timeline.length > 0 && !thread.loadingInitial ? (
+                <p className="mb-4 text-center text-[11px] text-muted-foreground">
+                  Beginning of conversation
+                </p>
+              ) : null}
+              <ul className="space-y-4">
+                {timeline.flatMap((item) => [
+                  ...(item.id === unread.firstId
+                    ? [
+                        <li
+                          key="unread-divider"
+                          ref={firstUnreadRef}
+                          className="flex items-center gap-3 text-[11px] font-semibold uppercase tracking-wide text-rose-600"
+                        >
+                          <span className="h-px flex-1 bg-rose-300" />
+                          Unread messages
+                          <span className="h-px flex-1 bg-rose-300" />
+                        </li>,
+                      ]
+                    : []),
+                  item.closed ? (
+                    <li key={item.id} className="text-center text-[11px] text-muted-foreground">
+                      {item.fromSelf ? "You" : contactName} closed the connection
+                      {item.reason ? ` · ${item.reason}` : ""}
+                    </li>
+                  ) : item.scheduleId ? (
+                    <li
+                      key={item.id}
+                      data-sequence={item.sequenceNumber}
+                      className={`flex ${item.fromSelf ? "justify-end" : "justify-start"}`}
+                    >
+                      <TransactionApprovalCard
+                        scheduleId={item.scheduleId}
+                        description={item.description}
+                        fromSelf={item.fromSelf}
+                        contactName={contactName}
+                        signer={signer}
+                      />
+                    </li>
+                  ) : (
+                    <li
+                      key={item.id}
+                      data-sequence={item.sequenceNumber}
+                      className={`flex ${item.fromSelf ? "justify-end" : "justify-start"}`}
+                    >
+                      <div
+                        className={`max-w-[75%] rounded-3xl px-4 py-2 text-sm shadow-sm ${
+                          item.fromSelf
+                            ? "rounded-br-sm bg-holBlue text-white"
+                            : "rounded-bl-sm border border-border bg-card text-foreground"
+                        } ${item.sequenceNumber === focusSequence ? "ring-2 ring-amber-400" : ""}`}
+                      >
+                        {item.reference ? (
+                          <Hcs1Content reference={item.reference} fromSelf={item.fromSelf} />
+                        ) : item.undecryptable ? (
+                          <p className="text-xs italic opacity-80">
+                            Encrypted message — the key for this connection is not on this device
+                          </p>
+                        ) : (
+                          <p>
+                            {item.text || (
+                              <span className="text-xs italic opacity-80">
+                                {item.encrypted ? "Decrypting…" : "(no payload provided)"}
+                              </span>
+                            )}
+                          </p>
+                        )}
+                        <span
+                          className={`mt-1 block text-[11px] ${
+                            item.fromSelf ? "text-white/80" : "text-holNavy/60"
+                          }`}
+                        >
+                          {item.encrypted ? (
+                            <span aria-label="End-to-end encrypted" title="End-to-end encrypted">
+                              🔒{" "}
+                            </span>
+                          ) : null}
+                          {new Date(item.timestampMs).toLocaleTimeString([], {
+                            hour: "2-digit",
+                            minute: "2-digit",
+                          })}
+                        </span>
+                      </div>
+                    </li>
+                  ),
+                ])}
+              </ul>
+              <div ref={endRef} />
+            </>
+          )}
+        </div>
+      </div>
+      {thread.loadingInitial ? (
+        <div className="border-t border-border bg-muted px-4 py-2 text-center text-xs text-muted-foreground">
+          Loading thread…
+        </div>
+      ) : null}
+      {thread.error ? (
+        <div className="border-t border-border bg-muted px-4 py-2 text-center text-xs text-rose-600">
+          {thread.error}
+        </div>
+      ) : null}
+    </div>
+  );
+}
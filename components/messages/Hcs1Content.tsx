@@ -0,0 +1,85 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { resolveHcs1Content, type Hcs1Content as ResolvedContent } from "@/lib/hedera/hcs1";
+import { topicExplorerUrl } from "@/config/topics";
+import { useWallet } from "@/providers/wallet-provider";
+import { getLogger } from "@/lib/logger";
+
+type Hcs1ContentProps = {
+  reference: string;
+  fromSelf: boolean;
+};
+
+export function Hcs1Content({ reference, fromSelf }: Hcs1ContentProps) {
+  const logger = getLogger("hcs1-content");
+  const { network } = useWallet();
+  const [content, setContent] = useState<ResolvedContent | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setContent(null);
+    setError(null);
+    resolveHcs1Content(reference, { network })
+      .then((resolved) => {
+        if (!cancelled) {
+          setContent(resolved);
+        }
+      })
+      .catch((resolveError) => {
+        logger.warn("messages:hcs1-resolve", resolveError);
+        if (!cancelled) {
+          setError(resolveError instanceof Error ? resolveError.message : "Unable to load content");
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [reference, network, logger]);
+
+  const mutedText = fromSelf ? "text-white/80" : "text-holNavy/60";
+
+  if (error) {
+    return (
+      <p className={`text-xs italic ${mutedText}`}>
+        Could not load {reference}: {error}
+      </p>
+    );
+  }
+
+  if (!content) {
+    return <p className={`text-xs italic ${mutedText}`}>Loading {reference}…</p>;
+  }
+
+  switch (content.kind) {
+    case "image":
+      return (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+          src={content.src}
+          alt={`Attachment ${content.topicId}`}
+          className="max-h-80 max-w-full rounded-2xl object-contain"
+        />
+      );
+    case "json":
+      return (
+        <pre className="max-h-80 overflow-auto whitespace-pre-wrap break-all rounded-xl bg-black/10 p-2 font-mono text-xs">
+          {JSON.stringify(content.json, null, 2)}
+        </pre>
+      );
+    case "text":
+      return <p className="whitespace-pre-wrap break-words">{content.text}</p>;
+    case "binary":
+      return (
+        <a
+          href={topicExplorerUrl(content.topicId)}
+          target="_blank"
+          rel="noreferrer"
+          className="text-xs underline"
+        >
+          {content.mimeType} file · {content.size.toLocaleString()} bytes
+        </a>
+      );
+  }
+}
@@ -10,7 +10,7 @@ import {
   type ConnectionRequestEvent,
   type ConnectionCreatedEvent,
 } from "@/lib/hedera/messaging";
-import type { FloraCreateRequestPayload } from "@/lib/hedera/flora";
+import type { FloraCreateRequestPayload, FloraJoinAcceptedPayload } from "@/lib/hedera/flora";
 import { readAccountData, writeAccountData, storageNamespaces } from "@/lib/storage";
 import { fetchLatestProfileForAccount } from "@/lib/hedera/registry";
 import { topicExplorerUrl } from "@/config/topics";
@@ -25,7 +25,7 @@ export type InboxProps = {
   topicId: string | null;
   accountId: string | null;
   optimistic?: OptimisticMessage[];
-  onFloraInvite?: (payload: FloraCreateRequestPayload) => void;
+  onFloraInvite?: (payload: FloraCreateRequestPayload | FloraJoinAcceptedPayload) => void;
   onConnectionCreated?: (record: ConnectionRecord) => void;
   onAcceptRequest?: (event: ConnectionRequestEvent, contact: ResolvedContact) => Promise<void>;
   requestStatuses?: Record<number, ConnectionRequestStatus>;
@@ -79,14 +79,38 @@ type TimelineItem =
 
 const MAX_MESSAGES = 200;
 
+const VERIFICATION_BADGES: Record<
+  NonNullable<DirectMessage["verification"]>,
+  { label: string; title: string; className: string }
+> = {
+  verified: {
+    label: "Verified",
+    title: "Signed by the sender's account key and paid for by the sender",
+    className: "bg-emerald-50 text-emerald-700",
+  },
+  unverified: {
+    label: "Unverified",
+    title: "Unsigned message; the sender could not be confirmed",
+    className: "bg-slate-100 text-slate-500",
+  },
+  forged: {
+    label: "Forged",
+    title: "The signature or transaction payer does not match the claimed sender",
+    className: "bg-rose-50 text-rose-700",
+  },
+};
+
 function isRecord(value: unknown): value is Record<string, unknown> {
   return typeof value === "object" && value !== null;
 }
 
 function isFloraCreateRequestMessage(
   message: DirectMessage,
-): message is DirectMessage & FloraCreateRequestPayload {
-  if (message.type !== "flora_create_request") {
+): message is DirectMessage & (FloraCreateRequestPayload | FloraJoinAcceptedPayload) {
+  if (message.verification === "forged") {
+    return false;
+  }
+  if (message.type !== "flora_create_request" && message.type !== "flora_join_accepted") {
     return false;
   }
 
@@ -553,8 +577,16 @@ export function Inbox({
                 </div>
                 <div className="mt-2 text-sm text-slate-700">{item.message.content}</div>
                 <div className="mt-3 flex items-center justify-between text-xs text-slate-500">
-                  <span>
+                  <span className="flex items-center gap-2">
                     From {item.contact.alias ? `@${item.contact.alias}` : item.contact.accountId}
+                    {!item.optimistic && item.message.verification ? (
+                      <span
+                        title={VERIFICATION_BADGES[item.message.verification].title}
+                        className={`rounded-full px-2 py-0.5 text-[10px] font-semibold ${VERIFICATION_BADGES[item.message.verification].className}`}
+                      >
+                        {VERIFICATION_BADGES[item.message.verification].label}
+                      </span>
+                    ) : null}
                   </span>
                   {item.optimistic ? (
                     <span className="text-amber-500">Awaiting consensus…</span>
@@ -0,0 +1,138 @@
+"use client";
+
+import { useState, type ChangeEvent } from "react";
+import {
+  inboxEventKey,
+  inboxEventSender,
+  type BlockedInboxEvent,
+  type InboxPolicy,
+} from "@/lib/hedera/inbox-policy";
+
+type InboxPolicyPanelProps = {
+  policy: InboxPolicy;
+  blocked: BlockedInboxEvent[];
+  onChange: (policy: InboxPolicy) => void;
+  onAllowSender: (accountId: string) => void;
+};
+
+type ToggleKey = "knownContactsOnly" | "requireRegistryProfile" | "hideRequestsWithoutMemo";
+
+const TOGGLES: Array<{ key: ToggleKey; label: string }> = [
+  { key: "knownContactsOnly", label: "Only show known contacts" },
+  { key: "requireRegistryProfile", label: "Require a registry profile" },
+  { key: "hideRequestsWithoutMemo", label: "Hide requests without a note" },
+];
+
+function describeBlockedEvent(item: BlockedInboxEvent): string {
+  const { event } = item;
+  if (event.kind === "direct-message") {
+    return event.message.content;
+  }
+  if (event.kind === "connection-request") {
+    const note = event.note ?? event.memo;
+    return note ? `Connection request · “${note}”` : "Connection request";
+  }
+  return "Connection confirmation";
+}
+
+function parseThreshold(value: string): number | null {
+  const parsed = Number(value);
+  return value.trim() && Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+export function InboxPolicyPanel({
+  policy,
+  blocked,
+  onChange,
+  onAllowSender,
+}: InboxPolicyPanelProps) {
+  const [showSettings, setShowSettings] = useState(false);
+
+  const handleThreshold =
+    (key: "minAccountAgeDays" | "minBalanceHbar") => (event: ChangeEvent<HTMLInputElement>) => {
+      onChange({ ...policy, [key]: parseThreshold(event.target.value) });
+    };
+
+  return (
+    <div className="mt-3 space-y-3">
+      <button
+        type="button"
+        onClick={() => setShowSettings((prev) => !prev)}
+        className="text-[11px] font-semibold text-holBlue hover:text-holPurple"
+      >
+        {showSettings ? "Hide filter settings" : "Filter settings"}
+      </button>
+      {showSettings ? (
+        <div className="space-y-2 rounded-2xl border border-border bg-card px-3 py-2 text-xs text-foreground">
+          {TOGGLES.map((toggle) => (
+            <label key={toggle.key} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={policy[toggle.key]}
+                onChange={(event) => onChange({ ...policy, [toggle.key]: event.target.checked })}
+              />
+              {toggle.label}
+            </label>
+          ))}
+          <label className="flex items-center justify-between gap-2">
+            <span>Minimum account age (days)</span>
+            <input
+              type="number"
+              min="0"
+              value={policy.minAccountAgeDays ?? ""}
+              onChange={handleThreshold("minAccountAgeDays")}
+              className="w-20 rounded-md border border-input bg-background px-2 py-1"
+            />
+          </label>
+          <label className="flex items-center justify-between gap-2">
+            <span>Minimum balance (HBAR)</span>
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={policy.minBalanceHbar ?? ""}
+              onChange={handleThreshold("minBalanceHbar")}
+              className="w-20 rounded-md border border-input bg-background px-2 py-1"
+            />
+          </label>
+          <p className="text-[11px] text-holNavy/60">
+            Known contacts and allowed accounts skip these rules. {policy.blockedAccountIds.length}{" "}
+            blocked · {policy.allowedAccountIds.length} allowed.
+          </p>
+        </div>
+      ) : null}
+      {blocked.length === 0 ? (
+        <p className="text-sm text-holNavy/60">Nothing has been filtered.</p>
+      ) : (
+        <ul className="max-h-[120px] space-y-2 overflow-y-auto pr-1">
+          {blocked.map((item) => {
+            const sender = inboxEventSender(item.event);
+            return (
+              <li
+                key={inboxEventKey(item.event)}
+                className="rounded-2xl border border-border bg-card px-3 py-2 text-xs shadow-sm"
+              >
+                <div className="flex items-center justify-between gap-2 text-[11px] text-holNavy/60">
+                  <span className="font-semibold text-[var(--text-primary)]">
+                    {sender ?? "Unknown sender"}
+                  </span>
+                  <span>{item.reason}</span>
+                </div>
+                <p className="mt-1 break-words text-holNavy/60">{describeBlockedEvent(item)}</p>
+                {sender ? (
+                  <button
+                    type="button"
+                    onClick={() => onAllowSender(sender)}
+                    className="mt-1 text-[11px] font-semibold text-holBlue hover:text-holPurple"
+                  >
+                    Allow sender
+                  </button>
+                ) : null}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+"use client";
+
+import { useEffect } from "react";
+import { useSearchParams } from "next/navigation";
+import { parseMessageDeepLink, type MessageLinkTarget } from "@/lib/message-index";
+
+type MessageLinkListenerProps = {
+  onTarget: (target: MessageLinkTarget) => void;
+};
+
+/**
+ * Reports message deep links (`?topic=…&seq=…`) from the URL. Render inside a
+ * Suspense boundary, since it reads search params.
+ */
+export function MessageLinkListener({ onTarget }: MessageLinkListenerProps) {
+  const searchParams = useSearchParams();
+
+  useEffect(() => {
+    const target = parseMessageDeepLink(new URLSearchParams(searchParams.toString()));
+    if (target) {
+      onTarget(target);
+    }
+  }, [onTarget, searchParams]);
+
+  return null;
+}
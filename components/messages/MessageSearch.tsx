@@ -0,0 +1,100 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { searchMessages, type MessageSearchHit, type SearchSource } from "@/lib/message-index";
+import { Input } from "@/components/ui/input";
+import { getLogger } from "@/lib/logger";
+
+type MessageSearchProps = {
+  ownerAccountId: string | null;
+};
+
+const SOURCE_LABELS: Record<SearchSource, string> = {
+  "direct-message": "Direct message",
+  connection: "Connection",
+  flora: "Flora",
+};
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+function formatHitTime(consensusTimestamp: string): string {
+  const ms = Number(consensusTimestamp) * 1000;
+  return Number.isFinite(ms) && ms > 0 ? new Date(ms).toLocaleString() : "—";
+}
+
+export function MessageSearch({ ownerAccountId }: MessageSearchProps) {
+  const logger = getLogger("message-search");
+  const [query, setQuery] = useState("");
+  const [hits, setHits] = useState<MessageSearchHit[] | null>(null);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!ownerAccountId || !trimmed) {
+      setHits(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      searchMessages(ownerAccountId, trimmed)
+        .then((results) => {
+          if (!cancelled) {
+            setHits(results);
+          }
+        })
+        .catch((error) => {
+          logger.warn("message-search:query", error);
+          if (!cancelled) {
+            setHits([]);
+          }
+        });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [logger, ownerAccountId, query]);
+
+  return (
+    <div>
+      <Input
+        type="search"
+        value={query}
+        onChange={(event) => setQuery(event.target.value)}
+        placeholder="Search message history"
+        disabled={!ownerAccountId}
+        className="rounded-2xl px-4 py-2"
+      />
+      {hits === null ? null : hits.length === 0 ? (
+        <p className="mt-2 text-xs text-holNavy/60">
+          No matches in messages loaded on this device.
+        </p>
+      ) : (
+        <ul className="mt-2 max-h-[200px] space-y-1 overflow-y-auto pr-1">
+          {hits.map((hit) => (
+            <li key={hit.id}>
+              <Link
+                href={hit.href}
+                onClick={() => setQuery("")}
+                className="block rounded-xl border border-border bg-card px-3 py-2 text-xs no-underline transition hover:bg-holBlue/10"
+              >
+                <span className="flex items-center justify-between gap-2 text-[11px] text-holNavy/60">
+                  <span className="truncate font-semibold text-[var(--text-primary)]">
+                    {hit.sender}
+                  </span>
+                  <time dateTime={hit.consensusTimestamp}>
+                    {formatHitTime(hit.consensusTimestamp)}
+                  </time>
+                </span>
+                <span className="block truncate text-[11px] text-holNavy/60">
+                  {SOURCE_LABELS[hit.source]} · {hit.conversation}
+                </span>
+                <span className="mt-1 line-clamp-2 block break-words text-foreground">{hit.text}</span>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Hbar } from "@hashgraph/sdk";
+import { getMirrorSuggestedRefreshInterval } from "@/lib/hedera/mirror";
+import {
+  fetchScheduleSnapshot,
+  signScheduledTransaction,
+  type ScheduleSnapshot,
+  type ScheduleStatus,
+  type ScheduledTransfer,
+} from "@/lib/hedera/schedules";
+import type { DAppSigner } from "@/lib/hedera/wallet-types";
+import { Spinner } from "@/components/ui/Spinner";
+import { useToast } from "@/providers/toast-provider";
+import { getLogger } from "@/lib/logger";
+
+type TransactionApprovalCardProps = {
+  scheduleId: string;
+  description?: string;
+  fromSelf: boolean;
+  contactName: string;
+  signer: DAppSigner | null;
+};
+
+const STATUS_LABELS: Record<ScheduleStatus, string> = {
+  pending: "Awaiting approval",
+  executed: "Executed",
+  expired: "Expired",
+  deleted: "Deleted",
+};
+
+const STATUS_CLASSES: Record<ScheduleStatus, string> = {
+  pending: "bg-amber-100 text-amber-800",
+  executed: "bg-emerald-100 text-emerald-800",
+  expired: "bg-slate-200 text-slate-700",
+  deleted: "bg-rose-100 text-rose-700",
+};
+
+const TRANSACTION_TYPE_LABELS: Record<string, string> = {
+  cryptoTransfer: "Transfer",
+  cryptoUpdateAccount: "Account update",
+  cryptoDelete: "Account deletion",
+};
+
+function formatAmount(transfer: ScheduledTransfer): string {
+  const amount = Math.abs(transfer.amount);
+  return transfer.tokenId
+    ? `${amount.toLocaleString()} base units of ${transfer.tokenId}`
+    : Hbar.fromTinybars(amount).toString();
+}
+
+function TransferRows({ label, lines }: { label: string; lines: string[] }) {
+  if (lines.length === 0) {
+    return null;
+  }
+  return (
+    <div className="flex justify-between gap-3">
+      <dt className="text-muted-foreground">{label}</dt>
+      <dd className="space-y-0.5 text-right">
+        {lines.map((line) => (
+          <p key={line}>{line}</p>
+        ))}
+      </dd>
+    </div>
+  );
+}
+
+export function TransactionApprovalCard({
+  scheduleId,
+  description,
+  fromSelf,
+  contactName,
+  signer,
+}: TransactionApprovalCardProps) {
+  const logger = getLogger("transaction-approval-card");
+  const { pushToast } = useToast();
+  const [snapshot, setSnapshot] = useState<ScheduleSnapshot | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [signing, setSigning] = useState(false);
+
+  const refresh = useCallback(async (): Promise<ScheduleStatus | null> => {
+    try {
+      const next = await fetchScheduleSnapshot(scheduleId);
+      setSnapshot(next);
+      return next?.status ?? null;
+    } catch (error) {
+      logger.warn("Failed to load scheduled transaction", error);
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, [logger, scheduleId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const poll = async () => {
+      const current = await refresh();
+      if (!cancelled && (current === null || current === "pending")) {
+        timer = setTimeout(poll, getMirrorSuggestedRefreshInterval());
+      }
+    };
+    void poll();
+
+    return () => {
+      cancelled = true;
+      if (timer) {
+        clearTimeout(timer);
+      }
+    };
+  }, [refresh]);
+
+  const handleApprove = async () => {
+    if (!signer) {
+      return;
+    }
+    setSigning(true);
+    try {
+      await signScheduledTransaction(signer, scheduleId);
+      pushToast({ title: "Transaction approved", variant: "success" });
+      await refresh();
+    } catch (error) {
+      pushToast({
+        title: "Approval failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "error",
+      });
+    } finally {
+      setSigning(false);
+    }
+  };
+
+  const status = snapshot?.status ?? null;
+  const body = snapshot?.body ?? null;
+  const transfers = body?.transfers ?? [];
+  const debits = transfers
+    .filter((transfer) => transfer.amount < 0)
+    .map((transfer) => `${formatAmount(transfer)} from ${transfer.accountId}`);
+  const credits = transfers
+    .filter((transfer) => transfer.amount > 0)
+    .map((transfer) => `${formatAmount(transfer)} to ${transfer.accountId}`);
+  const typeLabel = body?.transactionType
+    ? (TRANSACTION_TYPE_LABELS[body.transactionType] ?? body.transactionType)
+    : "—";
+
+  return (
+    <div className="w-full max-w-sm rounded-2xl border border-border bg-card p-4 text-sm text-foreground shadow-sm">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+          {fromSelf ? "You requested approval" : `${contactName} requests approval`}
+        </p>
+        {loading ? (
+          <Spinner size="sm" />
+        ) : status ? (
+          <span
+            className={`rounded-full px-2 py-0.5 text-[11px] font-semibold ${STATUS_CLASSES[status]}`}
+          >
+            {STATUS_LABELS[status]}
+          </span>
+        ) : (
+          <span className="rounded-full bg-slate-100 px-2 py-0.5 text-[11px] font-semibold text-slate-600">
+            Not indexed yet
+          </span>
+        )}
+      </div>
+      {description ? (
+        <p className="mt-2 font-medium">
+          <span className="text-xs font-normal text-muted-foreground">Sender&apos;s note: </span>
+          {description}
+        </p>
+      ) : null}
+      {body && !body.describable ? (
+        <p className="mt-2 rounded-lg bg-rose-50 px-2 py-1.5 text-xs text-rose-700">
+          This schedule contains changes Petal cannot display. Review it in a wallet that shows
+          the full transaction before signing.
+        </p>
+      ) : null}
+      <dl className="mt-3 space-y-1 text-xs">
+        <div className="flex justify-between gap-3">
+          <dt className="text-muted-foreground">Type</dt>
+          <dd className="text-right">{typeLabel}</dd>
+        </div>
+        <TransferRows label="Debits" lines={debits} />
+        <TransferRows label="Credits" lines={credits} />
+        <TransferRows label="Effects" lines={body?.effects ?? []} />
+        <div className="flex justify-between gap-3">
+          <dt className="text-muted-foreground">Payer</dt>
+          <dd className="font-mono">{snapshot?.payerAccountId ?? "—"}</dd>
+        </div>
+        <div className="flex justify-between gap-3">
+          <dt className="text-muted-foreground">Expires</dt>
+          <dd>{snapshot?.expiresAt ? new Date(snapshot.expiresAt).toLocaleString() : "—"}</dd>
+        </div>
+        <div className="flex justify-between gap-3">
+          <dt className="text-muted-foreground">Schedule</dt>
+          <dd className="font-mono">
+            {scheduleId}
+            {snapshot ? ` · ${snapshot.signatureCount} signature(s)` : ""}
+          </dd>
+        </div>
+      </dl>
+      {status === "pending" && !fromSelf && body?.describable ? (
+        <button
+          type="button"
+          onClick={handleApprove}
+          disabled={!signer || signing}
+          className="mt-3 w-full rounded-full bg-holNavy px-3 py-1.5 text-xs font-semibold text-white shadow-sm transition hover:bg-holPurple disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {signing ? "Signing…" : "Approve and sign"}
+        </button>
+      ) : null}
+    </div>
+  );
+}
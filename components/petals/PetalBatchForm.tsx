@@ -0,0 +1,202 @@
+"use client";
+
+import { useState, type ChangeEvent } from "react";
+import {
+  isPetalBatchComplete,
+  parsePetalManifest,
+  type PetalBatch,
+  type PetalBatchRowStatus,
+  type PetalManifestParseResult,
+} from "@/lib/hedera/petal-manifest";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Spinner } from "@/components/ui/Spinner";
+import { Textarea } from "@/components/ui/textarea";
+
+type PetalBatchFormProps = {
+  batch: PetalBatch | null;
+  running: boolean;
+  disabled: boolean;
+  onStart: (rows: PetalManifestParseResult["rows"]) => void;
+  onResume: () => void;
+  onStop: () => void;
+  onClear: () => void;
+};
+
+const MANIFEST_PLACEHOLDER = `alias,displayName,bio,avatarUrl,initialBalance
+support-bot,Support Bot,Answers product questions,,1
+research-agent,Research Agent,,https://example.com/avatar.png,2`;
+
+const STATUS_BADGES: Record<
+  PetalBatchRowStatus,
+  { label: string; variant: "outline" | "secondary" | "success" | "warning" }
+> = {
+  pending: { label: "Pending", variant: "outline" },
+  created: { label: "Account created", variant: "secondary" },
+  done: { label: "Done", variant: "success" },
+  failed: { label: "Failed", variant: "warning" },
+};
+
+export function PetalBatchForm({
+  batch,
+  running,
+  disabled,
+  onStart,
+  onResume,
+  onStop,
+  onClear,
+}: PetalBatchFormProps) {
+  const [manifest, setManifest] = useState("");
+  const [parsed, setParsed] = useState<PetalManifestParseResult | null>(null);
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+    const text = await file.text();
+    setManifest(text);
+    setParsed(parsePetalManifest(text));
+  };
+
+  const handleManifestChange = (value: string) => {
+    setManifest(value);
+    setParsed(null);
+  };
+
+  if (batch) {
+    const doneCount = batch.rows.filter((row) => row.status === "done").length;
+    const complete = isPetalBatchComplete(batch);
+    return (
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <p className="text-sm text-muted-foreground">
+            {doneCount}/{batch.rows.length} petals provisioned
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {running ? (
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                className="rounded-full px-4"
+                onClick={onStop}
+              >
+                Stop after current row
+              </Button>
+            ) : complete ? null : (
+              <Button
+                type="button"
+                size="sm"
+                className="rounded-full px-4"
+                onClick={onResume}
+                disabled={disabled}
+              >
+                Resume unfinished rows
+              </Button>
+            )}
+            <Button
+              type="button"
+              size="sm"
+              variant="secondary"
+              className="rounded-full px-4"
+              onClick={onClear}
+              disabled={running}
+            >
+              {complete ? "New batch" : "Discard batch"}
+            </Button>
+          </div>
+        </div>
+        <ul className="divide-y divide-border rounded-md border border-border">
+          {batch.rows.map((row) => {
+            const badge = STATUS_BADGES[row.status];
+            return (
+              <li key={row.alias} className="flex flex-col gap-1 px-3 py-2 text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium text-foreground">
+                    {row.displayName}{" "}
+                    <span className="text-xs text-muted-foreground">@{row.alias}</span>
+                  </span>
+                  <Badge variant={badge.variant} className="text-[11px]">
+                    {badge.label}
+                  </Badge>
+                </div>
+                {row.accountId ? (
+                  <span className="text-xs text-muted-foreground">{row.accountId}</span>
+                ) : null}
+                {row.error ? <span className="text-xs text-rose-600">{row.error}</span> : null}
+              </li>
+            );
+          })}
+        </ul>
+        {running ? (
+          <p className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Spinner size="sm" /> Approve each transaction in your wallet as it arrives.
+          </p>
+        ) : null}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <label className="flex flex-col gap-2">
+        <span className="text-sm font-medium text-foreground">Manifest (CSV or JSON)</span>
+        <Textarea
+          rows={6}
+          value={manifest}
+          placeholder={MANIFEST_PLACEHOLDER}
+          onChange={(event) => handleManifestChange(event.target.value)}
+          className="font-mono text-xs"
+        />
+      </label>
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="cursor-pointer rounded-full border border-border px-4 py-1.5 text-sm text-foreground hover:bg-muted">
+          Upload file
+          <input
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            className="hidden"
+            onChange={(event) => void handleFile(event)}
+          />
+        </label>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          className="rounded-full px-4"
+          onClick={() => setParsed(parsePetalManifest(manifest))}
+          disabled={!manifest.trim()}
+        >
+          Validate
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          className="rounded-full px-4"
+          onClick={() => parsed && onStart(parsed.rows)}
+          disabled={disabled || !parsed || parsed.rows.length === 0}
+        >
+          Provision {parsed?.rows.length ?? 0} petal{parsed?.rows.length === 1 ? "" : "s"}
+        </Button>
+      </div>
+      {parsed && parsed.errors.length > 0 ? (
+        <ul className="space-y-1 text-xs text-rose-600">
+          {parsed.errors.map((error) => (
+            <li key={`${error.line}:${error.message}`}>
+              {error.line > 0 ? `Line ${error.line}: ` : ""}
+              {error.message}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+      {parsed && parsed.rows.length > 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Each petal costs its initial balance plus account, topic, and profile fees paid by the
+          base account.
+        </p>
+      ) : null}
+    </div>
+  );
+}
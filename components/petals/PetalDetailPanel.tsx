@@ -0,0 +1,142 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { fetchPetalHistory, type PetalHistory, type PetalRecord } from "@/lib/hedera/petals";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Spinner } from "@/components/ui/Spinner";
+import { getLogger } from "@/lib/logger";
+
+type PetalDetailPanelProps = {
+  petal: PetalRecord;
+  baseAccountId: string;
+  onHistory: (history: PetalHistory) => void;
+};
+
+function formatDate(value?: string): string {
+  return value ? new Date(value).toLocaleString() : "—";
+}
+
+export function PetalDetailPanel({ petal, baseAccountId, onHistory }: PetalDetailPanelProps) {
+  const logger = getLogger("petal-detail");
+  const [history, setHistory] = useState<PetalHistory | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await fetchPetalHistory(petal.accountId, baseAccountId);
+      setHistory(result);
+      onHistory(result);
+    } catch (loadError) {
+      logger.warn("petals:history", loadError);
+      setError("Unable to load account history from the mirror node");
+    } finally {
+      setLoading(false);
+    }
+  }, [baseAccountId, logger, onHistory, petal.accountId]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const verification = history?.verification ?? {
+    verified: Boolean(petal.verified),
+    reason: petal.verificationReason,
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <p className="text-lg font-semibold text-foreground">
+            {petal.displayName ?? petal.alias ?? petal.accountId}
+          </p>
+          <p className="text-xs text-muted-foreground">{petal.accountId}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Badge variant={verification.verified ? "success" : "warning"} className="text-[11px]">
+            {verification.verified ? "HCS-15 verified" : "Not verified"}
+          </Badge>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            className="rounded-full px-3"
+            onClick={() => void load()}
+            disabled={loading}
+          >
+            {loading ? <Spinner size="sm" /> : null} Refresh
+          </Button>
+        </div>
+      </div>
+      {!verification.verified && verification.reason ? (
+        <p className="rounded-md border border-amber-300 bg-amber-50 p-3 text-xs text-amber-800 dark:border-amber-500/40 dark:bg-amber-500/10 dark:text-amber-200">
+          {verification.reason}
+        </p>
+      ) : null}
+      <dl className="grid grid-cols-1 gap-3 text-sm sm:grid-cols-2">
+        <div>
+          <dt className="text-xs text-muted-foreground">Created</dt>
+          <dd className="text-foreground">{formatDate(history?.createdAt ?? petal.createdAt)}</dd>
+          {history?.createdTransactionId ? (
+            <dd className="break-all text-xs text-muted-foreground">
+              {history.createdTransactionId}
+            </dd>
+          ) : null}
+        </div>
+        <div>
+          <dt className="text-xs text-muted-foreground">Last activity</dt>
+          <dd className="text-foreground">
+            {formatDate(history?.lastActivityAt ?? petal.lastActivityAt)}
+          </dd>
+          {history?.lastActivityTransactionId ? (
+            <dd className="break-all text-xs text-muted-foreground">
+              {history.lastActivityTransactionId}
+            </dd>
+          ) : null}
+        </div>
+        <div>
+          <dt className="text-xs text-muted-foreground">Fees paid</dt>
+          <dd className="text-foreground">
+            {history
+              ? `${history.feesComplete ? "" : "≥ "}${history.feesPaidHbar.toFixed(4)} ℏ`
+              : "—"}
+          </dd>
+        </div>
+        <div>
+          <dt className="text-xs text-muted-foreground">Current memo</dt>
+          <dd className="break-all text-foreground">{petal.memo || "—"}</dd>
+        </div>
+      </dl>
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold text-foreground">Memo history</h3>
+        {history && history.memoHistory.length > 0 ? (
+          <ol className="space-y-2 border-l border-border pl-4">
+            {history.memoHistory
+              .slice()
+              .reverse()
+              .map((change) => (
+                <li key={`${change.changedAt}:${change.memo}`} className="text-sm">
+                  <p className="break-all font-mono text-xs text-foreground">
+                    {change.memo || "(empty)"}
+                  </p>
+                  <p className="text-[11px] text-muted-foreground">
+                    {formatDate(change.changedAt)}
+                    {change.transactionId ? ` · ${change.transactionId}` : ""}
+                  </p>
+                </li>
+              ))}
+          </ol>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            {loading ? "Loading history…" : "No memo changes recorded."}
+          </p>
+        )}
+      </div>
+      {error ? <p className="text-sm text-rose-600">{error}</p> : null}
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import {
+  DEFAULT_LOW_BALANCE_HBAR,
+  isPetalBalanceLow,
+  type PetalRecord,
+} from "@/lib/hedera/petals";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Spinner } from "@/components/ui/Spinner";
+
+export type PetalTransferDirection = "top-up" | "withdraw";
+
+type PetalFundingPanelProps = {
+  petal: PetalRecord;
+  disabled: boolean;
+  onTransfer: (direction: PetalTransferDirection, amountHbar: number) => Promise<void>;
+  onThresholdChange: (thresholdHbar: number) => void;
+};
+
+export function PetalFundingPanel({
+  petal,
+  disabled,
+  onTransfer,
+  onThresholdChange,
+}: PetalFundingPanelProps) {
+  const [amount, setAmount] = useState("1");
+  const [threshold, setThreshold] = useState(
+    String(petal.lowBalanceThresholdHbar ?? DEFAULT_LOW_BALANCE_HBAR),
+  );
+  const [pending, setPending] = useState<PetalTransferDirection | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const lowBalance = isPetalBalanceLow(petal);
+
+  const runTransfer = async (direction: PetalTransferDirection) => {
+    setError(null);
+    const parsed = Number.parseFloat(amount);
+    if (!Number.isFinite(parsed) || parsed <= 0) {
+      setError("Enter an amount greater than zero");
+      return;
+    }
+    if (
+      direction === "withdraw" &&
+      typeof petal.balanceHbar === "number" &&
+      parsed > petal.balanceHbar
+    ) {
+      setError(`Only ${petal.balanceHbar.toFixed(2)} ℏ available to withdraw`);
+      return;
+    }
+    setPending(direction);
+    try {
+      await onTransfer(direction, parsed);
+    } catch (transferError) {
+      setError(transferError instanceof Error ? transferError.message : "Transfer failed");
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const handleThresholdSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const parsed = Number.parseFloat(threshold);
+    if (!Number.isFinite(parsed) || parsed < 0) {
+      setError("Warning threshold must be zero or more");
+      return;
+    }
+    setError(null);
+    onThresholdChange(parsed);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-baseline justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          {petal.alias ?? petal.accountId} balance
+        </p>
+        <p
+          className={`text-lg font-semibold ${lowBalance ? "text-amber-600" : "text-foreground"}`}
+        >
+          {typeof petal.balanceHbar === "number" ? `${petal.balanceHbar.toFixed(2)} ℏ` : "—"}
+        </p>
+      </div>
+      {lowBalance ? (
+        <p className="rounded-md border border-amber-300 bg-amber-50 p-3 text-xs text-amber-800 dark:border-amber-500/40 dark:bg-amber-500/10 dark:text-amber-200">
+          This petal is below its warning threshold and may soon fail to pay for messages or
+          profile publishing. Top it up from the base account.
+        </p>
+      ) : null}
+      <label className="flex flex-col gap-2">
+        <span className="text-sm font-medium text-foreground">Amount (ℏ)</span>
+        <Input
+          type="number"
+          min="0"
+          step="0.1"
+          value={amount}
+          onChange={(event) => setAmount(event.target.value)}
+          disabled={disabled || pending !== null}
+        />
+      </label>
+      <div className="flex flex-wrap gap-2">
+        <Button
+          type="button"
+          size="sm"
+          className="rounded-full px-4"
+          onClick={() => void runTransfer("top-up")}
+          disabled={disabled || pending !== null}
+        >
+          {pending === "top-up" ? <Spinner size="sm" /> : null} Top up from base
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          className="rounded-full px-4"
+          onClick={() => void runTransfer("withdraw")}
+          disabled={disabled || pending !== null}
+        >
+          {pending === "withdraw" ? <Spinner size="sm" /> : null} Withdraw to base
+        </Button>
+      </div>
+      <form onSubmit={handleThresholdSubmit} className="flex items-end gap-2">
+        <label className="flex flex-1 flex-col gap-2">
+          <span className="text-sm font-medium text-foreground">Low balance warning (ℏ)</span>
+          <Input
+            type="number"
+            min="0"
+            step="0.1"
+            value={threshold}
+            onChange={(event) => setThreshold(event.target.value)}
+          />
+        </label>
+        <Button type="submit" size="sm" variant="secondary" className="rounded-full px-4">
+          Save
+        </Button>
+      </form>
+      {error ? <p className="text-sm text-rose-600">{error}</p> : null}
+    </div>
+  );
+}
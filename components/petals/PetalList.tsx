@@ -1,7 +1,7 @@
 "use client";
 
 import { Fragment, useCallback } from "react";
-import type { PetalRecord } from "@/lib/hedera/petals";
+import { isPetalBalanceLow, type PetalRecord } from "@/lib/hedera/petals";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
@@ -75,6 +75,8 @@ function PetalListItem({
     onManage?.(petal.accountId);
   }, [onManage, petal.accountId]);
 
+  const lowBalance = isPetalBalanceLow(petal);
+
   return (
     <li>
       <Card className="rounded-xl p-4 shadow-md backdrop-blur">
@@ -95,6 +97,11 @@ function PetalListItem({
                   Key verified
                 </Badge>
               ) : null}
+              {lowBalance ? (
+                <Badge variant="warning" className="text-[11px]">
+                  Low balance
+                </Badge>
+              ) : null}
             </div>
             <dl className="mt-2 grid gap-2 text-xs text-muted-foreground sm:grid-cols-2">
               <Fragment>
@@ -104,7 +111,9 @@ function PetalListItem({
                 </div>
                 <div>
                   <dt className="font-medium text-muted-foreground">Balance</dt>
-                  <dd>{formatHbar(petal.balanceHbar)}</dd>
+                  <dd className={lowBalance ? "font-semibold text-amber-600" : undefined}>
+                    {formatHbar(petal.balanceHbar)}
+                  </dd>
                 </div>
                 <div>
                   <dt className="font-medium text-muted-foreground">Verified</dt>
@@ -0,0 +1,102 @@
+"use client";
+
+import { useState } from "react";
+import type { PetalRecord } from "@/lib/hedera/petals";
+import { Button } from "@/components/ui/button";
+import { Spinner } from "@/components/ui/Spinner";
+
+type PetalRetirePanelProps = {
+  petal: PetalRecord;
+  connectionCount: number;
+  disabled: boolean;
+  onRetire: () => Promise<void>;
+};
+
+export function PetalRetirePanel({
+  petal,
+  connectionCount,
+  disabled,
+  onRetire,
+}: PetalRetirePanelProps) {
+  const [confirming, setConfirming] = useState(false);
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const label = petal.alias ?? petal.accountId;
+
+  const handleRetire = async () => {
+    setError(null);
+    setPending(true);
+    try {
+      await onRetire();
+    } catch (retireError) {
+      setError(retireError instanceof Error ? retireError.message : "Unable to retire petal");
+      setConfirming(false);
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <ul className="list-disc space-y-1 pl-5 text-sm text-muted-foreground">
+        <li>
+          {connectionCount > 0
+            ? `Close ${connectionCount} HCS-10 connection${connectionCount === 1 ? "" : "s"}.`
+            : "No open HCS-10 connections to close."}
+        </li>
+        <li>
+          {petal.hasProfile
+            ? "Publish a registry tombstone so profile searches stop returning this petal."
+            : "No registry profile to remove."}
+        </li>
+        <li>
+          Delete {petal.accountId} and send its remaining{" "}
+          {typeof petal.balanceHbar === "number" ? `${petal.balanceHbar.toFixed(2)} ℏ` : "balance"}{" "}
+          to the base account.
+        </li>
+      </ul>
+      {confirming ? (
+        <div className="space-y-3 rounded-md border border-rose-300 bg-rose-50 p-3 dark:border-rose-500/40 dark:bg-rose-500/10">
+          <p className="text-xs text-rose-800 dark:text-rose-200">
+            Deleting an account cannot be undone. {label} will no longer be able to send or
+            receive messages.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <Button
+              type="button"
+              size="sm"
+              className="rounded-full bg-rose-600 px-4 text-white hover:bg-rose-700"
+              onClick={() => void handleRetire()}
+              disabled={disabled || pending}
+            >
+              {pending ? <Spinner size="sm" /> : null} Retire {label}
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              className="rounded-full px-4"
+              onClick={() => setConfirming(false)}
+              disabled={pending}
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          className="rounded-full px-4 text-rose-600"
+          onClick={() => setConfirming(true)}
+          disabled={disabled}
+        >
+          Retire petal
+        </Button>
+      )}
+      {error ? <p className="text-sm text-rose-600">{error}</p> : null}
+    </div>
+  );
+}
@@ -0,0 +1,331 @@
+"use client";
+
+import { useCallback, useEffect, useState, type FormEvent } from "react";
+import {
+  associateTokens,
+  dissociateTokens,
+  fetchTokenPortfolio,
+  type TokenPortfolio,
+} from "@/lib/hedera/tokens";
+import { updateMaxAutomaticAssociations } from "@/lib/hedera/petals";
+import type { DAppSigner } from "@/lib/hedera/wallet-types";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Spinner } from "@/components/ui/Spinner";
+import { getLogger } from "@/lib/logger";
+
+type PortfolioIdentity = {
+  accountId: string;
+  label: string;
+};
+
+type TokenPortfolioPanelProps = {
+  identities: PortfolioIdentity[];
+  signer: DAppSigner | null;
+  network: "mainnet" | "testnet";
+};
+
+const TOKEN_ID_PATTERN = /^\d+\.\d+\.\d+$/u;
+
+export function TokenPortfolioPanel({ identities, signer, network }: TokenPortfolioPanelProps) {
+  const logger = getLogger("token-portfolio");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [portfolio, setPortfolio] = useState<TokenPortfolio | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [pending, setPending] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [associateInput, setAssociateInput] = useState("");
+  const [maxAssociations, setMaxAssociations] = useState("");
+
+  const accountId =
+    selectedId && identities.some((identity) => identity.accountId === selectedId)
+      ? selectedId
+      : identities[0]?.accountId ?? null;
+
+  const loadPortfolio = useCallback(
+    async (targetId: string) => {
+      setLoading(true);
+      setError(null);
+      try {
+        const result = await fetchTokenPortfolio(targetId, network);
+        setPortfolio(result);
+        setMaxAssociations(
+          typeof result.maxAutomaticAssociations === "number"
+            ? String(result.maxAutomaticAssociations)
+            : "",
+        );
+      } catch (loadError) {
+        logger.warn("tokens:portfolio", loadError);
+        setPortfolio(null);
+        setError("Unable to load token balances from the mirror node");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [logger, network],
+  );
+
+  useEffect(() => {
+    setPortfolio(null);
+    setStatus(null);
+    if (accountId) {
+      void loadPortfolio(accountId);
+    }
+  }, [accountId, loadPortfolio]);
+
+  const runAction = async (key: string, action: () => Promise<string>) => {
+    if (!accountId) {
+      return;
+    }
+    setPending(key);
+    setError(null);
+    setStatus(null);
+    try {
+      setStatus(await action());
+      await loadPortfolio(accountId);
+    } catch (actionError) {
+      logger.error("tokens:action", actionError);
+      setError(actionError instanceof Error ? actionError.message : "Transaction failed");
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const handleAssociate = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const tokenIds = associateInput
+      .split(/[\s,]+/u)
+      .map((value) => value.trim())
+      .filter(Boolean);
+    const invalid = tokenIds.find((tokenId) => !TOKEN_ID_PATTERN.test(tokenId));
+    if (invalid) {
+      setError(`${invalid} is not a valid token ID`);
+      return;
+    }
+    if (!signer || !accountId) {
+      return;
+    }
+    void runAction("associate", async () => {
+      await associateTokens({ signer, accountId, tokenIds });
+      setAssociateInput("");
+      return `Associated ${tokenIds.join(", ")} with ${accountId}.`;
+    });
+  };
+
+  const handleDissociate = (tokenId: string) => {
+    if (!signer || !accountId) {
+      return;
+    }
+    void runAction(`dissociate:${tokenId}`, async () => {
+      await dissociateTokens({ signer, accountId, tokenIds: [tokenId] });
+      return `Dissociated ${tokenId} from ${accountId}.`;
+    });
+  };
+
+  const handleMaxAssociations = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const parsed = Number.parseInt(maxAssociations, 10);
+    if (!Number.isInteger(parsed) || parsed < -1) {
+      setError("Max automatic associations must be -1 (unlimited) or a whole number");
+      return;
+    }
+    if (!signer || !accountId) {
+      return;
+    }
+    void runAction("max-associations", async () => {
+      await updateMaxAutomaticAssociations({
+        signer,
+        accountId,
+        maxAutomaticAssociations: parsed,
+      });
+      return `Max automatic associations for ${accountId} set to ${parsed}.`;
+    });
+  };
+
+  if (identities.length === 0 || !accountId) {
+    return (
+      <p className="rounded-md border border-dashed border-border bg-muted p-4 text-sm text-muted-foreground">
+        Connect your wallet to view token balances.
+      </p>
+    );
+  }
+
+  const actionsDisabled = !signer || pending !== null;
+  const heldNftTokens = new Set(portfolio?.nfts.map((nft) => nft.tokenId) ?? []);
+
+  return (
+    <div className="space-y-5">
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="flex flex-col gap-2">
+          <span className="text-sm font-medium text-foreground">Identity</span>
+          <select
+            value={accountId}
+            onChange={(event) => setSelectedId(event.target.value)}
+            className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+          >
+            {identities.map((identity) => (
+              <option key={identity.accountId} value={identity.accountId}>
+                {identity.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          className="rounded-full px-4"
+          onClick={() => void loadPortfolio(accountId)}
+          disabled={loading}
+        >
+          {loading ? <Spinner size="sm" /> : null} Refresh
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold text-foreground">Fungible tokens</h3>
+        {portfolio && portfolio.fungible.length > 0 ? (
+          <table className="w-full text-left text-sm">
+            <thead className="text-xs uppercase text-muted-foreground">
+              <tr>
+                <th className="py-2">Token</th>
+                <th className="py-2 text-right">Balance</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {portfolio.fungible.map((holding) => (
+                <tr key={holding.tokenId} className="border-t border-border">
+                  <td className="py-2">
+                    <p className="font-medium text-foreground">
+                      {holding.symbol ?? holding.tokenId}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {holding.name ? `${holding.name} · ` : ""}
+                      {holding.tokenId}
+                    </p>
+                  </td>
+                  <td className="py-2 text-right font-mono">{holding.formattedBalance}</td>
+                  <td className="py-2 text-right">
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      className="rounded-full px-3"
+                      title={
+                        holding.balance > 0
+                          ? "Transfer the balance out before dissociating"
+                          : undefined
+                      }
+                      onClick={() => handleDissociate(holding.tokenId)}
+                      disabled={actionsDisabled || holding.balance > 0}
+                    >
+                      {pending === `dissociate:${holding.tokenId}` ? <Spinner size="sm" /> : null}{" "}
+                      Dissociate
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            {loading ? "Loading balances…" : "No fungible tokens associated."}
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold text-foreground">NFTs</h3>
+        {portfolio && portfolio.nfts.length > 0 ? (
+          <ul className="flex flex-wrap gap-2">
+            {portfolio.nfts.map((nft) => (
+              <li key={`${nft.tokenId}:${nft.serialNumber}`}>
+                <Badge variant="outline" className="text-[11px]" title={nft.metadata}>
+                  {nft.symbol ?? nft.tokenId} #{nft.serialNumber}
+                </Badge>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            {loading ? "Loading NFTs…" : "No NFTs held."}
+          </p>
+        )}
+        {portfolio
+          ? portfolio.associatedTokenIds
+              .filter(
+                (tokenId) =>
+                  !heldNftTokens.has(tokenId) &&
+                  !portfolio.fungible.some((holding) => holding.tokenId === tokenId),
+              )
+              .map((tokenId) => (
+                <div key={tokenId} className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">{tokenId} (associated, none held)</span>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    className="rounded-full px-3"
+                    onClick={() => handleDissociate(tokenId)}
+                    disabled={actionsDisabled}
+                  >
+                    {pending === `dissociate:${tokenId}` ? <Spinner size="sm" /> : null} Dissociate
+                  </Button>
+                </div>
+              ))
+          : null}
+      </div>
+
+      <form onSubmit={handleAssociate} className="flex items-end gap-2">
+        <label className="flex flex-1 flex-col gap-2">
+          <span className="text-sm font-medium text-foreground">Associate tokens</span>
+          <Input
+            value={associateInput}
+            placeholder="0.0.1234, 0.0.5678"
+            onChange={(event) => setAssociateInput(event.target.value)}
+            disabled={actionsDisabled}
+          />
+        </label>
+        <Button
+          type="submit"
+          size="sm"
+          className="rounded-full px-4"
+          disabled={actionsDisabled || associateInput.trim().length === 0}
+        >
+          {pending === "associate" ? <Spinner size="sm" /> : null} Associate
+        </Button>
+      </form>
+
+      <form onSubmit={handleMaxAssociations} className="flex items-end gap-2">
+        <label className="flex flex-1 flex-col gap-2">
+          <span className="text-sm font-medium text-foreground">
+            Max automatic associations
+          </span>
+          <Input
+            type="number"
+            min="-1"
+            step="1"
+            value={maxAssociations}
+            onChange={(event) => setMaxAssociations(event.target.value)}
+            disabled={actionsDisabled}
+          />
+        </label>
+        <Button
+          type="submit"
+          size="sm"
+          variant="secondary"
+          className="rounded-full px-4"
+          disabled={actionsDisabled}
+        >
+          {pending === "max-associations" ? <Spinner size="sm" /> : null} Update
+        </Button>
+      </form>
+
+      {status ? <p className="text-sm text-brand-green">{status}</p> : null}
+      {error ? <p className="text-sm text-rose-600">{error}</p> : null}
+    </div>
+  );
+}
@@ -10,6 +10,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { ProfileImageSelector } from "@/components/profile/profile-image-selector";
 import type { DAppSigner } from "@/lib/hedera/wallet-types";
+import type { InboundTopicFeeConfig } from "@/lib/hedera/topic-fees";
 
 const profileSchema = z.object({
   alias: z
@@ -46,12 +47,45 @@ const profileSchema = z.object({
 
 export type ProfileFormValues = z.infer<typeof profileSchema>;
 
+const accountIdPattern = /^\d+\.\d+\.\d+$/u;
+
+const inboundFeeSchema = z.object({
+  amount: z.coerce
+    .number({ message: "Fee must be a number" })
+    .positive("Fee must be greater than zero"),
+  tokenId: z
+    .string()
+    .trim()
+    .regex(accountIdPattern, "Token must be an ID like 0.0.1234")
+    .optional()
+    .or(z.literal("")),
+  exemptAccountIds: z
+    .string()
+    .transform((value) =>
+      value
+        .split(/[\s,]+/u)
+        .map((entry) => entry.trim())
+        .filter(Boolean),
+    )
+    .refine(
+      (ids) => ids.every((id) => accountIdPattern.test(id)),
+      "Exempt accounts must be IDs like 0.0.1234",
+    )
+    .refine((ids) => ids.length <= 9, "At most 9 accounts can be exempt"),
+});
+
+export type ProfileSubmitOptions = {
+  inboundFee?: Omit<InboundTopicFeeConfig, "collectorAccountId">;
+};
+
 type SubmitState = "idle" | "saving" | "saved" | "error";
 
 type ProfileFormProps = {
   initialValues?: Partial<ProfileFormValues>;
-  onSubmit: (values: ProfileFormValues) => Promise<void>;
+  onSubmit: (values: ProfileFormValues, options: ProfileSubmitOptions) => Promise<void>;
   disabled?: boolean;
+  /** Offers a HIP-991 fee for the inbound topic; only applies when one is created. */
+  allowInboundFee?: boolean;
   disabledMessage?: string;
   network?: "mainnet" | "testnet";
   signer?: DAppSigner | null;
@@ -64,6 +98,7 @@ export function ProfileForm({
   disabledMessage,
   network = "testnet",
   signer = null,
+  allowInboundFee = false,
 }: ProfileFormProps) {
   const logger = getLogger("profile-form");
   const [values, setValues] = useState<ProfileFormValues>({
@@ -81,6 +116,8 @@ export function ProfileForm({
       bio: initialValues?.bio ?? "",
     });
   }, [initialValues?.alias, initialValues?.displayName, initialValues?.avatarUrl, initialValues?.bio]);
+  const [feeEnabled, setFeeEnabled] = useState(false);
+  const [feeValues, setFeeValues] = useState({ amount: "", tokenId: "", exemptAccountIds: "" });
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [status, setStatus] = useState<SubmitState>("idle");
   const [statusMessage, setStatusMessage] = useState<string>("");
@@ -93,6 +130,13 @@ export function ProfileForm({
       setStatusMessage("");
     };
 
+  const handleFeeChange = (key: keyof typeof feeValues) =>
+    (event: ChangeEvent<HTMLInputElement>) => {
+      setFeeValues((current) => ({ ...current, [key]: event.target.value }));
+      setStatus("idle");
+      setStatusMessage("");
+    };
+
   const handleAvatarChange = useCallback(
     (next: string) => {
       setValues((current) => ({ ...current, avatarUrl: next }));
@@ -120,14 +164,22 @@ export function ProfileForm({
     }
 
     const parsed = profileSchema.safeParse(values);
-    if (!parsed.success) {
+    const parsedFee =
+      allowInboundFee && feeEnabled ? inboundFeeSchema.safeParse(feeValues) : null;
+    if (!parsed.success || (parsedFee && !parsedFee.success)) {
       const fieldErrors: Record<string, string> = {};
-      parsed.error.issues.forEach((issue) => {
+      parsed.error?.issues.forEach((issue) => {
         const [field] = issue.path;
         if (typeof field === "string") {
           fieldErrors[field] = issue.message;
         }
       });
+      parsedFee?.error?.issues.forEach((issue) => {
+        const [field] = issue.path;
+        if (typeof field === "string") {
+          fieldErrors[`fee.${field}`] = issue.message;
+        }
+      });
       setErrors(fieldErrors);
       return;
     }
@@ -136,12 +188,23 @@ export function ProfileForm({
     setStatus("saving");
 
     try {
-      await onSubmit({
-        alias: parsed.data.alias,
-        displayName: parsed.data.displayName,
-        avatarUrl: parsed.data.avatarUrl ?? "",
-        bio: parsed.data.bio ?? "",
-      });
+      await onSubmit(
+        {
+          alias: parsed.data.alias,
+          displayName: parsed.data.displayName,
+          avatarUrl: parsed.data.avatarUrl ?? "",
+          bio: parsed.data.bio ?? "",
+        },
+        {
+          inboundFee: parsedFee?.data
+            ? {
+                amount: parsedFee.data.amount,
+                tokenId: parsedFee.data.tokenId || undefined,
+                exemptAccountIds: parsedFee.data.exemptAccountIds,
+              }
+            : undefined,
+        },
+      );
       setStatus("saved");
       setStatusMessage("Profile saved on Hedera");
       pushToast({ title: "Profile published", variant: "success" });
@@ -228,6 +291,86 @@ export function ProfileForm({
           </span>
         )}
       </label>
+      {allowInboundFee ? (
+        <div className="space-y-3 rounded-md border border-border p-4">
+          <label className="flex items-start gap-2 text-sm text-holNavy">
+            <input
+              type="checkbox"
+              checked={feeEnabled}
+              onChange={(event) => setFeeEnabled(event.target.checked)}
+              disabled={disabled}
+              className="mt-1"
+            />
+            <span>
+              Charge a fee for connection requests
+              <span className="block text-xs text-holNavy/60">
+                Creates the inbound topic with a HIP-991 custom fee paid to this account. The fee
+                cannot be added once the topic exists.
+              </span>
+            </span>
+          </label>
+          {feeEnabled ? (
+            <div className="grid gap-4 sm:grid-cols-2">
+              <label className="flex flex-col gap-2">
+                <span className="text-sm font-medium text-holNavy">Fee amount</span>
+                <Input
+                  type="number"
+                  min="0"
+                  step="any"
+                  name="feeAmount"
+                  value={feeValues.amount}
+                  onChange={handleFeeChange("amount")}
+                  disabled={disabled}
+                  placeholder="1"
+                />
+                {errors["fee.amount"] ? (
+                  <span className="text-xs text-red-600">{errors["fee.amount"]}</span>
+                ) : (
+                  <span className="text-xs text-holNavy/60">
+                    In HBAR, or whole token units when a token is set.
+                  </span>
+                )}
+              </label>
+              <label className="flex flex-col gap-2">
+                <span className="text-sm font-medium text-holNavy">Fee token (optional)</span>
+                <Input
+                  type="text"
+                  name="feeTokenId"
+                  value={feeValues.tokenId}
+                  onChange={handleFeeChange("tokenId")}
+                  disabled={disabled}
+                  placeholder="0.0.1234"
+                  autoComplete="off"
+                />
+                {errors["fee.tokenId"] ? (
+                  <span className="text-xs text-red-600">{errors["fee.tokenId"]}</span>
+                ) : (
+                  <span className="text-xs text-holNavy/60">Leave empty to charge HBAR.</span>
+                )}
+              </label>
+              <label className="flex flex-col gap-2 sm:col-span-2">
+                <span className="text-sm font-medium text-holNavy">Exempt accounts</span>
+                <Input
+                  type="text"
+                  name="feeExemptAccountIds"
+                  value={feeValues.exemptAccountIds}
+                  onChange={handleFeeChange("exemptAccountIds")}
+                  disabled={disabled}
+                  placeholder="0.0.1001, 0.0.1002"
+                  autoComplete="off"
+                />
+                {errors["fee.exemptAccountIds"] ? (
+                  <span className="text-xs text-red-600">{errors["fee.exemptAccountIds"]}</span>
+                ) : (
+                  <span className="text-xs text-holNavy/60">
+                    These accounts, and this one, can send requests without paying.
+                  </span>
+                )}
+              </label>
+            </div>
+          ) : null}
+        </div>
+      ) : null}
       <div className="flex items-center gap-3">
         <Button
           type="submit"
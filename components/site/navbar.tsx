@@ -8,6 +8,7 @@ import Logo from "./logo";
 import NavDropdown from "./nav-dropdown";
 import NavLink from "./nav-link";
 import Search from "./search";
+import UnreadBadges from "./unread-badges";
 import { ConnectWalletButton } from "@/components/wallet/connect-wallet-button";
 
 type NavItem = {
@@ -174,6 +175,7 @@ export default function Navbar() {
             <div className="hidden md:flex items-center h-full">
               <Search />
             </div>
+            <UnreadBadges />
             <div className="hidden sm:flex items-center">
               <ConnectWalletButton variant="navbar" />
             </div>
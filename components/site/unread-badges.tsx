@@ -0,0 +1,40 @@
+"use client";
+
+import Link from "next/link";
+import { FaComments, FaUsers } from "react-icons/fa";
+import { useReadState } from "@/providers/read-state-provider";
+
+function formatCount(count: number): string {
+  return count > 99 ? "99+" : String(count);
+}
+
+export default function UnreadBadges() {
+  const { unreadTotals } = useReadState();
+  const badges = [
+    { to: "/messages", label: "Unread messages", count: unreadTotals.messages, Icon: FaComments },
+    { to: "/flora", label: "Unread flora messages", count: unreadTotals.flora, Icon: FaUsers },
+  ].filter((badge) => badge.count > 0);
+
+  if (badges.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center gap-1">
+      {badges.map(({ to, label, count, Icon }) => (
+        <Link
+          key={to}
+          href={to}
+          aria-label={`${label}: ${count}`}
+          title={label}
+          className="relative flex items-center justify-center w-9 h-9 rounded-md text-white/90 no-underline transition-colors hover:bg-white/10 hover:text-white"
+        >
+          <Icon className="w-4 h-4" />
+          <span className="absolute -top-0.5 -right-0.5 min-w-[18px] rounded-full bg-rose-500 px-1 text-center font-mono text-[10px] font-semibold leading-[18px] text-white">
+            {formatCount(count)}
+          </span>
+        </Link>
+      ))}
+    </div>
+  );
+}
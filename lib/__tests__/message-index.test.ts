@@ -0,0 +1,110 @@
+import "fake-indexeddb/auto";
+import { describe, expect, it } from "vitest";
+import {
+  indexMessages,
+  messageDeepLink,
+  parseMessageDeepLink,
+  searchMessages,
+  tokenizeMessageText,
+  type IndexedMessage,
+} from "@/lib/message-index";
+
+const baseMessage: IndexedMessage = {
+  ownerAccountId: "0.0.1001",
+  source: "connection",
+  topicId: "0.0.5005",
+  sequenceNumber: 42,
+  consensusTimestamp: "1700000000.000000001",
+  sender: "0.0.2002",
+  conversation: "Alice",
+  text: "Ship it",
+};
+
+describe("message index", () => {
+  it("tokenizes text into unique lowercase words", () => {
+    expect(tokenizeMessageText("Hello, hello WORLD! a 42 café")).toEqual([
+      "hello",
+      "world",
+      "42",
+      "café",
+    ]);
+  });
+
+  it("round-trips deep links for conversations and floras", () => {
+    const connectionLink = messageDeepLink(baseMessage);
+    expect(connectionLink).toBe("/messages?topic=0.0.5005&seq=42");
+    expect(parseMessageDeepLink(new URLSearchParams(connectionLink.split("?")[1]))).toEqual({
+      topicId: "0.0.5005",
+      sequenceNumber: 42,
+    });
+
+    const floraLink = messageDeepLink({ ...baseMessage, source: "flora", floraId: "flora-1" });
+    expect(floraLink).toBe("/flora?topic=0.0.5005&seq=42&flora=flora-1");
+    expect(parseMessageDeepLink(new URLSearchParams(floraLink.split("?")[1]))).toEqual({
+      topicId: "0.0.5005",
+      sequenceNumber: 42,
+      floraId: "flora-1",
+    });
+
+    expect(parseMessageDeepLink(new URLSearchParams("topic=0.0.5005&seq=abc"))).toBeNull();
+  });
+
+  it("indexes messages and finds them by every query word as a prefix", async () => {
+    await indexMessages([
+      { ...baseMessage, ownerAccountId: "0.0.3001", text: "Deploy the petal release" },
+      { ...baseMessage, ownerAccountId: "0.0.3001", sequenceNumber: 43, text: "Lunch later?" },
+      { ...baseMessage, ownerAccountId: "0.0.3001", sequenceNumber: 44, text: "   " },
+    ]);
+
+    const hits = await searchMessages("0.0.3001", "pet REL");
+    expect(hits).toEqual([
+      expect.objectContaining({
+        sequenceNumber: 42,
+        text: "Deploy the petal release",
+        href: "/messages?topic=0.0.5005&seq=42",
+      }),
+    ]);
+    expect(hits[0]).not.toHaveProperty("terms");
+    expect(await searchMessages("0.0.3001", "alice")).toHaveLength(2);
+    expect(await searchMessages("0.0.3001", "petal lunch")).toEqual([]);
+  });
+
+  it("keeps each identity's index separate", async () => {
+    await indexMessages([
+      { ...baseMessage, ownerAccountId: "0.0.3002", text: "Quarterly budget draft" },
+      { ...baseMessage, ownerAccountId: "0.0.3003", text: "Quarterly budget final" },
+    ]);
+
+    const hits = await searchMessages("0.0.3002", "budget");
+    expect(hits).toHaveLength(1);
+    expect(hits[0]).toMatchObject({ ownerAccountId: "0.0.3002", text: "Quarterly budget draft" });
+    expect(await searchMessages("0.0.3004", "budget")).toEqual([]);
+  });
+
+  it("replaces a re-indexed message instead of duplicating it", async () => {
+    const message = { ...baseMessage, ownerAccountId: "0.0.3005", text: "Invoice attached" };
+    await indexMessages([message]);
+    await indexMessages([message, { ...message, text: "Invoice attached, revised" }]);
+
+    const hits = await searchMessages("0.0.3005", "invoice");
+    expect(hits).toHaveLength(1);
+    expect(hits[0]?.text).toBe("Invoice attached, revised");
+  });
+
+  it("ranks newest hits first and honours the limit", async () => {
+    await indexMessages(
+      [3, 1, 2].map((sequenceNumber) => ({
+        ...baseMessage,
+        ownerAccountId: "0.0.3006",
+        sequenceNumber,
+        consensusTimestamp: `170000000${sequenceNumber}.000000000`,
+        text: `Standup notes ${sequenceNumber}`,
+      })),
+    );
+
+    const hits = await searchMessages("0.0.3006", "standup");
+    expect(hits.map((hit) => hit.sequenceNumber)).toEqual([3, 2, 1]);
+    const limited = await searchMessages("0.0.3006", "standup", 2);
+    expect(limited.map((hit) => hit.sequenceNumber)).toEqual([3, 2]);
+  });
+});
@@ -0,0 +1,120 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mirrorModule = vi.hoisted(() => ({
+  lookupAccount: vi.fn(),
+}));
+
+vi.mock("@/lib/hedera/mirror", () => mirrorModule);
+
+import {
+  appendAutoAcceptLog,
+  describeAutoAcceptRule,
+  isAutoAcceptRateLimited,
+  matchAutoAcceptRule,
+  type AutoAcceptLogEntry,
+  type AutoAcceptRule,
+} from "@/lib/hedera/auto-accept";
+import type { FloraRecord } from "@/lib/hedera/flora";
+import type { ConnectionRequestEvent } from "@/lib/hedera/messaging";
+
+function request(accountId: string, payerAccountId: string = accountId): ConnectionRequestEvent {
+  return {
+    kind: "connection-request",
+    sequenceNumber: 7,
+    consensusTimestamp: "1700000000.000000007",
+    operator: { accountId, inboundTopicId: "0.0.900" },
+    payerAccountId,
+    raw: {},
+  };
+}
+
+const flora: FloraRecord = {
+  id: "flora-1",
+  name: "Builders",
+  topics: { communication: "0.0.10", transaction: "0.0.11", state: "0.0.12" },
+  members: [
+    { accountId: "0.0.100", status: "self" },
+    { accountId: "0.0.200", status: "accepted" },
+    { accountId: "0.0.300", status: "invited" },
+  ],
+  status: "active",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  initiatorAccountId: "0.0.100",
+};
+
+const rules: AutoAcceptRule[] = [
+  { id: "a", type: "account", accountId: "0.0.42" },
+  { id: "f", type: "flora-member", floraId: "flora-1" },
+  { id: "t", type: "token-holder", tokenId: "0.0.77", minBalance: 5 },
+];
+
+describe("auto-accept rules", () => {
+  beforeEach(() => {
+    mirrorModule.lookupAccount.mockReset();
+    mirrorModule.lookupAccount.mockImplementation(async (accountId: string) => ({
+      account: accountId,
+      balance: {
+        balance: 0,
+        timestamp: "0",
+        tokens: [{ token_id: "0.0.77", balance: accountId === "0.0.500" ? 10 : 2 }],
+      },
+    }));
+  });
+
+  it("matches accounts, accepted flora members and token holders in order", async () => {
+    expect((await matchAutoAcceptRule(request("0.0.42"), rules, { floras: [flora] }))?.id).toBe("a");
+    expect((await matchAutoAcceptRule(request("0.0.200"), rules, { floras: [flora] }))?.id).toBe(
+      "f",
+    );
+    expect((await matchAutoAcceptRule(request("0.0.500"), rules, { floras: [flora] }))?.id).toBe(
+      "t",
+    );
+    expect(await matchAutoAcceptRule(request("0.0.300"), rules, { floras: [flora] })).toBeNull();
+    expect(
+      await matchAutoAcceptRule(request("0.0.200"), rules, {
+        floras: [{ ...flora, status: "dissolved" }],
+      }),
+    ).toBeNull();
+    expect(mirrorModule.lookupAccount).toHaveBeenCalledTimes(3);
+  });
+
+  it("ignores requests paid by another account and rate limits each requester", async () => {
+    expect(await matchAutoAcceptRule(request("0.0.42", "0.0.666"), rules)).toBeNull();
+
+    const now = Date.now();
+    const attempt = (hoursAgo: number): AutoAcceptLogEntry => ({
+      requestSequenceNumber: hoursAgo,
+      accountId: "0.0.42",
+      rule: "Account 0.0.42",
+      outcome: "accepted",
+      timestamp: new Date(now - hoursAgo * 60 * 60 * 1000).toISOString(),
+    });
+    const recent = [attempt(1), attempt(2), attempt(30)];
+    expect(isAutoAcceptRateLimited(recent, "0.0.42", now)).toBe(false);
+    expect((await matchAutoAcceptRule(request("0.0.42"), rules, { log: recent }))?.id).toBe("a");
+
+    const saturated = [attempt(1), attempt(2), attempt(3)];
+    expect(isAutoAcceptRateLimited(saturated, "0.0.42", now)).toBe(true);
+    expect(isAutoAcceptRateLimited(saturated, "0.0.43", now)).toBe(false);
+    expect(await matchAutoAcceptRule(request("0.0.42"), rules, { log: saturated })).toBeNull();
+  });
+
+  it("describes rules and caps the action log", () => {
+    expect(describeAutoAcceptRule(rules[1]!, [flora])).toBe("Members of Builders");
+    expect(describeAutoAcceptRule({ id: "x", type: "flora-member" })).toBe("Any flora co-member");
+    expect(describeAutoAcceptRule(rules[2]!)).toBe("Holders of 5 × 0.0.77");
+
+    let log: AutoAcceptLogEntry[] = [];
+    for (let index = 0; index < 60; index += 1) {
+      log = appendAutoAcceptLog(log, {
+        requestSequenceNumber: index,
+        accountId: "0.0.42",
+        rule: "Account 0.0.42",
+        outcome: "accepted",
+        timestamp: new Date(index).toISOString(),
+      });
+    }
+    expect(log).toHaveLength(50);
+    expect(log[0]?.requestSequenceNumber).toBe(59);
+  });
+});
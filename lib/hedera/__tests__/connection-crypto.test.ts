@@ -0,0 +1,52 @@
+// @vitest-environment node
+import { describe, expect, it } from "vitest";
+import {
+  appendHandshakeKey,
+  deriveConnectionKey,
+  generateConnectionKeyPair,
+  isSealedConnectionData,
+  openConnectionData,
+  parseHandshakeMemo,
+  sealConnectionData,
+} from "@/lib/hedera/connection-crypto";
+
+describe("connection crypto", () => {
+  it("round-trips handshake keys through HCS-10 memos", async () => {
+    const { publicKey } = await generateConnectionKeyPair();
+
+    expect(parseHandshakeMemo(appendHandshakeKey("Let's talk", publicKey))).toEqual({
+      memo: "Let's talk",
+      publicKey,
+    });
+    expect(parseHandshakeMemo(appendHandshakeKey(undefined, publicKey))).toEqual({
+      memo: undefined,
+      publicKey,
+    });
+    expect(parseHandshakeMemo("plain memo")).toEqual({ memo: "plain memo", publicKey: null });
+  });
+
+  it("derives the same key on both sides and seals data to the topic", async () => {
+    const requester = await generateConnectionKeyPair();
+    const responder = await generateConnectionKeyPair();
+
+    const requesterKey = await deriveConnectionKey(
+      requester.privateKey,
+      responder.publicKey,
+      "0.0.700",
+    );
+    const responderKey = await deriveConnectionKey(
+      responder.privateKey,
+      requester.publicKey,
+      "0.0.700",
+    );
+    expect(requesterKey.key).toBe(responderKey.key);
+
+    const sealed = await sealConnectionData(requesterKey.key, "hello 👋", "0.0.700");
+    expect(isSealedConnectionData(sealed)).toBe(true);
+    expect(sealed).not.toContain("hello");
+    await expect(openConnectionData(responderKey.key, sealed, "0.0.700")).resolves.toBe(
+      "hello 👋",
+    );
+    await expect(openConnectionData(responderKey.key, sealed, "0.0.701")).rejects.toThrow();
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/hedera/client", () => ({
+  getHederaClient: vi.fn(() => ({})),
+}));
+
+vi.mock("@/lib/hedera/mirror", () => ({
+  lookupAccount: vi.fn(),
+}));
+
+vi.mock("@/lib/hedera/messaging", () => ({
+  recordOutboundConnectionCreated: vi.fn(),
+  sendConnectionCreatedNotification: vi.fn(),
+}));
+
+import {
+  assertConnectionOpen,
+  getConnectionState,
+  requestedConnectionTopicId,
+  transitionConnection,
+  type ConnectionRecord,
+} from "@/lib/hedera/connections";
+
+const requested: ConnectionRecord = {
+  connectionTopicId: requestedConnectionTopicId("0.0.2", 14),
+  contactAccountId: "0.0.2",
+  contactInboundTopicId: "0.0.20",
+  connectionId: 14,
+  createdAt: "2024-01-01T00:00:00.000Z",
+  state: "requested",
+};
+
+describe("connection lifecycle", () => {
+  it("activates requested connections once the peer confirms", () => {
+    expect(requested.connectionTopicId).toBe("requested:0.0.2:14");
+    expect(() => assertConnectionOpen(requested)).toThrow("not active yet");
+
+    const active = transitionConnection(requested, {
+      type: "confirmed",
+      connectionTopicId: "0.0.700",
+    });
+
+    expect(active).toMatchObject({ connectionTopicId: "0.0.700", state: "active" });
+    expect(() => assertConnectionOpen(active)).not.toThrow();
+    expect(() =>
+      transitionConnection(active, { type: "confirmed", connectionTopicId: "0.0.701" }),
+    ).toThrow("Cannot apply confirmed to a active connection");
+  });
+
+  it("closes open connections from either side and rejects sends afterwards", () => {
+    const legacy = { ...requested, connectionTopicId: "0.0.700", state: undefined };
+    expect(getConnectionState(legacy)).toBe("active");
+
+    const closedByMe = transitionConnection(legacy, { type: "close-sent", reason: "Bye" });
+    const closedByPeer = transitionConnection(legacy, { type: "close-received" });
+
+    expect(closedByMe).toMatchObject({ state: "closed-by-me", closeReason: "Bye" });
+    expect(closedByMe.closedAt).toBeTruthy();
+    expect(closedByPeer.state).toBe("closed-by-peer");
+    expect(() => assertConnectionOpen(closedByPeer)).toThrow("connection is closed");
+    expect(() => transitionConnection(closedByMe, { type: "close-received" })).toThrow();
+    expect(() => transitionConnection(requested, { type: "close-sent" })).toThrow();
+  });
+});
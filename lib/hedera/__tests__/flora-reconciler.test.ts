@@ -0,0 +1,267 @@
+import { Buffer } from "buffer";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mirrorModule = vi.hoisted(() => ({
+  fetchAllTopicMessages: vi.fn(),
+}));
+
+vi.mock("@/lib/hedera/mirror", () => mirrorModule);
+
+const messagingModule = vi.hoisted(() => ({
+  fetchAllDirectMessages: vi.fn(),
+  verifyDirectMessage: vi.fn(),
+}));
+
+vi.mock("@/lib/hedera/messaging", () => messagingModule);
+
+const schedulesModule = vi.hoisted(() => ({
+  fetchScheduleStatuses: vi.fn(),
+}));
+
+vi.mock("@/lib/hedera/schedules", () => schedulesModule);
+
+import { discoverFloraInvitations, reconcileFlora } from "@/lib/hedera/flora-reconciler";
+
+const announcement = {
+  type: "flora_create_request",
+  from: "0.0.1",
+  to: "*",
+  content: "Join Treasury",
+  sentAt: "2024-01-01T00:00:00.000Z",
+  flora: {
+    name: "Treasury",
+    accountId: "0.0.500",
+    threshold: 2,
+    communicationTopicId: "0.0.100",
+    transactionTopicId: "0.0.101",
+    stateTopicId: "0.0.102",
+    initiator: { accountId: "0.0.1", alias: "alice" },
+    members: [
+      { accountId: "0.0.2", alias: "bob" },
+      { accountId: "0.0.3", alias: "carol" },
+    ],
+  },
+};
+
+function topicMessage(payload: unknown, sequenceNumber: number, offset = 0) {
+  return {
+    consensusTimestamp: `${1704067200 + offset + sequenceNumber}.0`,
+    sequenceNumber,
+    message: Buffer.from(JSON.stringify(payload)).toString("base64"),
+    payer_account_id: (payload as { from?: string }).from,
+  };
+}
+
+function mockTopics(communication: unknown[], state: unknown[], transaction: unknown[] = []) {
+  const topics: Record<string, { payloads: unknown[]; offset: number }> = {
+    "0.0.100": { payloads: communication, offset: 0 },
+    "0.0.101": { payloads: transaction, offset: 30 },
+    "0.0.102": { payloads: state, offset: 50 },
+  };
+  mirrorModule.fetchAllTopicMessages.mockImplementation(async (topicId: string) => {
+    const { payloads, offset } = topics[topicId] ?? { payloads: [], offset: 0 };
+    return payloads.map((payload, index) => topicMessage(payload, index + 1, offset));
+  });
+}
+
+describe("flora reconciler", () => {
+  beforeEach(() => {
+    mirrorModule.fetchAllTopicMessages.mockReset();
+    messagingModule.fetchAllDirectMessages.mockReset();
+    messagingModule.verifyDirectMessage.mockReset();
+    messagingModule.verifyDirectMessage.mockImplementation(async (message: object) => ({
+      ...message,
+      verification: "unverified",
+    }));
+    schedulesModule.fetchScheduleStatuses.mockReset();
+    schedulesModule.fetchScheduleStatuses.mockImplementation(
+      async (scheduleIds: string[]) => new Map(scheduleIds.map((id) => [id, "executed"])),
+    );
+  });
+
+  it("rebuilds an active flora from the communication topic", async () => {
+    mockTopics(
+      [
+        announcement,
+        { type: "flora_join_accept", from: "0.0.2" },
+        { type: "flora_join_accept", from: "0.0.3" },
+      ],
+      [],
+    );
+
+    const result = await reconcileFlora("0.0.100", { accountId: "0.0.2" });
+
+    expect(result?.awaitingAcceptance).toBe(false);
+    expect(result?.flora).toMatchObject({
+      id: "0.0.100",
+      status: "active",
+      threshold: 2,
+      topics: { communication: "0.0.100", transaction: "0.0.101", state: "0.0.102" },
+    });
+    expect(result?.flora.members.map((member) => [member.accountId, member.status])).toEqual([
+      ["0.0.1", "accepted"],
+      ["0.0.2", "self"],
+      ["0.0.3", "accepted"],
+    ]);
+  });
+
+  it("keeps unanswered invitations pending", async () => {
+    mockTopics([announcement, { type: "flora_join_accept", from: "0.0.2" }], []);
+
+    const result = await reconcileFlora("0.0.100", { accountId: "0.0.3" });
+
+    expect(result?.awaitingAcceptance).toBe(true);
+    expect(result?.flora.status).toBe("pending");
+    expect(result?.invitation.type).toBe("flora_create_request");
+  });
+
+  it("replays accepted joins and removals from the state topic", async () => {
+    const joinRequest = {
+      type: "flora_join_request",
+      requestId: "join-1",
+      from: "0.0.4",
+      candidateAccountId: "0.0.4",
+      candidateAlias: "dave",
+      sentAt: "2024-01-02T00:00:00.000Z",
+    };
+    const joinVote = (from: string) => ({
+      type: "flora_join_vote",
+      requestId: "join-1",
+      from,
+      candidateAccountId: "0.0.4",
+      vote: "yes",
+      sentAt: "2024-01-02T00:00:00.000Z",
+    });
+    const joined = {
+      type: "flora_join_accepted",
+      requestId: "join-1",
+      from: "0.0.1",
+      candidateAccountId: "0.0.4",
+      candidateAlias: "dave",
+      members: ["0.0.1", "0.0.2", "0.0.3", "0.0.4"],
+      threshold: 3,
+      scheduleIds: ["0.0.70"],
+      sentAt: "2024-01-02T00:00:00.000Z",
+    };
+    const removed = {
+      type: "flora_member_removed",
+      proposalId: "p-1",
+      from: "0.0.1",
+      accountId: "0.0.3",
+      members: ["0.0.1", "0.0.2", "0.0.4"],
+      threshold: 3,
+      scheduleIds: ["0.0.71"],
+      sentAt: "2024-01-03T00:00:00.000Z",
+    };
+    mockTopics(
+      [
+        announcement,
+        { type: "flora_join_accept", from: "0.0.2" },
+        joinRequest,
+        joinVote("0.0.1"),
+        joinVote("0.0.2"),
+      ],
+      [joined, removed],
+      [
+        {
+          type: "flora_proposal",
+          proposalId: "p-1",
+          from: "0.0.1",
+          text: "Remove carol",
+          sentAt: "2024-01-02T12:00:00.000Z",
+          membership: { kind: "remove_member", accountId: "0.0.3" },
+        },
+        ...["0.0.1", "0.0.2", "0.0.4"].map((from) => ({
+          type: "flora_vote",
+          proposalId: "p-1",
+          from,
+          vote: "yes",
+          sentAt: "2024-01-02T12:00:00.000Z",
+        })),
+      ],
+    );
+
+    const joiner = await reconcileFlora("0.0.100", { accountId: "0.0.4" });
+    expect(joiner?.flora.status).toBe("active");
+    expect(joiner?.flora.members.find((member) => member.accountId === "0.0.4")).toEqual({
+      accountId: "0.0.4",
+      alias: "dave",
+      status: "self",
+    });
+
+    const formerMember = await reconcileFlora("0.0.100", { accountId: "0.0.3" });
+    expect(formerMember?.flora.status).toBe("removed");
+    expect(formerMember?.flora.threshold).toBe(3);
+
+    await expect(reconcileFlora("0.0.100", { accountId: "0.0.9" })).resolves.toBeNull();
+
+    mockTopics(
+      [
+        announcement,
+        { type: "flora_join_accept", from: "0.0.2" },
+        joinRequest,
+        joinVote("0.0.1"),
+        joinVote("0.0.2"),
+      ],
+      [joined],
+    );
+    schedulesModule.fetchScheduleStatuses.mockImplementation(
+      async (scheduleIds: string[]) => new Map(scheduleIds.map((id) => [id, "pending"])),
+    );
+    const waiting = await reconcileFlora("0.0.100", { accountId: "0.0.4" });
+    expect(waiting?.flora.status).toBe("pending");
+    expect(waiting?.flora.members.map((member) => member.accountId)).toEqual([
+      "0.0.1",
+      "0.0.2",
+      "0.0.3",
+    ]);
+  });
+
+  it("requires an announcement on the topic paid for by the initiator", async () => {
+    mockTopics([], []);
+    await expect(reconcileFlora("0.0.100", { accountId: "0.0.2" })).resolves.toBeNull();
+    expect(mirrorModule.fetchAllTopicMessages).toHaveBeenCalledTimes(1);
+
+    const spoofed = topicMessage(
+      { ...announcement, flora: { ...announcement.flora, stateTopicId: "0.0.666" } },
+      1,
+    );
+    mirrorModule.fetchAllTopicMessages.mockResolvedValue([
+      { ...spoofed, payer_account_id: "0.0.9" },
+    ]);
+    await expect(reconcileFlora("0.0.100", { accountId: "0.0.2" })).resolves.toBeNull();
+    expect(mirrorModule.fetchAllTopicMessages).not.toHaveBeenCalledWith("0.0.666");
+  });
+
+  it("discovers invitations addressed to the account from its inbox", async () => {
+    const forged = {
+      ...announcement,
+      from: "0.0.9",
+      flora: { ...announcement.flora, communicationTopicId: "0.0.300" },
+    };
+    const unsigned = {
+      ...announcement,
+      from: "0.0.8",
+      flora: { ...announcement.flora, communicationTopicId: "0.0.400" },
+    };
+    messagingModule.verifyDirectMessage.mockImplementation(async (message: { from: string }) => ({
+      ...message,
+      verification:
+        message.from === "0.0.9" ? "forged" : message.from === "0.0.8" ? "unverified" : "verified",
+    }));
+    messagingModule.fetchAllDirectMessages.mockResolvedValue([
+      { type: "text", from: "0.0.1", to: "0.0.2", content: "hi", sentAt: "2024-01-01" },
+      forged,
+      unsigned,
+      announcement,
+      { ...announcement, sentAt: "2024-01-02T00:00:00.000Z" },
+      { ...announcement, to: "0.0.7", flora: { ...announcement.flora, communicationTopicId: "0.0.200" } },
+    ]);
+
+    const invitations = await discoverFloraInvitations("0.0.50", "0.0.2");
+
+    expect(messagingModule.fetchAllDirectMessages).toHaveBeenCalledWith("0.0.50");
+    expect(invitations).toHaveLength(1);
+    expect(invitations[0].flora.communicationTopicId).toBe("0.0.100");
+  });
+});
@@ -0,0 +1,145 @@
+import { Buffer } from "buffer";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mirrorModule = vi.hoisted(() => ({
+  fetchTopicMessages: vi.fn(),
+}));
+
+vi.mock("@/lib/hedera/mirror", () => mirrorModule);
+
+vi.mock("@/lib/hedera/client", () => ({
+  getHederaClient: vi.fn(() => ({})),
+}));
+
+const topicsModule = vi.hoisted(() => ({
+  tryGetTopicId: vi.fn(),
+}));
+
+vi.mock("@/config/topics", () => topicsModule);
+
+const standardsModule = vi.hoisted(() => {
+  const response = { getReceiptWithSigner: vi.fn(async () => ({})) };
+  const tx = {
+    freezeWith: vi.fn(() => tx),
+    executeWithSigner: vi.fn(async () => response),
+  };
+  return { tx, buildHcs2RegisterTx: vi.fn(() => tx) };
+});
+
+vi.mock("@hashgraphonline/standards-sdk", () => ({
+  buildHcs2RegisterTx: standardsModule.buildHcs2RegisterTx,
+}));
+
+import {
+  filterRegisteredFloras,
+  listRegisteredFloras,
+  normalizePurposeTags,
+  publishFloraToRegistry,
+} from "@/lib/hedera/flora-registry";
+
+const topics = { communication: "0.0.100", transaction: "0.0.101", state: "0.0.102" };
+
+function registration(floraId: string, name: string, tags: string[], sequenceNumber: number) {
+  const envelope = {
+    p: "hcs-2",
+    op: "register",
+    t_id: floraId,
+    metadata: JSON.stringify({
+      standard: "hcs-16",
+      name,
+      account_id: "0.0.500",
+      topics,
+      member_count: 3,
+      threshold: 2,
+      tags,
+      initiator: "0.0.1",
+      registered_at: "2024-01-01T00:00:00.000Z",
+    }),
+  };
+  return {
+    consensusTimestamp: `17040672${sequenceNumber}.0`,
+    sequenceNumber,
+    message: Buffer.from(JSON.stringify(envelope)).toString("base64"),
+  };
+}
+
+describe("flora registry", () => {
+  beforeEach(() => {
+    mirrorModule.fetchTopicMessages.mockReset();
+    topicsModule.tryGetTopicId.mockReset();
+    standardsModule.buildHcs2RegisterTx.mockClear();
+    topicsModule.tryGetTopicId.mockImplementation((_name: string, scope: string) =>
+      scope === "global" ? "0.0.9002" : "0.0.9001",
+    );
+  });
+
+  it("publishes an HCS-2 registration pointing at the communication topic", async () => {
+    const signer = { signTransaction: vi.fn(async () => undefined) };
+
+    await publishFloraToRegistry(signer as never, {
+      floraId: "0.0.100",
+      name: "Treasury",
+      accountId: "0.0.500",
+      topics,
+      memberCount: 3,
+      threshold: 2,
+      purposeTags: ["#Treasury", "DeFi", "treasury"],
+      initiatorAccountId: "0.0.1",
+    });
+
+    const [params] = standardsModule.buildHcs2RegisterTx.mock.calls[0] as unknown as [
+      { registryTopicId: string; targetTopicId: string; metadata: string },
+    ];
+    expect(params.registryTopicId).toBe("0.0.9001");
+    expect(params.targetTopicId).toBe("0.0.100");
+    expect(JSON.parse(params.metadata)).toMatchObject({
+      standard: "hcs-16",
+      account_id: "0.0.500",
+      member_count: 3,
+      tags: ["treasury", "defi"],
+    });
+    expect(signer.signTransaction).toHaveBeenCalledWith(standardsModule.tx);
+  });
+
+  it("fails when the registry topic is not configured", async () => {
+    topicsModule.tryGetTopicId.mockReturnValue(undefined);
+    await expect(
+      publishFloraToRegistry({} as never, {
+        floraId: "0.0.100",
+        name: "Treasury",
+        topics,
+        memberCount: 2,
+        purposeTags: [],
+        initiatorAccountId: "0.0.1",
+      }),
+    ).rejects.toThrow("Flora registry topic is not configured");
+  });
+
+  it("merges environment and global registries, keeping the newest entry per flora", async () => {
+    mirrorModule.fetchTopicMessages.mockImplementation(async (topicId: string) =>
+      topicId === "0.0.9001"
+        ? [
+            registration("0.0.100", "Treasury v2", ["treasury"], 12),
+            registration("0.0.100", "Treasury", ["treasury"], 11),
+            { consensusTimestamp: "1.0", sequenceNumber: 1, message: "not-json" },
+          ]
+        : [registration("0.0.200", "Research guild", ["research"], 10)],
+    );
+
+    const entries = await listRegisteredFloras();
+
+    expect(entries.map((entry) => [entry.floraId, entry.name, entry.scope])).toEqual([
+      ["0.0.100", "Treasury v2", "environment"],
+      ["0.0.200", "Research guild", "global"],
+    ]);
+    expect(filterRegisteredFloras(entries, "#research")).toHaveLength(1);
+    expect(filterRegisteredFloras(entries, "0.0.500 treasury")).toHaveLength(1);
+  });
+
+  it("normalizes purpose tags from free text", () => {
+    expect(normalizePurposeTags("Research, #DeFi  research bad_tag")).toEqual([
+      "research",
+      "defi",
+    ]);
+  });
+});
@@ -0,0 +1,353 @@
+import { describe, expect, it } from "vitest";
+import {
+  resolveFloraMembership,
+  scaleFloraThreshold,
+  tallyFloraJoinRequests,
+  tallyFloraProposals,
+  type TallyInputMessage,
+} from "@/lib/hedera/flora-tally";
+
+const members = ["0.0.1", "0.0.2", "0.0.3"];
+
+function proposal(
+  proposalId: string,
+  consensusTimestamp: string,
+  deadline?: string,
+): TallyInputMessage {
+  return {
+    consensusTimestamp,
+    payerAccountId: "0.0.1",
+    payload: {
+      type: "flora_proposal",
+      proposalId,
+      from: "0.0.1",
+      text: "Fund the treasury",
+      sentAt: "2024-01-01T00:00:00.000Z",
+      deadline,
+    },
+  };
+}
+
+function vote(
+  proposalId: string,
+  from: string,
+  choice: "yes" | "no",
+  consensusTimestamp: string,
+  payerAccountId = from,
+): TallyInputMessage {
+  return {
+    consensusTimestamp,
+    payerAccountId,
+    payload: {
+      type: "flora_vote",
+      proposalId,
+      from,
+      vote: choice,
+      sentAt: "2024-01-01T00:00:00.000Z",
+    },
+  };
+}
+
+describe("tallyFloraProposals", () => {
+  it("passes proposals once the threshold of yes votes is reached", () => {
+    const result = tallyFloraProposals(
+      [
+        vote("p1", "0.0.2", "yes", "1704067202.0"),
+        proposal("p1", "1704067200.0"),
+        vote("p1", "0.0.1", "yes", "1704067201.0"),
+      ],
+      { members, threshold: 2, now: 1704067300000 },
+    );
+
+    expect(result.proposals).toHaveLength(1);
+    expect(result.proposals[0]).toMatchObject({
+      proposalId: "p1",
+      status: "passed",
+      yes: 2,
+      no: 0,
+      quorumReached: true,
+    });
+  });
+
+  it("keeps only the latest vote per member and ignores non-members", () => {
+    const result = tallyFloraProposals(
+      [
+        proposal("p1", "1704067200.0"),
+        vote("p1", "0.0.2", "yes", "1704067201.0"),
+        vote("p1", "0.0.2", "no", "1704067202.0"),
+        vote("p1", "0.0.9", "yes", "1704067203.0"),
+        vote("p2", "0.0.1", "yes", "1704067204.0"),
+      ],
+      { members, threshold: 2, now: 1704067300000 },
+    );
+
+    const [tally] = result.proposals;
+    expect(tally.votes).toEqual([
+      { accountId: "0.0.2", vote: "no", consensusTimestamp: "1704067202.0" },
+    ]);
+    expect(tally.status).toBe("open");
+    expect(result.rejectedVotes).toEqual([
+      { accountId: "0.0.9", proposalId: "p1", reason: "not_member" },
+      { accountId: "0.0.1", proposalId: "p2", reason: "unknown_proposal" },
+    ]);
+  });
+
+  it("attributes votes and proposals to the paying account", () => {
+    const result = tallyFloraProposals(
+      [
+        proposal("p1", "1704067200.0"),
+        { ...proposal("p2", "1704067200.5"), payerAccountId: "0.0.3" },
+        vote("p1", "0.0.1", "yes", "1704067201.0"),
+        vote("p1", "0.0.2", "yes", "1704067202.0", "0.0.1"),
+        vote("p1", "0.0.3", "yes", "1704067203.0", "0.0.1"),
+      ],
+      { members, threshold: 2, now: 1704067300000 },
+    );
+
+    expect(result.proposals.map((tally) => tally.proposalId)).toEqual(["p1"]);
+    expect(result.proposals[0]).toMatchObject({ status: "open", yes: 1 });
+    expect(result.rejectedVotes).toEqual([
+      { accountId: "0.0.1", proposalId: "p1", reason: "payer_mismatch" },
+      { accountId: "0.0.1", proposalId: "p1", reason: "payer_mismatch" },
+    ]);
+  });
+
+  it("rejects proposals that can no longer reach the threshold", () => {
+    const result = tallyFloraProposals(
+      [
+        proposal("p1", "1704067200.0"),
+        vote("p1", "0.0.2", "no", "1704067201.0"),
+        vote("p1", "0.0.3", "no", "1704067202.0"),
+      ],
+      { members, threshold: 2, now: 1704067300000 },
+    );
+
+    expect(result.proposals[0].status).toBe("rejected");
+  });
+
+  it("expires open proposals after the deadline and drops late votes", () => {
+    const result = tallyFloraProposals(
+      [
+        proposal("p1", "1704067200.0", "2024-01-01T00:01:00.000Z"),
+        vote("p1", "0.0.2", "yes", "1704067230.0"),
+        vote("p1", "0.0.3", "yes", "1704067300.0"),
+      ],
+      { members, threshold: 2, now: Date.parse("2024-01-02T00:00:00.000Z") },
+    );
+
+    expect(result.proposals[0]).toMatchObject({ status: "expired", yes: 1 });
+    expect(result.rejectedVotes).toEqual([
+      { accountId: "0.0.3", proposalId: "p1", reason: "after_deadline" },
+    ]);
+  });
+
+  it("defaults to a simple majority threshold", () => {
+    const result = tallyFloraProposals([proposal("p1", "1704067200.0")], { members });
+    expect(result.proposals[0].threshold).toBe(2);
+  });
+});
+
+describe("join request tally", () => {
+  function joinRequest(requestId: string, candidate: string, consensusTimestamp: string) {
+    return {
+      consensusTimestamp,
+      payerAccountId: "0.0.1",
+      payload: {
+        type: "flora_join_request",
+        requestId,
+        from: "0.0.1",
+        candidateAccountId: candidate,
+        sentAt: "2024-01-01T00:00:00.000Z",
+      },
+    };
+  }
+
+  function joinVote(requestId: string, from: string, choice: "yes" | "no", ts: string) {
+    return {
+      consensusTimestamp: ts,
+      payerAccountId: from,
+      payload: {
+        type: "flora_join_vote",
+        requestId,
+        from,
+        candidateAccountId: "0.0.4",
+        vote: choice,
+        sentAt: "2024-01-01T00:00:00.000Z",
+      },
+    };
+  }
+
+  function joinAccepted(from: string, memberIds: string[], threshold: number, ts: string) {
+    return {
+      consensusTimestamp: ts,
+      payerAccountId: from,
+      payload: {
+        type: "flora_join_accepted",
+        requestId: "j1",
+        from,
+        candidateAccountId: "0.0.4",
+        members: memberIds,
+        threshold,
+        scheduleIds: ["0.0.70"],
+        sentAt: "2024-01-01T00:00:00.000Z",
+      },
+    };
+  }
+
+  it("passes join requests at the member threshold and flags accepted ones", () => {
+    const messages = [
+      joinRequest("j1", "0.0.4", "1704067200.0"),
+      joinVote("j1", "0.0.1", "yes", "1704067201.0"),
+      joinVote("j1", "0.0.2", "yes", "1704067202.0"),
+      joinVote("j1", "0.0.4", "yes", "1704067203.0"),
+    ];
+    const open = tallyFloraJoinRequests(messages, { members, threshold: 2 });
+    expect(open.requests[0]).toMatchObject({ status: "passed", yes: 2, accepted: false });
+    expect(open.rejectedVotes).toEqual([
+      { accountId: "0.0.4", proposalId: "j1", reason: "not_member" },
+    ]);
+
+    const done = tallyFloraJoinRequests(
+      [...messages, joinAccepted("0.0.1", [...members, "0.0.4"], 3, "1704067204.0")],
+      { members, threshold: 2 },
+    );
+    expect(done.requests[0].accepted).toBe(true);
+  });
+
+  it("applies joins that passed and whose key rotation executed", () => {
+    const executed = { executedScheduleIds: new Set(["0.0.70"]) };
+    const messages = [
+      joinRequest("j1", "0.0.4", "1704067200.0"),
+      joinVote("j1", "0.0.1", "yes", "1704067201.0"),
+      joinVote("j1", "0.0.2", "yes", "1704067202.0"),
+      joinAccepted("0.0.9", ["0.0.9", "0.0.1"], 1, "1704067203.0"),
+      joinAccepted("0.0.3", [...members, "0.0.4"], 1, "1704067204.0"),
+      {
+        ...joinAccepted("0.0.3", [...members, "0.0.4"], 3, "1704067205.0"),
+        payerAccountId: "0.0.9",
+      },
+      joinAccepted("0.0.2", [...members, "0.0.4"], 3, "1704067206.0"),
+    ];
+
+    expect(resolveFloraMembership(messages, { members, threshold: 2 }, executed)).toEqual({
+      members: [...members, "0.0.4"],
+      threshold: 3,
+      consensusTimestamp: "1704067206.0",
+      dissolved: false,
+    });
+    expect(
+      resolveFloraMembership(
+        messages,
+        { members, threshold: 2 },
+        { executedScheduleIds: new Set() },
+      ),
+    ).toBeNull();
+    expect(
+      resolveFloraMembership(
+        messages,
+        { members, threshold: 2 },
+        { ...executed, asOf: "1704067205.0" },
+      ),
+    ).toBeNull();
+    expect(resolveFloraMembership([], { members, threshold: 2 }, executed)).toBeNull();
+  });
+
+  it("ignores acceptances for join requests that did not pass", () => {
+    const membership = resolveFloraMembership(
+      [
+        joinRequest("j1", "0.0.4", "1704067200.0"),
+        joinVote("j1", "0.0.1", "yes", "1704067201.0"),
+        joinAccepted("0.0.1", [...members, "0.0.4"], 3, "1704067202.0"),
+        joinVote("j1", "0.0.2", "yes", "1704067203.0"),
+      ],
+      { members, threshold: 2 },
+      { executedScheduleIds: new Set(["0.0.70"]) },
+    );
+    expect(membership).toBeNull();
+  });
+
+  it("applies removals and dissolution only after a passed vote and executed schedules", () => {
+    const membershipProposal = (
+      proposalId: string,
+      membership: Record<string, string>,
+      ts: string,
+    ): TallyInputMessage => {
+      const base = proposal(proposalId, ts);
+      return { ...base, payload: { ...(base.payload as object), membership } };
+    };
+    const removal = {
+      consensusTimestamp: "1704067210.0",
+      payerAccountId: "0.0.1",
+      payload: {
+        type: "flora_member_removed",
+        proposalId: "p9",
+        from: "0.0.1",
+        accountId: "0.0.3",
+        members: ["0.0.1", "0.0.2"],
+        threshold: 2,
+        scheduleIds: ["0.0.71"],
+        sentAt: "2024-01-01T00:00:00.000Z",
+      },
+    };
+    const dissolved = (from: string, ts: string) => ({
+      consensusTimestamp: ts,
+      payerAccountId: from,
+      payload: {
+        type: "flora_dissolved",
+        proposalId: "p10",
+        from,
+        beneficiaryAccountId: "0.0.1",
+        scheduleIds: ["0.0.72"],
+        sentAt: "2024-01-01T00:00:00.000Z",
+      },
+    });
+    const removalVotes = [
+      membershipProposal("p9", { kind: "remove_member", accountId: "0.0.3" }, "1704067200.0"),
+      vote("p9", "0.0.1", "yes", "1704067201.0"),
+    ];
+    const messages = [
+      ...removalVotes,
+      vote("p9", "0.0.2", "yes", "1704067202.0"),
+      removal,
+      membershipProposal("p10", { kind: "dissolve", beneficiaryAccountId: "0.0.1" }, "1704067211.0"),
+      vote("p10", "0.0.1", "yes", "1704067212.0"),
+      vote("p10", "0.0.2", "yes", "1704067213.0"),
+      dissolved("0.0.3", "1704067220.0"),
+      dissolved("0.0.2", "1704067221.0"),
+      joinAccepted("0.0.1", [...members, "0.0.4"], 3, "1704067222.0"),
+    ];
+    const initial = { members, threshold: 2 };
+
+    expect(
+      resolveFloraMembership([...removalVotes, removal], initial, {
+        executedScheduleIds: new Set(["0.0.71"]),
+      }),
+    ).toBeNull();
+
+    expect(
+      resolveFloraMembership(messages, initial, { executedScheduleIds: new Set(["0.0.71"]) }),
+    ).toEqual({
+      members: ["0.0.1", "0.0.2"],
+      threshold: 2,
+      consensusTimestamp: "1704067210.0",
+      dissolved: false,
+    });
+
+    expect(
+      resolveFloraMembership(messages, initial, {
+        executedScheduleIds: new Set(["0.0.70", "0.0.71", "0.0.72"]),
+      }),
+    ).toEqual({
+      members: ["0.0.1", "0.0.2"],
+      threshold: 2,
+      consensusTimestamp: "1704067221.0",
+      dissolved: true,
+    });
+  });
+
+  it("scales the threshold with the member count", () => {
+    expect(scaleFloraThreshold(2, 3, 4)).toBe(3);
+    expect(scaleFloraThreshold(1, 2, 3)).toBe(2);
+    expect(scaleFloraThreshold(3, 4, 3)).toBe(3);
+  });
+});
@@ -3,15 +3,58 @@ import type { DAppSigner } from "@/lib/hedera/wallet-types";
 
 const sdkState = vi.hoisted(() => ({
   topicMemos: [] as string[],
-  submittedMessages: [] as { topicId: string; message: string }[],
+  topicKeys: [] as { adminKey?: unknown; submitKey?: unknown }[],
+  submittedMessages: [] as { topicId: string; message: string; payer?: string }[],
+  createdAccounts: [] as { keyList: unknown; initialBalanceHbar?: number }[],
+  scheduledTopicKeys: [] as {
+    topicId: string;
+    adminKey: unknown;
+    submitKey: unknown;
+    memo?: string;
+  }[],
 }));
 
 vi.mock("@hashgraph/sdk", () => {
   const state = sdkState;
 
+  class KeyList {
+    keys: unknown[] = [];
+    threshold: number | null = null;
+
+    push(...keys: unknown[]) {
+      this.keys.push(...keys);
+      return this.keys.length;
+    }
+
+    setThreshold(threshold: number) {
+      this.threshold = threshold;
+      return this;
+    }
+  }
+
+  class AccountCreateTransaction {
+    constructor(private readonly params: { keyList: unknown; initialBalanceHbar?: number }) {}
+
+    freezeWith() {
+      return this;
+    }
+
+    async executeWithSigner() {
+      state.createdAccounts.push(this.params);
+      return {
+        getReceiptWithSigner: async () => ({
+          accountId: {
+            toString: () => "0.0.7777",
+          },
+        }),
+      };
+    }
+  }
+
   class TopicCreateTransaction {
     private memo = "";
     private responseTopic = "";
+    keys: { adminKey?: unknown; submitKey?: unknown } = {};
 
     setTopicMemo(memo: string) {
       this.memo = memo;
@@ -24,6 +67,7 @@ vi.mock("@hashgraph/sdk", () => {
 
     async executeWithSigner() {
       state.topicMemos.push(this.memo);
+      state.topicKeys.push(this.keys);
       const suffix = this.memo.split("-").pop() ?? "Comm";
       this.responseTopic = `0.0.6${suffix.length}01`;
       return {
@@ -39,6 +83,7 @@ vi.mock("@hashgraph/sdk", () => {
   class TopicMessageSubmitTransaction {
     private topicId = "";
     private message = "";
+    private payer?: string;
 
     setTopicId(topicId: string) {
       this.topicId = topicId;
@@ -50,12 +95,21 @@ vi.mock("@hashgraph/sdk", () => {
       return this;
     }
 
+    setTransactionId(transactionId: { payer: string }) {
+      this.payer = transactionId.payer;
+      return this;
+    }
+
     freezeWith() {
       return this;
     }
 
     async executeWithSigner() {
-      state.submittedMessages.push({ topicId: this.topicId, message: this.message });
+      state.submittedMessages.push({
+        topicId: this.topicId,
+        message: this.message,
+        payer: this.payer,
+      });
       return {
         getReceiptWithSigner: async () => ({}),
       };
@@ -63,6 +117,10 @@ vi.mock("@hashgraph/sdk", () => {
   }
 
   return {
+    AccountCreateTransaction,
+    AccountId: { fromString: (accountId: string) => accountId },
+    KeyList,
+    TransactionId: { generate: (payer: string) => ({ payer }) },
     TopicCreateTransaction,
     TopicMessageSubmitTransaction,
   };
@@ -80,11 +138,57 @@ const clientModule = vi.hoisted(() => ({
 
 vi.mock("@/lib/hedera/client", () => clientModule);
 
+const mirrorModule = vi.hoisted(() => ({
+  lookupAccount: vi.fn(),
+}));
+
+vi.mock("@/lib/hedera/mirror", () => mirrorModule);
+
+const keysModule = vi.hoisted(() => ({
+  publicKeyFromMirrorKey: vi.fn((entry?: { key?: string }) =>
+    entry?.key ? { key: entry.key } : null,
+  ),
+}));
+
+vi.mock("@/lib/hedera/keys", () => keysModule);
+
 vi.mock("@hashgraphonline/standards-sdk", async () => {
-  const { TopicCreateTransaction, TopicMessageSubmitTransaction } = await import("@hashgraph/sdk");
+  const { AccountCreateTransaction, TopicCreateTransaction, TopicMessageSubmitTransaction } =
+    await import("@hashgraph/sdk");
   return {
-    buildHcs16CreateTransactionTopicTx: (params: { memo: string }) =>
-      new TopicCreateTransaction().setTopicMemo(params.memo),
+    buildHcs16CreateAccountTx: (params: { keyList: unknown; initialBalanceHbar?: number }) =>
+      new (AccountCreateTransaction as unknown as new (
+        params: { keyList: unknown; initialBalanceHbar?: number },
+      ) => unknown)(params),
+    buildHcs16CreateTransactionTopicTx: (params: {
+      memo: string;
+      adminKey?: unknown;
+      submitKey?: unknown;
+    }) => {
+      const tx = new TopicCreateTransaction().setTopicMemo(params.memo);
+      (tx as unknown as { keys: unknown }).keys = {
+        adminKey: params.adminKey,
+        submitKey: params.submitKey,
+      };
+      return tx;
+    },
+    buildHcs16ScheduleTopicKeyUpdateTx: (params: {
+      topicId: string;
+      adminKey: unknown;
+      submitKey: unknown;
+      memo?: string;
+    }) => ({
+      freezeWith() {
+        return this;
+      },
+      async executeWithSigner() {
+        sdkState.scheduledTopicKeys.push(params);
+        const scheduleId = `0.0.80${sdkState.scheduledTopicKeys.length}`;
+        return {
+          getReceiptWithSigner: async () => ({ scheduleId: { toString: () => scheduleId } }),
+        };
+      },
+    }),
     buildHcs20SubmitMessageTx: (params: {
       topicId: string;
       payload: object | string;
@@ -96,9 +200,13 @@ vi.mock("@hashgraphonline/standards-sdk", async () => {
   };
 });
 
+import { KeyList } from "@hashgraph/sdk";
 import {
   announceFloraOnCommunicationTopic,
+  buildFloraKeyList,
+  createFloraAccount,
   createFloraTopics,
+  scheduleFloraTopicKeys,
   sendFloraCreateRequest,
   sendFloraJoinAccept,
   sendFloraCreated,
@@ -111,8 +219,98 @@ import {
 describe("flora helpers", () => {
   beforeEach(() => {
     sdkState.topicMemos.length = 0;
+    sdkState.topicKeys.length = 0;
     sdkState.submittedMessages.length = 0;
+    sdkState.createdAccounts.length = 0;
+    sdkState.scheduledTopicKeys.length = 0;
     messagingModule.sendDirectMessage.mockReset();
+    mirrorModule.lookupAccount.mockReset();
+  });
+
+  it("creates a flora account with a threshold key list of member keys", async () => {
+    mirrorModule.lookupAccount.mockImplementation(async (accountId: string) => ({
+      account: accountId,
+      key: { _type: "ECDSA_SECP256K1", key: `key-${accountId}` },
+    }));
+    const signTransaction = vi.fn();
+    const signer = { signTransaction } as unknown as DAppSigner;
+
+    const account = await createFloraAccount(signer, {
+      memberAccountIds: ["0.0.1", "0.0.2", "0.0.3", "0.0.2"],
+      threshold: 2,
+    });
+
+    expect(account.accountId).toBe("0.0.7777");
+    expect(account.threshold).toBe(2);
+    expect(mirrorModule.lookupAccount).toHaveBeenCalledTimes(3);
+    const keyList = account.keyList as unknown as { keys: unknown[]; threshold: number };
+    expect(keyList.keys).toEqual([
+      { key: "key-0.0.1" },
+      { key: "key-0.0.2" },
+      { key: "key-0.0.3" },
+    ]);
+    expect(keyList.threshold).toBe(2);
+    expect((account.submitKeyList as unknown as { threshold: number }).threshold).toBe(1);
+    expect(sdkState.createdAccounts[0]?.keyList).toBe(account.keyList);
+    expect(signTransaction).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects flora accounts when a member key cannot be resolved", async () => {
+    mirrorModule.lookupAccount.mockImplementation(async (accountId: string) =>
+      accountId === "0.0.2" ? null : { key: { key: `key-${accountId}` } },
+    );
+    const signer = { signTransaction: vi.fn() } as unknown as DAppSigner;
+
+    await expect(
+      createFloraAccount(signer, { memberAccountIds: ["0.0.1", "0.0.2"], threshold: 1 }),
+    ).rejects.toThrow("Flora member 0.0.2 was not found on the mirror node");
+    expect(sdkState.createdAccounts).toHaveLength(0);
+  });
+
+  it("validates flora thresholds against the member count", () => {
+    const keys = [{}, {}] as unknown as Parameters<typeof buildFloraKeyList>[0];
+    expect(() => buildFloraKeyList(keys, 3)).toThrow("Threshold must be between 1 and 2");
+    expect(() => buildFloraKeyList(keys, 0)).toThrow("Threshold must be between 1 and 2");
+    expect(() => buildFloraKeyList(keys.slice(0, 1), 1)).toThrow(
+      "A flora needs at least two members",
+    );
+  });
+
+  it("applies flora key lists to topic admin and submit keys", async () => {
+    const signer = { signTransaction: vi.fn() } as unknown as DAppSigner;
+    const adminKey = new KeyList();
+    const submitKey = new KeyList();
+
+    await createFloraTopics(signer, "Bloom", { adminKey, submitKey });
+
+    expect(sdkState.topicKeys).toHaveLength(3);
+    for (const keys of sdkState.topicKeys) {
+      expect(keys.adminKey).toBe(adminKey);
+      expect(keys.submitKey).toBe(submitKey);
+    }
+  });
+
+  it("schedules the move of topic admin keys to the threshold key list", async () => {
+    const signer = { signTransaction: vi.fn() } as unknown as DAppSigner;
+    const adminKey = new KeyList();
+    const submitKey = new KeyList();
+
+    const scheduleIds = await scheduleFloraTopicKeys(
+      signer,
+      { communication: "0.0.6001", transaction: "0.0.6002", state: "0.0.6003" },
+      { adminKey, submitKey },
+      "Bloom",
+    );
+
+    expect(scheduleIds).toEqual(["0.0.801", "0.0.802", "0.0.803"]);
+    expect(sdkState.scheduledTopicKeys).toEqual(
+      ["0.0.6001", "0.0.6002", "0.0.6003"].map((topicId) => ({
+        topicId,
+        adminKey,
+        submitKey,
+        memo: "Flora Bloom: lock topic keys",
+      })),
+    );
   });
 
   it("creates flora topics with memo structure", async () => {
@@ -239,5 +437,7 @@ describe("flora helpers", () => {
       ),
     );
     expect(decodedFirst.type).toBe("flora_create_request");
+    expect(sdkState.submittedMessages[0]?.payer).toBe("0.0.1");
+    expect(sdkState.submittedMessages[6]?.payer).toBe("0.0.2");
   });
 });
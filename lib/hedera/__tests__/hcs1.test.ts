@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const standardsModule = vi.hoisted(() => ({
+  resolve: vi.fn(),
+  inscribeWithSigner: vi.fn(),
+}));
+
+vi.mock("@hashgraphonline/standards-sdk", () => ({
+  HRLResolver: class {
+    resolve = standardsModule.resolve;
+  },
+  inscribeWithSigner: standardsModule.inscribeWithSigner,
+}));
+
+vi.mock("@/config/env", () => ({
+  env: { HEDERA_NETWORK: "testnet" },
+}));
+
+import { inscribeHcs1Payload, parseHcs1Reference, resolveHcs1Content } from "@/lib/hedera/hcs1";
+
+const signer = { signTransaction: vi.fn(), getAccountId: vi.fn() };
+
+describe("hcs-1 helpers", () => {
+  beforeEach(() => {
+    standardsModule.resolve.mockReset();
+    standardsModule.inscribeWithSigner.mockReset();
+  });
+
+  it("parses hcs://1 references", () => {
+    expect(parseHcs1Reference(" hcs://1/0.0.123 ")).toBe("0.0.123");
+    expect(parseHcs1Reference("hcs://2/0.0.123")).toBeNull();
+    expect(parseHcs1Reference("hello")).toBeNull();
+  });
+
+  it("inscribes payloads as HCS-1 files and returns the reference", async () => {
+    standardsModule.inscribeWithSigner.mockResolvedValue({
+      confirmed: true,
+      inscription: { topic_id: "0.0.555" },
+    });
+
+    await expect(
+      inscribeHcs1Payload(signer as never, {
+        content: "large body",
+        fileName: "message.txt",
+        mimeType: "text/plain",
+      }),
+    ).resolves.toBe("hcs://1/0.0.555");
+    expect(standardsModule.inscribeWithSigner).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "buffer", fileName: "message.txt", mimeType: "text/plain" }),
+      signer,
+      expect.objectContaining({ network: "testnet", mode: "file", fileStandard: "1" }),
+    );
+
+    standardsModule.inscribeWithSigner.mockResolvedValue({ confirmed: false, result: {} });
+    await expect(
+      inscribeHcs1Payload(signer as never, { content: "x", fileName: "x.txt", mimeType: "text/plain" }),
+    ).rejects.toThrow("Inscription did not return a topic ID.");
+  });
+
+  it("resolves references into renderable content and memoises them", async () => {
+    standardsModule.resolve.mockImplementation(async (reference: string) => {
+      const topicId = reference.slice("hcs://1/".length);
+      if (topicId === "0.0.1") {
+        return { content: '{"amount":5}', contentType: "application/json", topicId };
+      }
+      if (topicId === "0.0.2") {
+        return { content: new Uint8Array([137, 80]).buffer, contentType: "image/png", topicId };
+      }
+      return { content: "plain words", contentType: "text/plain", topicId };
+    });
+
+    await expect(resolveHcs1Content("hcs://1/0.0.1")).resolves.toMatchObject({
+      kind: "json",
+      json: { amount: 5 },
+    });
+    await expect(resolveHcs1Content("hcs://1/0.0.2")).resolves.toMatchObject({
+      kind: "image",
+      src: "data:image/png;base64,iVA=",
+    });
+    await expect(resolveHcs1Content("hcs://1/0.0.3")).resolves.toMatchObject({
+      kind: "text",
+      text: "plain words",
+    });
+
+    await resolveHcs1Content("hcs://1/0.0.3");
+    expect(standardsModule.resolve).toHaveBeenCalledTimes(3);
+    await expect(resolveHcs1Content("0.0.3")).rejects.toThrow("Not an HCS-1 reference");
+  });
+});
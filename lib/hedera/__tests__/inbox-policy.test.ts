@@ -0,0 +1,143 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mirrorModule = vi.hoisted(() => ({
+  lookupAccount: vi.fn(),
+}));
+
+const registryModule = vi.hoisted(() => ({
+  fetchLatestProfileForAccount: vi.fn(),
+}));
+
+vi.mock("@/lib/hedera/mirror", () => mirrorModule);
+vi.mock("@/lib/hedera/registry", () => registryModule);
+
+import {
+  allowAccount,
+  blockAccount,
+  DEFAULT_INBOX_POLICY,
+  filterInboxEvents,
+  normalizeInboxPolicy,
+} from "@/lib/hedera/inbox-policy";
+import type { InboxEvent } from "@/lib/hedera/messaging";
+
+function directMessage(from: string, sequenceNumber: number): InboxEvent {
+  return {
+    kind: "direct-message",
+    message: {
+      type: "text",
+      from,
+      to: "0.0.100",
+      content: "hi",
+      sentAt: "2026-01-01T00:00:00.000Z",
+      consensusTimestamp: `1700000000.00000000${sequenceNumber}`,
+      sequenceNumber,
+      payerAccountId: from,
+      verification: "verified",
+    },
+  };
+}
+
+function connectionRequest(
+  accountId: string,
+  sequenceNumber: number,
+  note?: string,
+  payerAccountId: string = accountId,
+): InboxEvent {
+  return {
+    kind: "connection-request",
+    sequenceNumber,
+    consensusTimestamp: `1700000000.00000000${sequenceNumber}`,
+    operator: { accountId, inboundTopicId: "0.0.900" },
+    payerAccountId,
+    note,
+    raw: {},
+  };
+}
+
+describe("inbox policy", () => {
+  beforeEach(() => {
+    mirrorModule.lookupAccount.mockReset();
+    registryModule.fetchLatestProfileForAccount.mockReset();
+  });
+
+  it("lets blocks win over known contacts and the allowlist bypass other rules", async () => {
+    const policy = blockAccount(
+      normalizeInboxPolicy({ knownContactsOnly: true, hideRequestsWithoutMemo: true }),
+      "0.0.666",
+    );
+    const { allowed, blocked } = await filterInboxEvents(
+      [
+        directMessage("0.0.666", 1),
+        directMessage("0.0.200", 2),
+        directMessage("0.0.300", 3),
+        connectionRequest("0.0.400", 4),
+      ],
+      allowAccount(policy, "0.0.300"),
+      { localAccountId: "0.0.100", knownAccountIds: ["0.0.200", "0.0.666"] },
+    );
+
+    expect(allowed.map((event) => event.kind === "direct-message" && event.message.from)).toEqual([
+      "0.0.200",
+      "0.0.300",
+    ]);
+    expect(blocked.map((item) => item.reason)).toEqual(["Blocked account", "Not a known contact"]);
+    expect(normalizeInboxPolicy(null)).toEqual(DEFAULT_INBOX_POLICY);
+  });
+
+  it("checks memos, registry profiles, account age and balance for unknown senders", async () => {
+    registryModule.fetchLatestProfileForAccount.mockImplementation(async (accountId: string) =>
+      accountId === "0.0.501" ? null : { accountId },
+    );
+    const nowSeconds = Date.now() / 1000;
+    mirrorModule.lookupAccount.mockImplementation(async (accountId: string) => ({
+      account: accountId,
+      created_timestamp: String(accountId === "0.0.502" ? nowSeconds - 3600 : nowSeconds - 90 * 86400),
+      balance: { balance: accountId === "0.0.503" ? 10_000_000 : 500_000_000 },
+    }));
+
+    const { allowed, blocked } = await filterInboxEvents(
+      [
+        connectionRequest("0.0.500", 1),
+        connectionRequest("0.0.501", 2, "hello"),
+        connectionRequest("0.0.502", 3, "hello"),
+        connectionRequest("0.0.503", 4, "hello"),
+        connectionRequest("0.0.504", 5, "hello"),
+      ],
+      normalizeInboxPolicy({
+        requireRegistryProfile: true,
+        hideRequestsWithoutMemo: true,
+        minAccountAgeDays: 30,
+        minBalanceHbar: 1,
+      }),
+    );
+
+    expect(blocked.map((item) => item.reason)).toEqual([
+      "Request without a note",
+      "No registry profile",
+      "Account younger than 30 days",
+      "Balance below 1 HBAR",
+    ]);
+    expect(allowed).toHaveLength(1);
+    expect(allowed[0]?.kind === "connection-request" && allowed[0].operator?.accountId).toBe(
+      "0.0.504",
+    );
+  });
+
+  it("attributes connection requests to the mirror payer, not the declared operator", async () => {
+    const policy = blockAccount(normalizeInboxPolicy(), "0.0.666");
+    const { allowed, blocked } = await filterInboxEvents(
+      [
+        connectionRequest("0.0.200", 1, "hi", "0.0.666"),
+        connectionRequest("0.0.200", 2, "hi", "0.0.700"),
+        connectionRequest("0.0.200", 3, "hi"),
+      ],
+      policy,
+      { knownAccountIds: ["0.0.200"] },
+    );
+
+    expect(blocked.map((item) => item.reason)).toEqual(["Blocked account", "Forged sender"]);
+    expect(allowed.map((event) => event.kind !== "direct-message" && event.sequenceNumber)).toEqual([
+      3,
+    ]);
+  });
+});
@@ -0,0 +1,96 @@
+// @vitest-environment node
+import { describe, expect, it, vi } from "vitest";
+import { PrivateKey } from "@hashgraph/sdk";
+import type { DAppSigner } from "@/lib/hedera/wallet-types";
+
+const mirrorModule = vi.hoisted(() => ({
+  lookupAccount: vi.fn(),
+}));
+
+vi.mock("@/lib/hedera/mirror", () => mirrorModule);
+
+import {
+  canonicalizeMessagePayload,
+  classifyMessageSender,
+  resolveSenderPublicKey,
+  signMessagePayload,
+} from "@/lib/hedera/message-signing";
+
+const senderKey = PrivateKey.fromStringED25519(
+  "302e020100300506032b657004220420db484b828e64b2d8f12ce3c0a0e93a0b8cce7af1bb8f39c97732394482538e10",
+);
+
+const walletSigner = {
+  sign: vi.fn(async ([bytes]: Uint8Array[]) => {
+    const message = Buffer.from(bytes).toString("utf-8");
+    const prefixed = `\x19Hedera Signed Message:\n${message.length}${message}`;
+    return [
+      { publicKey: senderKey.publicKey, signature: senderKey.sign(Buffer.from(prefixed)) },
+    ];
+  }),
+} as unknown as DAppSigner;
+
+const payload = {
+  type: "text",
+  from: "0.0.1",
+  to: "0.0.2",
+  content: "hello",
+  sentAt: "2023-10-11T10:00:00Z",
+};
+
+describe("message signing", () => {
+  it("canonicalises payloads independent of key order and signature", () => {
+    expect(
+      canonicalizeMessagePayload({ b: 1, a: { d: 2, c: [3] }, signature: { publicKey: "x" } }),
+    ).toBe('{"a":{"c":[3],"d":2},"b":1}');
+  });
+
+  it("classifies signed messages by signature and payer", async () => {
+    const signature = await signMessagePayload(walletSigner, payload);
+    const signed = { ...payload, signature };
+
+    expect(
+      classifyMessageSender({
+        from: "0.0.1",
+        payload: signed,
+        signature,
+        payerAccountId: "0.0.1",
+        senderKey: senderKey.publicKey,
+      }),
+    ).toBe("verified");
+    expect(
+      classifyMessageSender({
+        from: "0.0.1",
+        payload: { ...signed, content: "tampered" },
+        signature,
+        senderKey: senderKey.publicKey,
+      }),
+    ).toBe("forged");
+    expect(
+      classifyMessageSender({
+        from: "0.0.1",
+        payload: signed,
+        signature,
+        payerAccountId: "0.0.66",
+        senderKey: senderKey.publicKey,
+      }),
+    ).toBe("forged");
+    expect(
+      classifyMessageSender({ from: "0.0.1", payload, senderKey: senderKey.publicKey }),
+    ).toBe("unverified");
+  });
+
+  it("resolves and caches sender keys from the mirror node", async () => {
+    mirrorModule.lookupAccount.mockResolvedValue({
+      account: "0.0.1",
+      key: { _type: "ED25519", key: senderKey.publicKey.toStringRaw() },
+    });
+
+    const first = await resolveSenderPublicKey("0.0.1");
+    const second = await resolveSenderPublicKey("0.0.1");
+
+    expect(first?.toStringRaw()).toBe(senderKey.publicKey.toStringRaw());
+    expect(second).toBe(first);
+    expect(mirrorModule.lookupAccount).toHaveBeenCalledTimes(1);
+  });
+});
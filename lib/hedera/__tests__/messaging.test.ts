@@ -6,6 +6,7 @@ const sdkState = vi.hoisted(() => ({
     topicId: string;
     message: string | Uint8Array;
     memo?: string;
+    customFeeLimits?: unknown[];
   }[],
   sequence: 1,
 }));
@@ -18,6 +19,7 @@ vi.mock("@hashgraph/sdk", () => {
     private message: string | Uint8Array = "";
     private memo: string | undefined;
     private transactionId: unknown;
+    private customFeeLimits: unknown[] = [];
 
     setTopicId(topicId: string) {
       this.topicId = topicId;
@@ -39,6 +41,11 @@ vi.mock("@hashgraph/sdk", () => {
       return this;
     }
 
+    setCustomFeeLimits(limits: unknown[]) {
+      this.customFeeLimits = limits;
+      return this;
+    }
+
     freezeWith() {
       return this;
     }
@@ -49,6 +56,7 @@ vi.mock("@hashgraph/sdk", () => {
         topicId: this.topicId,
         message: this.message,
         memo: this.memo,
+        customFeeLimits: this.customFeeLimits,
       });
       return {
         getReceiptWithSigner: async () => ({
@@ -75,17 +83,43 @@ vi.mock("@hashgraph/sdk", () => {
 
 const mirrorModule = vi.hoisted(() => ({
   fetchTopicMessages: vi.fn(),
+  fetchTopicMessagePage: vi.fn(),
   subscribeTopicWebsocket: vi.fn(),
 }));
 
 vi.mock("@/lib/hedera/mirror", () => mirrorModule);
 
+const hcs1Module = vi.hoisted(() => ({
+  inscribeHcs1Payload: vi.fn(async () => "hcs://1/0.0.4242"),
+  parseHcs1Reference: (value?: string | null) =>
+    value?.startsWith("hcs://1/") ? value.slice("hcs://1/".length) : null,
+}));
+
+vi.mock("@/lib/hedera/hcs1", () => hcs1Module);
+
 const clientModule = vi.hoisted(() => ({
   getHederaClient: vi.fn(() => ({})),
 }));
 
 vi.mock("@/lib/hedera/client", () => clientModule);
 
+const signingModule = vi.hoisted(() => ({
+  signMessagePayload: vi.fn(async () => ({ publicKey: "302a", signature: "c2ln" })),
+  resolveSenderPublicKey: vi.fn(async () => ({ key: "sender" })),
+  classifyMessageSender: vi.fn(() => "verified"),
+}));
+
+vi.mock("@/lib/hedera/message-signing", () => signingModule);
+
+const topicFeesModule = vi.hoisted(() => ({
+  fetchTopicFeeSchedule: vi.fn(async (topicId: string) => ({ topicId, fees: [], exempt: false })),
+  buildCustomFeeLimits: vi.fn((schedule: { fees: unknown[] }) =>
+    schedule.fees.length > 0 ? [{ limit: schedule.fees }] : [],
+  ),
+}));
+
+vi.mock("@/lib/hedera/topic-fees", () => topicFeesModule);
+
 vi.mock("@hashgraphonline/standards-sdk", async () => {
   const { TopicMessageSubmitTransaction } = await import("@hashgraph/sdk");
 
@@ -150,10 +184,16 @@ vi.mock("@hashgraphonline/standards-sdk", async () => {
   };
 });
 
+import { isSealedConnectionData } from "@/lib/hedera/connection-crypto";
 import {
+  fetchConnectionMessagePage,
   fetchInboxEvents,
+  mergeConnectionMessages,
+  sendConnectionAttachment,
+  sendConnectionMessage,
   sendDirectMessage,
   sendConnectionRequest,
+  sendConnectionTransaction,
   subscribeInbox,
 } from "@/lib/hedera/messaging";
 
@@ -162,7 +202,12 @@ describe("messaging helpers", () => {
     sdkState.submittedMessages.length = 0;
     sdkState.sequence = 1;
     mirrorModule.fetchTopicMessages.mockReset();
+    mirrorModule.fetchTopicMessagePage.mockReset();
     mirrorModule.subscribeTopicWebsocket.mockReset();
+    hcs1Module.inscribeHcs1Payload.mockClear();
+    signingModule.signMessagePayload.mockClear();
+    signingModule.resolveSenderPublicKey.mockClear();
+    signingModule.classifyMessageSender.mockClear();
   });
 
   it("fetches, decodes, filters, and sorts inbox messages", async () => {
@@ -212,7 +257,156 @@ describe("messaging helpers", () => {
     });
   });
 
-  it("subscribes to websocket messages and filters invalid payloads", () => {
+  it("extracts encryption handshake keys from connection request memos", async () => {
+    const publicKey = Buffer.alloc(32, 7).toString("base64");
+    mirrorModule.fetchTopicMessages.mockResolvedValue([
+      {
+        consensusTimestamp: "1697040107.000000001",
+        sequenceNumber: 6,
+        payer_account_id: "0.0.200",
+        message: Buffer.from(
+          JSON.stringify({
+            p: "hcs-10",
+            op: "connection_request",
+            operator_id: "0.0.320@0.0.200",
+            m: `Hi there [e2ee:x25519:${publicKey}]`,
+          }),
+          "utf-8",
+        ).toString("base64"),
+      },
+    ]);
+
+    const [event] = await fetchInboxEvents("0.0.9001");
+
+    expect(event).toMatchObject({
+      kind: "connection-request",
+      payerAccountId: "0.0.200",
+      memo: "Hi there",
+      encryptionPublicKey: publicKey,
+    });
+  });
+
+  it("pages connection history backwards and merges live messages in order", async () => {
+    const hcs10 = (sequenceNumber: number) => ({
+      consensusTimestamp: `16970401${sequenceNumber.toString().padStart(2, "0")}.000000001`,
+      sequenceNumber,
+      message: Buffer.from(
+        JSON.stringify({ p: "hcs-10", op: "message", operator_id: "0.0.5@0.0.1", data: `m${sequenceNumber}` }),
+        "utf-8",
+      ).toString("base64"),
+    });
+
+    mirrorModule.fetchTopicMessagePage
+      .mockResolvedValueOnce({
+        messages: [hcs10(4), hcs10(3)],
+        next: "/api/v1/topics/0.0.7/messages?order=desc&sequencenumber=lt:3",
+      })
+      .mockResolvedValueOnce({ messages: [hcs10(2), hcs10(1)], next: null });
+
+    const latest = await fetchConnectionMessagePage("0.0.7", { limit: 2 });
+    expect(mirrorModule.fetchTopicMessagePage).toHaveBeenLastCalledWith("0.0.7", {
+      limit: 2,
+      order: "desc",
+      cursor: undefined,
+    });
+    expect(latest.messages.map((message) => message.data)).toEqual(["m3", "m4"]);
+
+    const older = await fetchConnectionMessagePage("0.0.7", { cursor: latest.cursor });
+    expect(mirrorModule.fetchTopicMessagePage).toHaveBeenLastCalledWith("0.0.7", {
+      limit: 50,
+      order: "desc",
+      cursor: "/api/v1/topics/0.0.7/messages?order=desc&sequencenumber=lt:3",
+    });
+    expect(older.cursor).toBeNull();
+
+    const live = { ...latest.messages[1], sequenceNumber: 5, data: "m5" };
+    let thread = mergeConnectionMessages(latest.messages, [live, latest.messages[1]]);
+    thread = mergeConnectionMessages(thread, older.messages);
+    expect(thread.map((message) => message.sequenceNumber)).toEqual([1, 2, 3, 4, 5]);
+    expect(mergeConnectionMessages(thread, [live])).toBe(thread);
+  });
+
+  it("decodes close_connection operations on connection topics", async () => {
+    mirrorModule.fetchTopicMessagePage.mockResolvedValueOnce({
+      messages: [
+        {
+          consensusTimestamp: "1697040200.000000001",
+          sequenceNumber: 8,
+          payer_account_id: "0.0.2",
+          message: Buffer.from(
+            JSON.stringify({
+              p: "hcs-10",
+              op: "close_connection",
+              operator_id: "0.0.5@0.0.1",
+              reason: "Done for now",
+            }),
+            "utf-8",
+          ).toString("base64"),
+        },
+      ],
+      next: null,
+    });
+
+    const page = await fetchConnectionMessagePage("0.0.7");
+
+    expect(page.messages).toEqual([
+      expect.objectContaining({
+        op: "close_connection",
+        sequenceNumber: 8,
+        reason: "Done for now",
+        operator: { inboundTopicId: "0.0.5", accountId: "0.0.1" },
+        payerAccountId: "0.0.2",
+      }),
+    ]);
+  });
+
+  it("sends and decodes HCS-10 transaction operations", async () => {
+    const signer = {
+      signTransaction: vi.fn(async (tx) => tx),
+    } as unknown as DAppSigner;
+    const operator = { inboundTopicId: "0.0.5", accountId: "0.0.1" };
+
+    await sendConnectionTransaction(signer, "0.0.7", operator, {
+      scheduleId: "0.0.900",
+      description: "Pay 5 HBAR for the report",
+    });
+    const sent = sdkState.submittedMessages[0];
+    expect(sent?.topicId).toBe("0.0.7");
+    const payload = JSON.parse(Buffer.from(sent?.message as string, "base64").toString("utf-8"));
+    expect(payload).toMatchObject({
+      p: "hcs-10",
+      op: "transaction",
+      operator_id: "0.0.5@0.0.1",
+      schedule_id: "0.0.900",
+      data: "Pay 5 HBAR for the report",
+    });
+    await expect(
+      sendConnectionTransaction(signer, "0.0.7", operator, { scheduleId: "0.0.900", description: " " }),
+    ).rejects.toThrow("Describe the transaction");
+
+    mirrorModule.fetchTopicMessagePage.mockResolvedValueOnce({
+      messages: [
+        {
+          consensusTimestamp: "1697040300.000000001",
+          sequenceNumber: 9,
+          message: sent?.message,
+        },
+      ],
+      next: null,
+    });
+    const page = await fetchConnectionMessagePage("0.0.7");
+
+    expect(page.messages).toEqual([
+      expect.objectContaining({
+        op: "transaction",
+        scheduleId: "0.0.900",
+        data: "Pay 5 HBAR for the report",
+        operator: { inboundTopicId: "0.0.5", accountId: "0.0.1" },
+      }),
+    ]);
+  });
+
+  it("subscribes to websocket messages and filters invalid payloads", async () => {
     const callbacks: Array<(message: unknown) => void> = [];
     mirrorModule.subscribeTopicWebsocket.mockImplementation((_, callback) => {
       callbacks.push(callback);
@@ -242,6 +436,7 @@ describe("messaging helpers", () => {
     callbacks.forEach((callback) => callback(validMessage));
     callbacks.forEach((callback) => callback({ message: "bad" }));
 
+    await vi.waitFor(() => expect(received).toHaveLength(1));
     expect(received).toEqual([
       {
         kind: "direct-message",
@@ -275,6 +470,78 @@ describe("messaging helpers", () => {
         : Buffer.from(message)
       : Buffer.from("");
     expect(() => JSON.parse(decoded.toString("utf-8"))).not.toThrow();
+    expect(JSON.parse(decoded.toString("utf-8")).signature).toBeUndefined();
+  });
+
+  it("attaches a payload signature when the wallet can sign messages", async () => {
+    const signer = {
+      signTransaction: vi.fn(),
+      sign: vi.fn(),
+    } as unknown as DAppSigner;
+    const payload = {
+      type: "text",
+      from: "0.0.1",
+      to: "0.0.2",
+      content: "Signed ping",
+      sentAt: "2023-10-11T10:04:00Z",
+    };
+
+    await sendDirectMessage(signer, "0.0.9001", payload);
+
+    expect(signingModule.signMessagePayload).toHaveBeenCalledWith(signer, payload);
+    const sent = JSON.parse(
+      Buffer.from(sdkState.submittedMessages[0]?.message as string, "base64").toString("utf-8"),
+    );
+    expect(sent.signature).toEqual({ publicKey: "302a", signature: "c2ln" });
+
+    signingModule.signMessagePayload.mockRejectedValueOnce(new Error("User rejected"));
+    await expect(sendDirectMessage(signer, "0.0.9001", payload)).rejects.toThrow("User rejected");
+    expect(sdkState.submittedMessages).toHaveLength(1);
+  });
+
+  it("verifies signed inbox messages against the sender key and payer", async () => {
+    signingModule.classifyMessageSender.mockReturnValueOnce("forged");
+    const signature = { publicKey: "302a", signature: "c2ln" };
+    mirrorModule.fetchTopicMessages.mockResolvedValue([
+      {
+        consensusTimestamp: "1697040106.000000001",
+        sequenceNumber: 5,
+        payer_account_id: "0.0.66",
+        message: Buffer.from(
+          JSON.stringify({
+            type: "text",
+            from: "0.0.1",
+            to: "0.0.2",
+            content: "trust me",
+            sentAt: "2023-10-11T10:05:00Z",
+            signature,
+          }),
+          "utf-8",
+        ).toString("base64"),
+      },
+    ]);
+
+    const [event] = await fetchInboxEvents("0.0.9001");
+
+    expect(signingModule.resolveSenderPublicKey).toHaveBeenCalledWith("0.0.1");
+    expect(signingModule.classifyMessageSender).toHaveBeenCalledWith({
+      from: "0.0.1",
+      payload: {
+        type: "text",
+        from: "0.0.1",
+        to: "0.0.2",
+        content: "trust me",
+        sentAt: "2023-10-11T10:05:00Z",
+        signature,
+      },
+      signature,
+      payerAccountId: "0.0.66",
+      senderKey: { key: "sender" },
+    });
+    expect(event).toEqual({
+      kind: "direct-message",
+      message: expect.objectContaining({ payerAccountId: "0.0.66", verification: "forged" }),
+    });
   });
 
   it("sends connection requests and records outbound logs", async () => {
@@ -298,5 +565,101 @@ describe("messaging helpers", () => {
     expect(sdkState.submittedMessages[0]?.memo).toBe("hcs-10:op:3:1");
     expect(sdkState.submittedMessages[1]?.topicId).toBe("0.0.330");
     expect(sdkState.submittedMessages[1]?.memo).toBe("hcs-10:op:3:2");
+    expect(topicFeesModule.fetchTopicFeeSchedule).toHaveBeenCalledWith("0.0.440", "0.0.200");
+    expect(sdkState.submittedMessages[0]?.customFeeLimits).toEqual([]);
+  });
+
+  it("caps fee-gated connection requests at the schedule shown to the user", async () => {
+    const signer = {
+      signTransaction: vi.fn(async (tx) => tx),
+    } as unknown as DAppSigner;
+    const feeSchedule = {
+      topicId: "0.0.440",
+      fees: [{ amount: 50_000_000, formatted: "0.5 ℏ" }],
+      exempt: false,
+    };
+    topicFeesModule.fetchTopicFeeSchedule.mockClear();
+
+    const result = await sendConnectionRequest({
+      signer,
+      localAccountId: "0.0.200",
+      localInboundTopicId: "0.0.320",
+      localOutboundTopicId: "0.0.330",
+      remoteAccountId: "0.0.111",
+      remoteInboundTopicId: "0.0.440",
+      feeSchedule,
+    });
+
+    expect(result.feeSchedule).toBe(feeSchedule);
+    expect(topicFeesModule.fetchTopicFeeSchedule).not.toHaveBeenCalled();
+    expect(topicFeesModule.buildCustomFeeLimits).toHaveBeenCalledWith(feeSchedule, "0.0.200");
+    expect(sdkState.submittedMessages[0]?.customFeeLimits).toEqual([{ limit: feeSchedule.fees }]);
+    expect(sdkState.submittedMessages[1]?.customFeeLimits).toEqual([]);
+  });
+
+  it("inscribes oversize connection messages and sends an HCS-1 reference", async () => {
+    const signer = {
+      signTransaction: vi.fn(async (tx) => tx),
+    } as unknown as DAppSigner;
+    const operator = { inboundTopicId: "0.0.320", accountId: "0.0.200" };
+    const sentData = () =>
+      sdkState.submittedMessages.map(
+        (entry) =>
+          JSON.parse(Buffer.from(entry.message as string, "base64").toString("utf-8")).data,
+      );
+
+    await sendConnectionMessage(signer, "0.0.700", operator, "short hello");
+    expect(hcs1Module.inscribeHcs1Payload).not.toHaveBeenCalled();
+
+    const longText = "x".repeat(2000);
+    await sendConnectionMessage(signer, "0.0.700", operator, longText);
+    expect(hcs1Module.inscribeHcs1Payload).toHaveBeenCalledWith(
+      signer,
+      expect.objectContaining({ content: longText, mimeType: "text/plain" }),
+      {},
+    );
+    expect(sentData()).toEqual(["short hello", "hcs://1/0.0.4242"]);
+  });
+
+  it("sends nothing unsealed on an encrypted connection", async () => {
+    const signer = {
+      signTransaction: vi.fn(async (tx) => tx),
+    } as unknown as DAppSigner;
+    const operator = { inboundTopicId: "0.0.320", accountId: "0.0.200" };
+    const encryptionKey = Buffer.alloc(32, 3).toString("base64");
+
+    await sendConnectionMessage(signer, "0.0.700", operator, "secret plan", undefined, {
+      encryptionKey,
+    });
+    await expect(
+      sendConnectionMessage(signer, "0.0.700", operator, "secret plan", "memo", { encryptionKey }),
+    ).rejects.toThrow("Memos are sent unencrypted");
+    await expect(
+      sendConnectionAttachment(
+        signer,
+        "0.0.700",
+        operator,
+        { content: new ArrayBuffer(4), fileName: "plan.pdf", mimeType: "application/pdf" },
+        undefined,
+        { encryptionKey },
+      ),
+    ).rejects.toThrow("cannot be sent on an encrypted connection");
+    await expect(
+      sendConnectionTransaction(
+        signer,
+        "0.0.700",
+        operator,
+        { scheduleId: "0.0.900", description: "Pay for the secret plan" },
+        { encryptionKey },
+      ),
+    ).rejects.toThrow("cannot be sent on an encrypted connection");
+
+    expect(hcs1Module.inscribeHcs1Payload).not.toHaveBeenCalled();
+    expect(sdkState.submittedMessages).toHaveLength(1);
+    const [sent] = sdkState.submittedMessages;
+    const raw = Buffer.from(sent?.message as string, "base64").toString("utf-8");
+    expect(raw).not.toContain("secret");
+    expect(sent?.memo ?? "").not.toContain("secret");
+    expect(isSealedConnectionData(JSON.parse(raw).data)).toBe(true);
   });
 });
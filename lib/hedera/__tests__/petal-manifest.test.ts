@@ -0,0 +1,106 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  createPetalBatch,
+  parsePetalManifest,
+  runPetalBatch,
+  type PetalBatch,
+} from "@/lib/hedera/petal-manifest";
+
+describe("parsePetalManifest", () => {
+  it("parses CSV with quoted cells and reports invalid rows by line", () => {
+    const result = parsePetalManifest(
+      [
+        "alias,display_name,bio,initial_balance",
+        'Support-Bot,Support Bot,"Answers ""how do I"" questions",2',
+        "x,Too Short,,1",
+        "",
+        "support-bot,Duplicate,,1",
+        "research,Research,,",
+      ].join("\n"),
+    );
+
+    expect(result.rows).toEqual([
+      {
+        alias: "support-bot",
+        displayName: "Support Bot",
+        bio: 'Answers "how do I" questions',
+        initialBalance: 2,
+      },
+      { alias: "research", displayName: "Research", initialBalance: 1 },
+    ]);
+    expect(result.errors).toEqual([
+      { line: 3, message: "alias: Alias must be at least 3 characters" },
+      { line: 5, message: "Duplicate alias support-bot" },
+    ]);
+  });
+
+  it("accepts a JSON array or a { petals } object", () => {
+    const rows = [{ alias: "agent-one", displayName: "Agent One", avatarUrl: "https://a.io/1.png" }];
+
+    expect(parsePetalManifest(JSON.stringify(rows)).rows).toEqual([
+      { ...rows[0], initialBalance: 1 },
+    ]);
+    expect(parsePetalManifest(JSON.stringify({ petals: rows })).rows).toHaveLength(1);
+    expect(parsePetalManifest("[{").errors).toHaveLength(1);
+  });
+});
+
+describe("runPetalBatch", () => {
+  it("records failures per row and resumes without recreating accounts", async () => {
+    const batch = createPetalBatch([
+      { alias: "one", displayName: "One", initialBalance: 1 },
+      { alias: "two", displayName: "Two", initialBalance: 1 },
+      { alias: "three", displayName: "Three", initialBalance: 1 },
+    ]);
+    const createAccount = vi.fn(async (row: { alias: string }) => `0.0.${row.alias.length}00`);
+    const publishProfile = vi
+      .fn<(row: unknown, accountId: string) => Promise<void>>()
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error("Mirror lag"))
+      .mockResolvedValue(undefined);
+    const updates: PetalBatch[] = [];
+
+    const first = await runPetalBatch(batch, {
+      createAccount,
+      publishProfile,
+      onUpdate: (next) => updates.push(next),
+    });
+
+    expect(first.rows.map((row) => row.status)).toEqual(["done", "failed", "done"]);
+    expect(first.rows[1]).toMatchObject({ accountId: "0.0.300", error: "Mirror lag" });
+    expect(updates.at(-1)).toBe(first);
+
+    const resumed = await runPetalBatch(first, {
+      createAccount,
+      publishProfile,
+      onUpdate: () => undefined,
+    });
+
+    expect(resumed.rows.every((row) => row.status === "done")).toBe(true);
+    expect(createAccount).toHaveBeenCalledTimes(3);
+    expect(publishProfile).toHaveBeenLastCalledWith(
+      expect.objectContaining({ alias: "two" }),
+      "0.0.300",
+    );
+  });
+
+  it("stops before the next row when asked", async () => {
+    const batch = createPetalBatch([
+      { alias: "one", displayName: "One", initialBalance: 1 },
+      { alias: "two", displayName: "Two", initialBalance: 1 },
+    ]);
+    let stop = false;
+
+    const result = await runPetalBatch(batch, {
+      createAccount: async () => {
+        stop = true;
+        return "0.0.10";
+      },
+      publishProfile: async () => undefined,
+      onUpdate: () => undefined,
+      shouldStop: () => stop,
+    });
+
+    expect(result.rows.map((row) => row.status)).toEqual(["done", "pending"]);
+  });
+});
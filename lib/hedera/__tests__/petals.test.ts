@@ -0,0 +1,319 @@
+import { PrivateKey } from "@hashgraph/sdk";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const sdkState = vi.hoisted(() => ({
+  transactions: [] as Array<{ transfers: Array<[string, number]>; payer: string; memo?: string }>,
+}));
+
+vi.mock("@hashgraph/sdk", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@hashgraph/sdk")>();
+
+  class TransferTransaction {
+    private record = {
+      transfers: [] as Array<[string, number]>,
+      payer: "",
+      memo: undefined as string | undefined,
+    };
+
+    addHbarTransfer(
+      accountId: { toString(): string },
+      amount: { toTinybars(): { toNumber(): number } },
+    ) {
+      this.record.transfers.push([accountId.toString(), amount.toTinybars().toNumber()]);
+      return this;
+    }
+
+    setTransactionId(transactionId: { accountId: { toString(): string } }) {
+      this.record.payer = transactionId.accountId.toString();
+      return this;
+    }
+
+    setNodeAccountIds() {
+      return this;
+    }
+
+    setTransactionMemo(memo: string) {
+      this.record.memo = memo;
+      return this;
+    }
+
+    async freeze() {
+      return this;
+    }
+
+    async executeWithSigner() {
+      sdkState.transactions.push(this.record);
+      const index = sdkState.transactions.length;
+      return {
+        transactionId: { toString: () => `0.0.1@${index}` },
+        getReceiptWithSigner: async () => ({}),
+      };
+    }
+  }
+
+  return { ...actual, TransferTransaction };
+});
+
+const mirrorModule = vi.hoisted(() => ({
+  lookupAccount: vi.fn(),
+  fetchAccountsByPublicKey: vi.fn(),
+  fetchAccountAt: vi.fn(),
+  fetchAccountTransactions: vi.fn(),
+  fetchTransactionAt: vi.fn(),
+}));
+
+vi.mock("@/lib/hedera/mirror", () => mirrorModule);
+
+vi.mock("@/lib/hedera/registry", () => ({
+  fetchLatestProfileForAccount: vi.fn(async () => null),
+}));
+
+import {
+  checkPetalRetirement,
+  discoverPetalAccounts,
+  explainPetalVerification,
+  fetchPetalHistory,
+  fetchPetalRecord,
+  isPetalBalanceLow,
+  mergePetalRecords,
+  sweepPetalsToBase,
+  transferHbar,
+} from "@/lib/hedera/petals";
+
+const signer = {} as never;
+
+describe("petal funding", () => {
+  beforeEach(() => {
+    sdkState.transactions.length = 0;
+    mirrorModule.lookupAccount.mockReset();
+  });
+
+  it("transfers HBAR with the base account paying fees", async () => {
+    await transferHbar({
+      signer,
+      payerAccountId: "0.0.1",
+      fromAccountId: "0.0.1",
+      toAccountId: "0.0.2",
+      amountHbar: 1.25,
+      memo: "Top up",
+    });
+
+    expect(sdkState.transactions[0]).toEqual({
+      transfers: [
+        ["0.0.1", -125_000_000],
+        ["0.0.2", 125_000_000],
+      ],
+      payer: "0.0.1",
+      memo: "Top up",
+    });
+
+    await expect(
+      transferHbar({
+        signer,
+        payerAccountId: "0.0.1",
+        fromAccountId: "0.0.2",
+        toAccountId: "0.0.1",
+        amountHbar: 0,
+      }),
+    ).rejects.toThrow("Transfer amount must be greater than zero");
+  });
+
+  it("sweeps petal balances to base in batches within the transfer list limit", async () => {
+    const petalIds = Array.from({ length: 11 }, (_, index) => `0.0.${100 + index}`);
+    mirrorModule.lookupAccount.mockImplementation(async (accountId: string) => ({
+      account: accountId,
+      balance: { balance: accountId === "0.0.105" ? 0 : 50_000_000, timestamp: "1.0" },
+    }));
+
+    const result = await sweepPetalsToBase({
+      signer,
+      baseAccountId: "0.0.1",
+      petalAccountIds: ["0.0.1", ...petalIds],
+    });
+
+    expect(sdkState.transactions).toHaveLength(2);
+    expect(sdkState.transactions[0].transfers).toHaveLength(10);
+    expect(sdkState.transactions[0].transfers.at(-1)).toEqual(["0.0.1", 450_000_000]);
+    expect(sdkState.transactions[1].transfers).toEqual([
+      ["0.0.110", -50_000_000],
+      ["0.0.1", 50_000_000],
+    ]);
+    expect(result.sweptHbar).toBe(5);
+    expect(result.balances["0.0.110"]).toBe(0);
+    expect(result.transactionIds).toEqual(["0.0.1@1", "0.0.1@2"]);
+  });
+
+  it("flags petals below their warning threshold", () => {
+    const base = { accountId: "0.0.2", createdAt: "2024-01-01" };
+    expect(isPetalBalanceLow({ ...base, balanceHbar: 0.2 })).toBe(true);
+    expect(isPetalBalanceLow({ ...base, balanceHbar: 0.2, lowBalanceThresholdHbar: 0.1 })).toBe(
+      false,
+    );
+    expect(isPetalBalanceLow(base)).toBe(false);
+  });
+
+  it("keeps local petal settings when merging discovered petals", () => {
+    const merged = mergePetalRecords(
+      [{ accountId: "0.0.2", alias: "ops", createdAt: "2024-01-01", lowBalanceThresholdHbar: 2 }],
+      [
+        { accountId: "0.0.2", balanceHbar: 3, createdAt: "2025-01-01" },
+        { accountId: "0.0.3", alias: "new", createdAt: "2025-01-01" },
+      ],
+    );
+    expect(merged).toEqual([
+      {
+        accountId: "0.0.2",
+        alias: "ops",
+        balanceHbar: 3,
+        createdAt: "2024-01-01",
+        lowBalanceThresholdHbar: 2,
+      },
+      { accountId: "0.0.3", alias: "new", createdAt: "2025-01-01" },
+    ]);
+  });
+});
+
+describe("petal retirement", () => {
+  beforeEach(() => {
+    mirrorModule.lookupAccount.mockReset();
+  });
+
+  it("blocks retirement while the petal still holds tokens", async () => {
+    mirrorModule.lookupAccount.mockResolvedValue({
+      account: "0.0.2",
+      balance: {
+        balance: 10,
+        tokens: [
+          { token_id: "0.0.500", balance: 0 },
+          { token_id: "0.0.600", balance: 3 },
+        ],
+      },
+    });
+
+    await expect(checkPetalRetirement("0.0.2")).rejects.toThrow(
+      "Transfer out 0.0.600 before retiring this petal",
+    );
+  });
+
+  it("reports accounts that were already deleted on ledger", async () => {
+    mirrorModule.lookupAccount.mockResolvedValue({ account: "0.0.2", deleted: true });
+    await expect(checkPetalRetirement("0.0.2")).resolves.toEqual({ alreadyDeleted: true });
+
+    mirrorModule.lookupAccount.mockResolvedValue({ account: "0.0.2", balance: { balance: 0 } });
+    await expect(checkPetalRetirement("0.0.2")).resolves.toEqual({ alreadyDeleted: false });
+  });
+});
+
+describe("petal history", () => {
+  beforeEach(() => {
+    mirrorModule.lookupAccount.mockReset();
+    mirrorModule.fetchAccountAt.mockReset();
+    mirrorModule.fetchAccountTransactions.mockReset();
+    mirrorModule.fetchTransactionAt.mockReset();
+  });
+
+  it("explains why HCS-15 verification fails", () => {
+    const base = { account: "0.0.1", key: { _type: "ED25519", key: "aa" } };
+    expect(explainPetalVerification({ ...base, account: "0.0.2" }, base)).toEqual({
+      verified: true,
+    });
+    expect(
+      explainPetalVerification({ account: "0.0.2", key: { _type: "ED25519", key: "bb" } }, base),
+    ).toEqual({ verified: false, reason: "Petal key does not match the base account key" });
+    expect(explainPetalVerification({ account: "0.0.2" }, base).reason).toBe(
+      "Petal account has no single public key",
+    );
+    expect(explainPetalVerification(null, base).reason).toBe(
+      "Petal account not found on the mirror node",
+    );
+  });
+
+  it("verifies petals whose keys differ only in DER or raw encoding", async () => {
+    const publicKey = PrivateKey.generateED25519().publicKey;
+    const otherKey = PrivateKey.generateED25519().publicKey;
+    const accounts: Record<string, { account: string; key: { _type: string; key: string } }> = {
+      "0.0.1": { account: "0.0.1", key: { _type: "ED25519", key: publicKey.toStringRaw() } },
+      "0.0.2": { account: "0.0.2", key: { _type: "ED25519", key: publicKey.toStringDer() } },
+      "0.0.3": { account: "0.0.3", key: { _type: "ED25519", key: otherKey.toStringDer() } },
+    };
+    mirrorModule.lookupAccount.mockImplementation(async (accountId: string) => accounts[accountId]);
+    mirrorModule.fetchAccountsByPublicKey.mockResolvedValue([
+      { account: "0.0.1" },
+      { account: "0.0.2", memo: "Petal:ops" },
+      { account: "0.0.3" },
+    ]);
+
+    await expect(fetchPetalRecord("0.0.2", "0.0.1")).resolves.toMatchObject({ verified: true });
+    await expect(fetchPetalRecord("0.0.3", "0.0.1")).resolves.toMatchObject({
+      verified: false,
+      verificationReason: "Petal key does not match the base account key",
+    });
+
+    const petals = await discoverPetalAccounts("0.0.1", publicKey.toStringRaw());
+    expect(petals).toEqual([
+      expect.objectContaining({ accountId: "0.0.2", alias: "ops", verified: true }),
+    ]);
+  });
+
+  it("derives creation, activity, fees and memo history from mirror transactions", async () => {
+    const key = { _type: "ED25519", key: "aa" };
+    mirrorModule.lookupAccount.mockImplementation(async (accountId: string) => ({
+      account: accountId,
+      key,
+      memo: "hcs-11:hcs://1/0.0.9",
+      created_timestamp: "1700000000.500000000",
+    }));
+    mirrorModule.fetchAccountTransactions.mockResolvedValue({
+      hasMore: false,
+      transactions: [
+        {
+          transaction_id: "0.0.2-1700000300-0",
+          consensus_timestamp: "1700000300.000000000",
+          name: "CONSENSUSSUBMITMESSAGE",
+          result: "SUCCESS",
+          charged_tx_fee: 100_000,
+        },
+        {
+          transaction_id: "0.0.1-1700000200-0",
+          consensus_timestamp: "1700000200.000000000",
+          name: "CRYPTOUPDATEACCOUNT",
+          result: "SUCCESS",
+          charged_tx_fee: 5_000_000,
+        },
+        {
+          transaction_id: "0.0.2-1700000100-0",
+          consensus_timestamp: "1700000100.000000000",
+          name: "CRYPTOUPDATEACCOUNT",
+          result: "SUCCESS",
+          charged_tx_fee: 200_000,
+        },
+      ],
+    });
+    mirrorModule.fetchTransactionAt.mockResolvedValue({
+      transaction_id: "0.0.1-1699999999-0",
+      consensus_timestamp: "1700000000.500000000",
+      name: "CRYPTOCREATEACCOUNT",
+      result: "SUCCESS",
+    });
+    mirrorModule.fetchAccountAt.mockImplementation(async (_accountId: string, timestamp: string) => ({
+      account: "0.0.2",
+      memo: timestamp.startsWith("1700000200") ? "hcs-11:hcs://1/0.0.9" : "Petal:ops",
+    }));
+
+    const history = await fetchPetalHistory("0.0.2", "0.0.1");
+
+    expect(history).toMatchObject({
+      createdAt: "2023-11-14T22:13:20.500Z",
+      createdTransactionId: "0.0.1-1699999999-0",
+      lastActivityTransactionId: "0.0.2-1700000300-0",
+      feesPaidHbar: 0.003,
+      feesComplete: true,
+      verification: { verified: true },
+    });
+    expect(history.memoHistory.map((change) => change.memo)).toEqual([
+      "Petal:ops",
+      "hcs-11:hcs://1/0.0.9",
+    ]);
+    expect(history.memoHistory[1].transactionId).toBe("0.0.1-1700000200-0");
+  });
+});
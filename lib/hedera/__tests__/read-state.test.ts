@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mirrorModule = vi.hoisted(() => ({
+  fetchTopicMessages: vi.fn(),
+}));
+
+vi.mock("@/lib/hedera/mirror", () => mirrorModule);
+
+import {
+  baselineReadMarkers,
+  countUnread,
+  fetchTopicActivity,
+  markTopicRead,
+} from "@/lib/hedera/read-state";
+
+describe("read state", () => {
+  beforeEach(() => {
+    mirrorModule.fetchTopicMessages.mockReset();
+  });
+
+  it("only moves markers forward and counts messages past them", () => {
+    const markers = markTopicRead({}, "0.0.10", 4);
+    expect(markTopicRead(markers, "0.0.10", 2)).toBe(markers);
+    expect(markTopicRead(markers, "0.0.10", 6)).toEqual({ "0.0.10": 6 });
+
+    const activity = {
+      "0.0.10": { latest: 9, incoming: [9, 7, 5, 3] },
+      "0.0.11": { latest: 3, incoming: [3] },
+    };
+    expect(countUnread(markers, activity, "0.0.10")).toBe(3);
+    expect(countUnread(markers, activity, "0.0.11")).toBe(0);
+    expect(countUnread(markers, activity, "0.0.12")).toBe(0);
+
+    const latest = { "0.0.10": 9, "0.0.11": 3 };
+
+    const baselined = baselineReadMarkers(markers, latest);
+    expect(baselined).toEqual({ "0.0.10": 4, "0.0.11": 3 });
+    expect(baselineReadMarkers(baselined, latest)).toBe(baselined);
+  });
+
+  it("reads recent activity and skips messages paid by ignored accounts", async () => {
+    mirrorModule.fetchTopicMessages.mockResolvedValueOnce([
+      { consensusTimestamp: "1700000000.000000004", sequenceNumber: 44, payer_account_id: "0.0.5" },
+      { consensusTimestamp: "1700000000.000000003", sequenceNumber: 43, payer_account_id: "0.0.1" },
+      { consensusTimestamp: "1700000000.000000002", sequenceNumber: 42, payer_account_id: "0.0.6" },
+      { consensusTimestamp: "1700000000.000000001", sequenceNumber: 41, payer_account_id: "0.0.9" },
+    ]);
+    await expect(fetchTopicActivity("0.0.10", ["0.0.5", "0.0.6"])).resolves.toEqual({
+      latest: 44,
+      incoming: [43, 41],
+    });
+    expect(mirrorModule.fetchTopicMessages).toHaveBeenCalledWith("0.0.10", {
+      limit: 25,
+      order: "desc",
+    });
+
+    mirrorModule.fetchTopicMessages.mockResolvedValueOnce([]);
+    await expect(fetchTopicActivity("0.0.11")).resolves.toEqual({ latest: 0, incoming: [] });
+  });
+});
@@ -70,4 +70,17 @@ describe("registry utilities", () => {
 
     expect(window.localStorage.length).toBeGreaterThanOrEqual(2);
   });
+
+  it("drops accounts whose latest registry entry is a tombstone", async () => {
+    mirrorModule.fetchTopicMessages.mockResolvedValue([
+      encodeMessage({ accountId: "0.0.1", op: "delete", alias: "alice" }, 3),
+      encodeMessage({ base_account: "0.0.2", alias: "bob", display_name: "Bob" }, 2),
+      encodeMessage({ base_account: "0.0.1", alias: "alice", display_name: "Alice" }, 1),
+    ]);
+
+    const profiles = await listRecentProfiles(5);
+
+    expect(profiles).toEqual([expect.objectContaining({ accountId: "0.0.2", alias: "bob" })]);
+    expect(await searchProfileByAlias("alice")).toBeNull();
+  });
 });
@@ -0,0 +1,219 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  AccountDeleteTransaction,
+  AccountId,
+  AccountUpdateTransaction,
+  Long,
+  TokenId,
+  TransferTransaction,
+} from "@hashgraph/sdk";
+import { proto } from "@hashgraph/proto";
+
+const mirrorModule = vi.hoisted(() => ({
+  fetchSchedule: vi.fn(),
+}));
+
+vi.mock("@/lib/hedera/mirror", () => mirrorModule);
+
+vi.mock("@/lib/hedera/client", () => ({
+  getHederaClient: vi.fn(() => ({})),
+}));
+
+import {
+  buildScheduledInnerTransaction,
+  decodeScheduledBody,
+  describeScheduledAction,
+  fetchScheduleSnapshot,
+  resolveScheduleStatus,
+} from "@/lib/hedera/schedules";
+
+describe("schedule helpers", () => {
+  beforeEach(() => {
+    mirrorModule.fetchSchedule.mockReset();
+  });
+
+  it("derives schedule status from mirror fields", () => {
+    const now = 1_700_000_000_000;
+    expect(
+      resolveScheduleStatus({ schedule_id: "0.0.9", deleted: true }, now),
+    ).toBe("deleted");
+    expect(
+      resolveScheduleStatus(
+        { schedule_id: "0.0.9", executed_timestamp: "1699999999.000000001" },
+        now,
+      ),
+    ).toBe("executed");
+    expect(
+      resolveScheduleStatus({ schedule_id: "0.0.9", expiration_time: "1699999000.0" }, now),
+    ).toBe("expired");
+    expect(
+      resolveScheduleStatus({ schedule_id: "0.0.9", consensus_timestamp: "1699999900.0" }, now),
+    ).toBe("pending");
+    expect(
+      resolveScheduleStatus({ schedule_id: "0.0.9", consensus_timestamp: "1699990000.0" }, now),
+    ).toBe("expired");
+  });
+
+  it("builds inner transactions for each scheduled action", () => {
+    expect(
+      buildScheduledInnerTransaction("0.0.777", {
+        kind: "hbar_transfer",
+        toAccountId: "0.0.5",
+        amountHbar: 2,
+      }),
+    ).toBeInstanceOf(TransferTransaction);
+    expect(
+      buildScheduledInnerTransaction("0.0.777", {
+        kind: "token_transfer",
+        tokenId: "0.0.1234",
+        toAccountId: "0.0.5",
+        amount: 10,
+      }),
+    ).toBeInstanceOf(TransferTransaction);
+    expect(
+      buildScheduledInnerTransaction("0.0.777", { kind: "account_update", memo: "flora" }),
+    ).toBeInstanceOf(AccountUpdateTransaction);
+    expect(
+      buildScheduledInnerTransaction("0.0.777", {
+        kind: "account_delete",
+        transferAccountId: "0.0.5",
+      }),
+    ).toBeInstanceOf(AccountDeleteTransaction);
+    expect(() =>
+      buildScheduledInnerTransaction("0.0.777", {
+        kind: "account_delete",
+        transferAccountId: "0.0.777",
+      }),
+    ).toThrow("Remaining balance must go to a different account");
+    expect(() =>
+      buildScheduledInnerTransaction("0.0.777", {
+        kind: "token_transfer",
+        tokenId: "0.0.1234",
+        toAccountId: "0.0.5",
+        amount: 1.5,
+      }),
+    ).toThrow("Token amount must be a positive whole number of base units");
+    expect(describeScheduledAction({ kind: "hbar_transfer", toAccountId: "0.0.5", amountHbar: 2 }))
+      .toBe("Transfer 2 HBAR to 0.0.5");
+  });
+
+  it("summarises mirror schedules into snapshots", async () => {
+    mirrorModule.fetchSchedule.mockResolvedValueOnce({
+      schedule_id: "0.0.9",
+      payer_account_id: "0.0.777",
+      executed_timestamp: "1699999999.0",
+      signatures: [{}, {}],
+    });
+    mirrorModule.fetchSchedule.mockResolvedValueOnce(null);
+
+    const snapshot = await fetchScheduleSnapshot("0.0.9");
+    expect(snapshot).toMatchObject({
+      scheduleId: "0.0.9",
+      status: "executed",
+      signatureCount: 2,
+      payerAccountId: "0.0.777",
+    });
+    await expect(fetchScheduleSnapshot("0.0.10")).resolves.toBeNull();
+  });
+
+  it("decodes scheduled transfers from the mirror transaction body", () => {
+    const account = (id: string) => AccountId.fromString(id)._toProtobuf();
+    const body = proto.SchedulableTransactionBody.encode({
+      cryptoTransfer: {
+        transfers: {
+          accountAmounts: [
+            { accountID: account("0.0.777"), amount: Long.fromNumber(-150_000_000) },
+            { accountID: account("0.0.5"), amount: Long.fromNumber(150_000_000) },
+          ],
+        },
+        tokenTransfers: [
+          {
+            token: TokenId.fromString("0.0.1234")._toProtobuf(),
+            transfers: [{ accountID: account("0.0.5"), amount: Long.fromNumber(10) }],
+          },
+        ],
+      },
+    }).finish();
+
+    expect(decodeScheduledBody(Buffer.from(body).toString("base64"))).toEqual({
+      transactionType: "cryptoTransfer",
+      transfers: [
+        { accountId: "0.0.777", amount: -150_000_000 },
+        { accountId: "0.0.5", amount: 150_000_000 },
+        { accountId: "0.0.5", tokenId: "0.0.1234", amount: 10 },
+      ],
+      effects: [],
+      describable: true,
+    });
+    expect(decodeScheduledBody(undefined)).toMatchObject({
+      transactionType: null,
+      describable: false,
+    });
+    expect(decodeScheduledBody("not-protobuf")).toMatchObject({ describable: false });
+  });
+
+  it("describes account changes and refuses bodies it cannot spell out", () => {
+    const account = (id: string) => AccountId.fromString(id)._toProtobuf();
+    const encode = (body: proto.ISchedulableTransactionBody) =>
+      Buffer.from(proto.SchedulableTransactionBody.encode(body).finish()).toString("base64");
+
+    expect(
+      decodeScheduledBody(
+        encode({
+          cryptoUpdateAccount: { accountIDToUpdate: account("0.0.777"), memo: { value: "flora" } },
+        }),
+      ),
+    ).toEqual({
+      transactionType: "cryptoUpdateAccount",
+      transfers: [],
+      effects: ["Update account 0.0.777", 'Set memo to "flora"'],
+      describable: true,
+    });
+    expect(
+      decodeScheduledBody(
+        encode({
+          cryptoDelete: {
+            deleteAccountID: account("0.0.777"),
+            transferAccountID: account("0.0.5"),
+          },
+        }),
+      ).effects,
+    ).toEqual(["Delete account 0.0.777 and send its entire remaining balance to 0.0.5"]);
+
+    expect(
+      decodeScheduledBody(
+        encode({
+          cryptoUpdateAccount: {
+            accountIDToUpdate: account("0.0.777"),
+            key: { ed25519: new Uint8Array(32) },
+          },
+        }),
+      ),
+    ).toMatchObject({ transactionType: "cryptoUpdateAccount", describable: false });
+    expect(
+      decodeScheduledBody(
+        encode({
+          cryptoTransfer: {
+            tokenTransfers: [
+              {
+                token: TokenId.fromString("0.0.1234")._toProtobuf(),
+                nftTransfers: [
+                  {
+                    senderAccountID: account("0.0.777"),
+                    receiverAccountID: account("0.0.5"),
+                    serialNumber: Long.fromNumber(1),
+                  },
+                ],
+              },
+            ],
+          },
+        }),
+      ).describable,
+    ).toBe(false);
+    expect(
+      decodeScheduledBody(
+        encode({ consensusDeleteTopic: { topicID: { topicNum: Long.fromNumber(9) } } }),
+      ),
+    ).toMatchObject({ transactionType: "consensusDeleteTopic", describable: false });
+  });
+});
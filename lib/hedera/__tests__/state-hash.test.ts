@@ -0,0 +1,105 @@
+import { createHash } from "crypto";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { PrivateKey } from "@hashgraph/sdk";
+
+const mirrorModule = vi.hoisted(() => ({
+  fetchTopicMessages: vi.fn(),
+}));
+
+vi.mock("@/lib/hedera/mirror", () => mirrorModule);
+
+const floraModule = vi.hoisted(() => ({
+  resolveFloraMemberKeys: vi.fn(),
+}));
+
+vi.mock("@/lib/hedera/flora", () => floraModule);
+
+import {
+  compareEntityIds,
+  computeFloraStateHash,
+  computeKeyFingerprint,
+  computeStateHash,
+  verifyFloraStateHash,
+} from "@/lib/hedera/state-hash";
+
+const memberKeys = [
+  PrivateKey.fromStringECDSA(
+    "0x7f109a9e3b0d8ecfba9cc23a3614433ce0fa7ddcc80f2a8f10b222179a5a80d6",
+  ).publicKey,
+  PrivateKey.fromStringECDSA(
+    "0x2f1b9a4a2d1c7a5e1b3f3c6e3f9e7a0d5c2b8f4a6e1d3c5b7a9f0e2d4c6b8a1f",
+  ).publicKey,
+];
+
+const flora = {
+  accountId: "0.0.777",
+  threshold: 2,
+  memberAccountIds: ["0.0.1", "0.0.2"],
+  topicIds: ["0.0.900", "0.0.80", "0.0.1000"],
+};
+
+describe("state hash helpers", () => {
+  beforeEach(() => {
+    mirrorModule.fetchTopicMessages.mockReset();
+    floraModule.resolveFloraMemberKeys.mockReset();
+    floraModule.resolveFloraMemberKeys.mockResolvedValue(memberKeys);
+    mirrorModule.fetchTopicMessages.mockImplementation(async (topicId: string) => [
+      { consensusTimestamp: "1.0", sequenceNumber: 1, runningHash: `aa${topicId.slice(4)}` },
+    ]);
+  });
+
+  it("hashes sorted topic running hashes with the account key per HCS-17", async () => {
+    const hash = await computeStateHash({
+      accountId: "0.0.9988",
+      publicKey: "FGHKLJHDGK",
+      topics: [
+        { topicId: "0.0.67890", runningHash: "efab5678" },
+        { topicId: "0.0.12345", runningHash: "abcd1234" },
+      ],
+    });
+
+    const expected = createHash("sha384")
+      .update("0.0.12345_abcd1234|0.0.67890_efab5678|0.0.9988_FGHKLJHDGK")
+      .digest("hex");
+    expect(hash).toBe(expected);
+    expect(hash).toHaveLength(96);
+  });
+
+  it("sorts entity ids numerically", () => {
+    expect(["0.0.900", "0.0.80", "0.0.1000"].sort(compareEntityIds)).toEqual([
+      "0.0.80",
+      "0.0.900",
+      "0.0.1000",
+    ]);
+  });
+
+  it("produces an order independent threshold key fingerprint", () => {
+    const forward = computeKeyFingerprint(memberKeys, 2);
+    const reversed = computeKeyFingerprint([...memberKeys].reverse(), 2);
+    expect(forward).toBe(reversed);
+    expect(computeKeyFingerprint(memberKeys, 1)).not.toBe(forward);
+  });
+
+  it("recomputes flora hashes as of the published consensus timestamp", async () => {
+    const published = await computeFloraStateHash(flora);
+    expect(published.topics).toEqual(["0.0.80", "0.0.900", "0.0.1000"]);
+
+    await expect(
+      verifyFloraStateHash(flora, published.stateHash, "1700000000.000000001"),
+    ).resolves.toBe("verified");
+    expect(mirrorModule.fetchTopicMessages).toHaveBeenLastCalledWith("0.0.1000", {
+      limit: 1,
+      order: "desc",
+      timestamp: "lt:1700000000.000000001",
+    });
+
+    await expect(verifyFloraStateHash(flora, "deadbeef", "1700000000.0")).resolves.toBe(
+      "mismatch",
+    );
+
+    floraModule.resolveFloraMemberKeys.mockRejectedValueOnce(new Error("mirror down"));
+    await expect(
+      verifyFloraStateHash(flora, published.stateHash, "1700000000.0"),
+    ).resolves.toBe("unverifiable");
+  });
+});
@@ -0,0 +1,88 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mirrorModule = vi.hoisted(() => ({
+  lookupAccount: vi.fn(),
+  fetchTokenInfo: vi.fn(),
+  fetchAccountNfts: vi.fn(),
+}));
+
+vi.mock("@/lib/hedera/mirror", () => mirrorModule);
+
+vi.mock("@/lib/hedera/petals", () => ({
+  resolveNodeAccountIds: () => [],
+}));
+
+import { fetchTokenPortfolio, formatTokenAmount } from "../tokens";
+
+describe("formatTokenAmount", () => {
+  it("applies token decimals without losing precision", () => {
+    expect(formatTokenAmount(123450, 2)).toBe("1,234.5");
+    expect(formatTokenAmount(5, 8)).toBe("0.00000005");
+    expect(formatTokenAmount(1000, 0)).toBe("1,000");
+  });
+});
+
+describe("fetchTokenPortfolio", () => {
+  beforeEach(() => {
+    mirrorModule.lookupAccount.mockReset();
+    mirrorModule.fetchTokenInfo.mockReset();
+    mirrorModule.fetchAccountNfts.mockReset();
+  });
+
+  it("splits fungible balances from NFTs using mirror token info", async () => {
+    mirrorModule.lookupAccount.mockResolvedValue({
+      account: "0.0.100",
+      max_automatic_token_associations: 10,
+      balance: {
+        balance: 0,
+        tokens: [
+          { token_id: "0.0.500", balance: 2500 },
+          { token_id: "0.0.600", balance: 1 },
+        ],
+      },
+    });
+    mirrorModule.fetchAccountNfts.mockResolvedValue([
+      { token_id: "0.0.600", serial_number: 7, metadata: btoa("ipfs://meta") },
+    ]);
+    mirrorModule.fetchTokenInfo.mockImplementation(async (tokenId: string) =>
+      tokenId === "0.0.500"
+        ? { token_id: tokenId, symbol: "PTL", name: "Petal", decimals: "2", type: "FUNGIBLE_COMMON" }
+        : { token_id: tokenId, symbol: "ART", decimals: "0", type: "NON_FUNGIBLE_UNIQUE" },
+    );
+
+    const portfolio = await fetchTokenPortfolio("0.0.100", "testnet");
+
+    expect(portfolio.fungible).toEqual([
+      {
+        tokenId: "0.0.500",
+        name: "Petal",
+        symbol: "PTL",
+        decimals: 2,
+        balance: 2500,
+        formattedBalance: "25",
+      },
+    ]);
+    expect(portfolio.nfts).toEqual([
+      {
+        tokenId: "0.0.600",
+        serialNumber: 7,
+        name: undefined,
+        symbol: "ART",
+        metadata: "ipfs://meta",
+      },
+    ]);
+    expect(portfolio.associatedTokenIds).toEqual(["0.0.500", "0.0.600"]);
+    expect(portfolio.maxAutomaticAssociations).toBe(10);
+  });
+
+  it("returns an empty portfolio when the account has no tokens", async () => {
+    mirrorModule.lookupAccount.mockResolvedValue(null);
+    mirrorModule.fetchAccountNfts.mockRejectedValue(new Error("mirror down"));
+
+    const portfolio = await fetchTokenPortfolio("0.0.200", "testnet");
+
+    expect(portfolio.fungible).toEqual([]);
+    expect(portfolio.nfts).toEqual([]);
+    expect(mirrorModule.fetchTokenInfo).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,100 @@
+// @vitest-environment node
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { CustomFixedFee, PrivateKey } from "@hashgraph/sdk";
+
+const mirrorModule = vi.hoisted(() => ({
+  fetchTopicInfo: vi.fn(),
+  fetchTokenInfo: vi.fn(),
+  lookupAccount: vi.fn(),
+}));
+
+vi.mock("@/lib/hedera/mirror", () => mirrorModule);
+
+import {
+  buildCustomFeeLimits,
+  describeTopicFees,
+  fetchTopicFeeSchedule,
+  resolveInboundTopicFees,
+} from "@/lib/hedera/topic-fees";
+
+const ownerKey = PrivateKey.generateED25519().publicKey;
+const payerKey = PrivateKey.generateED25519().publicKey;
+
+describe("topic fees", () => {
+  beforeEach(() => {
+    mirrorModule.fetchTopicInfo.mockReset();
+    mirrorModule.fetchTokenInfo.mockReset();
+    mirrorModule.lookupAccount.mockReset();
+  });
+
+  it("builds HBAR and token fees with the owner and exempt accounts exempt", async () => {
+    mirrorModule.lookupAccount.mockResolvedValue({
+      account: "0.0.9",
+      key: { _type: "ED25519", key: payerKey.toStringRaw() },
+    });
+    const hbar = await resolveInboundTopicFees(
+      { amount: 1.5, collectorAccountId: "0.0.5", exemptAccountIds: ["0.0.9", "0.0.9"] },
+      ownerKey,
+    );
+
+    expect(hbar.customFees).toHaveLength(1);
+    expect(hbar.customFees[0]?.amount?.toNumber()).toBe(150_000_000);
+    expect(hbar.customFees[0]?.feeCollectorAccountId?.toString()).toBe("0.0.5");
+    expect(hbar.feeExemptKeys.map((key) => key.toStringRaw())).toEqual([
+      ownerKey.toStringRaw(),
+      payerKey.toStringRaw(),
+    ]);
+
+    mirrorModule.fetchTokenInfo.mockResolvedValue({ token_id: "0.0.77", decimals: "2" });
+    const token = await resolveInboundTopicFees(
+      { amount: 2.25, tokenId: "0.0.77", collectorAccountId: "0.0.5" },
+      ownerKey,
+    );
+    expect(token.customFees[0]?.amount?.toNumber()).toBe(225);
+    expect(token.customFees[0]?.denominatingTokenId?.toString()).toBe("0.0.77");
+
+    await expect(
+      resolveInboundTopicFees({ amount: 0, collectorAccountId: "0.0.5" }, ownerKey),
+    ).rejects.toThrow("greater than zero");
+  });
+
+  it("reads fee schedules from the mirror node and caps submissions", async () => {
+    mirrorModule.fetchTopicInfo.mockResolvedValue({
+      topic_id: "0.0.440",
+      custom_fees: {
+        fixed_fees: [
+          { amount: 50_000_000, collector_account_id: "0.0.5", denominating_token_id: null },
+          { amount: 1_250, collector_account_id: "0.0.5", denominating_token_id: "0.0.77" },
+        ],
+      },
+      fee_exempt_key_list: [{ _type: "ED25519", key: ownerKey.toStringRaw() }],
+    });
+    mirrorModule.fetchTokenInfo.mockResolvedValue({
+      token_id: "0.0.77",
+      symbol: "PTL",
+      decimals: "2",
+    });
+    mirrorModule.lookupAccount.mockResolvedValue({
+      account: "0.0.200",
+      key: { _type: "ED25519", key: payerKey.toStringRaw() },
+    });
+
+    const schedule = await fetchTopicFeeSchedule("0.0.440", "0.0.200");
+
+    expect(schedule.exempt).toBe(false);
+    expect(schedule.fees.map((fee) => fee.formatted)).toEqual(["0.5 ℏ", "12.5 PTL"]);
+    expect(describeTopicFees(schedule)).toBe("0.5 ℏ + 12.5 PTL");
+
+    const [limit] = buildCustomFeeLimits(schedule, "0.0.200");
+    expect(limit?.getAccountId()?.toString()).toBe("0.0.200");
+    expect(limit?.getFees()?.map((fee: CustomFixedFee) => fee.amount?.toNumber())).toEqual([
+      50_000_000, 1_250,
+    ]);
+    expect(buildCustomFeeLimits({ ...schedule, exempt: true }, "0.0.200")).toEqual([]);
+
+    mirrorModule.fetchTopicInfo.mockResolvedValue({ topic_id: "0.0.441" });
+    const free = await fetchTopicFeeSchedule("0.0.441", "0.0.200");
+    expect(free.fees).toEqual([]);
+    expect(describeTopicFees(free)).toBeNull();
+  });
+});
@@ -0,0 +1,136 @@
+import { lookupAccount } from "@/lib/hedera/mirror";
+import type { FloraRecord } from "@/lib/hedera/flora";
+import type { ConnectionRequestEvent } from "@/lib/hedera/messaging";
+
+export type AutoAcceptRule =
+  | { id: string; type: "account"; accountId: string }
+  /** Members of one flora, or of any active flora when `floraId` is omitted. */
+  | { id: string; type: "flora-member"; floraId?: string }
+  /** Holders of at least `minBalance` of the token, in its smallest unit. */
+  | { id: string; type: "token-holder"; tokenId: string; minBalance: number };
+
+export type AutoAcceptConfig = {
+  enabled: boolean;
+  rules: AutoAcceptRule[];
+};
+
+export type AutoAcceptLogEntry = {
+  requestSequenceNumber: number;
+  accountId: string;
+  rule: string;
+  outcome: "accepted" | "failed";
+  connectionTopicId?: string;
+  error?: string;
+  timestamp: string;
+};
+
+export const DEFAULT_AUTO_ACCEPT_CONFIG: AutoAcceptConfig = { enabled: false, rules: [] };
+
+const AUTO_ACCEPT_LOG_LIMIT = 50;
+/** Auto-accept attempts allowed per requester within the rate window. */
+export const AUTO_ACCEPT_RATE_LIMIT = 3;
+export const AUTO_ACCEPT_RATE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export function normalizeAutoAcceptConfig(
+  config?: Partial<AutoAcceptConfig> | null,
+): AutoAcceptConfig {
+  return { ...DEFAULT_AUTO_ACCEPT_CONFIG, ...(config ?? {}) };
+}
+
+export function describeAutoAcceptRule(rule: AutoAcceptRule, floras: FloraRecord[] = []): string {
+  switch (rule.type) {
+    case "account":
+      return `Account ${rule.accountId}`;
+    case "flora-member": {
+      if (!rule.floraId) {
+        return "Any flora co-member";
+      }
+      const flora = floras.find((item) => item.id === rule.floraId);
+      return `Members of ${flora?.name ?? rule.floraId}`;
+    }
+    case "token-holder":
+      return rule.minBalance > 1
+        ? `Holders of ${rule.minBalance} × ${rule.tokenId}`
+        : `Holders of ${rule.tokenId}`;
+  }
+}
+
+function isFloraMember(accountId: string, flora: FloraRecord): boolean {
+  return (
+    flora.status === "active" &&
+    flora.members.some((member) => member.accountId === accountId && member.status !== "invited")
+  );
+}
+
+async function holdsToken(accountId: string, tokenId: string, minBalance: number): Promise<boolean> {
+  const account = await lookupAccount(accountId).catch(() => null);
+  const holding = account?.balance?.tokens?.find((token) => token.token_id === tokenId);
+  return Boolean(holding && holding.balance >= Math.max(minBalance, 1));
+}
+
+export function isAutoAcceptRateLimited(
+  log: AutoAcceptLogEntry[],
+  accountId: string,
+  now: number = Date.now(),
+): boolean {
+  const attempts = log.filter(
+    (entry) =>
+      entry.accountId === accountId &&
+      now - Date.parse(entry.timestamp) < AUTO_ACCEPT_RATE_WINDOW_MS,
+  );
+  return attempts.length >= AUTO_ACCEPT_RATE_LIMIT;
+}
+
+/**
+ * Returns the first rule that matches the requester of a connection request,
+ * or null when none do. Rules are checked in the order they were added. Only
+ * requests paid for by the declared operator are considered, and requesters
+ * that hit the rate limit in `log` are skipped.
+ */
+export async function matchAutoAcceptRule(
+  event: ConnectionRequestEvent,
+  rules: AutoAcceptRule[],
+  context: { floras?: FloraRecord[]; log?: AutoAcceptLogEntry[] } = {},
+): Promise<AutoAcceptRule | null> {
+  const accountId = event.operator?.accountId;
+  if (
+    !accountId ||
+    event.payerAccountId !== accountId ||
+    isAutoAcceptRateLimited(context.log ?? [], accountId)
+  ) {
+    return null;
+  }
+  const floras = context.floras ?? [];
+  for (const rule of rules) {
+    switch (rule.type) {
+      case "account":
+        if (rule.accountId === accountId) {
+          return rule;
+        }
+        break;
+      case "flora-member":
+        if (
+          floras.some(
+            (flora) => (!rule.floraId || flora.id === rule.floraId) && isFloraMember(accountId, flora),
+          )
+        ) {
+          return rule;
+        }
+        break;
+      case "token-holder":
+        if (await holdsToken(accountId, rule.tokenId, rule.minBalance)) {
+          return rule;
+        }
+        break;
+    }
+  }
+  return null;
+}
+
+/** Prepends an entry, keeping the most recent entries only. */
+export function appendAutoAcceptLog(
+  log: AutoAcceptLogEntry[],
+  entry: AutoAcceptLogEntry,
+): AutoAcceptLogEntry[] {
+  return [entry, ...log].slice(0, AUTO_ACCEPT_LOG_LIMIT);
+}
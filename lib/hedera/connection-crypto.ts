@@ -0,0 +1,157 @@
+import { Buffer } from "buffer";
+
+export type ConnectionKeyPair = {
+  publicKey: string;
+  privateKey: string;
+};
+
+export type ConnectionEncryption = {
+  key: string;
+  establishedAt: string;
+};
+
+export type HandshakeMemo = {
+  memo?: string;
+  publicKey: string | null;
+};
+
+export const ENCRYPTED_DATA_PREFIX = "e2ee:v1:";
+
+const HANDSHAKE_PATTERN = /\s*\[e2ee:x25519:([A-Za-z0-9+/]{43}=)\]\s*$/u;
+const IV_BYTES = 12;
+
+function getSubtle(): SubtleCrypto {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    throw new Error("Web Crypto is unavailable; encrypted connections need a secure context");
+  }
+  return subtle;
+}
+
+function toBase64(bytes: ArrayBuffer | Uint8Array): string {
+  return Buffer.from(bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes)).toString(
+    "base64",
+  );
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  const decoded = Buffer.from(value, "base64");
+  const bytes = new Uint8Array(new ArrayBuffer(decoded.length));
+  bytes.set(decoded);
+  return bytes;
+}
+
+function additionalData(connectionTopicId: string): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(`hcs-10:${connectionTopicId}`);
+}
+
+/** Generates an ephemeral X25519 key pair for one connection handshake. */
+export async function generateConnectionKeyPair(): Promise<ConnectionKeyPair> {
+  const subtle = getSubtle();
+  const pair = (await subtle.generateKey({ name: "X25519" }, true, [
+    "deriveBits",
+  ])) as CryptoKeyPair;
+  const [publicKey, privateKey] = await Promise.all([
+    subtle.exportKey("raw", pair.publicKey),
+    subtle.exportKey("pkcs8", pair.privateKey),
+  ]);
+  return { publicKey: toBase64(publicKey), privateKey: toBase64(privateKey) };
+}
+
+/**
+ * Appends a handshake public key to an HCS-10 request or confirmation memo.
+ * Peers without encryption support see it as trailing memo text.
+ */
+export function appendHandshakeKey(memo: string | undefined, publicKey: string): string {
+  const tag = `[e2ee:x25519:${publicKey}]`;
+  return memo ? `${memo} ${tag}` : tag;
+}
+
+export function parseHandshakeMemo(memo?: string): HandshakeMemo {
+  if (!memo) {
+    return { memo, publicKey: null };
+  }
+  const match = HANDSHAKE_PATTERN.exec(memo);
+  if (!match) {
+    return { memo, publicKey: null };
+  }
+  const stripped = memo.slice(0, match.index).trim();
+  return { memo: stripped || undefined, publicKey: match[1] };
+}
+
+/** Identifies the private key a requester keeps until the peer confirms. */
+export function pendingHandshakeId(remoteAccountId: string, requestSequenceNumber: number): string {
+  return `${remoteAccountId}:${requestSequenceNumber}`;
+}
+
+/**
+ * Derives the AES-256-GCM key for a connection topic from our X25519 private
+ * key and the peer's public key, via HKDF bound to the topic ID.
+ */
+export async function deriveConnectionKey(
+  privateKey: string,
+  remotePublicKey: string,
+  connectionTopicId: string,
+): Promise<ConnectionEncryption> {
+  const subtle = getSubtle();
+  const [ownKey, peerKey] = await Promise.all([
+    subtle.importKey("pkcs8", fromBase64(privateKey), { name: "X25519" }, false, ["deriveBits"]),
+    subtle.importKey("raw", fromBase64(remotePublicKey), { name: "X25519" }, false, []),
+  ]);
+  const sharedSecret = await subtle.deriveBits({ name: "X25519", public: peerKey }, ownKey, 256);
+  const hkdfKey = await subtle.importKey("raw", sharedSecret, "HKDF", false, ["deriveBits"]);
+  const keyBytes = await subtle.deriveBits(
+    {
+      name: "HKDF",
+      hash: "SHA-256",
+      salt: new Uint8Array(32),
+      info: additionalData(connectionTopicId),
+    },
+    hkdfKey,
+    256,
+  );
+  return { key: toBase64(keyBytes), establishedAt: new Date().toISOString() };
+}
+
+function importAesKey(key: string, usage: KeyUsage): Promise<CryptoKey> {
+  return getSubtle().importKey("raw", fromBase64(key), { name: "AES-GCM" }, false, [usage]);
+}
+
+export function isSealedConnectionData(data?: string | null): boolean {
+  return Boolean(data?.startsWith(ENCRYPTED_DATA_PREFIX));
+}
+
+export async function sealConnectionData(
+  key: string,
+  plaintext: string,
+  connectionTopicId: string,
+): Promise<string> {
+  const iv = globalThis.crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await getSubtle().encrypt(
+    { name: "AES-GCM", iv, additionalData: additionalData(connectionTopicId) },
+    await importAesKey(key, "encrypt"),
+    new TextEncoder().encode(plaintext),
+  );
+  return `${ENCRYPTED_DATA_PREFIX}${toBase64(iv)}:${toBase64(ciphertext)}`;
+}
+
+export async function openConnectionData(
+  key: string,
+  sealed: string,
+  connectionTopicId: string,
+): Promise<string> {
+  const [iv, ciphertext] = sealed.slice(ENCRYPTED_DATA_PREFIX.length).split(":");
+  if (!iv || !ciphertext) {
+    throw new Error("Malformed encrypted message");
+  }
+  const plaintext = await getSubtle().decrypt(
+    {
+      name: "AES-GCM",
+      iv: fromBase64(iv),
+      additionalData: additionalData(connectionTopicId),
+    },
+    await importAesKey(key, "decrypt"),
+    fromBase64(ciphertext),
+  );
+  return new TextDecoder().decode(plaintext);
+}
@@ -9,6 +9,12 @@ import { buildHcs10CreateConnectionTopicTx } from "@hashgraphonline/standards-sd
 import { getHederaClient } from "@/lib/hedera/client";
 import { lookupAccount } from "@/lib/hedera/mirror";
 import { getSignerPublicKey, publicKeyFromMirrorKey } from "@/lib/hedera/keys";
+import {
+  appendHandshakeKey,
+  deriveConnectionKey,
+  generateConnectionKeyPair,
+  type ConnectionEncryption,
+} from "@/lib/hedera/connection-crypto";
 import {
   recordOutboundConnectionCreated,
   sendConnectionCreatedNotification,
@@ -27,9 +33,19 @@ export type ConnectionRequestContext = {
   requestSequenceNumber: number;
   requestorOutboundTopicId?: string;
   memo?: string;
+  remoteEncryptionPublicKey?: string;
+  onTopicCreated?: (result: ConnectionTopicResult) => void;
 };
 
+export type ConnectionState =
+  | "requested"
+  | "pending-confirmation"
+  | "active"
+  | "closed-by-me"
+  | "closed-by-peer";
+
 export type ConnectionRecord = {
+  /** Placeholder `requested:<account>:<request>` until the peer creates the topic. */
   connectionTopicId: string;
   contactAccountId: string;
   contactAlias?: string;
@@ -37,8 +53,88 @@ export type ConnectionRecord = {
   contactInboundTopicId: string;
   connectionId: number;
   createdAt: string;
+  encryption?: ConnectionEncryption;
+  state?: ConnectionState;
+  archived?: boolean;
+  closedAt?: string;
+  closeReason?: string;
+};
+
+export type ConnectionTransition =
+  | { type: "confirmed"; connectionTopicId: string; encryption?: ConnectionEncryption }
+  | { type: "close-sent"; reason?: string }
+  | { type: "close-received"; reason?: string };
+
+const CONNECTION_TRANSITIONS: Record<ConnectionTransition["type"], ConnectionState[]> = {
+  confirmed: ["requested", "pending-confirmation"],
+  "close-sent": ["pending-confirmation", "active"],
+  "close-received": ["pending-confirmation", "active"],
+};
+
+export type ConnectionTopicResult = {
+  connectionTopicId: string;
+  encryption?: ConnectionEncryption;
 };
 
+export function requestedConnectionTopicId(
+  remoteAccountId: string,
+  requestSequenceNumber: number,
+): string {
+  return `requested:${remoteAccountId}:${requestSequenceNumber}`;
+}
+
+/** Records saved before connections had a lifecycle are treated as active. */
+export function getConnectionState(record: ConnectionRecord): ConnectionState {
+  return record.state ?? "active";
+}
+
+export function isConnectionClosed(record: ConnectionRecord): boolean {
+  const state = getConnectionState(record);
+  return state === "closed-by-me" || state === "closed-by-peer";
+}
+
+export function assertConnectionOpen(record: ConnectionRecord): void {
+  const state = getConnectionState(record);
+  if (state !== "active") {
+    throw new Error(
+      isConnectionClosed(record)
+        ? "This connection is closed. Reopen it to send new messages."
+        : "This connection is not active yet.",
+    );
+  }
+}
+
+/**
+ * Applies a lifecycle transition: requested or pending-confirmation become
+ * active once confirmed, and open connections close from either side.
+ */
+export function transitionConnection(
+  record: ConnectionRecord,
+  transition: ConnectionTransition,
+): ConnectionRecord {
+  const state = getConnectionState(record);
+  if (!CONNECTION_TRANSITIONS[transition.type].includes(state)) {
+    throw new Error(`Cannot apply ${transition.type} to a ${state} connection`);
+  }
+  switch (transition.type) {
+    case "confirmed":
+      return {
+        ...record,
+        connectionTopicId: transition.connectionTopicId,
+        encryption: transition.encryption ?? record.encryption,
+        state: "active",
+      };
+    case "close-sent":
+    case "close-received":
+      return {
+        ...record,
+        state: transition.type === "close-sent" ? "closed-by-me" : "closed-by-peer",
+        closedAt: new Date().toISOString(),
+        closeReason: transition.reason,
+      };
+  }
+}
+
 async function buildSubmitKey(
   localKey: PublicKey,
   remoteKey: PublicKey,
@@ -49,9 +145,15 @@ async function buildSubmitKey(
   return keyList;
 }
 
+/**
+ * Creates the shared HCS-10 connection topic and confirms it to the requester.
+ * When the request carried an X25519 handshake key, the confirmation answers
+ * with our own key and the derived encryption key is returned with the topic.
+ * `onTopicCreated` fires before the confirmation is sent.
+ */
 export async function createConnectionTopic(
   context: ConnectionRequestContext,
-): Promise<string> {
+): Promise<ConnectionTopicResult> {
   const {
     signer,
     localAccountId,
@@ -61,6 +163,8 @@ export async function createConnectionTopic(
     requestSequenceNumber,
     memo,
     requestorOutboundTopicId,
+    remoteEncryptionPublicKey,
+    onTopicCreated,
   } = context;
 
   const client = getHederaClient();
@@ -94,6 +198,15 @@ export async function createConnectionTopic(
     throw new Error("Connection topic creation did not return a topic ID");
   }
 
+  let encryption: ConnectionEncryption | undefined;
+  let confirmationMemo = memo;
+  if (remoteEncryptionPublicKey) {
+    const keyPair = await generateConnectionKeyPair();
+    encryption = await deriveConnectionKey(keyPair.privateKey, remoteEncryptionPublicKey, topicId);
+    confirmationMemo = appendHandshakeKey(memo, keyPair.publicKey);
+  }
+  onTopicCreated?.({ connectionTopicId: topicId, encryption });
+
   const operator: Hcs10Operator = {
     inboundTopicId: context.localInboundTopicId,
     accountId: localAccountId,
@@ -106,7 +219,7 @@ export async function createConnectionTopic(
     context.remoteAccountId,
     operator,
     context.requestSequenceNumber,
-    memo,
+    confirmationMemo,
   );
 
   await recordOutboundConnectionCreated({
@@ -121,5 +234,5 @@ export async function createConnectionTopic(
     memo,
   });
 
-  return topicId;
+  return { connectionTopicId: topicId, encryption };
 }
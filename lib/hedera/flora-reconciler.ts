@@ -0,0 +1,267 @@
+import { Buffer } from "buffer";
+import { fetchAllTopicMessages, type MirrorTopicMessage } from "@/lib/hedera/mirror";
+import { fetchAllDirectMessages, verifyDirectMessage } from "@/lib/hedera/messaging";
+import { fetchScheduleStatuses } from "@/lib/hedera/schedules";
+import {
+  collectMembershipScheduleIds,
+  defaultFloraThreshold,
+  isFloraJoinAccepted,
+  isPaidBySender,
+  resolveFloraMembership,
+  type TallyInputMessage,
+} from "@/lib/hedera/flora-tally";
+import type {
+  FloraCreateRequestPayload,
+  FloraJoinAcceptedPayload,
+  FloraMember,
+  FloraRecord,
+} from "@/lib/hedera/flora";
+
+export type FloraInvitation = FloraCreateRequestPayload | FloraJoinAcceptedPayload;
+
+export type FloraTopicHistory = {
+  communication: TallyInputMessage[];
+  transaction: TallyInputMessage[];
+  state: TallyInputMessage[];
+  executedScheduleIds: ReadonlySet<string>;
+};
+
+export type FloraReconciliation = {
+  flora: FloraRecord;
+  invitation: FloraInvitation;
+  awaitingAcceptance: boolean;
+};
+
+function decodeFloraMessages(messages: MirrorTopicMessage[]): TallyInputMessage[] {
+  return messages.flatMap((message) => {
+    if (!message.message) {
+      return [];
+    }
+    try {
+      const payload = JSON.parse(Buffer.from(message.message, "base64").toString("utf-8")) as unknown;
+      return [
+        {
+          payload,
+          consensusTimestamp: message.consensusTimestamp,
+          payerAccountId: message.payer_account_id,
+        },
+      ];
+    } catch {
+      return [];
+    }
+  });
+}
+
+export function isFloraInvitation(payload: unknown): payload is FloraInvitation {
+  const candidate = payload as Partial<FloraInvitation> | null;
+  if (candidate?.type !== "flora_create_request" && candidate?.type !== "flora_join_accepted") {
+    return false;
+  }
+  const flora = candidate.flora;
+  return (
+    typeof flora?.name === "string" &&
+    typeof flora.communicationTopicId === "string" &&
+    typeof flora.transactionTopicId === "string" &&
+    typeof flora.stateTopicId === "string" &&
+    typeof flora.initiator?.accountId === "string" &&
+    Array.isArray(flora.members)
+  );
+}
+
+function payloadType(payload: unknown): string | null {
+  const candidate = payload as { type?: unknown } | null;
+  return typeof candidate?.type === "string" ? candidate.type : null;
+}
+
+function payloadSender(payload: unknown): string | null {
+  const candidate = payload as { from?: unknown } | null;
+  return typeof candidate?.from === "string" ? candidate.from : null;
+}
+
+/** The first flora announcement on the topic that its initiator paid for. */
+function findFloraAnnouncement(
+  communication: TallyInputMessage[],
+): FloraCreateRequestPayload | null {
+  const message = communication.find(
+    (candidate): candidate is TallyInputMessage & { payload: FloraCreateRequestPayload } =>
+      isFloraInvitation(candidate.payload) &&
+      candidate.payload.type === "flora_create_request" &&
+      isPaidBySender(candidate, candidate.payload.flora.initiator.accountId),
+  );
+  return message?.payload ?? null;
+}
+
+/**
+ * Rebuilds a flora from its topic history as seen by `accountId`. The
+ * initiator's announcement on the communication topic fixes the founding
+ * roster, join acceptances mark invitees as accepted, and state topic events
+ * replay later membership changes once the votes and schedules behind them
+ * check out. Returns null when there is no announcement paid for by its
+ * initiator, or when the account never belonged to the flora.
+ */
+export function rebuildFloraRecord(
+  accountId: string,
+  { communication, transaction, state, executedScheduleIds }: FloraTopicHistory,
+): FloraReconciliation | null {
+  const announcement = findFloraAnnouncement(communication);
+  if (!announcement) {
+    return null;
+  }
+
+  const { flora } = announcement;
+  const initiatorId = flora.initiator.accountId;
+  const foundingMembers = Array.from(
+    new Set([initiatorId, ...flora.members.map((member) => member.accountId)]),
+  );
+  const foundingThreshold = flora.threshold ?? defaultFloraThreshold(foundingMembers.length);
+  const membership = resolveFloraMembership(
+    [...communication, ...transaction, ...state],
+    { members: foundingMembers, threshold: foundingThreshold },
+    { executedScheduleIds },
+  );
+  const memberIds = membership?.members ?? foundingMembers;
+
+  const joinPending =
+    !memberIds.includes(accountId) &&
+    state.some(
+      (message) =>
+        isFloraJoinAccepted(message.payload) &&
+        message.payload.candidateAccountId === accountId &&
+        message.payload.members.includes(accountId),
+    );
+  const everMember =
+    foundingMembers.includes(accountId) || memberIds.includes(accountId) || joinPending;
+  if (!everMember) {
+    return null;
+  }
+
+  const accepted = new Set<string>([initiatorId]);
+  for (const message of communication) {
+    const type = payloadType(message.payload);
+    const sender = payloadSender(message.payload);
+    if (
+      sender &&
+      isPaidBySender(message, sender) &&
+      (type === "flora_join_accept" || type === "flora_created")
+    ) {
+      accepted.add(sender);
+    }
+  }
+
+  const aliases = new Map<string, string | undefined>([
+    [initiatorId, flora.initiator.alias],
+    ...flora.members.map((member) => [member.accountId, member.alias] as [string, string | undefined]),
+  ]);
+  for (const message of state) {
+    if (isFloraJoinAccepted(message.payload) && memberIds.includes(message.payload.candidateAccountId)) {
+      accepted.add(message.payload.candidateAccountId);
+      aliases.set(message.payload.candidateAccountId, message.payload.candidateAlias);
+    }
+  }
+
+  const members = memberIds.map<FloraMember>((memberId) => ({
+    accountId: memberId,
+    alias: aliases.get(memberId),
+    status: memberId === accountId ? "self" : accepted.has(memberId) ? "accepted" : "invited",
+  }));
+
+  const awaitingAcceptance = memberIds.includes(accountId) && !accepted.has(accountId);
+  let status: FloraRecord["status"];
+  if (membership?.dissolved) {
+    status = "dissolved";
+  } else if (joinPending) {
+    status = "pending";
+  } else if (!memberIds.includes(accountId)) {
+    status = "removed";
+  } else if (awaitingAcceptance || accepted.size < 2) {
+    status = "pending";
+  } else {
+    status = "active";
+  }
+
+  return {
+    flora: {
+      id: flora.communicationTopicId,
+      name: flora.name,
+      topics: {
+        communication: flora.communicationTopicId,
+        transaction: flora.transactionTopicId,
+        state: flora.stateTopicId,
+      },
+      members,
+      status,
+      createdAt: announcement.sentAt,
+      initiatorAccountId: initiatorId,
+      accountId: flora.accountId,
+      threshold: membership?.threshold ?? foundingThreshold,
+      purposeTags: flora.purposeTags,
+    },
+    invitation: announcement,
+    awaitingAcceptance,
+  };
+}
+
+/**
+ * Reconciles the flora announced on a communication topic. Its other topics
+ * come from the initiator's announcement there, never from an invitation.
+ */
+export async function reconcileFlora(
+  communicationTopicId: string,
+  options: {
+    accountId: string;
+    network?: "mainnet" | "testnet";
+  },
+): Promise<FloraReconciliation | null> {
+  const communication = decodeFloraMessages(await fetchAllTopicMessages(communicationTopicId));
+  const announcement = findFloraAnnouncement(communication);
+  if (!announcement) {
+    return null;
+  }
+  const { stateTopicId, transactionTopicId } = announcement.flora;
+  const state = decodeFloraMessages(await fetchAllTopicMessages(stateTopicId));
+  const scheduleIds = collectMembershipScheduleIds(state);
+  // Removals and dissolution are checked against the proposal votes, which
+  // only matter once the state topic cites a membership change.
+  const transaction =
+    scheduleIds.length > 0
+      ? decodeFloraMessages(await fetchAllTopicMessages(transactionTopicId))
+      : [];
+  const statuses = await fetchScheduleStatuses(scheduleIds, options.network);
+  const executedScheduleIds = new Set(
+    Array.from(statuses)
+      .filter(([, status]) => status === "executed")
+      .map(([scheduleId]) => scheduleId),
+  );
+  return rebuildFloraRecord(options.accountId, {
+    communication,
+    transaction,
+    state,
+    executedScheduleIds,
+  });
+}
+
+/**
+ * Scans an inbound topic for flora invitations addressed to the account, which
+ * is how floras are found again on a fresh browser. Only invitations signed by
+ * their sender are kept; they still only point at topics to reconcile.
+ */
+export async function discoverFloraInvitations(
+  inboundTopicId: string,
+  accountId: string,
+): Promise<FloraInvitation[]> {
+  const messages = await fetchAllDirectMessages(inboundTopicId);
+  const invitations = new Map<string, FloraInvitation>();
+  for (const message of messages) {
+    if (!isFloraInvitation(message) || (message.to !== accountId && message.to !== "*")) {
+      continue;
+    }
+    if (invitations.has(message.flora.communicationTopicId)) {
+      continue;
+    }
+    const verified = await verifyDirectMessage(message);
+    if (verified.verification === "verified") {
+      invitations.set(message.flora.communicationTopicId, message);
+    }
+  }
+  return Array.from(invitations.values());
+}
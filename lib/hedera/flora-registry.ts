@@ -0,0 +1,192 @@
+import { Buffer } from "buffer";
+import { buildHcs2RegisterTx } from "@hashgraphonline/standards-sdk";
+import { tryGetTopicId } from "@/config/topics";
+import { getHederaClient } from "@/lib/hedera/client";
+import { fetchTopicMessages, type MirrorTopicMessage } from "@/lib/hedera/mirror";
+import type { FloraTopics } from "@/lib/hedera/flora";
+import type { DAppSigner } from "@/lib/hedera/wallet-types";
+
+type Network = "mainnet" | "testnet";
+
+export type FloraRegistryScope = "environment" | "global";
+
+export type FloraRegistryEntry = {
+  floraId: string;
+  name: string;
+  accountId?: string;
+  topics: FloraTopics;
+  memberCount: number;
+  threshold?: number;
+  purposeTags: string[];
+  initiatorAccountId: string;
+  scope: FloraRegistryScope;
+  registeredAt?: string;
+  consensusTimestamp?: string;
+  sequenceNumber?: number;
+};
+
+type FloraRegistryMetadata = {
+  standard: "hcs-16";
+  name: string;
+  account_id?: string;
+  topics: FloraTopics;
+  member_count: number;
+  threshold?: number;
+  tags: string[];
+  initiator: string;
+  registered_at: string;
+};
+
+const REGISTRY_SCOPES: FloraRegistryScope[] = ["environment", "global"];
+
+export function normalizePurposeTags(input: string | string[]): string[] {
+  const values = Array.isArray(input) ? input : input.split(/[,\s]+/u);
+  const tags = values
+    .map((value) => value.trim().toLowerCase().replace(/^#/u, ""))
+    .filter((value) => /^[a-z0-9-]{1,32}$/u.test(value));
+  return Array.from(new Set(tags)).slice(0, 8);
+}
+
+function decodeRegistryMessage(message: MirrorTopicMessage): Record<string, unknown> | null {
+  if (!message.message) {
+    return null;
+  }
+  try {
+    return JSON.parse(Buffer.from(message.message, "base64").toString("utf-8")) as Record<
+      string,
+      unknown
+    >;
+  } catch {
+    return null;
+  }
+}
+
+function extractFloraEntry(
+  message: MirrorTopicMessage,
+  scope: FloraRegistryScope,
+): FloraRegistryEntry | null {
+  const envelope = decodeRegistryMessage(message);
+  if (!envelope || envelope.p !== "hcs-2" || envelope.op !== "register") {
+    return null;
+  }
+  const floraId = typeof envelope.t_id === "string" ? envelope.t_id : null;
+  if (!floraId || typeof envelope.metadata !== "string") {
+    return null;
+  }
+
+  let metadata: Partial<FloraRegistryMetadata>;
+  try {
+    metadata = JSON.parse(envelope.metadata) as Partial<FloraRegistryMetadata>;
+  } catch {
+    return null;
+  }
+  if (metadata.standard !== "hcs-16" || !metadata.name || !metadata.topics || !metadata.initiator) {
+    return null;
+  }
+
+  return {
+    floraId,
+    name: metadata.name,
+    accountId: metadata.account_id,
+    topics: metadata.topics,
+    memberCount: metadata.member_count ?? 0,
+    threshold: metadata.threshold,
+    purposeTags: normalizePurposeTags(metadata.tags ?? []),
+    initiatorAccountId: metadata.initiator,
+    scope,
+    registeredAt: metadata.registered_at,
+    consensusTimestamp: message.consensusTimestamp,
+    sequenceNumber: message.sequenceNumber,
+  };
+}
+
+export async function publishFloraToRegistry(
+  signer: DAppSigner,
+  entry: Omit<FloraRegistryEntry, "scope" | "registeredAt" | "consensusTimestamp" | "sequenceNumber">,
+  options: { scope?: FloraRegistryScope; network?: Network } = {},
+): Promise<void> {
+  const registryTopicId = tryGetTopicId("floraRegistry", options.scope ?? "environment", options.network);
+  if (!registryTopicId) {
+    throw new Error(
+      "Flora registry topic is not configured. Run the HCS-2 setup script or connect a wallet to initialize registry topics.",
+    );
+  }
+
+  const metadata: FloraRegistryMetadata = {
+    standard: "hcs-16",
+    name: entry.name,
+    account_id: entry.accountId,
+    topics: entry.topics,
+    member_count: entry.memberCount,
+    threshold: entry.threshold,
+    tags: normalizePurposeTags(entry.purposeTags),
+    initiator: entry.initiatorAccountId,
+    registered_at: new Date().toISOString(),
+  };
+
+  const tx = buildHcs2RegisterTx({
+    registryTopicId,
+    targetTopicId: entry.floraId,
+    metadata: JSON.stringify(metadata),
+    memo: `flora:${entry.name}`.slice(0, 100),
+  }).freezeWith(getHederaClient());
+  await signer.signTransaction(tx);
+  const response = await tx.executeWithSigner(signer);
+  await response.getReceiptWithSigner(signer);
+}
+
+export async function listRegisteredFloras(
+  options: { network?: Network; limit?: number } = {},
+): Promise<FloraRegistryEntry[]> {
+  const limit = options.limit ?? 100;
+  const topicIds = new Map<string, FloraRegistryScope>();
+  for (const scope of REGISTRY_SCOPES) {
+    const topicId = tryGetTopicId("floraRegistry", scope, options.network);
+    if (topicId && !topicIds.has(topicId)) {
+      topicIds.set(topicId, scope);
+    }
+  }
+
+  const batches = await Promise.all(
+    Array.from(topicIds.entries()).map(async ([topicId, scope]) => {
+      const messages = await fetchTopicMessages(topicId, { limit, order: "desc" }).catch(
+        () => [] as MirrorTopicMessage[],
+      );
+      return messages
+        .map((message) => extractFloraEntry(message, scope))
+        .filter((entry): entry is FloraRegistryEntry => entry !== null);
+    }),
+  );
+
+  const seen = new Set<string>();
+  const entries: FloraRegistryEntry[] = [];
+  for (const entry of batches.flat()) {
+    if (seen.has(entry.floraId)) {
+      continue;
+    }
+    seen.add(entry.floraId);
+    entries.push(entry);
+  }
+  return entries;
+}
+
+export function filterRegisteredFloras(
+  entries: FloraRegistryEntry[],
+  query: string,
+): FloraRegistryEntry[] {
+  const normalized = query.trim().toLowerCase();
+  if (!normalized) {
+    return entries;
+  }
+  const terms = normalized.split(/\s+/u);
+  return entries.filter((entry) => {
+    const haystack = [
+      entry.name.toLowerCase(),
+      entry.floraId,
+      entry.accountId ?? "",
+      entry.initiatorAccountId,
+      ...entry.purposeTags,
+    ].join(" ");
+    return terms.every((term) => haystack.includes(term.replace(/^#/u, "")));
+  });
+}
@@ -0,0 +1,562 @@
+import type {
+  FloraDissolvedMessage,
+  FloraMembershipAction,
+  FloraJoinAcceptedMessage,
+  FloraMemberRemovedMessage,
+  FloraJoinRequestMessage,
+  FloraJoinVoteMessage,
+  FloraProposalMessage,
+  FloraVoteMessage,
+} from "@/lib/hedera/flora";
+
+export type ProposalStatus = "open" | "passed" | "rejected" | "expired";
+
+export type TallyInputMessage = {
+  payload: unknown;
+  consensusTimestamp: string;
+  /** Mirror `payer_account_id`; the only trusted attribution for a message. */
+  payerAccountId?: string;
+};
+
+export type TallyVote = {
+  accountId: string;
+  vote: FloraVoteMessage["vote"];
+  consensusTimestamp: string;
+};
+
+export type RejectedVote = {
+  accountId: string;
+  proposalId: string;
+  reason: "not_member" | "unknown_proposal" | "after_deadline" | "payer_mismatch";
+};
+
+export type ProposalTally = {
+  proposalId: string;
+  proposal: FloraProposalMessage;
+  status: ProposalStatus;
+  threshold: number;
+  memberCount: number;
+  deadline: number | null;
+  votes: TallyVote[];
+  yes: number;
+  no: number;
+  quorumReached: boolean;
+};
+
+export type FloraTally = {
+  proposals: ProposalTally[];
+  rejectedVotes: RejectedVote[];
+};
+
+export type JoinRequestTally = Omit<ProposalTally, "proposalId" | "proposal"> & {
+  requestId: string;
+  request: FloraJoinRequestMessage;
+  accepted: boolean;
+};
+
+export type FloraJoinTally = {
+  requests: JoinRequestTally[];
+  rejectedVotes: RejectedVote[];
+};
+
+export type FloraMembership = {
+  members: string[];
+  threshold: number;
+  consensusTimestamp: string;
+  dissolved: boolean;
+};
+
+export type TallyOptions = {
+  members: string[];
+  threshold?: number;
+  now?: number;
+};
+
+export type MembershipOptions = {
+  /** Schedules the mirror node reports as executed. */
+  executedScheduleIds: ReadonlySet<string>;
+  /** Consensus timestamp to replay up to, for the roster as of an earlier message. */
+  asOf?: string;
+};
+
+export function defaultFloraThreshold(memberCount: number): number {
+  return Math.floor(memberCount / 2) + 1;
+}
+
+/**
+ * Keeps the approval ratio when the member count changes, e.g. 2 of 3 becomes
+ * 3 of 4 rather than silently lowering the bar.
+ */
+export function scaleFloraThreshold(
+  threshold: number,
+  fromMemberCount: number,
+  toMemberCount: number,
+): number {
+  if (fromMemberCount < 1 || toMemberCount < 1) {
+    return defaultFloraThreshold(Math.max(toMemberCount, 1));
+  }
+  const scaled = Math.ceil((threshold / fromMemberCount) * toMemberCount);
+  return Math.min(Math.max(scaled, 1), toMemberCount);
+}
+
+function consensusToMs(value: string): number {
+  const seconds = Number(value);
+  return Number.isFinite(seconds) ? seconds * 1000 : 0;
+}
+
+type Ballot<T> = {
+  id: string;
+  from: string;
+  item: T;
+  deadline: number | null;
+};
+
+type BallotVote = {
+  ballotId: string;
+  from: string;
+  vote: "yes" | "no";
+};
+
+type BallotTally<T> = {
+  ballot: Ballot<T>;
+  status: ProposalStatus;
+  votes: TallyVote[];
+  yes: number;
+  no: number;
+};
+
+/**
+ * The `from` field is written by the sender, so a message only counts for that
+ * account when the mirror node reports the same account as its payer.
+ */
+export function isPaidBySender(message: TallyInputMessage, from: string): boolean {
+  return message.payerAccountId === from;
+}
+
+function isProposal(payload: unknown): payload is FloraProposalMessage {
+  const candidate = payload as Partial<FloraProposalMessage> | null;
+  return (
+    candidate?.type === "flora_proposal" &&
+    typeof candidate.proposalId === "string" &&
+    typeof candidate.from === "string"
+  );
+}
+
+function isVote(payload: unknown): payload is FloraVoteMessage {
+  const candidate = payload as Partial<FloraVoteMessage> | null;
+  return (
+    candidate?.type === "flora_vote" &&
+    typeof candidate.proposalId === "string" &&
+    typeof candidate.from === "string" &&
+    (candidate.vote === "yes" || candidate.vote === "no")
+  );
+}
+
+function isJoinRequest(payload: unknown): payload is FloraJoinRequestMessage {
+  const candidate = payload as Partial<FloraJoinRequestMessage> | null;
+  return (
+    candidate?.type === "flora_join_request" &&
+    typeof candidate.requestId === "string" &&
+    typeof candidate.from === "string" &&
+    typeof candidate.candidateAccountId === "string"
+  );
+}
+
+function isJoinVote(payload: unknown): payload is FloraJoinVoteMessage {
+  const candidate = payload as Partial<FloraJoinVoteMessage> | null;
+  return (
+    candidate?.type === "flora_join_vote" &&
+    typeof candidate.requestId === "string" &&
+    typeof candidate.from === "string" &&
+    (candidate.vote === "yes" || candidate.vote === "no")
+  );
+}
+
+export function isFloraJoinAccepted(payload: unknown): payload is FloraJoinAcceptedMessage {
+  const candidate = payload as Partial<FloraJoinAcceptedMessage> | null;
+  return (
+    candidate?.type === "flora_join_accepted" &&
+    typeof candidate.requestId === "string" &&
+    typeof candidate.from === "string" &&
+    typeof candidate.candidateAccountId === "string" &&
+    Array.isArray(candidate.members) &&
+    typeof candidate.threshold === "number" &&
+    Array.isArray(candidate.scheduleIds)
+  );
+}
+
+export function isFloraMemberRemoved(payload: unknown): payload is FloraMemberRemovedMessage {
+  const candidate = payload as Partial<FloraMemberRemovedMessage> | null;
+  return (
+    candidate?.type === "flora_member_removed" &&
+    typeof candidate.proposalId === "string" &&
+    typeof candidate.from === "string" &&
+    typeof candidate.accountId === "string" &&
+    Array.isArray(candidate.members) &&
+    typeof candidate.threshold === "number" &&
+    Array.isArray(candidate.scheduleIds)
+  );
+}
+
+export function isFloraDissolved(payload: unknown): payload is FloraDissolvedMessage {
+  const candidate = payload as Partial<FloraDissolvedMessage> | null;
+  return (
+    candidate?.type === "flora_dissolved" &&
+    typeof candidate.proposalId === "string" &&
+    typeof candidate.from === "string" &&
+    typeof candidate.beneficiaryAccountId === "string" &&
+    Array.isArray(candidate.scheduleIds)
+  );
+}
+
+function resolveDeadline(deadline?: string): number | null {
+  if (!deadline) {
+    return null;
+  }
+  const parsed = Date.parse(deadline);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+function resolveStatus(
+  yes: number,
+  no: number,
+  threshold: number,
+  memberCount: number,
+  deadline: number | null,
+  now: number,
+): ProposalStatus {
+  if (yes >= threshold) {
+    return "passed";
+  }
+  if (memberCount - no < threshold) {
+    return "rejected";
+  }
+  if (deadline !== null && deadline <= now) {
+    return "expired";
+  }
+  return "open";
+}
+
+function resolveTallyThreshold(options: TallyOptions, memberCount: number): number {
+  return Math.min(
+    Math.max(options.threshold ?? defaultFloraThreshold(memberCount), 1),
+    Math.max(memberCount, 1),
+  );
+}
+
+function sortByConsensus(messages: TallyInputMessage[]): TallyInputMessage[] {
+  return [...messages].sort(
+    (a, b) => consensusToMs(a.consensusTimestamp) - consensusToMs(b.consensusTimestamp),
+  );
+}
+
+function tallyBallots<T>(
+  messages: TallyInputMessage[],
+  options: TallyOptions,
+  readBallot: (payload: unknown) => Ballot<T> | null,
+  readVote: (payload: unknown) => BallotVote | null,
+): { ballots: BallotTally<T>[]; rejectedVotes: RejectedVote[] } {
+  const members = new Set(options.members);
+  const memberCount = members.size;
+  const threshold = resolveTallyThreshold(options, memberCount);
+  const now = options.now ?? Date.now();
+
+  const ballots = new Map<string, Ballot<T>>();
+  const votesByBallot = new Map<string, Map<string, TallyVote>>();
+  const rejectedVotes: RejectedVote[] = [];
+
+  for (const message of sortByConsensus(messages)) {
+    const ballot = readBallot(message.payload);
+    if (ballot) {
+      if (isPaidBySender(message, ballot.from) && !ballots.has(ballot.id)) {
+        ballots.set(ballot.id, ballot);
+      }
+      continue;
+    }
+    const vote = readVote(message.payload);
+    if (!vote) {
+      continue;
+    }
+
+    if (!isPaidBySender(message, vote.from)) {
+      rejectedVotes.push({
+        accountId: message.payerAccountId ?? vote.from,
+        proposalId: vote.ballotId,
+        reason: "payer_mismatch",
+      });
+      continue;
+    }
+    const target = ballots.get(vote.ballotId);
+    if (!target) {
+      rejectedVotes.push({
+        accountId: vote.from,
+        proposalId: vote.ballotId,
+        reason: "unknown_proposal",
+      });
+      continue;
+    }
+    if (!members.has(vote.from)) {
+      rejectedVotes.push({
+        accountId: vote.from,
+        proposalId: vote.ballotId,
+        reason: "not_member",
+      });
+      continue;
+    }
+    if (target.deadline !== null && consensusToMs(message.consensusTimestamp) > target.deadline) {
+      rejectedVotes.push({
+        accountId: vote.from,
+        proposalId: vote.ballotId,
+        reason: "after_deadline",
+      });
+      continue;
+    }
+
+    const votes = votesByBallot.get(vote.ballotId) ?? new Map<string, TallyVote>();
+    votes.set(vote.from, {
+      accountId: vote.from,
+      vote: vote.vote,
+      consensusTimestamp: message.consensusTimestamp,
+    });
+    votesByBallot.set(vote.ballotId, votes);
+  }
+
+  const tallies = Array.from(ballots.values()).map<BallotTally<T>>((ballot) => {
+    const votes = Array.from(votesByBallot.get(ballot.id)?.values() ?? []);
+    const yes = votes.filter((vote) => vote.vote === "yes").length;
+    const no = votes.length - yes;
+    return {
+      ballot,
+      status: resolveStatus(yes, no, threshold, memberCount, ballot.deadline, now),
+      votes,
+      yes,
+      no,
+    };
+  });
+
+  return { ballots: tallies, rejectedVotes };
+}
+
+/**
+ * Folds transaction topic messages into per-proposal vote state. Only the latest
+ * vote per member counts, and votes from non-members, after the deadline or
+ * paid by another account are reported in `rejectedVotes` instead of being
+ * tallied. Proposals paid by another account are ignored.
+ */
+export function tallyFloraProposals(
+  messages: TallyInputMessage[],
+  options: TallyOptions,
+): FloraTally {
+  const memberCount = new Set(options.members).size;
+  const threshold = resolveTallyThreshold(options, memberCount);
+  const { ballots, rejectedVotes } = tallyBallots(
+    messages,
+    options,
+    (payload) =>
+      isProposal(payload)
+        ? {
+            id: payload.proposalId,
+            from: payload.from,
+            item: payload,
+            deadline: resolveDeadline(payload.deadline),
+          }
+        : null,
+    (payload) =>
+      isVote(payload) ? { ballotId: payload.proposalId, from: payload.from, vote: payload.vote } : null,
+  );
+
+  return {
+    proposals: ballots.map<ProposalTally>(({ ballot, status, votes, yes, no }) => ({
+      proposalId: ballot.id,
+      proposal: ballot.item,
+      status,
+      threshold,
+      memberCount,
+      deadline: ballot.deadline,
+      votes,
+      yes,
+      no,
+      quorumReached: yes >= threshold,
+    })),
+    rejectedVotes,
+  };
+}
+
+/**
+ * Tallies HCS-16 join requests and votes from the communication topic. Pass the
+ * state topic messages as well so requests already finalized by a
+ * `flora_join_accepted` event are flagged as accepted.
+ */
+export function tallyFloraJoinRequests(
+  messages: TallyInputMessage[],
+  options: TallyOptions,
+): FloraJoinTally {
+  const memberCount = new Set(options.members).size;
+  const threshold = resolveTallyThreshold(options, memberCount);
+  const acceptedRequests = new Set(
+    messages
+      .filter(
+        (message) =>
+          isFloraJoinAccepted(message.payload) && isPaidBySender(message, message.payload.from),
+      )
+      .map((message) => (message.payload as FloraJoinAcceptedMessage).requestId),
+  );
+  const { ballots, rejectedVotes } = tallyBallots(
+    messages,
+    options,
+    (payload) =>
+      isJoinRequest(payload)
+        ? {
+            id: payload.requestId,
+            from: payload.from,
+            item: payload,
+            deadline: resolveDeadline(payload.deadline),
+          }
+        : null,
+    (payload) =>
+      isJoinVote(payload) ? { ballotId: payload.requestId, from: payload.from, vote: payload.vote } : null,
+  );
+
+  return {
+    requests: ballots.map<JoinRequestTally>(({ ballot, status, votes, yes, no }) => ({
+      requestId: ballot.id,
+      request: ballot.item,
+      status,
+      threshold,
+      memberCount,
+      deadline: ballot.deadline,
+      votes,
+      yes,
+      no,
+      quorumReached: yes >= threshold,
+      accepted: acceptedRequests.has(ballot.id),
+    })),
+    rejectedVotes,
+  };
+}
+
+function isMembershipChange(
+  payload: unknown,
+): payload is FloraJoinAcceptedMessage | FloraMemberRemovedMessage | FloraDissolvedMessage {
+  return isFloraJoinAccepted(payload) || isFloraMemberRemoved(payload) || isFloraDissolved(payload);
+}
+
+function passedMembershipAction(
+  history: TallyInputMessage[],
+  options: TallyOptions,
+  proposalId: string,
+): FloraMembershipAction | null {
+  const tally = tallyFloraProposals(history, options).proposals.find(
+    (item) => item.proposalId === proposalId,
+  );
+  return tally?.status === "passed" ? tally.proposal.membership ?? null : null;
+}
+
+/** Schedule IDs cited by membership changes, for checking their execution. */
+export function collectMembershipScheduleIds(messages: TallyInputMessage[]): string[] {
+  const scheduleIds = messages.flatMap((message) =>
+    isMembershipChange(message.payload) ? message.payload.scheduleIds : [],
+  );
+  return Array.from(new Set(scheduleIds.filter((id): id is string => typeof id === "string")));
+}
+
+function hasExecuted(scheduleIds: string[], options: MembershipOptions): boolean {
+  return scheduleIds.length > 0 && scheduleIds.every((id) => options.executedScheduleIds.has(id));
+}
+
+function sameMembers(left: string[], right: string[]): boolean {
+  const expected = new Set(right);
+  const actual = new Set(left);
+  return actual.size === expected.size && Array.from(actual).every((id) => expected.has(id));
+}
+
+/**
+ * Replays membership changes and dissolution starting at the given member set.
+ * Pass the communication, transaction and state topic messages together. A
+ * change only counts when it was paid by a member, the join request or
+ * membership proposal it cites passed under the roster and threshold in force
+ * at that point, and every schedule it cites has executed on the network.
+ * Until then a change is only a proposal and the roster stays as it was.
+ */
+export function resolveFloraMembership(
+  messages: TallyInputMessage[],
+  initial: { members: string[]; threshold: number },
+  options: MembershipOptions,
+): FloraMembership | null {
+  let members = new Set(initial.members);
+  let threshold = initial.threshold;
+  let latest: FloraMembership | null = null;
+  const history: TallyInputMessage[] = [];
+  const cutoff = options.asOf ? consensusToMs(options.asOf) : Number.POSITIVE_INFINITY;
+  for (const message of sortByConsensus(messages)) {
+    if (consensusToMs(message.consensusTimestamp) > cutoff) {
+      break;
+    }
+    history.push(message);
+    const payload = message.payload;
+    if (
+      !isMembershipChange(payload) ||
+      !isPaidBySender(message, payload.from) ||
+      !members.has(payload.from) ||
+      !hasExecuted(payload.scheduleIds, options)
+    ) {
+      continue;
+    }
+    const tallyOptions: TallyOptions = {
+      members: Array.from(members),
+      threshold,
+      now: consensusToMs(message.consensusTimestamp),
+    };
+
+    if (isFloraDissolved(payload)) {
+      const action = passedMembershipAction(history, tallyOptions, payload.proposalId);
+      if (
+        action?.kind !== "dissolve" ||
+        action.beneficiaryAccountId !== payload.beneficiaryAccountId
+      ) {
+        continue;
+      }
+      return {
+        members: Array.from(members),
+        threshold,
+        consensusTimestamp: message.consensusTimestamp,
+        dissolved: true,
+      };
+    }
+
+    let expected: string[] | null = null;
+    if (isFloraJoinAccepted(payload)) {
+      const request = tallyFloraJoinRequests(history, tallyOptions).requests.find(
+        (item) => item.requestId === payload.requestId,
+      );
+      if (
+        request?.status === "passed" &&
+        request.request.candidateAccountId === payload.candidateAccountId
+      ) {
+        expected = Array.from(new Set([...members, payload.candidateAccountId]));
+      }
+    } else {
+      const action = passedMembershipAction(history, tallyOptions, payload.proposalId);
+      if (action?.kind === "remove_member" && action.accountId === payload.accountId) {
+        expected = Array.from(members).filter((memberId) => memberId !== payload.accountId);
+      }
+    }
+    if (
+      !expected ||
+      expected.length === 0 ||
+      !sameMembers(payload.members, expected) ||
+      payload.threshold !== scaleFloraThreshold(threshold, members.size, expected.length)
+    ) {
+      continue;
+    }
+    members = new Set(payload.members);
+    threshold = payload.threshold;
+    latest = {
+      members: payload.members,
+      threshold: payload.threshold,
+      consensusTimestamp: message.consensusTimestamp,
+      dissolved: false,
+    };
+  }
+  return latest;
+}
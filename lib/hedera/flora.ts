@@ -1,10 +1,27 @@
 import { Buffer } from "buffer";
+import {
+  AccountId,
+  KeyList,
+  TransactionId,
+  type PublicKey,
+  type ScheduleCreateTransaction,
+} from "@hashgraph/sdk";
 import type { DAppSigner } from "@/lib/hedera/wallet-types";
 import {
+  buildHcs16CreateAccountTx,
   buildHcs16CreateTransactionTopicTx,
+  buildHcs16ScheduleAccountKeyUpdateTx,
+  buildHcs16ScheduleTopicKeyUpdateTx,
   buildHcs20SubmitMessageTx,
 } from "@hashgraphonline/standards-sdk";
 import { getHederaClient } from "@/lib/hedera/client";
+import { publicKeyFromMirrorKey } from "@/lib/hedera/keys";
+import { lookupAccount } from "@/lib/hedera/mirror";
+import {
+  createScheduledTransaction,
+  describeScheduledAction,
+  type ScheduledAction,
+} from "@/lib/hedera/schedules";
 import { sendDirectMessage, type DirectMessagePayload } from "@/lib/hedera/messaging";
 
 export type FloraTopics = {
@@ -13,13 +30,64 @@ export type FloraTopics = {
   state: string;
 };
 
+export type FloraMember = {
+  accountId: string;
+  alias?: string;
+  inboundTopicId?: string;
+  status: "self" | "invited" | "accepted";
+};
+
+export type FloraRecord = {
+  id: string;
+  name: string;
+  topics: FloraTopics;
+  members: FloraMember[];
+  status: "pending" | "active" | "removed" | "dissolved";
+  createdAt: string;
+  initiatorAccountId: string;
+  accountId?: string;
+  threshold?: number;
+  purposeTags?: string[];
+};
+
+export type FloraTopicKeys = {
+  adminKey: KeyList;
+  submitKey: KeyList;
+};
+
+export type FloraAccount = {
+  accountId: string;
+  threshold: number;
+  keyList: KeyList;
+  submitKeyList: KeyList;
+};
+
+export type FloraKeyRotation = {
+  memberAccountIds: string[];
+  threshold: number;
+  scheduleIds: string[];
+};
+
+type CreateFloraAccountInput = {
+  memberAccountIds: string[];
+  threshold: number;
+  initialBalanceHbar?: number;
+  maxAutomaticTokenAssociations?: number;
+  network?: "mainnet" | "testnet";
+};
+
 export type FloraCreateRequestPayload = DirectMessagePayload & {
   type: "flora_create_request";
   flora: {
     name: string;
+    accountId?: string;
+    threshold?: number;
+    purposeTags?: string[];
     communicationTopicId: string;
     transactionTopicId: string;
     stateTopicId: string;
+    /** Schedules that move the topic admin keys to the threshold KeyList. */
+    topicKeyScheduleIds?: string[];
     initiator: {
       accountId: string;
       alias?: string;
@@ -31,6 +99,18 @@ export type FloraCreateRequestPayload = DirectMessagePayload & {
   };
 };
 
+export type FloraJoinRequestPayload = DirectMessagePayload & {
+  type: "flora_join_request";
+  floraId: string;
+  floraAccountId?: string;
+  requesterAlias?: string;
+};
+
+export type FloraJoinAcceptedPayload = DirectMessagePayload & {
+  type: "flora_join_accepted";
+  flora: FloraCreateRequestPayload["flora"];
+};
+
 export type FloraJoinAcceptPayload = DirectMessagePayload & {
   type: "flora_join_accept";
   floraId: string;
@@ -48,12 +128,20 @@ export type FloraChatMessage = {
   sentAt: string;
 };
 
+export type FloraMembershipAction =
+  | { kind: "remove_member"; accountId: string }
+  | { kind: "dissolve"; beneficiaryAccountId: string };
+
 export type FloraProposalMessage = {
   type: "flora_proposal";
   proposalId: string;
   from: string;
   text: string;
   sentAt: string;
+  deadline?: string;
+  scheduleId?: string;
+  action?: ScheduledAction;
+  membership?: FloraMembershipAction;
 };
 
 export type FloraStateMessage = {
@@ -62,6 +150,7 @@ export type FloraStateMessage = {
   summary: string;
   sentAt: string;
   stateHash?: string | null;
+  stateHashTopics?: string[];
 };
 
 export type FloraVoteMessage = {
@@ -72,6 +161,58 @@ export type FloraVoteMessage = {
   sentAt: string;
 };
 
+export type FloraJoinRequestMessage = {
+  type: "flora_join_request";
+  requestId: string;
+  from: string;
+  candidateAccountId: string;
+  candidateAlias?: string;
+  candidateInboundTopicId?: string;
+  sentAt: string;
+  deadline?: string;
+};
+
+export type FloraJoinVoteMessage = {
+  type: "flora_join_vote";
+  requestId: string;
+  from: string;
+  candidateAccountId: string;
+  vote: "yes" | "no";
+  sentAt: string;
+};
+
+export type FloraJoinAcceptedMessage = {
+  type: "flora_join_accepted";
+  requestId: string;
+  from: string;
+  candidateAccountId: string;
+  candidateAlias?: string;
+  members: string[];
+  threshold: number;
+  scheduleIds: string[];
+  sentAt: string;
+};
+
+export type FloraMemberRemovedMessage = {
+  type: "flora_member_removed";
+  proposalId: string;
+  from: string;
+  accountId: string;
+  members: string[];
+  threshold: number;
+  scheduleIds: string[];
+  sentAt: string;
+};
+
+export type FloraDissolvedMessage = {
+  type: "flora_dissolved";
+  proposalId: string;
+  from: string;
+  beneficiaryAccountId: string;
+  scheduleIds: string[];
+  sentAt: string;
+};
+
 function encodePayload(payload: unknown): string {
   return Buffer.from(JSON.stringify(payload), "utf-8").toString("base64");
 }
@@ -81,29 +222,236 @@ function floraTopicMemo(name: string, suffix: string): string {
   return memo.slice(0, 100);
 }
 
+/**
+ * Flora messages are paid by their `from` account, since readers attribute
+ * votes and membership changes to the mirror payer rather than the payload.
+ */
 async function submitFloraMessage(
   signer: DAppSigner,
   topicId: string,
-  payload: unknown,
+  payload: { from: string },
 ): Promise<void> {
   const client = getHederaClient();
   const tx = buildHcs20SubmitMessageTx({
     topicId,
     payload: encodePayload(payload),
-  }).freezeWith(client);
+  })
+    .setTransactionId(TransactionId.generate(AccountId.fromString(payload.from)))
+    .freezeWith(client);
   await signer.signTransaction(tx);
   const response = await tx.executeWithSigner(signer);
   await response.getReceiptWithSigner(signer);
 }
 
+export async function resolveFloraMemberKeys(
+  memberAccountIds: string[],
+  network?: "mainnet" | "testnet",
+): Promise<PublicKey[]> {
+  const keys: PublicKey[] = [];
+  for (const accountId of memberAccountIds) {
+    const account = await lookupAccount(accountId, network);
+    if (!account) {
+      throw new Error(`Flora member ${accountId} was not found on the mirror node`);
+    }
+    const publicKey = publicKeyFromMirrorKey(account.key);
+    if (!publicKey) {
+      throw new Error(`Unable to resolve a public key for flora member ${accountId}`);
+    }
+    keys.push(publicKey);
+  }
+  return keys;
+}
+
+export function buildFloraKeyList(keys: PublicKey[], threshold: number): KeyList {
+  if (keys.length < 2) {
+    throw new Error("A flora needs at least two members");
+  }
+  if (!Number.isInteger(threshold) || threshold < 1 || threshold > keys.length) {
+    throw new Error(`Threshold must be between 1 and ${keys.length}`);
+  }
+  const keyList = new KeyList();
+  keyList.push(...keys);
+  keyList.setThreshold(threshold);
+  return keyList;
+}
+
+export async function createFloraAccount(
+  signer: DAppSigner,
+  {
+    memberAccountIds,
+    threshold,
+    initialBalanceHbar = 1,
+    maxAutomaticTokenAssociations = -1,
+    network,
+  }: CreateFloraAccountInput,
+): Promise<FloraAccount> {
+  const uniqueMembers = Array.from(new Set(memberAccountIds));
+  const keys = await resolveFloraMemberKeys(uniqueMembers, network);
+  const keyList = buildFloraKeyList(keys, threshold);
+  const submitKeyList = buildFloraKeyList(keys, 1);
+
+  const tx = buildHcs16CreateAccountTx({
+    keyList,
+    initialBalanceHbar,
+    maxAutomaticTokenAssociations,
+  }).freezeWith(getHederaClient());
+  await signer.signTransaction(tx);
+  const response = await tx.executeWithSigner(signer);
+  const receipt = await response.getReceiptWithSigner(signer);
+  const accountId = receipt.accountId?.toString();
+  if (!accountId) {
+    throw new Error("Flora account creation did not return an accountId");
+  }
+
+  return {
+    accountId,
+    threshold,
+    keyList,
+    submitKeyList,
+  };
+}
+
+async function submitSchedule(
+  signer: DAppSigner,
+  transaction: ScheduleCreateTransaction,
+): Promise<string> {
+  const tx = transaction.freezeWith(getHederaClient());
+  await signer.signTransaction(tx);
+  const response = await tx.executeWithSigner(signer);
+  const receipt = await response.getReceiptWithSigner(signer);
+  const scheduleId = receipt.scheduleId?.toString();
+  if (!scheduleId) {
+    throw new Error("Schedule creation did not return a scheduleId");
+  }
+  return scheduleId;
+}
+
+async function scheduleTopicKeyUpdates(
+  signer: DAppSigner,
+  topics: FloraTopics,
+  { adminKey, submitKey }: FloraTopicKeys,
+  memo: string,
+): Promise<string[]> {
+  const scheduleIds: string[] = [];
+  for (const topicId of [topics.communication, topics.transaction, topics.state]) {
+    scheduleIds.push(
+      await submitSchedule(
+        signer,
+        buildHcs16ScheduleTopicKeyUpdateTx({ topicId, adminKey, submitKey, memo }),
+      ),
+    );
+  }
+  return scheduleIds;
+}
+
+/**
+ * A topic created with the T-of-M KeyList as admin key needs T signatures on
+ * the create transaction, which one wallet cannot provide. Floras therefore
+ * create their topics under the 1-of-M submit KeyList and schedule the move to
+ * the threshold KeyList; it executes once enough members sign.
+ */
+export async function scheduleFloraTopicKeys(
+  signer: DAppSigner,
+  topics: FloraTopics,
+  keys: FloraTopicKeys,
+  name: string,
+): Promise<string[]> {
+  return scheduleTopicKeyUpdates(signer, topics, keys, `Flora ${name}: lock topic keys`.slice(0, 100));
+}
+
+/**
+ * Schedules the HCS-16 membership change: the flora account KeyList and the
+ * admin/submit keys of all three topics are rotated to the new member set once
+ * enough current members sign the schedules.
+ */
+export async function scheduleFloraKeyRotation(
+  signer: DAppSigner,
+  params: {
+    floraAccountId: string;
+    topics: FloraTopics;
+    memberAccountIds: string[];
+    threshold: number;
+    memo: string;
+    network?: "mainnet" | "testnet";
+  },
+): Promise<FloraKeyRotation> {
+  const memberAccountIds = Array.from(new Set(params.memberAccountIds));
+  const keys = await resolveFloraMemberKeys(memberAccountIds, params.network);
+  const keyList = buildFloraKeyList(keys, params.threshold);
+  const submitKeyList = buildFloraKeyList(keys, 1);
+  const memo = params.memo.slice(0, 100);
+
+  const scheduleIds = [
+    await submitSchedule(
+      signer,
+      buildHcs16ScheduleAccountKeyUpdateTx({
+        floraAccountId: params.floraAccountId,
+        newKeyList: keyList,
+        memo,
+      }),
+    ),
+    ...(await scheduleTopicKeyUpdates(
+      signer,
+      params.topics,
+      { adminKey: keyList, submitKey: submitKeyList },
+      memo,
+    )),
+  ];
+
+  return { memberAccountIds, threshold: params.threshold, scheduleIds };
+}
+
+/**
+ * Schedules HCS-16 dissolution: the flora account is deleted with its balance
+ * sent to the beneficiary, and every topic's admin and submit keys move to
+ * the flora's threshold KeyList so no single member can keep posting.
+ */
+export async function scheduleFloraDissolution(
+  signer: DAppSigner,
+  params: {
+    floraAccountId: string;
+    topics: FloraTopics;
+    memberAccountIds: string[];
+    threshold: number;
+    beneficiaryAccountId: string;
+    memo: string;
+    network?: "mainnet" | "testnet";
+  },
+): Promise<string[]> {
+  const keys = await resolveFloraMemberKeys(
+    Array.from(new Set(params.memberAccountIds)),
+    params.network,
+  );
+  const keyList = buildFloraKeyList(keys, params.threshold);
+  const memo = params.memo.slice(0, 100);
+
+  const scheduleIds = await scheduleTopicKeyUpdates(
+    signer,
+    params.topics,
+    { adminKey: keyList, submitKey: keyList },
+    memo,
+  );
+  scheduleIds.push(
+    await createScheduledTransaction(signer, {
+      accountId: params.floraAccountId,
+      action: { kind: "account_delete", transferAccountId: params.beneficiaryAccountId },
+      memo,
+    }),
+  );
+  return scheduleIds;
+}
+
 export async function createFloraTopics(
   signer: DAppSigner,
   name: string,
+  keys?: FloraTopicKeys,
 ): Promise<FloraTopics> {
   const client = getHederaClient();
 
   const communicationTx = await buildHcs16CreateTransactionTopicTx({
     memo: floraTopicMemo(name, "Comm"),
+    adminKey: keys?.adminKey,
+    submitKey: keys?.submitKey,
   }).freezeWith(client);
   await signer.signTransaction(communicationTx);
   const communicationResponse = await communicationTx.executeWithSigner(signer);
@@ -115,6 +463,8 @@ export async function createFloraTopics(
 
   const transactionTx = await buildHcs16CreateTransactionTopicTx({
     memo: floraTopicMemo(name, "Tx"),
+    adminKey: keys?.adminKey,
+    submitKey: keys?.submitKey,
   }).freezeWith(client);
   await signer.signTransaction(transactionTx);
   const transactionResponse = await transactionTx.executeWithSigner(signer);
@@ -126,6 +476,8 @@ export async function createFloraTopics(
 
   const stateTx = await buildHcs16CreateTransactionTopicTx({
     memo: floraTopicMemo(name, "State"),
+    adminKey: keys?.adminKey,
+    submitKey: keys?.submitKey,
   }).freezeWith(client);
   await signer.signTransaction(stateTx);
   const stateResponse = await stateTx.executeWithSigner(signer);
@@ -158,6 +510,62 @@ export async function announceFloraOnCommunicationTopic(
   await submitFloraMessage(signer, communicationTopicId, payload);
 }
 
+export async function sendFloraJoinRequest(
+  signer: DAppSigner,
+  memberInboundTopicId: string,
+  payload: FloraJoinRequestPayload,
+): Promise<void> {
+  await sendDirectMessage(signer, memberInboundTopicId, payload);
+}
+
+export async function sendFloraJoinAcceptedInvite(
+  signer: DAppSigner,
+  candidateInboundTopicId: string,
+  payload: FloraJoinAcceptedPayload,
+): Promise<void> {
+  await sendDirectMessage(signer, candidateInboundTopicId, payload);
+}
+
+export async function postFloraJoinRequest(
+  signer: DAppSigner,
+  communicationTopicId: string,
+  payload: FloraJoinRequestMessage,
+): Promise<void> {
+  await submitFloraMessage(signer, communicationTopicId, payload);
+}
+
+export async function sendFloraJoinVote(
+  signer: DAppSigner,
+  communicationTopicId: string,
+  payload: FloraJoinVoteMessage,
+): Promise<void> {
+  await submitFloraMessage(signer, communicationTopicId, payload);
+}
+
+export async function sendFloraJoinAccepted(
+  signer: DAppSigner,
+  stateTopicId: string,
+  payload: FloraJoinAcceptedMessage,
+): Promise<void> {
+  await submitFloraMessage(signer, stateTopicId, payload);
+}
+
+export async function sendFloraMemberRemoved(
+  signer: DAppSigner,
+  stateTopicId: string,
+  payload: FloraMemberRemovedMessage,
+): Promise<void> {
+  await submitFloraMessage(signer, stateTopicId, payload);
+}
+
+export async function sendFloraDissolved(
+  signer: DAppSigner,
+  stateTopicId: string,
+  payload: FloraDissolvedMessage,
+): Promise<void> {
+  await submitFloraMessage(signer, stateTopicId, payload);
+}
+
 export async function sendFloraJoinAccept(
   signer: DAppSigner,
   communicationTopicId: string,
@@ -190,6 +598,37 @@ export async function sendFloraProposal(
   await submitFloraMessage(signer, transactionTopicId, payload);
 }
 
+export async function proposeFloraScheduledTransaction(
+  signer: DAppSigner,
+  transactionTopicId: string,
+  params: {
+    floraAccountId: string;
+    from: string;
+    action: ScheduledAction;
+    text?: string;
+    deadline?: string;
+  },
+): Promise<FloraProposalMessage> {
+  const description = params.text?.trim() || describeScheduledAction(params.action);
+  const scheduleId = await createScheduledTransaction(signer, {
+    accountId: params.floraAccountId,
+    action: params.action,
+    memo: description,
+  });
+  const payload: FloraProposalMessage = {
+    type: "flora_proposal",
+    proposalId: scheduleId,
+    from: params.from,
+    text: description,
+    sentAt: new Date().toISOString(),
+    deadline: params.deadline,
+    scheduleId,
+    action: params.action,
+  };
+  await submitFloraMessage(signer, transactionTopicId, payload);
+  return payload;
+}
+
 export async function sendFloraStateUpdate(
   signer: DAppSigner,
   stateTopicId: string,
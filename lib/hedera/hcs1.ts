@@ -0,0 +1,181 @@
+import { Buffer } from "buffer";
+import { HRLResolver, inscribeWithSigner } from "@hashgraphonline/standards-sdk";
+import { env } from "@/config/env";
+import { requireWalletConnectSigner, type DAppSigner } from "@/lib/hedera/wallet-types";
+
+type Network = "mainnet" | "testnet";
+
+export type Hcs1Content =
+  | { kind: "text"; reference: string; topicId: string; mimeType: string; text: string }
+  | {
+      kind: "json";
+      reference: string;
+      topicId: string;
+      mimeType: string;
+      json: unknown;
+      text: string;
+    }
+  | { kind: "image"; reference: string; topicId: string; mimeType: string; src: string }
+  | { kind: "binary"; reference: string; topicId: string; mimeType: string; size: number };
+
+export type Hcs1InscriptionInput = {
+  content: string | ArrayBuffer;
+  fileName: string;
+  mimeType: string;
+};
+
+const HCS1_REFERENCE_PATTERN = /^hcs:\/\/1\/(\d+\.\d+\.\d+)$/u;
+
+const resolvedContent = new Map<string, Promise<Hcs1Content>>();
+
+function resolveNetwork(network?: Network): Network {
+  if (network) {
+    return network;
+  }
+  return env.HEDERA_NETWORK === "mainnet" ? "mainnet" : "testnet";
+}
+
+export function parseHcs1Reference(value: string | null | undefined): string | null {
+  const match = value?.trim().match(HCS1_REFERENCE_PATTERN);
+  return match ? match[1] : null;
+}
+
+/**
+ * Inscribes a payload as an HCS-1 file and returns its `hcs://1/<topicId>`
+ * reference once the inscription is confirmed.
+ */
+export async function inscribeHcs1Payload(
+  signer: DAppSigner,
+  input: Hcs1InscriptionInput,
+  options: {
+    network?: Network;
+    onProgress?: (update: { message: string; progressPercent?: number }) => void;
+  } = {},
+): Promise<string> {
+  const walletSigner = requireWalletConnectSigner(
+    signer,
+    "Connect a wallet before inscribing large messages.",
+  );
+  const buffer =
+    typeof input.content === "string" ? Buffer.from(input.content, "utf-8") : input.content;
+
+  const result = await inscribeWithSigner(
+    {
+      type: "buffer",
+      buffer,
+      fileName: input.fileName,
+      mimeType: input.mimeType,
+    },
+    walletSigner,
+    {
+      network: resolveNetwork(options.network),
+      mode: "file",
+      fileStandard: "1",
+      waitForConfirmation: true,
+      progressCallback: (progress) => {
+        if (options.onProgress && typeof progress?.message === "string") {
+          options.onProgress({
+            message: progress.message,
+            progressPercent:
+              typeof progress.progressPercent === "number" ? progress.progressPercent : undefined,
+          });
+        }
+      },
+      logging: { level: "warn" },
+    },
+  );
+
+  const topicId =
+    typeof result.inscription?.topic_id === "string"
+      ? result.inscription.topic_id
+      : typeof (result.result as { topic_id?: unknown })?.topic_id === "string"
+        ? (result.result as { topic_id: string }).topic_id
+        : null;
+
+  if (!result.confirmed || !topicId) {
+    throw new Error("Inscription did not return a topic ID.");
+  }
+  return `hcs://1/${topicId}`;
+}
+
+function toHcs1Content(
+  reference: string,
+  topicId: string,
+  mimeType: string,
+  content: string | ArrayBuffer,
+): Hcs1Content {
+  const normalizedType = mimeType.split(";")[0].trim().toLowerCase() || "application/octet-stream";
+
+  if (normalizedType.startsWith("image/")) {
+    const base64 =
+      typeof content === "string"
+        ? Buffer.from(content, "utf-8").toString("base64")
+        : Buffer.from(content).toString("base64");
+    return {
+      kind: "image",
+      reference,
+      topicId,
+      mimeType: normalizedType,
+      src: `data:${normalizedType};base64,${base64}`,
+    };
+  }
+
+  const isText =
+    typeof content === "string" ||
+    normalizedType.startsWith("text/") ||
+    normalizedType === "application/json";
+  if (!isText) {
+    return {
+      kind: "binary",
+      reference,
+      topicId,
+      mimeType: normalizedType,
+      size: content.byteLength,
+    };
+  }
+
+  const text = typeof content === "string" ? content : new TextDecoder().decode(content);
+  if (normalizedType === "application/json" || /^\s*[[{]/u.test(text)) {
+    try {
+      const json = JSON.parse(text) as unknown;
+      return { kind: "json", reference, topicId, mimeType: normalizedType, json, text };
+    } catch {
+      // not JSON after all; render as text
+    }
+  }
+  return { kind: "text", reference, topicId, mimeType: normalizedType, text };
+}
+
+/**
+ * Resolves an `hcs://1/` reference through the HRL resolver. HCS-1 files are
+ * immutable, so results are memoised per reference for the session.
+ */
+export function resolveHcs1Content(
+  reference: string,
+  options: { network?: Network } = {},
+): Promise<Hcs1Content> {
+  const topicId = parseHcs1Reference(reference);
+  if (!topicId) {
+    return Promise.reject(new Error(`Not an HCS-1 reference: ${reference}`));
+  }
+  const cached = resolvedContent.get(reference);
+  if (cached) {
+    return cached;
+  }
+
+  const pending = new HRLResolver("warn")
+    .resolve(reference, { network: resolveNetwork(options.network), returnRaw: true })
+    .then((result) =>
+      toHcs1Content(
+        reference,
+        result.topicId || topicId,
+        result.contentType || "text/plain",
+        result.content,
+      ),
+    );
+  resolvedContent.set(reference, pending);
+  pending.catch(() => {
+    resolvedContent.delete(reference);
+  });
+  return pending;
+}
@@ -0,0 +1,198 @@
+import { lookupAccount, type MirrorAccount } from "@/lib/hedera/mirror";
+import { fetchLatestProfileForAccount } from "@/lib/hedera/registry";
+import type { InboxEvent } from "@/lib/hedera/messaging";
+
+export type InboxPolicy = {
+  blockedAccountIds: string[];
+  /** Always shown, regardless of the other rules. */
+  allowedAccountIds: string[];
+  knownContactsOnly: boolean;
+  requireRegistryProfile: boolean;
+  minAccountAgeDays: number | null;
+  minBalanceHbar: number | null;
+  hideRequestsWithoutMemo: boolean;
+};
+
+export type InboxPolicyVerdict = { allowed: true } | { allowed: false; reason: string };
+
+export type BlockedInboxEvent = {
+  event: InboxEvent;
+  reason: string;
+};
+
+export type InboxPolicyContext = {
+  localAccountId?: string | null;
+  /** Accounts we already have a connection or request with. */
+  knownAccountIds?: Iterable<string>;
+};
+
+export const DEFAULT_INBOX_POLICY: InboxPolicy = {
+  blockedAccountIds: [],
+  allowedAccountIds: [],
+  knownContactsOnly: false,
+  requireRegistryProfile: false,
+  minAccountAgeDays: null,
+  minBalanceHbar: null,
+  hideRequestsWithoutMemo: false,
+};
+
+const TINYBARS_PER_HBAR = 100_000_000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const accountCache = new Map<string, Promise<MirrorAccount | null>>();
+const profileCache = new Map<string, Promise<boolean>>();
+
+function cachedAccount(accountId: string): Promise<MirrorAccount | null> {
+  let cached = accountCache.get(accountId);
+  if (!cached) {
+    cached = lookupAccount(accountId).catch((error) => {
+      void error;
+      accountCache.delete(accountId);
+      return null;
+    });
+    accountCache.set(accountId, cached);
+  }
+  return cached;
+}
+
+function cachedHasProfile(accountId: string): Promise<boolean> {
+  let cached = profileCache.get(accountId);
+  if (!cached) {
+    cached = fetchLatestProfileForAccount(accountId)
+      .then((profile) => Boolean(profile))
+      .catch((error) => {
+        void error;
+        profileCache.delete(accountId);
+        return false;
+      });
+    profileCache.set(accountId, cached);
+  }
+  return cached;
+}
+
+/** Merges a stored policy over the defaults so older saves pick up new rules. */
+export function normalizeInboxPolicy(policy?: Partial<InboxPolicy> | null): InboxPolicy {
+  return { ...DEFAULT_INBOX_POLICY, ...(policy ?? {}) };
+}
+
+export function inboxEventKey(event: InboxEvent): string {
+  return event.kind === "direct-message"
+    ? `direct-message:${event.message.consensusTimestamp}`
+    : `${event.kind}:${event.sequenceNumber}`;
+}
+
+/** The account that paid for the event; the declared `operator_id` is not trusted. */
+export function inboxEventSender(event: InboxEvent): string | null {
+  if (event.kind === "direct-message") {
+    return event.message.payerAccountId ?? event.message.from ?? null;
+  }
+  return event.payerAccountId ?? null;
+}
+
+function isForgedInboxEvent(event: InboxEvent): boolean {
+  if (event.kind === "direct-message") {
+    return event.message.verification === "forged";
+  }
+  return Boolean(event.operator && event.payerAccountId !== event.operator.accountId);
+}
+
+export function blockAccount(policy: InboxPolicy, accountId: string): InboxPolicy {
+  return {
+    ...policy,
+    blockedAccountIds: Array.from(new Set([...policy.blockedAccountIds, accountId])),
+    allowedAccountIds: policy.allowedAccountIds.filter((id) => id !== accountId),
+  };
+}
+
+export function allowAccount(policy: InboxPolicy, accountId: string): InboxPolicy {
+  return {
+    ...policy,
+    blockedAccountIds: policy.blockedAccountIds.filter((id) => id !== accountId),
+    allowedAccountIds: Array.from(new Set([...policy.allowedAccountIds, accountId])),
+  };
+}
+
+/**
+ * Evaluates one inbox event against the policy. Explicit blocks win, then the
+ * allowlist and known contacts bypass the remaining rules.
+ */
+export async function evaluateInboxEvent(
+  event: InboxEvent,
+  policy: InboxPolicy,
+  context: InboxPolicyContext = {},
+): Promise<InboxPolicyVerdict> {
+  const sender = inboxEventSender(event);
+  if (sender && policy.blockedAccountIds.includes(sender)) {
+    return { allowed: false, reason: "Blocked account" };
+  }
+  if (isForgedInboxEvent(event)) {
+    return { allowed: false, reason: "Forged sender" };
+  }
+  if (
+    sender &&
+    (sender === context.localAccountId ||
+      policy.allowedAccountIds.includes(sender) ||
+      new Set(context.knownAccountIds ?? []).has(sender))
+  ) {
+    return { allowed: true };
+  }
+  if (policy.knownContactsOnly) {
+    return { allowed: false, reason: "Not a known contact" };
+  }
+  if (
+    policy.hideRequestsWithoutMemo &&
+    event.kind === "connection-request" &&
+    !(event.note ?? event.memo)?.trim()
+  ) {
+    return { allowed: false, reason: "Request without a note" };
+  }
+
+  const needsAccount = policy.minAccountAgeDays !== null || policy.minBalanceHbar !== null;
+  if (!sender && (needsAccount || policy.requireRegistryProfile)) {
+    return { allowed: false, reason: "Unknown sender" };
+  }
+  if (sender && policy.requireRegistryProfile && !(await cachedHasProfile(sender))) {
+    return { allowed: false, reason: "No registry profile" };
+  }
+  if (sender && needsAccount) {
+    const account = await cachedAccount(sender);
+    if (!account) {
+      return { allowed: false, reason: "Sender account not found" };
+    }
+    if (policy.minAccountAgeDays !== null) {
+      const createdMs = Number(account.created_timestamp ?? NaN) * 1000;
+      if (!Number.isFinite(createdMs) || Date.now() - createdMs < policy.minAccountAgeDays * DAY_MS) {
+        return { allowed: false, reason: `Account younger than ${policy.minAccountAgeDays} days` };
+      }
+    }
+    if (policy.minBalanceHbar !== null) {
+      const balance = (account.balance?.balance ?? 0) / TINYBARS_PER_HBAR;
+      if (balance < policy.minBalanceHbar) {
+        return { allowed: false, reason: `Balance below ${policy.minBalanceHbar} HBAR` };
+      }
+    }
+  }
+  return { allowed: true };
+}
+
+export async function filterInboxEvents(
+  events: InboxEvent[],
+  policy: InboxPolicy,
+  context: InboxPolicyContext = {},
+): Promise<{ allowed: InboxEvent[]; blocked: BlockedInboxEvent[] }> {
+  const knownAccountIds = new Set(context.knownAccountIds ?? []);
+  const verdicts = await Promise.all(
+    events.map((event) => evaluateInboxEvent(event, policy, { ...context, knownAccountIds })),
+  );
+  const allowed: InboxEvent[] = [];
+  const blocked: BlockedInboxEvent[] = [];
+  verdicts.forEach((verdict, index) => {
+    const event = events[index]!;
+    if (verdict.allowed) {
+      allowed.push(event);
+    } else {
+      blocked.push({ event, reason: verdict.reason });
+    }
+  });
+  return { allowed, blocked };
+}
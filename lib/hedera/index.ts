@@ -2,7 +2,21 @@ export * from "./client";
 export * from "./wallet";
 export * from "./mirror";
 export * from "./messaging";
+export * from "./message-signing";
+export * from "./connection-crypto";
+export * from "./topic-fees";
+export * from "./inbox-policy";
+export * from "./auto-accept";
+export * from "./read-state";
 export * from "./petals";
 export * from "./profile";
 export * from "./registry";
 export * from "./flora";
+export * from "./flora-registry";
+export * from "./flora-reconciler";
+export * from "./schedules";
+export * from "./flora-tally";
+export * from "./state-hash";
+export * from "./hcs1";
+export * from "./tokens";
+export * from "./petal-manifest";
@@ -0,0 +1,115 @@
+import { Buffer } from "buffer";
+import { PublicKey } from "@hashgraph/sdk";
+import type { DAppSigner } from "@/lib/hedera/wallet-types";
+import { publicKeyFromMirrorKey } from "@/lib/hedera/keys";
+import { lookupAccount } from "@/lib/hedera/mirror";
+
+export type MessageSignature = {
+  publicKey: string;
+  signature: string;
+};
+
+export type MessageVerification = "verified" | "unverified" | "forged";
+
+const senderKeyCache = new Map<string, Promise<PublicKey | null>>();
+
+function canonicalValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map((entry) => canonicalValue(entry));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value as Record<string, unknown>)
+        .sort()
+        .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+        .map((key) => [key, canonicalValue((value as Record<string, unknown>)[key])]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Serialises a message payload with sorted keys and without its `signature`
+ * field, so sender and recipient sign and verify the same bytes.
+ */
+export function canonicalizeMessagePayload(payload: Record<string, unknown>): string {
+  const rest = { ...payload };
+  delete rest.signature;
+  return JSON.stringify(canonicalValue(rest));
+}
+
+// Wallets sign hedera_signMessage requests over this prefixed form.
+function prefixMessageToSign(message: string): string {
+  return `\x19Hedera Signed Message:\n${message.length}${message}`;
+}
+
+export async function signMessagePayload(
+  signer: DAppSigner,
+  payload: Record<string, unknown>,
+): Promise<MessageSignature> {
+  const canonical = canonicalizeMessagePayload(payload);
+  const [result] = await signer.sign([Buffer.from(canonical, "utf-8")]);
+  if (!result) {
+    throw new Error("Wallet did not return a message signature");
+  }
+  return {
+    publicKey: result.publicKey.toStringDer(),
+    signature: Buffer.from(result.signature).toString("base64"),
+  };
+}
+
+export function verifyMessageSignature(
+  payload: Record<string, unknown>,
+  signature: MessageSignature,
+  publicKey: PublicKey,
+): boolean {
+  const canonical = canonicalizeMessagePayload(payload);
+  const signatureBytes = Buffer.from(signature.signature, "base64");
+  try {
+    return (
+      publicKey.verify(Buffer.from(prefixMessageToSign(canonical), "utf-8"), signatureBytes) ||
+      publicKey.verify(Buffer.from(canonical, "utf-8"), signatureBytes)
+    );
+  } catch (error) {
+    void error;
+    return false;
+  }
+}
+
+export function resolveSenderPublicKey(accountId: string): Promise<PublicKey | null> {
+  let cached = senderKeyCache.get(accountId);
+  if (!cached) {
+    cached = lookupAccount(accountId)
+      .then((account) => publicKeyFromMirrorKey(account?.key))
+      .catch((error) => {
+        void error;
+        senderKeyCache.delete(accountId);
+        return null;
+      });
+    senderKeyCache.set(accountId, cached);
+  }
+  return cached;
+}
+
+/**
+ * Classifies a message claiming to come from `from`. A payer other than the
+ * claimed sender, or a signature that fails against the sender's key, marks it
+ * forged; a missing signature or unresolvable key leaves it unverified.
+ */
+export function classifyMessageSender(params: {
+  from: string;
+  payload: Record<string, unknown>;
+  signature?: MessageSignature;
+  payerAccountId?: string;
+  senderKey: PublicKey | null;
+}): MessageVerification {
+  if (params.payerAccountId && params.payerAccountId !== params.from) {
+    return "forged";
+  }
+  if (!params.signature || !params.senderKey) {
+    return "unverified";
+  }
+  return verifyMessageSignature(params.payload, params.signature, params.senderKey)
+    ? "verified"
+    : "forged";
+}
@@ -14,7 +14,28 @@ import {
   buildHcs20SubmitMessageTx,
 } from "@hashgraphonline/standards-sdk";
 import { getHederaClient } from "@/lib/hedera/client";
+import { inscribeHcs1Payload, parseHcs1Reference } from "@/lib/hedera/hcs1";
 import {
+  appendHandshakeKey,
+  isSealedConnectionData,
+  parseHandshakeMemo,
+  sealConnectionData,
+} from "@/lib/hedera/connection-crypto";
+import {
+  classifyMessageSender,
+  resolveSenderPublicKey,
+  signMessagePayload,
+  type MessageSignature,
+  type MessageVerification,
+} from "@/lib/hedera/message-signing";
+import {
+  buildCustomFeeLimits,
+  fetchTopicFeeSchedule,
+  type TopicFeeSchedule,
+} from "@/lib/hedera/topic-fees";
+import {
+  fetchAllTopicMessages,
+  fetchTopicMessagePage,
   fetchTopicMessages,
   subscribeTopicWebsocket,
   type MirrorTopicMessage,
@@ -26,11 +47,14 @@ export type DirectMessagePayload = {
   to: string;
   content: string;
   sentAt: string;
+  signature?: MessageSignature;
 };
 
 export type DirectMessage = DirectMessagePayload & {
   consensusTimestamp: string;
   sequenceNumber: number;
+  payerAccountId?: string;
+  verification?: MessageVerification;
 };
 
 export type Hcs10Operator = {
@@ -43,11 +67,13 @@ export type ConnectionRequestEvent = {
   sequenceNumber: number;
   consensusTimestamp: string;
   operator: Hcs10Operator | null;
+  payerAccountId?: string;
   memo?: string;
   requestorOutboundTopicId?: string | null;
   requestorAlias?: string;
   requestorDisplayName?: string;
   note?: string;
+  encryptionPublicKey?: string;
   raw: Record<string, unknown>;
 };
 
@@ -56,6 +82,7 @@ export type ConnectionCreatedEvent = {
   sequenceNumber: number;
   consensusTimestamp: string;
   operator: Hcs10Operator | null;
+  payerAccountId?: string;
   connectionTopicId: string | null;
   connectedAccountId: string | null;
   connectionId: number | null;
@@ -63,6 +90,7 @@ export type ConnectionCreatedEvent = {
   requestorOutboundTopicId?: string | null;
   confirmedRequestId?: number | null;
   memo?: string;
+  encryptionPublicKey?: string;
   raw: Record<string, unknown>;
 };
 
@@ -72,14 +100,48 @@ export type InboxEvent =
   | ConnectionCreatedEvent;
 
 export type ConnectionTopicMessage = {
+  op: "message" | "close_connection" | "transaction";
   consensusTimestamp: string;
   sequenceNumber: number;
   operator: Hcs10Operator | null;
+  payerAccountId?: string;
   data?: string;
   memo?: string;
+  reference?: string;
+  encrypted?: boolean;
+  reason?: string;
+  scheduleId?: string;
+  transactionId?: string;
   raw: Record<string, unknown>;
 };
 
+export type ConnectionTransactionRequest = {
+  scheduleId: string;
+  description: string;
+  transactionId?: string;
+  memo?: string;
+};
+
+/** Largest message body a single HCS submit accepts without chunking. */
+export const HCS_MESSAGE_MAX_BYTES = 1024;
+
+export type ConnectionAttachment = {
+  content: ArrayBuffer;
+  fileName: string;
+  mimeType: string;
+};
+
+type ConnectionMessageOptions = {
+  network?: "mainnet" | "testnet";
+  onProgress?: (update: { message: string; progressPercent?: number }) => void;
+  encryptionKey?: string;
+};
+
+export type ConnectionMessagePage = {
+  messages: ConnectionTopicMessage[];
+  cursor: string | null;
+};
+
 async function submitMessageTransaction(
   signer: DAppSigner,
   transaction: TopicMessageSubmitTransaction,
@@ -165,9 +227,40 @@ function decodeDirectMessage(message: MirrorTopicMessage): DirectMessage | null
     ...parsed,
     consensusTimestamp: message.consensusTimestamp,
     sequenceNumber: message.sequenceNumber,
+    payerAccountId: message.payer_account_id,
   };
 }
 
+function directMessagePayload(message: DirectMessage): DirectMessagePayload {
+  const payload: Record<string, unknown> = { ...message };
+  delete payload.consensusTimestamp;
+  delete payload.sequenceNumber;
+  delete payload.payerAccountId;
+  delete payload.verification;
+  return payload as DirectMessagePayload;
+}
+
+export async function verifyDirectMessage(message: DirectMessage): Promise<DirectMessage> {
+  const senderKey = message.signature ? await resolveSenderPublicKey(message.from) : null;
+  return {
+    ...message,
+    verification: classifyMessageSender({
+      from: message.from,
+      payload: directMessagePayload(message),
+      signature: message.signature,
+      payerAccountId: message.payerAccountId,
+      senderKey,
+    }),
+  };
+}
+
+async function verifyInboxEvent(event: InboxEvent): Promise<InboxEvent> {
+  if (event.kind !== "direct-message") {
+    return event;
+  }
+  return { kind: "direct-message", message: await verifyDirectMessage(event.message) };
+}
+
 export function parseOperatorId(operatorId?: string | null): Hcs10Operator | null {
   if (!operatorId) {
     return null;
@@ -186,6 +279,7 @@ function decodeHcs10Event(message: MirrorTopicMessage): InboxEvent | null {
   }
 
   const operator = parseOperatorId(parsed.operator_id as string | undefined);
+  const handshake = parseHandshakeMemo(typeof parsed.m === "string" ? parsed.m : undefined);
 
   if (parsed.op === "connection_request") {
     return {
@@ -193,7 +287,9 @@ function decodeHcs10Event(message: MirrorTopicMessage): InboxEvent | null {
       sequenceNumber: message.sequenceNumber,
       consensusTimestamp: message.consensusTimestamp,
       operator,
-      memo: typeof parsed.m === "string" ? parsed.m : undefined,
+      payerAccountId: message.payer_account_id,
+      memo: handshake.memo,
+      encryptionPublicKey: handshake.publicKey ?? undefined,
       requestorOutboundTopicId:
         typeof parsed.requestor_outbound_topic_id === "string"
           ? parsed.requestor_outbound_topic_id
@@ -215,6 +311,7 @@ function decodeHcs10Event(message: MirrorTopicMessage): InboxEvent | null {
       sequenceNumber: message.sequenceNumber,
       consensusTimestamp: message.consensusTimestamp,
       operator,
+      payerAccountId: message.payer_account_id,
       connectionTopicId:
         typeof parsed.connection_topic_id === "string"
           ? parsed.connection_topic_id
@@ -241,7 +338,8 @@ function decodeHcs10Event(message: MirrorTopicMessage): InboxEvent | null {
         typeof parsed.confirmed_request_id === "number"
           ? parsed.confirmed_request_id
           : undefined,
-      memo: typeof parsed.m === "string" ? parsed.m : undefined,
+      memo: handshake.memo,
+      encryptionPublicKey: handshake.publicKey ?? undefined,
       raw: parsed,
     };
   }
@@ -251,15 +349,52 @@ function decodeHcs10Event(message: MirrorTopicMessage): InboxEvent | null {
 
 function decodeConnectionTopicMessage(message: MirrorTopicMessage): ConnectionTopicMessage | null {
   const parsed = decodeJson(message);
-  if (!parsed || parsed.p !== "hcs-10" || parsed.op !== "message") {
+  if (!parsed || parsed.p !== "hcs-10") {
     return null;
   }
+  if (parsed.op === "close_connection") {
+    return {
+      op: "close_connection",
+      consensusTimestamp: message.consensusTimestamp,
+      sequenceNumber: message.sequenceNumber,
+      operator: parseOperatorId(parsed.operator_id as string | undefined),
+      payerAccountId: message.payer_account_id,
+      memo: typeof parsed.m === "string" ? parsed.m : undefined,
+      reason: typeof parsed.reason === "string" ? parsed.reason : undefined,
+      raw: parsed,
+    };
+  }
+  if (parsed.op === "transaction") {
+    if (typeof parsed.schedule_id !== "string") {
+      return null;
+    }
+    return {
+      op: "transaction",
+      consensusTimestamp: message.consensusTimestamp,
+      sequenceNumber: message.sequenceNumber,
+      operator: parseOperatorId(parsed.operator_id as string | undefined),
+      payerAccountId: message.payer_account_id,
+      data: typeof parsed.data === "string" ? parsed.data : undefined,
+      memo: typeof parsed.m === "string" ? parsed.m : undefined,
+      scheduleId: parsed.schedule_id,
+      transactionId: typeof parsed.tx_id === "string" ? parsed.tx_id : undefined,
+      raw: parsed,
+    };
+  }
+  if (parsed.op !== "message") {
+    return null;
+  }
+  const data = typeof parsed.data === "string" ? parsed.data : undefined;
   return {
+    op: "message",
     consensusTimestamp: message.consensusTimestamp,
     sequenceNumber: message.sequenceNumber,
     operator: parseOperatorId(parsed.operator_id as string | undefined),
-    data: typeof parsed.data === "string" ? parsed.data : undefined,
+    payerAccountId: message.payer_account_id,
+    data,
     memo: typeof parsed.m === "string" ? parsed.m : undefined,
+    reference: parseHcs1Reference(data) ? data?.trim() : undefined,
+    encrypted: isSealedConnectionData(data),
     raw: parsed,
   };
 }
@@ -274,21 +409,34 @@ function decodeInboxEvent(message: MirrorTopicMessage): InboxEvent | null {
 
 export async function fetchInboxEvents(topicId: string, limit = 50): Promise<InboxEvent[]> {
   const messages = await fetchTopicMessages(topicId, { limit, order: "desc" });
-  return messages
-    .map((message) => decodeInboxEvent(message))
-    .filter((value): value is InboxEvent => Boolean(value))
-    .sort((a, b) => {
+  const events = await Promise.all(
+    messages
+      .map((message) => decodeInboxEvent(message))
+      .filter((value): value is InboxEvent => Boolean(value))
+      .map((event) => verifyInboxEvent(event)),
+  );
+  return events.sort((a, b) => {
       const aTs = a.kind === "direct-message" ? a.message.consensusTimestamp : a.consensusTimestamp;
       const bTs = b.kind === "direct-message" ? b.message.consensusTimestamp : b.consensusTimestamp;
       return aTs < bTs ? -1 : 1;
     });
 }
 
+export async function fetchAllDirectMessages(
+  topicId: string,
+  options: { pageLimit?: number } = {},
+): Promise<DirectMessage[]> {
+  const messages = await fetchAllTopicMessages(topicId, { pageLimit: options.pageLimit });
+  return messages
+    .map((message) => decodeDirectMessage(message))
+    .filter((value): value is DirectMessage => Boolean(value));
+}
+
 export function subscribeInbox(topicId: string, onEvent: (event: InboxEvent) => void): () => void {
   return subscribeTopicWebsocket(topicId, (message) => {
     const event = decodeInboxEvent(message);
     if (event) {
-      onEvent(event);
+      void verifyInboxEvent(event).then(onEvent);
     }
   });
 }
@@ -304,6 +452,54 @@ export async function fetchConnectionMessages(
     .sort((a, b) => (a.consensusTimestamp < b.consensusTimestamp ? -1 : 1));
 }
 
+/**
+ * Loads connection messages newest-first, one mirror page at a time. The
+ * returned `cursor` points at the next older page and is null once the start
+ * of the topic is reached. Messages in a page are sorted oldest-first.
+ */
+export async function fetchConnectionMessagePage(
+  topicId: string,
+  options: { cursor?: string | null; limit?: number } = {},
+): Promise<ConnectionMessagePage> {
+  const page = await fetchTopicMessagePage(topicId, {
+    limit: options.limit ?? 50,
+    order: "desc",
+    cursor: options.cursor,
+  });
+  return {
+    messages: mergeConnectionMessages(
+      [],
+      page.messages
+        .map((message) => decodeConnectionTopicMessage(message))
+        .filter((value): value is ConnectionTopicMessage => Boolean(value)),
+    ),
+    cursor: page.next,
+  };
+}
+
+/**
+ * Merges history pages and live messages by sequence number, which is unique
+ * and strictly increasing per topic. Returns `current` untouched when nothing
+ * new arrived so React state updates can bail out.
+ */
+export function mergeConnectionMessages(
+  current: ConnectionTopicMessage[],
+  incoming: ConnectionTopicMessage[],
+): ConnectionTopicMessage[] {
+  const known = new Set(current.map((message) => message.sequenceNumber));
+  const additions = incoming.filter((message) => {
+    if (known.has(message.sequenceNumber)) {
+      return false;
+    }
+    known.add(message.sequenceNumber);
+    return true;
+  });
+  if (additions.length === 0) {
+    return current;
+  }
+  return [...current, ...additions].sort((a, b) => a.sequenceNumber - b.sequenceNumber);
+}
+
 export function subscribeConnectionTopic(
   topicId: string,
   onMessage: (message: ConnectionTopicMessage) => void,
@@ -337,12 +533,20 @@ async function submitJsonMessage(
   return submitMessageTransaction(signer, transaction, payerAccountId);
 }
 
+/**
+ * Sends a direct message, signed when the wallet can sign messages. A failed
+ * or rejected signature aborts the send rather than falling back to unsigned.
+ */
 export async function sendDirectMessage(
   signer: DAppSigner,
   topicId: string,
   payload: DirectMessagePayload,
 ): Promise<void> {
-  await submitJsonMessage(signer, topicId, payload, undefined, payload.from);
+  const signed: DirectMessagePayload =
+    typeof signer.sign === "function"
+      ? { ...payload, signature: await signMessagePayload(signer, payload) }
+      : payload;
+  await submitJsonMessage(signer, topicId, signed, undefined, payload.from);
 }
 
 export type ConnectionRequestParams = {
@@ -356,11 +560,15 @@ export type ConnectionRequestParams = {
   memo?: string;
   requestorAlias?: string;
   requestorDisplayName?: string;
+  encryptionPublicKey?: string;
+  /** The fee schedule shown to the user; read from the mirror node when omitted. */
+  feeSchedule?: TopicFeeSchedule;
 };
 
 export type ConnectionRequestResult = {
   requestSequenceNumber?: number;
   consensusTimestamp?: string;
+  feeSchedule: TopicFeeSchedule;
 };
 
 export async function sendConnectionRequest(
@@ -377,6 +585,7 @@ export async function sendConnectionRequest(
     memo,
     requestorAlias,
     requestorDisplayName,
+    encryptionPublicKey,
   } = params;
 
   if (!localInboundTopicId || !localOutboundTopicId) {
@@ -385,7 +594,8 @@ export async function sendConnectionRequest(
 
   const operatorId = `${localInboundTopicId}@${localAccountId}`;
 
-  const normalizedNote = memo && memo.length > 0 ? memo.slice(0, 280) : undefined;
+  const note = memo && memo.length > 0 ? memo.slice(0, 280) : undefined;
+  const normalizedNote = encryptionPublicKey ? appendHandshakeKey(note, encryptionPublicKey) : note;
   void requestorAlias;
   void requestorDisplayName;
 
@@ -394,6 +604,12 @@ export async function sendConnectionRequest(
     operatorId,
     memo: normalizedNote,
   });
+  const feeSchedule =
+    params.feeSchedule ?? (await fetchTopicFeeSchedule(remoteInboundTopicId, localAccountId));
+  const feeLimits = buildCustomFeeLimits(feeSchedule, localAccountId);
+  if (feeLimits.length > 0) {
+    inboundTx.setCustomFeeLimits(feeLimits);
+  }
   const inboundResult = await submitMessageTransaction(signer, inboundTx, localAccountId);
 
   if (!inboundResult.sequenceNumber) {
@@ -413,6 +629,7 @@ export async function sendConnectionRequest(
   return {
     requestSequenceNumber: inboundResult.sequenceNumber,
     consensusTimestamp: inboundResult.consensusTimestamp,
+    feeSchedule,
   };
 }
 
@@ -482,24 +699,140 @@ export async function recordOutboundConnectionCreated(
   await submitMessageTransaction(signer, tx, operator.accountId);
 }
 
+/**
+ * Sends an HCS-10 message on a connection topic. Payloads that would not fit
+ * in a single topic message are inscribed via HCS-1 first and sent as an
+ * `hcs://1/<topicId>` reference, as HCS-10 allows. With `encryptionKey` the
+ * data is sealed with the connection's AES-GCM key and must fit inline.
+ */
 export async function sendConnectionMessage(
   signer: DAppSigner,
   topicId: string,
   operator: Hcs10Operator | null,
   data: string,
   memo?: string,
+  options: ConnectionMessageOptions = {},
 ): Promise<void> {
   if (!operator) {
     throw new Error("Cannot publish connection message without an operator.");
   }
 
+  if (options.encryptionKey && memo) {
+    throw new Error("Memos are sent unencrypted; leave them off encrypted connections.");
+  }
+  const operatorId = `${operator.inboundTopicId}@${operator.accountId}`;
+  const sealed = options.encryptionKey
+    ? await sealConnectionData(options.encryptionKey, data, topicId)
+    : data;
+  const envelope = JSON.stringify({
+    p: "hcs-10",
+    op: "message",
+    operator_id: operatorId,
+    data: sealed,
+    m: memo,
+  });
+  const oversize = Buffer.byteLength(envelope, "utf-8") > HCS_MESSAGE_MAX_BYTES;
+  if (oversize && options.encryptionKey) {
+    throw new Error("Encrypted messages must fit in a single topic message; shorten the message");
+  }
+  const payload = oversize
+    ? await inscribeHcs1Payload(
+        signer,
+        { content: data, fileName: `message-${Date.now()}.txt`, mimeType: "text/plain" },
+        options,
+      )
+    : sealed;
+
   const tx = buildHcs10SendMessageTx({
     connectionTopicId: topicId,
-    operatorId: `${operator.inboundTopicId}@${operator.accountId}`,
-    data,
+    operatorId,
+    data: payload,
     memo,
   });
   await submitMessageTransaction(signer, tx, operator.accountId);
 }
 
+export async function sendConnectionAttachment(
+  signer: DAppSigner,
+  topicId: string,
+  operator: Hcs10Operator | null,
+  attachment: ConnectionAttachment,
+  memo?: string,
+  options: ConnectionMessageOptions = {},
+): Promise<void> {
+  if (!operator) {
+    throw new Error("Cannot publish connection message without an operator.");
+  }
+  if (options.encryptionKey) {
+    throw new Error(
+      "Attachments are inscribed publicly and cannot be sent on an encrypted connection.",
+    );
+  }
+  const reference = await inscribeHcs1Payload(signer, attachment, options);
+  await sendConnectionMessage(signer, topicId, operator, reference, memo ?? attachment.fileName);
+}
+
+export async function sendConnectionClose(
+  signer: DAppSigner,
+  topicId: string,
+  operator: Hcs10Operator | null,
+  reason?: string,
+): Promise<SubmittedMessageResult> {
+  if (!operator) {
+    throw new Error("Cannot close a connection without an operator.");
+  }
+  return submitJsonMessage(
+    signer,
+    topicId,
+    {
+      p: "hcs-10",
+      op: "close_connection",
+      operator_id: `${operator.inboundTopicId}@${operator.accountId}`,
+      reason,
+      m: reason,
+    },
+    undefined,
+    operator.accountId,
+  );
+}
+
+/**
+ * Sends an HCS-10 `transaction` operation asking the peer to approve a
+ * scheduled transaction. The description travels unencrypted in `data`, so
+ * encrypted connections refuse it.
+ */
+export async function sendConnectionTransaction(
+  signer: DAppSigner,
+  topicId: string,
+  operator: Hcs10Operator | null,
+  request: ConnectionTransactionRequest,
+  options: Pick<ConnectionMessageOptions, "encryptionKey"> = {},
+): Promise<SubmittedMessageResult> {
+  if (!operator) {
+    throw new Error("Cannot send a transaction request without an operator.");
+  }
+  if (options.encryptionKey) {
+    throw new Error(
+      "Approval requests are sent unencrypted and cannot be sent on an encrypted connection.",
+    );
+  }
+  const description = request.description.trim();
+  if (!description) {
+    throw new Error("Describe the transaction so the recipient knows what they approve.");
+  }
+  const payload = {
+    p: "hcs-10",
+    op: "transaction",
+    operator_id: `${operator.inboundTopicId}@${operator.accountId}`,
+    schedule_id: request.scheduleId,
+    tx_id: request.transactionId,
+    data: description,
+    m: request.memo,
+  };
+  if (Buffer.byteLength(JSON.stringify(payload), "utf-8") > HCS_MESSAGE_MAX_BYTES) {
+    throw new Error("Transaction description is too long for a single HCS message.");
+  }
+  return submitJsonMessage(signer, topicId, payload, undefined, operator.accountId);
+}
+
 export { submitJsonMessage };
@@ -8,6 +8,7 @@ export type MirrorTopicMessage = {
   sequenceNumber: number;
   message?: string;
   runningHash?: string;
+  payer_account_id?: string;
   chunkInfo?: {
     number: number;
     total: number;
@@ -31,12 +32,62 @@ export type MirrorAccount = {
     }>;
   };
   memo?: string;
+  deleted?: boolean;
+  created_timestamp?: string;
+  max_automatic_token_associations?: number;
+};
+
+export type MirrorTokenInfo = {
+  token_id: string;
+  name?: string;
+  symbol?: string;
+  decimals?: string;
+  type?: "FUNGIBLE_COMMON" | "NON_FUNGIBLE_UNIQUE";
+};
+
+export type MirrorNft = {
+  token_id: string;
+  serial_number: number;
+  metadata?: string;
+  account_id?: string;
+};
+
+export type MirrorTransaction = {
+  transaction_id: string;
+  consensus_timestamp: string;
+  name: string;
+  result: string;
+  charged_tx_fee?: number;
+  memo_base64?: string;
+  transfers?: Array<{ account: string; amount: number }>;
+};
+
+type MirrorTransactionsResponse = {
+  transactions?: MirrorTransaction[];
+  links?: {
+    next?: string | null;
+  };
+};
+
+type MirrorNftsResponse = {
+  nfts?: MirrorNft[];
+  links?: {
+    next?: string | null;
+  };
+};
+
+type MirrorAccountsResponse = {
+  accounts?: MirrorAccount[];
+  links?: {
+    next?: string | null;
+  };
 };
 
 type FetchMessagesParams = {
   limit?: number;
   order?: "asc" | "desc";
   next?: string;
+  timestamp?: string;
 };
 
 const DEFAULT_RETRIES = 3;
@@ -50,6 +101,42 @@ export type MirrorTopicInfo = {
   admin_key?: unknown;
   auto_renew_account?: string;
   auto_renew_period?: number;
+  custom_fees?: {
+    created_timestamp?: string;
+    fixed_fees?: Array<{
+      amount: number;
+      collector_account_id?: string | null;
+      denominating_token_id?: string | null;
+    }>;
+  };
+  fee_exempt_key_list?: Array<{ _type?: string; key?: string }>;
+  fee_schedule_key?: unknown;
+};
+
+export type MirrorScheduleSignature = {
+  consensus_timestamp: string;
+  public_key_prefix: string;
+  signature: string;
+  type?: string;
+};
+
+export type MirrorSchedule = {
+  schedule_id: string;
+  creator_account_id?: string;
+  payer_account_id?: string;
+  consensus_timestamp?: string;
+  executed_timestamp?: string | null;
+  expiration_time?: string | null;
+  deleted?: boolean;
+  memo?: string;
+  wait_for_expiry?: boolean;
+  signatures?: MirrorScheduleSignature[];
+  transaction_body?: string;
+};
+
+export type MirrorTopicMessagePage = {
+  messages: MirrorTopicMessage[];
+  next: string | null;
 };
 
 type MirrorTopicMessagesResponse = {
@@ -187,11 +274,11 @@ export async function fetchTopicMessages(
   topicId: string,
   params: FetchMessagesParams = {},
 ): Promise<MirrorTopicMessage[]> {
-  const data = await fetchTopicMessagesPage(topicId, params);
+  const data = await requestTopicMessages(topicId, params);
   return data.messages ?? [];
 }
 
-async function fetchTopicMessagesPage(
+async function requestTopicMessages(
   topicId: string,
   params: FetchMessagesParams = {},
 ): Promise<MirrorTopicMessagesResponse> {
@@ -201,14 +288,32 @@ async function fetchTopicMessagesPage(
       limit: params.limit ?? 50,
       order: params.order ?? "desc",
       next: params.next,
+      timestamp: params.timestamp,
     },
   });
 }
 
-async function fetchTopicMessagesByUrl(url: string): Promise<MirrorTopicMessagesResponse> {
+async function requestTopicMessagesByUrl(url: string): Promise<MirrorTopicMessagesResponse> {
   return httpGetWithRetry<MirrorTopicMessagesResponse>(url, {});
 }
 
+/**
+ * Fetches one page of topic messages. Pass the `next` link of a previous page
+ * as `cursor` to continue in the same order.
+ */
+export async function fetchTopicMessagePage(
+  topicId: string,
+  options: { limit?: number; order?: "asc" | "desc"; cursor?: string | null } = {},
+): Promise<MirrorTopicMessagePage> {
+  const response = options.cursor
+    ? await requestTopicMessagesByUrl(buildMirrorUrl(options.cursor))
+    : await requestTopicMessages(topicId, { limit: options.limit, order: options.order });
+  return {
+    messages: response.messages ?? [],
+    next: response.links?.next ?? null,
+  };
+}
+
 export async function fetchAllTopicMessages(
   topicId: string,
   options: {
@@ -222,20 +327,13 @@ export async function fetchAllTopicMessages(
   const pageSize = options.pageSize ?? 100;
   const pageLimit = options.pageLimit ?? 10;
 
-  let response = await fetchTopicMessagesPage(topicId, {
-    limit: pageSize,
-    order,
-  });
-  messages.push(...(response.messages ?? []));
-
-  let nextLink = response.links?.next ?? null;
+  let page = await fetchTopicMessagePage(topicId, { limit: pageSize, order });
+  messages.push(...page.messages);
   let pagesFetched = 1;
 
-  while (nextLink && pagesFetched < pageLimit) {
-    const absolute = buildMirrorUrl(nextLink);
-    response = await fetchTopicMessagesByUrl(absolute);
-    messages.push(...(response.messages ?? []));
-    nextLink = response.links?.next ?? null;
+  while (page.next && pagesFetched < pageLimit) {
+    page = await fetchTopicMessagePage(topicId, { cursor: page.next });
+    messages.push(...page.messages);
     pagesFetched += 1;
   }
 
@@ -276,6 +374,143 @@ export async function lookupAccount(
   }
 }
 
+/**
+ * Lists every account whose key is exactly `publicKey`, following mirror
+ * pagination up to `pageLimit` pages.
+ */
+export async function fetchAccountsByPublicKey(
+  publicKey: string,
+  options: { network?: "mainnet" | "testnet"; pageLimit?: number } = {},
+): Promise<MirrorAccount[]> {
+  const pageLimit = options.pageLimit ?? 5;
+  const accounts: MirrorAccount[] = [];
+  let data = await httpGetWithRetry<MirrorAccountsResponse>(
+    `${getMirrorBaseUrl(options.network)}/accounts`,
+    { params: { "account.publickey": publicKey, limit: 100, order: "asc" } },
+  );
+  accounts.push(...(data.accounts ?? []));
+  let pagesFetched = 1;
+
+  while (data.links?.next && pagesFetched < pageLimit) {
+    data = await httpGetWithRetry<MirrorAccountsResponse>(buildMirrorUrl(data.links.next), {});
+    accounts.push(...(data.accounts ?? []));
+    pagesFetched += 1;
+  }
+
+  return accounts;
+}
+
+/** Account state as of `timestamp`, used to recover historical memos. */
+export async function fetchAccountAt(
+  accountId: string,
+  timestamp: string,
+  network?: "mainnet" | "testnet",
+): Promise<MirrorAccount | null> {
+  const url = `${getMirrorBaseUrl(network)}/accounts/${accountId}`;
+  try {
+    return await httpGetWithRetry<MirrorAccount>(url, {
+      params: { timestamp: `lte:${timestamp}`, transactions: false },
+    });
+  } catch (error) {
+    const status = (error as AxiosError).response?.status;
+    if (status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export async function fetchAccountTransactions(
+  accountId: string,
+  options: {
+    network?: "mainnet" | "testnet";
+    order?: "asc" | "desc";
+    pageLimit?: number;
+  } = {},
+): Promise<{ transactions: MirrorTransaction[]; hasMore: boolean }> {
+  const pageLimit = options.pageLimit ?? 1;
+  const transactions: MirrorTransaction[] = [];
+  let data = await httpGetWithRetry<MirrorTransactionsResponse>(
+    `${getMirrorBaseUrl(options.network)}/transactions`,
+    { params: { "account.id": accountId, limit: 100, order: options.order ?? "desc" } },
+  );
+  transactions.push(...(data.transactions ?? []));
+  let pagesFetched = 1;
+
+  while (data.links?.next && pagesFetched < pageLimit) {
+    data = await httpGetWithRetry<MirrorTransactionsResponse>(buildMirrorUrl(data.links.next), {});
+    transactions.push(...(data.transactions ?? []));
+    pagesFetched += 1;
+  }
+
+  return { transactions, hasMore: Boolean(data.links?.next) };
+}
+
+export async function fetchTransactionAt(
+  consensusTimestamp: string,
+  network?: "mainnet" | "testnet",
+): Promise<MirrorTransaction | null> {
+  const data = await httpGetWithRetry<MirrorTransactionsResponse>(
+    `${getMirrorBaseUrl(network)}/transactions`,
+    { params: { timestamp: consensusTimestamp, limit: 1 } },
+  );
+  return data.transactions?.[0] ?? null;
+}
+
+export async function fetchTokenInfo(
+  tokenId: string,
+  network?: "mainnet" | "testnet",
+): Promise<MirrorTokenInfo | null> {
+  const url = `${getMirrorBaseUrl(network)}/tokens/${tokenId}`;
+  try {
+    return await httpGetWithRetry<MirrorTokenInfo>(url, {});
+  } catch (error) {
+    const status = (error as AxiosError).response?.status;
+    if (status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export async function fetchAccountNfts(
+  accountId: string,
+  options: { network?: "mainnet" | "testnet"; pageLimit?: number } = {},
+): Promise<MirrorNft[]> {
+  const pageLimit = options.pageLimit ?? 3;
+  const nfts: MirrorNft[] = [];
+  let data = await httpGetWithRetry<MirrorNftsResponse>(
+    `${getMirrorBaseUrl(options.network)}/accounts/${accountId}/nfts`,
+    { params: { limit: 100 } },
+  );
+  nfts.push(...(data.nfts ?? []));
+  let pagesFetched = 1;
+
+  while (data.links?.next && pagesFetched < pageLimit) {
+    data = await httpGetWithRetry<MirrorNftsResponse>(buildMirrorUrl(data.links.next), {});
+    nfts.push(...(data.nfts ?? []));
+    pagesFetched += 1;
+  }
+
+  return nfts;
+}
+
+export async function fetchSchedule(
+  scheduleId: string,
+  network?: "mainnet" | "testnet",
+): Promise<MirrorSchedule | null> {
+  const url = `${getMirrorBaseUrl(network)}/schedules/${scheduleId}`;
+  try {
+    return await httpGetWithRetry<MirrorSchedule>(url, {});
+  } catch (error) {
+    const status = (error as AxiosError).response?.status;
+    if (status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
 type TopicMessageCallback = (message: MirrorTopicMessage) => void;
 
 type SubscriptionOptions = {
@@ -0,0 +1,243 @@
+import { z } from "zod";
+
+const manifestRowSchema = z.object({
+  alias: z
+    .string()
+    .trim()
+    .min(3, "Alias must be at least 3 characters")
+    .max(40, "Alias too long")
+    .regex(/^[a-z0-9-]+$/i, "Only letters, numbers, and dashes allowed")
+    .transform((value) => value.toLowerCase()),
+  displayName: z.string().trim().min(1, "Display name is required").max(80),
+  bio: z.string().trim().max(280).optional(),
+  avatarUrl: z.string().trim().url("Avatar must be a URL").optional(),
+  initialBalance: z
+    .number()
+    .min(0.1, "Initial balance should be at least 0.1 ℏ")
+    .max(1000, "Initial balance is unusually high")
+    .default(1),
+});
+
+export type PetalManifestRow = z.infer<typeof manifestRowSchema>;
+
+export type PetalManifestError = {
+  line: number;
+  message: string;
+};
+
+export type PetalManifestParseResult = {
+  rows: PetalManifestRow[];
+  errors: PetalManifestError[];
+};
+
+export type PetalBatchRowStatus = "pending" | "created" | "done" | "failed";
+
+export type PetalBatchRow = PetalManifestRow & {
+  status: PetalBatchRowStatus;
+  accountId?: string;
+  error?: string;
+};
+
+export type PetalBatch = {
+  id: string;
+  createdAt: string;
+  rows: PetalBatchRow[];
+};
+
+const HEADER_ALIASES: Record<string, keyof PetalManifestRow> = {
+  alias: "alias",
+  displayname: "displayName",
+  display_name: "displayName",
+  name: "displayName",
+  bio: "bio",
+  avatar: "avatarUrl",
+  avatarurl: "avatarUrl",
+  avatar_url: "avatarUrl",
+  initialbalance: "initialBalance",
+  initial_balance: "initialBalance",
+  balance: "initialBalance",
+};
+
+function parseCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (let index = 0; index < line.length; index += 1) {
+    const char = line[index];
+    if (quoted) {
+      if (char === '"' && line[index + 1] === '"') {
+        current += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      cells.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current);
+  return cells.map((cell) => cell.trim());
+}
+
+function normalizeRawRow(raw: Record<string, unknown>): Record<string, unknown> {
+  const normalized: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    const field = HEADER_ALIASES[key.trim().toLowerCase()];
+    if (!field || value === undefined || value === null || value === "") {
+      continue;
+    }
+    normalized[field] =
+      field === "initialBalance" && typeof value === "string" ? Number(value) : value;
+  }
+  return normalized;
+}
+
+function readRawRows(text: string): Array<{ line: number; raw: Record<string, unknown> }> {
+  const trimmed = text.trim();
+  if (trimmed.startsWith("[") || trimmed.startsWith("{")) {
+    const parsed = JSON.parse(trimmed) as unknown;
+    const list = Array.isArray(parsed)
+      ? parsed
+      : Array.isArray((parsed as { petals?: unknown }).petals)
+        ? (parsed as { petals: unknown[] }).petals
+        : [];
+    return list.map((raw, index) => ({
+      line: index + 1,
+      raw: raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {},
+    }));
+  }
+
+  const lines = trimmed.split(/\r?\n/u);
+  const header = parseCsvLine(lines[0] ?? "");
+  return lines
+    .slice(1)
+    .map((line, index) => ({ line: index + 2, text: line }))
+    .filter((entry) => entry.text.trim().length > 0)
+    .map((entry) => {
+      const cells = parseCsvLine(entry.text);
+      return {
+        line: entry.line,
+        raw: Object.fromEntries(header.map((column, columnIndex) => [column, cells[columnIndex]])),
+      };
+    });
+}
+
+/**
+ * Parses a CSV (with a header row) or JSON manifest of petals to provision.
+ * Invalid rows are reported by line and left out of `rows`.
+ */
+export function parsePetalManifest(text: string): PetalManifestParseResult {
+  if (!text.trim()) {
+    return { rows: [], errors: [{ line: 0, message: "Manifest is empty" }] };
+  }
+
+  let rawRows: Array<{ line: number; raw: Record<string, unknown> }>;
+  try {
+    rawRows = readRawRows(text);
+  } catch (error) {
+    return {
+      rows: [],
+      errors: [{ line: 0, message: error instanceof Error ? error.message : "Invalid manifest" }],
+    };
+  }
+
+  const rows: PetalManifestRow[] = [];
+  const errors: PetalManifestError[] = [];
+  const seenAliases = new Set<string>();
+
+  for (const { line, raw } of rawRows) {
+    const result = manifestRowSchema.safeParse(normalizeRawRow(raw));
+    if (!result.success) {
+      errors.push({
+        line,
+        message: result.error.issues
+          .map((issue) => `${issue.path.join(".") || "row"}: ${issue.message}`)
+          .join("; "),
+      });
+      continue;
+    }
+    if (seenAliases.has(result.data.alias)) {
+      errors.push({ line, message: `Duplicate alias ${result.data.alias}` });
+      continue;
+    }
+    seenAliases.add(result.data.alias);
+    rows.push(result.data);
+  }
+
+  if (rows.length === 0 && errors.length === 0) {
+    errors.push({ line: 0, message: "Manifest has no rows" });
+  }
+
+  return { rows, errors };
+}
+
+export function createPetalBatch(rows: PetalManifestRow[]): PetalBatch {
+  return {
+    id: `batch-${Date.now()}`,
+    createdAt: new Date().toISOString(),
+    rows: rows.map((row) => ({ ...row, status: "pending" })),
+  };
+}
+
+export function isPetalBatchComplete(batch: PetalBatch): boolean {
+  return batch.rows.every((row) => row.status === "done");
+}
+
+/**
+ * Provisions every unfinished row in order. A row that already has an account
+ * only republishes its profile, so resuming never creates duplicate accounts.
+ * Failures are recorded on the row and the batch moves on to the next one.
+ */
+export async function runPetalBatch(
+  batch: PetalBatch,
+  handlers: {
+    createAccount: (row: PetalBatchRow) => Promise<string>;
+    publishProfile: (row: PetalBatchRow, accountId: string) => Promise<void>;
+    onUpdate: (batch: PetalBatch) => void;
+    shouldStop?: () => boolean;
+  },
+): Promise<PetalBatch> {
+  let current = batch;
+  const updateRow = (index: number, updates: Partial<PetalBatchRow>) => {
+    current = {
+      ...current,
+      rows: current.rows.map((row, rowIndex) => (rowIndex === index ? { ...row, ...updates } : row)),
+    };
+    handlers.onUpdate(current);
+  };
+
+  for (let index = 0; index < current.rows.length; index += 1) {
+    if (handlers.shouldStop?.()) {
+      break;
+    }
+    const row = current.rows[index];
+    if (row.status === "done") {
+      continue;
+    }
+
+    let accountId = row.accountId;
+    try {
+      if (!accountId) {
+        accountId = await handlers.createAccount(row);
+        updateRow(index, { status: "created", accountId, error: undefined });
+      }
+      await handlers.publishProfile(current.rows[index], accountId);
+      updateRow(index, { status: "done", error: undefined });
+    } catch (error) {
+      updateRow(index, {
+        status: "failed",
+        accountId,
+        error: error instanceof Error ? error.message : "Provisioning failed",
+      });
+    }
+  }
+
+  return current;
+}
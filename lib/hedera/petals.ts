@@ -2,19 +2,25 @@
 
 import {
   AccountCreateTransaction,
+  AccountDeleteTransaction,
   AccountId,
   AccountUpdateTransaction,
   Hbar,
   PublicKey,
   TransactionId,
+  TransferTransaction,
 } from "@hashgraph/sdk";
 import type { DAppSigner } from "@/lib/hedera/wallet-types";
-import {
-  HCS15BrowserClient,
-  type NetworkType,
-} from "@hashgraphonline/standards-sdk";
 import { env } from "@/config/env";
-import { lookupAccount } from "@/lib/hedera/mirror";
+import { publicKeyFromMirrorKey } from "@/lib/hedera/keys";
+import {
+  fetchAccountAt,
+  fetchAccountTransactions,
+  fetchAccountsByPublicKey,
+  fetchTransactionAt,
+  lookupAccount,
+  type MirrorAccount,
+} from "@/lib/hedera/mirror";
 import { fetchLatestProfileForAccount } from "@/lib/hedera/registry";
 
 export type PetalRecord = {
@@ -30,8 +36,45 @@ export type PetalRecord = {
   profileReference?: string;
   profileTopicId?: string;
   outboundTopicId?: string;
+  lowBalanceThresholdHbar?: number;
+  createdTransactionId?: string;
+  lastActivityAt?: string;
+  verificationReason?: string;
 };
 
+export type PetalVerification = {
+  verified: boolean;
+  reason?: string;
+};
+
+export type PetalMemoChange = {
+  memo: string;
+  changedAt: string;
+  transactionId?: string;
+};
+
+export type PetalHistory = {
+  accountId: string;
+  createdAt?: string;
+  createdTransactionId?: string;
+  lastActivityAt?: string;
+  lastActivityTransactionId?: string;
+  feesPaidHbar: number;
+  /** False when the account has more history than was scanned for fees. */
+  feesComplete: boolean;
+  memoHistory: PetalMemoChange[];
+  verification: PetalVerification;
+};
+
+/** Enough for a few hundred HCS messages or one profile publish. */
+export const DEFAULT_LOW_BALANCE_HBAR = 0.5;
+
+/** Hedera caps a transfer list at ten entries; one is the base credit. */
+const MAX_SWEEP_DEBITS = 9;
+
+const HISTORY_PAGE_LIMIT = 5;
+const MAX_MEMO_LOOKUPS = 10;
+
 type CreatePetalAccountInput = {
   signer: DAppSigner;
   baseAccountId: string;
@@ -41,26 +84,40 @@ type CreatePetalAccountInput = {
   maxAutomaticTokenAssociations?: number;
 };
 
+type TransferHbarInput = {
+  signer: DAppSigner;
+  payerAccountId: string;
+  fromAccountId: string;
+  toAccountId: string;
+  amountHbar: number;
+  memo?: string;
+};
+
+export type PetalSweepResult = {
+  sweptHbar: number;
+  balances: Record<string, number>;
+  transactionIds: string[];
+};
+
+type DeletePetalAccountInput = {
+  signer: DAppSigner;
+  baseAccountId: string;
+  petalAccountId: string;
+};
+
 type UpdatePetalMemoInput = {
   signer: DAppSigner;
   accountId: string;
   memo: string;
 };
 
-function getHcs15Client(): HCS15BrowserClient {
-  return new HCS15BrowserClient({
-    network: env.HEDERA_NETWORK as NetworkType,
-    mirrorNodeUrl: env.NEXT_PUBLIC_MIRROR_NODE_URL,
-  });
-}
-
 const DEFAULT_NODE_ACCOUNT_IDS: Record<string, readonly string[]> = {
   mainnet: ["0.0.3"],
   testnet: ["0.0.3"],
   previewnet: ["0.0.3"],
 };
 
-function resolveNodeAccountIds(): AccountId[] {
+export function resolveNodeAccountIds(): AccountId[] {
   const nodeIds =
     DEFAULT_NODE_ACCOUNT_IDS[env.HEDERA_NETWORK] ?? DEFAULT_NODE_ACCOUNT_IDS.testnet;
   return nodeIds.map((nodeId) => AccountId.fromString(nodeId));
@@ -119,12 +176,306 @@ export async function updatePetalMemo({
   await response.getReceiptWithSigner(signer);
 }
 
+function toTinybars(amountHbar: number): number {
+  return Math.round(amountHbar * 100_000_000);
+}
+
+/**
+ * Moves HBAR between accounts controlled by the shared key. The payer is
+ * normally the base account so petals never spend their own balance on fees.
+ */
+export async function transferHbar({
+  signer,
+  payerAccountId,
+  fromAccountId,
+  toAccountId,
+  amountHbar,
+  memo,
+}: TransferHbarInput): Promise<string> {
+  const tinybars = toTinybars(amountHbar);
+  if (!Number.isFinite(tinybars) || tinybars <= 0) {
+    throw new Error("Transfer amount must be greater than zero");
+  }
+  if (fromAccountId === toAccountId) {
+    throw new Error("Choose a different account to transfer to");
+  }
+
+  const transaction = new TransferTransaction()
+    .addHbarTransfer(AccountId.fromString(fromAccountId), Hbar.fromTinybars(-tinybars))
+    .addHbarTransfer(AccountId.fromString(toAccountId), Hbar.fromTinybars(tinybars))
+    .setTransactionId(TransactionId.generate(AccountId.fromString(payerAccountId)))
+    .setNodeAccountIds(resolveNodeAccountIds());
+  if (memo) {
+    transaction.setTransactionMemo(memo.slice(0, 100));
+  }
+
+  await transaction.freeze();
+
+  const response = await transaction.executeWithSigner(signer);
+  await response.getReceiptWithSigner(signer);
+  return response.transactionId.toString();
+}
+
+/**
+ * Sweeps every petal's full balance back to the base account, batching
+ * debits to stay within the transfer list limit. Balances are read fresh from
+ * the mirror node; the base account pays all fees.
+ */
+export async function sweepPetalsToBase({
+  signer,
+  baseAccountId,
+  petalAccountIds,
+}: {
+  signer: DAppSigner;
+  baseAccountId: string;
+  petalAccountIds: string[];
+}): Promise<PetalSweepResult> {
+  const debits: Array<{ accountId: string; tinybars: number }> = [];
+  const balances: Record<string, number> = {};
+  for (const accountId of petalAccountIds) {
+    if (accountId === baseAccountId) {
+      continue;
+    }
+    const account = await lookupAccount(accountId);
+    const tinybars = account?.balance?.balance ?? 0;
+    balances[accountId] = tinybars / 100_000_000;
+    if (tinybars > 0) {
+      debits.push({ accountId, tinybars });
+    }
+  }
+
+  const transactionIds: string[] = [];
+  let sweptTinybars = 0;
+  for (let index = 0; index < debits.length; index += MAX_SWEEP_DEBITS) {
+    const batch = debits.slice(index, index + MAX_SWEEP_DEBITS);
+    const total = batch.reduce((sum, debit) => sum + debit.tinybars, 0);
+    const transaction = new TransferTransaction()
+      .setTransactionId(TransactionId.generate(AccountId.fromString(baseAccountId)))
+      .setNodeAccountIds(resolveNodeAccountIds())
+      .setTransactionMemo("Petal sweep");
+    for (const debit of batch) {
+      transaction.addHbarTransfer(
+        AccountId.fromString(debit.accountId),
+        Hbar.fromTinybars(-debit.tinybars),
+      );
+    }
+    transaction.addHbarTransfer(AccountId.fromString(baseAccountId), Hbar.fromTinybars(total));
+
+    await transaction.freeze();
+    const response = await transaction.executeWithSigner(signer);
+    await response.getReceiptWithSigner(signer);
+    transactionIds.push(response.transactionId.toString());
+
+    sweptTinybars += total;
+    for (const debit of batch) {
+      balances[debit.accountId] = 0;
+    }
+  }
+
+  return { sweptHbar: sweptTinybars / 100_000_000, balances, transactionIds };
+}
+
+/**
+ * Hedera refuses to delete an account that still holds tokens, so surface that
+ * before any retirement step spends fees.
+ */
+export async function checkPetalRetirement(
+  petalAccountId: string,
+): Promise<{ alreadyDeleted: boolean }> {
+  const account = await lookupAccount(petalAccountId);
+  if (!account) {
+    throw new Error(`Account ${petalAccountId} was not found on the mirror node`);
+  }
+  if (account.deleted) {
+    return { alreadyDeleted: true };
+  }
+  const heldTokens = (account.balance?.tokens ?? []).filter((token) => token.balance > 0);
+  if (heldTokens.length > 0) {
+    throw new Error(
+      `Transfer out ${heldTokens.map((token) => token.token_id).join(", ")} before retiring this petal`,
+    );
+  }
+  return { alreadyDeleted: false };
+}
+
+/**
+ * Deletes a petal account on ledger. Any remaining HBAR goes to the base
+ * account, which also pays the fee. Token balances must be cleared first.
+ */
+export async function deletePetalAccount({
+  signer,
+  baseAccountId,
+  petalAccountId,
+}: DeletePetalAccountInput): Promise<string> {
+  if (petalAccountId === baseAccountId) {
+    throw new Error("The base account cannot be retired");
+  }
+
+  const transaction = new AccountDeleteTransaction()
+    .setAccountId(AccountId.fromString(petalAccountId))
+    .setTransferAccountId(AccountId.fromString(baseAccountId))
+    .setTransactionId(TransactionId.generate(AccountId.fromString(baseAccountId)))
+    .setNodeAccountIds(resolveNodeAccountIds());
+
+  await transaction.freeze();
+
+  const response = await transaction.executeWithSigner(signer);
+  await response.getReceiptWithSigner(signer);
+  return response.transactionId.toString();
+}
+
+export function isPetalBalanceLow(petal: PetalRecord): boolean {
+  if (typeof petal.balanceHbar !== "number") {
+    return false;
+  }
+  return petal.balanceHbar < (petal.lowBalanceThresholdHbar ?? DEFAULT_LOW_BALANCE_HBAR);
+}
+
+export async function updateMaxAutomaticAssociations({
+  signer,
+  accountId,
+  maxAutomaticAssociations,
+}: {
+  signer: DAppSigner;
+  accountId: string;
+  maxAutomaticAssociations: number;
+}): Promise<void> {
+  if (!Number.isInteger(maxAutomaticAssociations) || maxAutomaticAssociations < -1) {
+    throw new Error("Max automatic associations must be a whole number, or -1 for unlimited");
+  }
+
+  const transaction = new AccountUpdateTransaction()
+    .setAccountId(AccountId.fromString(accountId))
+    .setMaxAutomaticTokenAssociations(maxAutomaticAssociations)
+    .setTransactionId(TransactionId.generate(AccountId.fromString(accountId)))
+    .setNodeAccountIds(resolveNodeAccountIds());
+
+  await transaction.freeze();
+
+  const response = await transaction.executeWithSigner(signer);
+  await response.getReceiptWithSigner(signer);
+}
+
 export async function verifyPetalAccount(
   petalAccountId: string,
   baseAccountId: string,
 ): Promise<boolean> {
-  const client = getHcs15Client();
-  return client.verifyPetalAccount(petalAccountId, baseAccountId);
+  const [petal, base] = await Promise.all([
+    lookupAccount(petalAccountId),
+    lookupAccount(baseAccountId),
+  ]);
+  return explainPetalVerification(petal, base).verified;
+}
+
+/** Raw key bytes as hex, so DER and raw mirror encodings of one key compare equal. */
+function mirrorKeyFingerprint(key: MirrorAccount["key"]): string {
+  const value = key?.key?.trim() ?? "";
+  if (!value) {
+    return "";
+  }
+  return publicKeyFromMirrorKey(key)?.toStringRaw() ?? value.replace(/^0x/i, "").toLowerCase();
+}
+
+/**
+ * Runs the HCS-15 check (petal key equals base key) against mirror data and
+ * explains why an account fails it.
+ */
+export function explainPetalVerification(
+  petal: MirrorAccount | null,
+  base: MirrorAccount | null,
+): PetalVerification {
+  if (!base) {
+    return { verified: false, reason: "Base account not found on the mirror node" };
+  }
+  if (!petal) {
+    return { verified: false, reason: "Petal account not found on the mirror node" };
+  }
+  if (petal.deleted) {
+    return { verified: false, reason: "Petal account has been deleted" };
+  }
+  const petalKey = mirrorKeyFingerprint(petal.key);
+  const baseKey = mirrorKeyFingerprint(base.key);
+  if (!petalKey) {
+    return { verified: false, reason: "Petal account has no single public key" };
+  }
+  if (petalKey !== baseKey) {
+    return { verified: false, reason: "Petal key does not match the base account key" };
+  }
+  return { verified: true };
+}
+
+export function consensusTimestampToIso(timestamp: string): string {
+  const [seconds, nanos = "0"] = timestamp.split(".");
+  const millis = Number(seconds) * 1000 + Math.floor(Number(nanos.padEnd(9, "0")) / 1_000_000);
+  return new Date(millis).toISOString();
+}
+
+function transactionPayer(transactionId: string): string {
+  return transactionId.split("-")[0] ?? "";
+}
+
+/**
+ * Reconstructs a petal's ledger history from the mirror node: creation,
+ * latest activity, fees it paid, and each memo it has carried.
+ */
+export async function fetchPetalHistory(
+  accountId: string,
+  baseAccountId: string,
+): Promise<PetalHistory> {
+  const [account, base, { transactions, hasMore }] = await Promise.all([
+    lookupAccount(accountId),
+    lookupAccount(baseAccountId),
+    fetchAccountTransactions(accountId, { pageLimit: HISTORY_PAGE_LIMIT }),
+  ]);
+
+  const successful = transactions.filter((transaction) => transaction.result === "SUCCESS");
+  const feesPaidTinybar = transactions
+    .filter((transaction) => transactionPayer(transaction.transaction_id) === accountId)
+    .reduce((total, transaction) => total + (transaction.charged_tx_fee ?? 0), 0);
+
+  const createdTimestamp = account?.created_timestamp ?? undefined;
+  const creation = createdTimestamp
+    ? await fetchTransactionAt(createdTimestamp).catch(() => null)
+    : null;
+
+  const memoTimestamps = [
+    ...(createdTimestamp ? [{ timestamp: createdTimestamp, transactionId: creation?.transaction_id }] : []),
+    ...successful
+      .filter((transaction) => transaction.name === "CRYPTOUPDATEACCOUNT")
+      .slice(0, MAX_MEMO_LOOKUPS)
+      .reverse()
+      .map((transaction) => ({
+        timestamp: transaction.consensus_timestamp,
+        transactionId: transaction.transaction_id,
+      })),
+  ];
+
+  const memoHistory: PetalMemoChange[] = [];
+  for (const entry of memoTimestamps) {
+    const snapshot = await fetchAccountAt(accountId, entry.timestamp).catch(() => null);
+    const memo = snapshot?.memo ?? "";
+    if (memoHistory.at(-1)?.memo === memo) {
+      continue;
+    }
+    memoHistory.push({
+      memo,
+      changedAt: consensusTimestampToIso(entry.timestamp),
+      transactionId: entry.transactionId,
+    });
+  }
+
+  const latest = transactions[0];
+  return {
+    accountId,
+    createdAt: createdTimestamp ? consensusTimestampToIso(createdTimestamp) : undefined,
+    createdTransactionId: creation?.transaction_id,
+    lastActivityAt: latest ? consensusTimestampToIso(latest.consensus_timestamp) : undefined,
+    lastActivityTransactionId: latest?.transaction_id,
+    feesPaidHbar: feesPaidTinybar / 100_000_000,
+    feesComplete: !hasMore,
+    memoHistory,
+    verification: explainPetalVerification(account, base),
+  };
 }
 
 export async function fetchPetalRecord(
@@ -136,7 +487,8 @@ export async function fetchPetalRecord(
   const memo = account?.memo;
   const balanceTinybar = account?.balance?.balance ?? 0;
   const balanceHbar = balanceTinybar / 100_000_000;
-  const verified = await verifyPetalAccount(accountId, baseAccountId).catch(() => false);
+  const base = await lookupAccount(baseAccountId).catch(() => null);
+  const verification = explainPetalVerification(account, base);
   const profile = await fetchLatestProfileForAccount(accountId).catch(() => null);
 
   return {
@@ -145,8 +497,11 @@ export async function fetchPetalRecord(
     displayName: profile?.displayName,
     memo,
     balanceHbar,
-    verified,
-    createdAt: new Date().toISOString(),
+    verified: verification.verified,
+    verificationReason: verification.reason,
+    createdAt: account?.created_timestamp
+      ? consensusTimestampToIso(account.created_timestamp)
+      : new Date().toISOString(),
     inboundTopicId: profile?.inboundTopicId,
     hasProfile: Boolean(profile?.profileReference),
     profileReference: profile?.profileReference,
@@ -155,6 +510,69 @@ export async function fetchPetalRecord(
   };
 }
 
+export function parsePetalAlias(memo?: string | null): string | undefined {
+  const match = memo?.match(/^Petal:(.+)$/u);
+  return match ? match[1].trim().toLowerCase() || undefined : undefined;
+}
+
+/**
+ * Finds petals of `baseAccountId` on the mirror node. HCS-15 petals share the
+ * base account's key, so every other live account holding that key is a
+ * candidate; only those passing HCS-15 verification are hydrated.
+ */
+export async function discoverPetalAccounts(
+  baseAccountId: string,
+  basePublicKey: string,
+): Promise<PetalRecord[]> {
+  const accounts = await fetchAccountsByPublicKey(basePublicKey);
+  const candidates = accounts.filter(
+    (account) => account.account !== baseAccountId && !account.deleted,
+  );
+
+  const petals: PetalRecord[] = [];
+  for (const candidate of candidates) {
+    const verified = await verifyPetalAccount(candidate.account, baseAccountId).catch(() => false);
+    if (!verified) {
+      continue;
+    }
+    const record = await fetchPetalRecord(
+      candidate.account,
+      baseAccountId,
+      parsePetalAlias(candidate.memo),
+    );
+    petals.push(record);
+  }
+  return petals;
+}
+
+/**
+ * Folds discovered petals into the locally known list. Local entries keep
+ * their alias and the earlier of the two creation times; fresher mirror
+ * values fill in the rest.
+ */
+export function mergePetalRecords(
+  existing: PetalRecord[],
+  discovered: PetalRecord[],
+): PetalRecord[] {
+  const merged = existing.map((petal) => {
+    const match = discovered.find((item) => item.accountId === petal.accountId);
+    if (!match) {
+      return petal;
+    }
+    const updates = Object.fromEntries(
+      Object.entries(match).filter(([, value]) => value !== undefined),
+    ) as Partial<PetalRecord>;
+    return {
+      ...petal,
+      ...updates,
+      alias: petal.alias ?? match.alias,
+      createdAt: match.createdAt < petal.createdAt ? match.createdAt : petal.createdAt,
+    };
+  });
+  const known = new Set(existing.map((petal) => petal.accountId));
+  return [...merged, ...discovered.filter((petal) => !known.has(petal.accountId))];
+}
+
 function buildPetalMemo(alias: string): string {
   const memo = `Petal:${alias}`;
   return memo.length > 100 ? memo.slice(0, 100) : memo;
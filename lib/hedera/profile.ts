@@ -20,8 +20,14 @@ import { env } from "@/config/env";
 import { tryGetTopicId } from "@/config/topics";
 import { getHederaClient } from "@/lib/hedera/client";
 import { lookupAccount } from "@/lib/hedera/mirror";
-import { primeRegistryCache, type RegistryProfile } from "@/lib/hedera/registry";
+import {
+  clearRegistryCache,
+  primeRegistryCache,
+  type RegistryProfile,
+} from "@/lib/hedera/registry";
 import { buildAccountMemo } from "@/lib/hedera/profile-memo";
+import { getSignerPublicKey } from "@/lib/hedera/keys";
+import { resolveInboundTopicFees, type InboundTopicFeeConfig } from "@/lib/hedera/topic-fees";
 
 export { extractProfileReferenceFromMemo, resolveProfileTopicId } from "@/lib/hedera/profile-memo";
 export { loadProfileDocument, type LoadedProfileDocument } from "@/lib/hedera/profile-document";
@@ -83,6 +89,8 @@ export type ProfilePublishingEvent = {
 
 export type ProfilePublishingOptions = {
   payerAccountId?: string;
+  /** Creates a new inbound topic as a HIP-991 fee-gated topic. */
+  inboundFee?: InboundTopicFeeConfig;
   onStep?: (event: ProfilePublishingEvent) => void;
 };
 
@@ -216,6 +224,7 @@ async function ensureInboxTopic(
   existingTopicId: string | undefined,
   payerAccountId: string,
   network: "mainnet" | "testnet" | "previewnet",
+  inboundFee?: InboundTopicFeeConfig,
 ): Promise<string> {
   if (existingTopicId) {
     return existingTopicId;
@@ -228,6 +237,21 @@ async function ensureInboxTopic(
     .setTransactionId(TransactionId.generate(AccountId.fromString(payerAccountId)))
     .setNodeAccountIds(resolveNodeAccountIds(network));
 
+  if (inboundFee) {
+    const ownerKey = await getSignerPublicKey(signer, accountId);
+    if (!ownerKey) {
+      throw new Error("Unable to resolve the account key for the fee-gated inbound topic");
+    }
+    const fees = await resolveInboundTopicFees(
+      inboundFee,
+      ownerKey,
+      network === "mainnet" ? "mainnet" : "testnet",
+    );
+    tx.setCustomFees(fees.customFees)
+      .setFeeExemptKeys(fees.feeExemptKeys)
+      .setFeeScheduleKey(ownerKey);
+  }
+
   tx.freeze();
   const response = await tx.executeWithSigner(signer);
   const receipt = await response.getReceiptWithSigner(signer);
@@ -370,6 +394,59 @@ async function publishProfileToRegistry(
   };
 }
 
+/**
+ * Publishes a registry tombstone for a retired account. The registry keeps the
+ * latest entry per account, so searches stop returning it from then on.
+ */
+export async function publishRegistryTombstone({
+  signer,
+  accountId,
+  alias,
+  payerAccountId,
+  network = env.HEDERA_NETWORK === "mainnet" ? "mainnet" : "testnet",
+}: {
+  signer: DAppSigner;
+  accountId: string;
+  alias?: string;
+  payerAccountId: string;
+  network?: "mainnet" | "testnet";
+}): Promise<ProfilePublishResult["registryReceipt"]> {
+  const registryTopicId = tryGetTopicId("profileRegistry", "environment", network);
+  if (!registryTopicId) {
+    throw new Error("Profile registry topic is not configured.");
+  }
+
+  const tx = buildHcs20SubmitMessageTx({
+    topicId: registryTopicId,
+    payload: JSON.stringify({
+      standard: "hcs-11",
+      version: PROFILE_VERSION,
+      op: "delete",
+      accountId,
+      alias: alias?.trim().toLowerCase() || undefined,
+      deletedAt: new Date().toISOString(),
+    }),
+  })
+    .setTransactionId(TransactionId.generate(AccountId.fromString(payerAccountId)))
+    .setNodeAccountIds(resolveNodeAccountIds(network))
+    .freezeWith(getHederaClient(network));
+  const response = await tx.executeWithSigner(signer);
+  const receipt = await response.getReceiptWithSigner(signer);
+  clearRegistryCache();
+
+  const receiptWithTopic = receipt as {
+    consensusTimestamp?: { toString: () => string };
+    topicSequenceNumber?: { toNumber: () => number };
+    topicRunningHash?: { toString: (encoding?: string) => string };
+  };
+
+  return {
+    consensusTimestamp: receiptWithTopic.consensusTimestamp?.toString(),
+    sequenceNumber: receiptWithTopic.topicSequenceNumber?.toNumber(),
+    runningHash: receiptWithTopic.topicRunningHash?.toString("hex"),
+  };
+}
+
 export async function createOrUpdateProfile(
   input: ProfileInput,
   signer: DAppSigner,
@@ -392,7 +469,7 @@ export async function createOrUpdateProfile(
     emit({
       type: "start",
       step: "ensure-inbound",
-      message: "Creating inbox topic",
+      message: options.inboundFee ? "Creating fee-gated inbox topic" : "Creating inbox topic",
     });
     inboundTopicId = await ensureInboxTopic(
       signer,
@@ -400,6 +477,7 @@ export async function createOrUpdateProfile(
       undefined,
       payerAccountId,
       network,
+      options.inboundFee,
     );
     emit({
       type: "success",
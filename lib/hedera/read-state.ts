@@ -0,0 +1,85 @@
+import { fetchTopicMessages } from "@/lib/hedera/mirror";
+
+/** Last sequence number the user has seen, per topic. */
+export type ReadMarkers = Record<string, number>;
+
+export type TrackedTopic = {
+  topicId: string;
+  kind: "inbox" | "connection" | "flora";
+};
+
+/** Recent messages on a topic, from one reader's point of view. */
+export type TopicActivity = {
+  /** Sequence number of the newest message, or 0 when the topic has none. */
+  latest: number;
+  /** Sequence numbers of recent messages paid for by someone else. */
+  incoming: number[];
+};
+
+/** How many recent messages are scanned per topic; unread counts cap here. */
+const ACTIVITY_SCAN_LIMIT = 25;
+
+/** Advances a topic's marker; markers never move backwards. */
+export function markTopicRead(
+  markers: ReadMarkers,
+  topicId: string,
+  sequenceNumber: number,
+): ReadMarkers {
+  const current = markers[topicId];
+  if (current !== undefined && current >= sequenceNumber) {
+    return markers;
+  }
+  return { ...markers, [topicId]: sequenceNumber };
+}
+
+/** Counts messages from other senders past the topic's marker. */
+export function countUnread(
+  markers: ReadMarkers,
+  activity: Record<string, TopicActivity>,
+  topicId: string,
+): number {
+  const current = activity[topicId];
+  const seen = markers[topicId];
+  if (!current || seen === undefined) {
+    return 0;
+  }
+  return current.incoming.filter((sequenceNumber) => sequenceNumber > seen).length;
+}
+
+/**
+ * Gives topics seen for the first time a marker at their newest message, so
+ * history from before tracking started does not count as unread.
+ */
+export function baselineReadMarkers(
+  markers: ReadMarkers,
+  latest: Record<string, number>,
+): ReadMarkers {
+  let next = markers;
+  for (const [topicId, sequenceNumber] of Object.entries(latest)) {
+    if (next[topicId] === undefined) {
+      next = { ...next, [topicId]: sequenceNumber };
+    }
+  }
+  return next;
+}
+
+/**
+ * Reads a topic's newest messages. Messages paid for by `ignoredAccountIds`
+ * (the reader's own accounts, blocked senders) are not incoming.
+ */
+export async function fetchTopicActivity(
+  topicId: string,
+  ignoredAccountIds: Iterable<string> = [],
+): Promise<TopicActivity> {
+  const ignored = new Set(ignoredAccountIds);
+  const messages = await fetchTopicMessages(topicId, {
+    limit: ACTIVITY_SCAN_LIMIT,
+    order: "desc",
+  });
+  return {
+    latest: messages[0]?.sequenceNumber ?? 0,
+    incoming: messages
+      .filter((message) => !message.payer_account_id || !ignored.has(message.payer_account_id))
+      .map((message) => message.sequenceNumber),
+  };
+}
@@ -17,6 +17,7 @@ export type RegistryProfile = {
   profileTopicId?: string;
   profileType?: number;
   uaid?: string;
+  retired?: boolean;
   consensusTimestamp?: string;
   sequenceNumber?: number;
   raw?: Record<string, unknown>;
@@ -115,6 +116,16 @@ function extractProfileFromMessage(
     return null;
   }
 
+  if (payload.op === "delete") {
+    return {
+      accountId,
+      retired: true,
+      consensusTimestamp: message.consensusTimestamp,
+      sequenceNumber: message.sequenceNumber,
+      raw: payload,
+    };
+  }
+
   const alias = (payload.alias as string | undefined)?.toLowerCase();
   const displayName = payload.display_name as string | undefined;
   const inboundTopicId =
@@ -181,6 +192,9 @@ function dedupeProfiles(messages: MirrorTopicMessage[]): RegistryProfile[] {
       continue;
     }
     seen.add(profile.accountId);
+    if (profile.retired) {
+      continue;
+    }
     profiles.push(profile);
   }
 
@@ -0,0 +1,382 @@
+import { Buffer } from "buffer";
+import {
+  AccountDeleteTransaction,
+  AccountId,
+  AccountUpdateTransaction,
+  Hbar,
+  ScheduleCreateTransaction,
+  ScheduleId,
+  ScheduleSignTransaction,
+  TokenId,
+  TransferTransaction,
+  type Transaction,
+} from "@hashgraph/sdk";
+import { proto } from "@hashgraph/proto";
+import type { DAppSigner } from "@/lib/hedera/wallet-types";
+import { getHederaClient } from "@/lib/hedera/client";
+import { fetchSchedule, type MirrorSchedule } from "@/lib/hedera/mirror";
+
+export type ScheduledAction =
+  | {
+      kind: "hbar_transfer";
+      toAccountId: string;
+      amountHbar: number;
+    }
+  | {
+      kind: "token_transfer";
+      tokenId: string;
+      toAccountId: string;
+      amount: number;
+    }
+  | {
+      kind: "account_update";
+      memo?: string;
+      maxAutomaticTokenAssociations?: number;
+    }
+  | {
+      kind: "account_delete";
+      transferAccountId: string;
+    };
+
+export type ScheduleStatus = "pending" | "executed" | "expired" | "deleted";
+
+export type ScheduledTransfer = {
+  accountId: string;
+  /** Tinybars, or the token's smallest unit when `tokenId` is set. */
+  amount: number;
+  tokenId?: string;
+};
+
+export type ScheduledBody = {
+  /** Protobuf field name of the scheduled body; null when it is missing or malformed. */
+  transactionType: string | null;
+  transfers: ScheduledTransfer[];
+  /** Plain-language effects of non-transfer bodies. */
+  effects: string[];
+  /** False when the body carries changes the approver cannot be shown. */
+  describable: boolean;
+};
+
+export type ScheduleSnapshot = {
+  scheduleId: string;
+  status: ScheduleStatus;
+  signatureCount: number;
+  payerAccountId?: string;
+  creatorAccountId?: string;
+  expiresAt: number | null;
+  memo?: string;
+  body: ScheduledBody;
+};
+
+// Mirror nodes omit expiration_time for schedules that use the network default.
+const DEFAULT_SCHEDULE_LIFETIME_MS = 30 * 60 * 1000;
+
+function mirrorTimestampToMs(value?: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+  const seconds = Number(value);
+  return Number.isFinite(seconds) ? Math.round(seconds * 1000) : null;
+}
+
+function resolveScheduleExpiry(schedule: MirrorSchedule): number | null {
+  const explicit = mirrorTimestampToMs(schedule.expiration_time);
+  if (explicit !== null) {
+    return explicit;
+  }
+  const createdAt = mirrorTimestampToMs(schedule.consensus_timestamp);
+  return createdAt === null ? null : createdAt + DEFAULT_SCHEDULE_LIFETIME_MS;
+}
+
+type ProtoEntityId = {
+  shardNum?: unknown;
+  realmNum?: unknown;
+  accountNum?: unknown;
+  tokenNum?: unknown;
+};
+
+function formatEntityId(id: ProtoEntityId | null | undefined): string | null {
+  const num = id?.accountNum ?? id?.tokenNum;
+  if (num === null || num === undefined) {
+    return null;
+  }
+  return `${String(id?.shardNum ?? 0)}.${String(id?.realmNum ?? 0)}.${String(num)}`;
+}
+
+// Account updates the approval card can spell out; any other field (keys,
+// staking, hooks, ...) could change control of the account unseen.
+const DESCRIBABLE_ACCOUNT_UPDATE_FIELDS = new Set([
+  "accountIDToUpdate",
+  "memo",
+  "maxAutomaticTokenAssociations",
+]);
+
+function setFields(message: object): string[] {
+  return Object.entries(message)
+    .filter(([, value]) => value !== null && value !== undefined)
+    .filter(([, value]) => !Array.isArray(value) || value.length > 0)
+    .map(([field]) => field);
+}
+
+function decodeTransfers(transfer: proto.ICryptoTransferTransactionBody): ScheduledTransfer[] {
+  const transfers: ScheduledTransfer[] = [];
+  for (const entry of transfer.transfers?.accountAmounts ?? []) {
+    const accountId = formatEntityId(entry.accountID);
+    if (accountId) {
+      transfers.push({ accountId, amount: Number(entry.amount?.toString() ?? 0) });
+    }
+  }
+  for (const tokenTransfer of transfer.tokenTransfers ?? []) {
+    const tokenId = formatEntityId(tokenTransfer.token);
+    if (!tokenId) {
+      continue;
+    }
+    for (const entry of tokenTransfer.transfers ?? []) {
+      const accountId = formatEntityId(entry.accountID);
+      if (accountId) {
+        transfers.push({ accountId, tokenId, amount: Number(entry.amount?.toString() ?? 0) });
+      }
+    }
+  }
+  return transfers;
+}
+
+function describeAccountUpdate(update: proto.ICryptoUpdateTransactionBody): string[] | null {
+  const accountId = formatEntityId(update.accountIDToUpdate);
+  const fields = setFields(update);
+  if (!accountId || fields.some((field) => !DESCRIBABLE_ACCOUNT_UPDATE_FIELDS.has(field))) {
+    return null;
+  }
+  const effects = [`Update account ${accountId}`];
+  if (update.memo) {
+    effects.push(`Set memo to "${update.memo.value ?? ""}"`);
+  }
+  if (update.maxAutomaticTokenAssociations) {
+    effects.push(
+      `Set max automatic token associations to ${update.maxAutomaticTokenAssociations.value ?? 0}`,
+    );
+  }
+  return effects;
+}
+
+/**
+ * Decodes the mirror's base64 `transaction_body` into what the approver is
+ * signing. Bodies the app cannot fully spell out come back with
+ * `describable: false`.
+ */
+export function decodeScheduledBody(transactionBody?: string | null): ScheduledBody {
+  const undescribable = (transactionType: string | null): ScheduledBody => ({
+    transactionType,
+    transfers: [],
+    effects: [],
+    describable: false,
+  });
+  if (!transactionBody) {
+    return undescribable(null);
+  }
+  let body: proto.SchedulableTransactionBody;
+  try {
+    body = proto.SchedulableTransactionBody.decode(Buffer.from(transactionBody, "base64"));
+  } catch (error) {
+    void error;
+    return undescribable(null);
+  }
+  const transactionType = body.data ?? null;
+
+  if (body.cryptoTransfer) {
+    const hasNftTransfers = (body.cryptoTransfer.tokenTransfers ?? []).some(
+      (tokenTransfer) => (tokenTransfer.nftTransfers ?? []).length > 0,
+    );
+    if (hasNftTransfers) {
+      return undescribable(transactionType);
+    }
+    return {
+      transactionType,
+      transfers: decodeTransfers(body.cryptoTransfer),
+      effects: [],
+      describable: true,
+    };
+  }
+  if (body.cryptoUpdateAccount) {
+    const effects = describeAccountUpdate(body.cryptoUpdateAccount);
+    return effects
+      ? { transactionType, transfers: [], effects, describable: true }
+      : undescribable(transactionType);
+  }
+  if (body.cryptoDelete) {
+    const deleted = formatEntityId(body.cryptoDelete.deleteAccountID);
+    const beneficiary = formatEntityId(body.cryptoDelete.transferAccountID);
+    if (!deleted || !beneficiary) {
+      return undescribable(transactionType);
+    }
+    return {
+      transactionType,
+      transfers: [],
+      effects: [
+        `Delete account ${deleted} and send its entire remaining balance to ${beneficiary}`,
+      ],
+      describable: true,
+    };
+  }
+  return undescribable(transactionType);
+}
+
+export function buildScheduledInnerTransaction(
+  accountId: string,
+  action: ScheduledAction,
+): Transaction {
+  const source = AccountId.fromString(accountId);
+  switch (action.kind) {
+    case "hbar_transfer": {
+      if (!(action.amountHbar > 0)) {
+        throw new Error("Transfer amount must be greater than zero");
+      }
+      return new TransferTransaction()
+        .addHbarTransfer(source, new Hbar(-action.amountHbar))
+        .addHbarTransfer(AccountId.fromString(action.toAccountId), new Hbar(action.amountHbar));
+    }
+    case "token_transfer": {
+      if (!Number.isInteger(action.amount) || action.amount <= 0) {
+        throw new Error("Token amount must be a positive whole number of base units");
+      }
+      const tokenId = TokenId.fromString(action.tokenId);
+      return new TransferTransaction()
+        .addTokenTransfer(tokenId, source, -action.amount)
+        .addTokenTransfer(tokenId, AccountId.fromString(action.toAccountId), action.amount);
+    }
+    case "account_update": {
+      const transaction = new AccountUpdateTransaction().setAccountId(source);
+      if (typeof action.memo === "string") {
+        transaction.setAccountMemo(action.memo);
+      }
+      if (typeof action.maxAutomaticTokenAssociations === "number") {
+        transaction.setMaxAutomaticTokenAssociations(action.maxAutomaticTokenAssociations);
+      }
+      return transaction;
+    }
+    case "account_delete": {
+      if (action.transferAccountId === accountId) {
+        throw new Error("Remaining balance must go to a different account");
+      }
+      return new AccountDeleteTransaction()
+        .setAccountId(source)
+        .setTransferAccountId(AccountId.fromString(action.transferAccountId));
+    }
+    default:
+      throw new Error("Unsupported scheduled action");
+  }
+}
+
+export function describeScheduledAction(action: ScheduledAction): string {
+  switch (action.kind) {
+    case "hbar_transfer":
+      return `Transfer ${action.amountHbar} HBAR to ${action.toAccountId}`;
+    case "token_transfer":
+      return `Transfer ${action.amount} of ${action.tokenId} to ${action.toAccountId}`;
+    case "account_update": {
+      const changes: string[] = [];
+      if (typeof action.memo === "string") {
+        changes.push(`memo "${action.memo}"`);
+      }
+      if (typeof action.maxAutomaticTokenAssociations === "number") {
+        changes.push(`max auto associations ${action.maxAutomaticTokenAssociations}`);
+      }
+      return changes.length > 0 ? `Update account: ${changes.join(", ")}` : "Update account";
+    }
+    case "account_delete":
+      return `Delete account and send remaining balance to ${action.transferAccountId}`;
+    default:
+      return "Scheduled transaction";
+  }
+}
+
+export async function createScheduledTransaction(
+  signer: DAppSigner,
+  params: {
+    accountId: string;
+    action: ScheduledAction;
+    memo?: string;
+  },
+): Promise<string> {
+  const inner = buildScheduledInnerTransaction(params.accountId, params.action);
+  const tx = new ScheduleCreateTransaction()
+    .setScheduledTransaction(inner)
+    .setPayerAccountId(AccountId.fromString(params.accountId));
+  if (params.memo) {
+    tx.setScheduleMemo(params.memo.slice(0, 100));
+  }
+  tx.freezeWith(getHederaClient());
+  await signer.signTransaction(tx);
+  const response = await tx.executeWithSigner(signer);
+  const receipt = await response.getReceiptWithSigner(signer);
+  const scheduleId = receipt.scheduleId?.toString();
+  if (!scheduleId) {
+    throw new Error("Schedule creation did not return a scheduleId");
+  }
+  return scheduleId;
+}
+
+export async function signScheduledTransaction(
+  signer: DAppSigner,
+  scheduleId: string,
+): Promise<void> {
+  const tx = new ScheduleSignTransaction()
+    .setScheduleId(ScheduleId.fromString(scheduleId))
+    .freezeWith(getHederaClient());
+  await signer.signTransaction(tx);
+  const response = await tx.executeWithSigner(signer);
+  await response.getReceiptWithSigner(signer);
+}
+
+export function resolveScheduleStatus(
+  schedule: MirrorSchedule,
+  now: number = Date.now(),
+): ScheduleStatus {
+  if (schedule.deleted) {
+    return "deleted";
+  }
+  if (schedule.executed_timestamp) {
+    return "executed";
+  }
+  const expiresAt = resolveScheduleExpiry(schedule);
+  if (expiresAt !== null && expiresAt <= now) {
+    return "expired";
+  }
+  return "pending";
+}
+
+export async function fetchScheduleSnapshot(
+  scheduleId: string,
+  network?: "mainnet" | "testnet",
+): Promise<ScheduleSnapshot | null> {
+  const schedule = await fetchSchedule(scheduleId, network);
+  if (!schedule) {
+    return null;
+  }
+  return {
+    scheduleId: schedule.schedule_id ?? scheduleId,
+    status: resolveScheduleStatus(schedule),
+    signatureCount: schedule.signatures?.length ?? 0,
+    payerAccountId: schedule.payer_account_id,
+    creatorAccountId: schedule.creator_account_id,
+    expiresAt: resolveScheduleExpiry(schedule),
+    memo: schedule.memo,
+    body: decodeScheduledBody(schedule.transaction_body),
+  };
+}
+
+/** Looks up each schedule's status; schedules the mirror node has not indexed map to null. */
+export async function fetchScheduleStatuses(
+  scheduleIds: string[],
+  network?: "mainnet" | "testnet",
+): Promise<Map<string, ScheduleStatus | null>> {
+  const schedules = await Promise.all(
+    scheduleIds.map((scheduleId) => fetchSchedule(scheduleId, network)),
+  );
+  return new Map(
+    scheduleIds.map((scheduleId, index) => {
+      const schedule = schedules[index];
+      return [scheduleId, schedule ? resolveScheduleStatus(schedule) : null];
+    }),
+  );
+}
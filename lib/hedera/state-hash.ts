@@ -0,0 +1,140 @@
+import { Buffer } from "buffer";
+import type { PublicKey } from "@hashgraph/sdk";
+import { proto } from "@hashgraph/proto";
+import { fetchTopicMessages } from "@/lib/hedera/mirror";
+import { resolveFloraMemberKeys } from "@/lib/hedera/flora";
+
+export type TopicRunningHash = {
+  topicId: string;
+  runningHash: string;
+};
+
+export type FloraStateInput = {
+  accountId: string;
+  threshold: number;
+  memberAccountIds: string[];
+  topicIds: string[];
+};
+
+export type FloraStateHash = {
+  stateHash: string;
+  topics: string[];
+};
+
+export type StateHashVerification = "verified" | "mismatch" | "unverifiable";
+
+function entityParts(entityId: string): number[] {
+  return entityId.split(".").map((part) => Number(part));
+}
+
+export function compareEntityIds(a: string, b: string): number {
+  const left = entityParts(a);
+  const right = entityParts(b);
+  for (let index = 0; index < Math.max(left.length, right.length); index += 1) {
+    const diff = (left[index] ?? 0) - (right[index] ?? 0);
+    if (diff !== 0) {
+      return Number.isNaN(diff) ? a.localeCompare(b) : diff;
+    }
+  }
+  return 0;
+}
+
+function toHex(value: string): string {
+  const trimmed = value.trim().replace(/^0x/i, "");
+  if (/^[0-9a-f]*$/i.test(trimmed)) {
+    return trimmed.toLowerCase();
+  }
+  return Buffer.from(trimmed, "base64").toString("hex");
+}
+
+async function sha384Hex(input: string): Promise<string> {
+  const digest = await globalThis.crypto.subtle.digest(
+    "SHA-384",
+    new TextEncoder().encode(input),
+  );
+  return Buffer.from(digest).toString("hex");
+}
+
+/**
+ * HCS-17 threshold key fingerprint: the deterministic protobuf encoding of a
+ * ThresholdKey whose member keys are sorted by their raw bytes.
+ */
+export function computeKeyFingerprint(keys: PublicKey[], threshold: number): string {
+  const sorted = [...keys].sort((a, b) =>
+    Buffer.from(a.toBytesRaw()).toString("hex").localeCompare(
+      Buffer.from(b.toBytesRaw()).toString("hex"),
+    ),
+  );
+  const encoded = proto.Key.encode({
+    thresholdKey: {
+      threshold,
+      keys: { keys: sorted.map((key) => key._toProtobufKey()) },
+    },
+  }).finish();
+  return Buffer.from(encoded).toString("hex");
+}
+
+export async function computeStateHash(input: {
+  accountId: string;
+  publicKey: string;
+  topics: TopicRunningHash[];
+}): Promise<string> {
+  const topicSegments = [...input.topics]
+    .sort((a, b) => compareEntityIds(a.topicId, b.topicId))
+    .map((topic) => `${topic.topicId}_${toHex(topic.runningHash)}`);
+  const concatenated = [...topicSegments, `${input.accountId}_${input.publicKey}`].join("|");
+  return sha384Hex(concatenated);
+}
+
+/**
+ * Reads the latest running hash for each topic, optionally as of a consensus
+ * timestamp so a published hash can be recomputed later.
+ */
+export async function fetchTopicRunningHashes(
+  topicIds: string[],
+  options: { before?: string } = {},
+): Promise<TopicRunningHash[]> {
+  return Promise.all(
+    topicIds.map(async (topicId) => {
+      const [latest] = await fetchTopicMessages(topicId, {
+        limit: 1,
+        order: "desc",
+        timestamp: options.before ? `lt:${options.before}` : undefined,
+      });
+      return { topicId, runningHash: latest?.runningHash ?? "" };
+    }),
+  );
+}
+
+export async function computeFloraStateHash(
+  flora: FloraStateInput,
+  options: { before?: string } = {},
+): Promise<FloraStateHash> {
+  const [memberKeys, topics] = await Promise.all([
+    resolveFloraMemberKeys(flora.memberAccountIds),
+    fetchTopicRunningHashes(flora.topicIds, options),
+  ]);
+  const stateHash = await computeStateHash({
+    accountId: flora.accountId,
+    publicKey: computeKeyFingerprint(memberKeys, flora.threshold),
+    topics,
+  });
+  return {
+    stateHash,
+    topics: topics.map((topic) => topic.topicId).sort(compareEntityIds),
+  };
+}
+
+export async function verifyFloraStateHash(
+  flora: FloraStateInput,
+  expectedHash: string,
+  consensusTimestamp: string,
+): Promise<StateHashVerification> {
+  try {
+    const { stateHash } = await computeFloraStateHash(flora, { before: consensusTimestamp });
+    return stateHash === expectedHash.toLowerCase() ? "verified" : "mismatch";
+  } catch (error) {
+    void error;
+    return "unverifiable";
+  }
+}
@@ -0,0 +1,184 @@
+"use client";
+
+import {
+  AccountId,
+  TokenAssociateTransaction,
+  TokenDissociateTransaction,
+  TokenId,
+  TransactionId,
+} from "@hashgraph/sdk";
+import type { DAppSigner } from "@/lib/hedera/wallet-types";
+import {
+  fetchAccountNfts,
+  fetchTokenInfo,
+  lookupAccount,
+  type MirrorTokenInfo,
+} from "@/lib/hedera/mirror";
+import { resolveNodeAccountIds } from "@/lib/hedera/petals";
+
+type Network = "mainnet" | "testnet";
+
+export type FungibleHolding = {
+  tokenId: string;
+  name?: string;
+  symbol?: string;
+  decimals: number;
+  balance: number;
+  formattedBalance: string;
+};
+
+export type NftHolding = {
+  tokenId: string;
+  serialNumber: number;
+  name?: string;
+  symbol?: string;
+  metadata?: string;
+};
+
+export type TokenPortfolio = {
+  accountId: string;
+  fungible: FungibleHolding[];
+  nfts: NftHolding[];
+  associatedTokenIds: string[];
+  maxAutomaticAssociations?: number;
+};
+
+const tokenInfoCache = new Map<string, Promise<MirrorTokenInfo | null>>();
+
+function getTokenInfo(tokenId: string, network?: Network): Promise<MirrorTokenInfo | null> {
+  const key = `${network ?? "default"}:${tokenId}`;
+  const cached = tokenInfoCache.get(key);
+  if (cached) {
+    return cached;
+  }
+  const pending = fetchTokenInfo(tokenId, network).catch(() => {
+    tokenInfoCache.delete(key);
+    return null;
+  });
+  tokenInfoCache.set(key, pending);
+  return pending;
+}
+
+export function formatTokenAmount(balance: number, decimals: number): string {
+  if (decimals <= 0) {
+    return balance.toLocaleString();
+  }
+  const raw = BigInt(Math.trunc(balance));
+  const divisor = BigInt(10) ** BigInt(decimals);
+  const whole = raw / divisor;
+  const fraction = (raw % divisor).toString().padStart(decimals, "0").replace(/0+$/u, "");
+  return fraction ? `${whole.toLocaleString()}.${fraction}` : whole.toLocaleString();
+}
+
+function decodeNftMetadata(metadata?: string): string | undefined {
+  if (!metadata) {
+    return undefined;
+  }
+  try {
+    return atob(metadata);
+  } catch {
+    return metadata;
+  }
+}
+
+/**
+ * Builds a portfolio from the account's mirror balance entry, enriching each
+ * token with its symbol and decimals and listing NFT serials held.
+ */
+export async function fetchTokenPortfolio(
+  accountId: string,
+  network?: Network,
+): Promise<TokenPortfolio> {
+  const [account, nfts] = await Promise.all([
+    lookupAccount(accountId, network),
+    fetchAccountNfts(accountId, { network }).catch(() => []),
+  ]);
+  const balances = account?.balance?.tokens ?? [];
+  const tokenIds = Array.from(
+    new Set([...balances.map((token) => token.token_id), ...nfts.map((nft) => nft.token_id)]),
+  );
+  const infos = new Map(
+    await Promise.all(
+      tokenIds.map(async (tokenId) => [tokenId, await getTokenInfo(tokenId, network)] as const),
+    ),
+  );
+
+  const fungible = balances
+    .filter((token) => infos.get(token.token_id)?.type !== "NON_FUNGIBLE_UNIQUE")
+    .map<FungibleHolding>((token) => {
+      const info = infos.get(token.token_id);
+      const decimals = Number.parseInt(info?.decimals ?? "0", 10) || 0;
+      return {
+        tokenId: token.token_id,
+        name: info?.name,
+        symbol: info?.symbol,
+        decimals,
+        balance: token.balance,
+        formattedBalance: formatTokenAmount(token.balance, decimals),
+      };
+    });
+
+  return {
+    accountId,
+    fungible,
+    nfts: nfts.map((nft) => ({
+      tokenId: nft.token_id,
+      serialNumber: nft.serial_number,
+      name: infos.get(nft.token_id)?.name,
+      symbol: infos.get(nft.token_id)?.symbol,
+      metadata: decodeNftMetadata(nft.metadata),
+    })),
+    associatedTokenIds: balances.map((token) => token.token_id),
+    maxAutomaticAssociations: account?.max_automatic_token_associations,
+  };
+}
+
+export async function associateTokens({
+  signer,
+  accountId,
+  tokenIds,
+}: {
+  signer: DAppSigner;
+  accountId: string;
+  tokenIds: string[];
+}): Promise<void> {
+  if (tokenIds.length === 0) {
+    throw new Error("Enter at least one token ID to associate");
+  }
+
+  const transaction = new TokenAssociateTransaction()
+    .setAccountId(AccountId.fromString(accountId))
+    .setTokenIds(tokenIds.map((tokenId) => TokenId.fromString(tokenId)))
+    .setTransactionId(TransactionId.generate(AccountId.fromString(accountId)))
+    .setNodeAccountIds(resolveNodeAccountIds());
+
+  await transaction.freeze();
+
+  const response = await transaction.executeWithSigner(signer);
+  await response.getReceiptWithSigner(signer);
+}
+
+export async function dissociateTokens({
+  signer,
+  accountId,
+  tokenIds,
+}: {
+  signer: DAppSigner;
+  accountId: string;
+  tokenIds: string[];
+}): Promise<void> {
+  if (tokenIds.length === 0) {
+    throw new Error("Select at least one token to dissociate");
+  }
+
+  const transaction = new TokenDissociateTransaction()
+    .setAccountId(AccountId.fromString(accountId))
+    .setTokenIds(tokenIds.map((tokenId) => TokenId.fromString(tokenId)))
+    .setTransactionId(TransactionId.generate(AccountId.fromString(accountId)))
+    .setNodeAccountIds(resolveNodeAccountIds());
+
+  await transaction.freeze();
+
+  const response = await transaction.executeWithSigner(signer);
+  await response.getReceiptWithSigner(signer);
+}
@@ -0,0 +1,175 @@
+import {
+  AccountId,
+  CustomFeeLimit,
+  CustomFixedFee,
+  Hbar,
+  HbarUnit,
+  PublicKey,
+  TokenId,
+} from "@hashgraph/sdk";
+import { fetchTokenInfo, fetchTopicInfo, lookupAccount } from "@/lib/hedera/mirror";
+import { publicKeyFromMirrorKey } from "@/lib/hedera/keys";
+import { formatTokenAmount } from "@/lib/hedera/tokens";
+
+type Network = "mainnet" | "testnet";
+
+const MAX_FEE_EXEMPT_KEYS = 10;
+
+export type InboundTopicFeeConfig = {
+  /** Whole HBAR, or whole token units when `tokenId` is set. */
+  amount: number;
+  tokenId?: string;
+  collectorAccountId: string;
+  exemptAccountIds?: string[];
+};
+
+export type InboundTopicFeeSettings = {
+  customFees: CustomFixedFee[];
+  feeExemptKeys: PublicKey[];
+};
+
+export type TopicFee = {
+  /** Tinybars, or the token's smallest unit. */
+  amount: number;
+  tokenId?: string;
+  collectorAccountId?: string;
+  formatted: string;
+};
+
+export type TopicFeeSchedule = {
+  topicId: string;
+  fees: TopicFee[];
+  exempt: boolean;
+};
+
+async function resolveAccountKey(accountId: string, network?: Network): Promise<PublicKey> {
+  const account = await lookupAccount(accountId, network).catch(() => null);
+  const key = publicKeyFromMirrorKey(account?.key);
+  if (!key) {
+    throw new Error(`Unable to resolve a public key for fee-exempt account ${accountId}`);
+  }
+  return key;
+}
+
+function toSmallestUnit(amount: number, decimals: number): string {
+  const [whole, fraction = ""] = amount.toFixed(decimals).split(".");
+  return `${whole}${fraction}`.replace(/^0+(?=\d)/u, "");
+}
+
+/**
+ * Resolves a HIP-991 fee configuration into the custom fee and fee-exempt key
+ * lists for a fee-gated HCS-10 inbound topic. The owner key is always exempt.
+ */
+export async function resolveInboundTopicFees(
+  config: InboundTopicFeeConfig,
+  ownerKey: PublicKey,
+  network?: Network,
+): Promise<InboundTopicFeeSettings> {
+  if (!Number.isFinite(config.amount) || config.amount <= 0) {
+    throw new Error("Inbound topic fee must be greater than zero");
+  }
+
+  const fee = new CustomFixedFee().setFeeCollectorAccountId(
+    AccountId.fromString(config.collectorAccountId),
+  );
+  if (config.tokenId) {
+    const token = await fetchTokenInfo(config.tokenId, network);
+    if (!token) {
+      throw new Error(`Token ${config.tokenId} was not found on the mirror node`);
+    }
+    if (token.type === "NON_FUNGIBLE_UNIQUE") {
+      throw new Error("Inbound topic fees must use a fungible token");
+    }
+    fee
+      .setDenominatingTokenId(TokenId.fromString(config.tokenId))
+      .setAmount(BigInt(toSmallestUnit(config.amount, Number(token.decimals ?? 0))));
+  } else {
+    fee.setHbarAmount(Hbar.from(config.amount, HbarUnit.Hbar));
+  }
+
+  const exemptAccountIds = Array.from(new Set(config.exemptAccountIds ?? []));
+  if (exemptAccountIds.length + 1 > MAX_FEE_EXEMPT_KEYS) {
+    throw new Error(`At most ${MAX_FEE_EXEMPT_KEYS - 1} accounts can be fee-exempt`);
+  }
+  const exemptKeys = await Promise.all(
+    exemptAccountIds.map((accountId) => resolveAccountKey(accountId, network)),
+  );
+
+  return { customFees: [fee], feeExemptKeys: [ownerKey, ...exemptKeys] };
+}
+
+async function formatTopicFee(
+  amount: number,
+  tokenId: string | undefined,
+  network?: Network,
+): Promise<string> {
+  if (!tokenId) {
+    return `${Hbar.fromTinybars(amount).toBigNumber().toString()} ℏ`;
+  }
+  const token = await fetchTokenInfo(tokenId, network).catch(() => null);
+  const decimals = Number(token?.decimals ?? 0);
+  return `${formatTokenAmount(amount, decimals)} ${token?.symbol ?? tokenId}`;
+}
+
+/**
+ * Reads the HIP-991 fee schedule of a topic from the mirror node. `exempt` is
+ * true when the payer's key is on the topic's fee-exempt list.
+ */
+export async function fetchTopicFeeSchedule(
+  topicId: string,
+  payerAccountId?: string | null,
+  network?: Network,
+): Promise<TopicFeeSchedule> {
+  const info = await fetchTopicInfo(topicId, network);
+  const fixedFees = info?.custom_fees?.fixed_fees ?? [];
+  if (fixedFees.length === 0) {
+    return { topicId, fees: [], exempt: false };
+  }
+
+  const fees = await Promise.all(
+    fixedFees.map(async (fee) => ({
+      amount: fee.amount,
+      tokenId: fee.denominating_token_id ?? undefined,
+      collectorAccountId: fee.collector_account_id ?? undefined,
+      formatted: await formatTopicFee(fee.amount, fee.denominating_token_id ?? undefined, network),
+    })),
+  );
+
+  let exempt = false;
+  const exemptList = info?.fee_exempt_key_list ?? [];
+  if (payerAccountId && exemptList.length > 0) {
+    const payer = await lookupAccount(payerAccountId, network).catch(() => null);
+    const payerKey = publicKeyFromMirrorKey(payer?.key)?.toStringRaw();
+    exempt = Boolean(
+      payerKey && exemptList.some((key) => publicKeyFromMirrorKey(key)?.toStringRaw() === payerKey),
+    );
+  }
+
+  return { topicId, fees, exempt };
+}
+
+export function describeTopicFees(schedule: TopicFeeSchedule): string | null {
+  if (schedule.fees.length === 0) {
+    return null;
+  }
+  const total = schedule.fees.map((fee) => fee.formatted).join(" + ");
+  return schedule.exempt ? `${total} (you are exempt)` : total;
+}
+
+/**
+ * Caps the custom fees a submission may be charged at the schedule the user
+ * was shown, so a fee raised before consensus fails the transaction instead.
+ */
+export function buildCustomFeeLimits(
+  schedule: TopicFeeSchedule,
+  payerAccountId: string,
+): CustomFeeLimit[] {
+  if (schedule.exempt || schedule.fees.length === 0) {
+    return [];
+  }
+  const fees = schedule.fees.map((fee) => {
+    const fixed = new CustomFixedFee().setAmount(fee.amount);
+    return fee.tokenId ? fixed.setDenominatingTokenId(TokenId.fromString(fee.tokenId)) : fixed;
+  });
+  return [new CustomFeeLimit().setAccountId(AccountId.fromString(payerAccountId)).setFees(fees)];
+}
@@ -0,0 +1,169 @@
+const DB_NAME = "petal-v1-message-index";
+const DB_VERSION = 1;
+const STORE = "messages";
+const TERMS_INDEX = "terms";
+const MAX_TERMS_PER_MESSAGE = 200;
+
+export type SearchSource = "direct-message" | "connection" | "flora";
+
+export type IndexedMessage = {
+  /** Identity whose view the message was fetched in; searches never cross identities. */
+  ownerAccountId: string;
+  source: SearchSource;
+  topicId: string;
+  sequenceNumber: number;
+  consensusTimestamp: string;
+  sender: string;
+  conversation: string;
+  text: string;
+  floraId?: string;
+};
+
+export type MessageSearchHit = IndexedMessage & {
+  id: string;
+  href: string;
+};
+
+export type MessageLinkTarget = {
+  topicId: string;
+  sequenceNumber: number;
+  floraId?: string;
+};
+
+type StoredMessage = IndexedMessage & {
+  id: string;
+  terms: string[];
+};
+
+export function tokenizeMessageText(text: string): string[] {
+  const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return Array.from(new Set(tokens.filter((token) => token.length > 1))).slice(
+    0,
+    MAX_TERMS_PER_MESSAGE,
+  );
+}
+
+export function messageDeepLink(message: IndexedMessage): string {
+  const params = new URLSearchParams({
+    topic: message.topicId,
+    seq: String(message.sequenceNumber),
+  });
+  if (message.source === "flora" && message.floraId) {
+    params.set("flora", message.floraId);
+    return `/flora?${params.toString()}`;
+  }
+  return `/messages?${params.toString()}`;
+}
+
+export function parseMessageDeepLink(params: URLSearchParams): MessageLinkTarget | null {
+  const topicId = params.get("topic");
+  const sequenceNumber = Number(params.get("seq"));
+  if (!topicId || !Number.isInteger(sequenceNumber) || sequenceNumber <= 0) {
+    return null;
+  }
+  const floraId = params.get("flora");
+  return floraId ? { topicId, sequenceNumber, floraId } : { topicId, sequenceNumber };
+}
+
+function messageKey(message: IndexedMessage): string {
+  return `${message.ownerAccountId}:${message.topicId}:${message.sequenceNumber}`;
+}
+
+function ownerTerm(ownerAccountId: string, token: string): string {
+  return `${ownerAccountId}|${token}`;
+}
+
+function timestampValue(value: string): number {
+  return Number(value) || 0;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("Message index request failed"));
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openMessageIndex(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("IndexedDB is not available"));
+  }
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: "id" });
+        store.createIndex(TERMS_INDEX, "terms", { multiEntry: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error("Failed to open the message index"));
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/** Adds or replaces messages in the local index. Empty messages are skipped. */
+export async function indexMessages(messages: IndexedMessage[]): Promise<void> {
+  const entries = messages.filter((message) => message.text.trim());
+  if (entries.length === 0) {
+    return;
+  }
+  const db = await openMessageIndex();
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORE, "readwrite");
+    const store = transaction.objectStore(STORE);
+    for (const message of entries) {
+      const terms = tokenizeMessageText(`${message.text} ${message.sender} ${message.conversation}`);
+      store.put({
+        ...message,
+        id: messageKey(message),
+        terms: terms.map((token) => ownerTerm(message.ownerAccountId, token)),
+      } satisfies StoredMessage);
+    }
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error ?? new Error("Failed to index messages"));
+    transaction.onabort = () => reject(transaction.error ?? new Error("Message indexing aborted"));
+  });
+}
+
+/**
+ * Finds messages containing every word of the query, matching each word as a
+ * prefix. Newest hits come first.
+ */
+export async function searchMessages(
+  ownerAccountId: string,
+  query: string,
+  limit = 20,
+): Promise<MessageSearchHit[]> {
+  const tokens = tokenizeMessageText(query);
+  if (tokens.length === 0) {
+    return [];
+  }
+  const [lead, ...rest] = [...tokens].sort((a, b) => b.length - a.length);
+  const prefix = ownerTerm(ownerAccountId, lead!);
+  const db = await openMessageIndex();
+  const index = db.transaction(STORE, "readonly").objectStore(STORE).index(TERMS_INDEX);
+  const candidates = (await requestToPromise(
+    index.getAll(IDBKeyRange.bound(prefix, `${prefix}\uffff`)),
+  )) as StoredMessage[];
+
+  const unique = new Map(candidates.map((message) => [message.id, message]));
+  return Array.from(unique.values())
+    .filter((message) =>
+      rest.every((token) => {
+        const term = ownerTerm(ownerAccountId, token);
+        return message.terms.some((candidate) => candidate.startsWith(term));
+      }),
+    )
+    .sort((a, b) => timestampValue(b.consensusTimestamp) - timestampValue(a.consensusTimestamp))
+    .slice(0, limit)
+    .map(({ terms, ...message }) => {
+      void terms;
+      return { ...message, href: messageDeepLink(message) };
+    });
+}
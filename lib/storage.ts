@@ -10,6 +10,12 @@ export const storageNamespaces = {
   profile: "profile",
   profileDocument: "profile-document",
   connections: "connections",
+  petalBatch: "petal-batch",
+  connectionKeys: "connection-keys",
+  inboxPolicy: "inbox-policy",
+  autoAccept: "auto-accept",
+  autoAcceptLog: "auto-accept-log",
+  readState: "read-state",
 } as const;
 
 type Namespace = string;
@@ -30,12 +30,28 @@ vi.mock("@/lib/storage", () => ({
   storageNamespaces: { petals: "petals" },
 }));
 
+const discoveryModule = vi.hoisted(() => ({
+  discoverPetalAccounts: vi.fn(),
+  getSignerPublicKeyString: vi.fn(async () => "base-public-key"),
+}));
+
+vi.mock("@/lib/hedera/petals", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/hedera/petals")>()),
+  discoverPetalAccounts: discoveryModule.discoverPetalAccounts,
+}));
+
+vi.mock("@/lib/hedera/keys", () => ({
+  getSignerPublicKeyString: discoveryModule.getSignerPublicKeyString,
+}));
+
 import { IdentityProvider, useIdentity } from "../identity-provider";
 
 type IdentityContextValue = {
   activeIdentity: { type: "base" | "petal"; accountId: string; alias?: string } | null;
   baseAccountId: string | null;
   petals: PetalRecord[];
+  discoveringPetals: boolean;
+  rescanPetals: () => Promise<number>;
   addPetal: (petal: PetalRecord) => void;
   updatePetal: (accountId: string, updates: Partial<PetalRecord>) => void;
   removePetal: (accountId: string) => void;
@@ -57,6 +73,8 @@ describe("IdentityProvider", () => {
     walletModule.sdk.dAppConnector.getSigner.mockClear();
     storageModule.readAccountData.mockReset();
     storageModule.writeAccountData.mockReset();
+    discoveryModule.discoverPetalAccounts.mockReset();
+    discoveryModule.discoverPetalAccounts.mockResolvedValue([]);
   });
 
   it("initialises from storage and switches identities", async () => {
@@ -158,4 +176,50 @@ describe("IdentityProvider", () => {
       accountId: "0.0.1001",
     });
   });
+
+  it("discovers petals sharing the base key and merges them into storage", async () => {
+    storageModule.readAccountData.mockReturnValue([
+      { accountId: "0.0.2001", alias: "petal-a", createdAt: "2024-01-01T00:00:00.000Z" },
+    ]);
+    discoveryModule.discoverPetalAccounts.mockResolvedValue([
+      { accountId: "0.0.2001", balanceHbar: 5, verified: true, createdAt: "2025-01-01" },
+      { accountId: "0.0.2002", alias: "fresh", verified: true, createdAt: "2025-01-01" },
+    ]);
+
+    let latestIdentity!: IdentityContextValue;
+    render(
+      <IdentityProvider>
+        <IdentityConsumer onReady={(value) => {
+          latestIdentity = value;
+        }} />
+      </IdentityProvider>,
+    );
+
+    await waitFor(() => {
+      expect(latestIdentity.petals).toHaveLength(2);
+    });
+    expect(discoveryModule.discoverPetalAccounts).toHaveBeenCalledWith(
+      "0.0.1001",
+      "base-public-key",
+    );
+    expect(latestIdentity.petals[0]).toMatchObject({
+      accountId: "0.0.2001",
+      alias: "petal-a",
+      balanceHbar: 5,
+      createdAt: "2024-01-01T00:00:00.000Z",
+    });
+    expect(storageModule.writeAccountData).toHaveBeenLastCalledWith(
+      "petals",
+      "0.0.1001",
+      expect.arrayContaining([expect.objectContaining({ accountId: "0.0.2002" })]),
+      { ttlMs: 24 * 60 * 60 * 1000 },
+    );
+
+    let added = -1;
+    await act(async () => {
+      added = await latestIdentity.rescanPetals();
+    });
+    expect(added).toBe(0);
+    expect(latestIdentity.discoveringPetals).toBe(false);
+  });
 });
@@ -7,78 +7,100 @@ import {
   useEffect,
   useMemo,
   useReducer,
+  useRef,
   type ReactNode,
 } from "react";
 import type { DAppSigner } from "@/lib/hedera/wallet-types";
 import {
+  buildFloraKeyList,
+  createFloraAccount,
   createFloraTopics,
+  resolveFloraMemberKeys,
+  scheduleFloraTopicKeys,
   sendFloraCreateRequest,
   announceFloraOnCommunicationTopic,
   sendFloraJoinAccept,
   sendFloraCreated,
-  type FloraTopics,
   type FloraCreateRequestPayload,
+  type FloraJoinAcceptedPayload,
+  type FloraMember,
+  type FloraRecord,
 } from "@/lib/hedera/flora";
+import { normalizePurposeTags, publishFloraToRegistry } from "@/lib/hedera/flora-registry";
+import {
+  discoverFloraInvitations,
+  reconcileFlora,
+  type FloraInvitation,
+  type FloraReconciliation,
+} from "@/lib/hedera/flora-reconciler";
+import { resolveProfileByIdentifier } from "@/lib/hedera/profile-lookup";
 import type { RegistryProfile } from "@/lib/hedera/registry";
+import { getLogger } from "@/lib/logger";
 import { readAccountData, writeAccountData, storageNamespaces } from "@/lib/storage";
 import { useIdentity } from "@/providers/identity-provider";
+import { useWallet } from "@/providers/wallet-provider";
 
-export type FloraMember = {
-  accountId: string;
-  alias?: string;
-  inboundTopicId?: string;
-  status: "self" | "invited" | "accepted";
-};
-
-export type FloraRecord = {
-  id: string;
-  name: string;
-  topics: FloraTopics;
-  members: FloraMember[];
-  status: "pending" | "active";
-  createdAt: string;
-  initiatorAccountId: string;
-};
+export type { FloraMember, FloraRecord } from "@/lib/hedera/flora";
 
 export type FloraInvite = {
   id: string;
   flora: FloraRecord;
-  invitation: FloraCreateRequestPayload;
+  invitation: FloraCreateRequestPayload | FloraJoinAcceptedPayload;
   receivedAt: string;
 };
 
+export type FloraMembershipChange = {
+  members: string[];
+  threshold: number;
+  aliases?: Record<string, string | undefined>;
+  dissolved?: boolean;
+};
+
+export function isFloraArchived(flora: FloraRecord): boolean {
+  return flora.status === "removed" || flora.status === "dissolved";
+}
+
 export type FloraPreference = {
   muted: boolean;
+  declined?: boolean;
 };
 
 type FloraState = {
   floras: FloraRecord[];
   invites: FloraInvite[];
   preferences: Record<string, FloraPreference>;
+  reconciling: boolean;
 };
 
 type FloraAction =
   | { type: "setFloras"; floras: FloraRecord[] }
   | { type: "setInvites"; invites: FloraInvite[] }
-  | { type: "setPreferences"; preferences: Record<string, FloraPreference> };
+  | { type: "setPreferences"; preferences: Record<string, FloraPreference> }
+  | { type: "setReconciling"; reconciling: boolean };
 
 const initialState: FloraState = {
   floras: [],
   invites: [],
   preferences: {},
+  reconciling: false,
 };
 
 const FloraContext = createContext<{
   floras: FloraRecord[];
   invites: FloraInvite[];
   preferences: Record<string, FloraPreference>;
+  reconciling: boolean;
+  refreshFloras: () => Promise<void>;
   createFlora: (
     name: string,
     invitees: RegistryProfile[],
+    threshold: number,
     signer: DAppSigner,
     initiatorAlias?: string,
+    purposeTags?: string[],
   ) => Promise<FloraRecord>;
-  ingestFloraInvite: (message: FloraCreateRequestPayload) => void;
+  ingestFloraInvite: (message: FloraCreateRequestPayload | FloraJoinAcceptedPayload) => void;
+  syncFloraMembership: (floraId: string, change: FloraMembershipChange) => void;
   acceptInvite: (inviteId: string, signer: DAppSigner) => Promise<void>;
   declineInvite: (inviteId: string) => void;
   toggleMute: (floraId: string) => void;
@@ -93,15 +115,24 @@ function floraReducer(state: FloraState, action: FloraAction): FloraState {
       return { ...state, invites: action.invites };
     case "setPreferences":
       return { ...state, preferences: action.preferences };
+    case "setReconciling":
+      return { ...state, reconciling: action.reconciling };
     default:
       return state;
   }
 }
 
 export function FloraProvider({ children }: { children: ReactNode }) {
-  const { activeIdentity } = useIdentity();
+  const { activeIdentity, petals } = useIdentity();
+  const { network } = useWallet();
   const [state, dispatch] = useReducer(floraReducer, initialState);
   const activeAccountId = activeIdentity?.accountId ?? null;
+  const activeAccountRef = useRef<string | null>(activeAccountId);
+  activeAccountRef.current = activeAccountId;
+  // Only the inbound topic matters here; balance and metadata updates to the
+  // petal list must not trigger another full reconcile.
+  const activePetalInboundTopicId =
+    petals.find((petal) => petal.accountId === activeAccountId)?.inboundTopicId ?? null;
 
   useEffect(() => {
     if (!activeAccountId) {
@@ -164,18 +195,140 @@ export function FloraProvider({ children }: { children: ReactNode }) {
     [],
   );
 
+  const refreshFloras = useCallback(async () => {
+    const accountId = activeAccountRef.current;
+    if (!accountId) {
+      return;
+    }
+    const logger = getLogger("flora-provider");
+    dispatch({ type: "setReconciling", reconciling: true });
+    try {
+      const cachedFloras = readAccountData<FloraRecord[]>(storageNamespaces.floras, accountId, []);
+      const cachedInvites = readAccountData<FloraInvite[]>(
+        storageNamespaces.floraInvites,
+        accountId,
+        [],
+      );
+      const preferences = readAccountData<Record<string, FloraPreference>>(
+        storageNamespaces.floraPrefs,
+        accountId,
+        {},
+      );
+
+      let inboundTopicId =
+        (accountId === activeAccountId ? activePetalInboundTopicId : null) ?? undefined;
+      if (!inboundTopicId) {
+        const profile = await resolveProfileByIdentifier(accountId, {
+          network,
+          requireInboundTopic: true,
+        }).catch(() => null);
+        inboundTopicId = profile?.inboundTopicId;
+      }
+      const discovered = inboundTopicId
+        ? await discoverFloraInvitations(inboundTopicId, accountId).catch((error) => {
+            logger.warn("Failed to scan inbox for flora invitations", error);
+            return [] as FloraInvitation[];
+          })
+        : [];
+
+      // Cached records and invitations only say which communication topics to
+      // check; everything else is rebuilt from the topics themselves.
+      const floraIds = new Set<string>([
+        ...cachedFloras.map((flora) => flora.id),
+        ...cachedInvites.map((invite) => invite.flora.id),
+        ...discovered.map((invitation) => invitation.flora.communicationTopicId),
+      ]);
+
+      const floras: FloraRecord[] = [];
+      const invites: FloraInvite[] = [];
+      for (const floraId of floraIds) {
+        const cachedFlora = cachedFloras.find((flora) => flora.id === floraId);
+        const cachedInvite = cachedInvites.find((invite) => invite.flora.id === floraId);
+        let result: FloraReconciliation | null = null;
+        try {
+          result = await reconcileFlora(floraId, { accountId, network });
+        } catch (error) {
+          logger.warn("Failed to reconcile flora", floraId, error);
+        }
+
+        if (!result) {
+          // Mirror lag or an outage: fall back to whatever the cache still holds.
+          if (cachedFlora) {
+            floras.push(cachedFlora);
+          } else if (cachedInvite) {
+            invites.push(cachedInvite);
+          }
+          continue;
+        }
+        if (!result.awaitingAcceptance) {
+          floras.push({ ...result.flora, purposeTags: result.flora.purposeTags ?? cachedFlora?.purposeTags });
+          continue;
+        }
+        if (!preferences[floraId]?.declined) {
+          invites.push({
+            id: `${floraId}:${accountId}`,
+            flora: result.flora,
+            invitation: result.invitation,
+            receivedAt: cachedInvite?.receivedAt ?? result.flora.createdAt,
+          });
+        }
+      }
+
+      if (activeAccountRef.current !== accountId) {
+        return;
+      }
+      dispatch({ type: "setFloras", floras });
+      dispatch({ type: "setInvites", invites });
+      persistFloras(accountId, floras);
+      persistInvites(accountId, invites);
+    } finally {
+      dispatch({ type: "setReconciling", reconciling: false });
+    }
+  }, [activeAccountId, activePetalInboundTopicId, network, persistFloras, persistInvites]);
+
+  useEffect(() => {
+    if (!activeAccountId) {
+      return;
+    }
+    void refreshFloras();
+  }, [activeAccountId, refreshFloras]);
+
   const createFlora = useCallback(
     async (
       name: string,
       invitees: RegistryProfile[],
+      threshold: number,
       signer: DAppSigner,
       initiatorAlias?: string,
+      purposeTags: string[] = [],
     ) => {
       if (!activeAccountId) {
         throw new Error("Connect an identity before creating a flora");
       }
+      const tags = normalizePurposeTags(purposeTags);
+
+      const memberAccountIds = Array.from(
+        new Set([activeAccountId, ...invitees.map((invitee) => invitee.accountId)]),
+      );
+      const memberKeys = await resolveFloraMemberKeys(memberAccountIds, network);
+      const topicKeys = {
+        adminKey: buildFloraKeyList(memberKeys, threshold),
+        submitKey: buildFloraKeyList(memberKeys, 1),
+      };
+
+      // Topics and their key schedules come first so a failure here never
+      // leaves a funded flora account behind.
+      const topics = await createFloraTopics(signer, name, {
+        adminKey: topicKeys.submitKey,
+        submitKey: topicKeys.submitKey,
+      });
+      const topicKeyScheduleIds = await scheduleFloraTopicKeys(signer, topics, topicKeys, name);
 
-      const topics = await createFloraTopics(signer, name);
+      const floraAccount = await createFloraAccount(signer, {
+        memberAccountIds,
+        threshold,
+        network,
+      });
 
       const members: FloraMember[] = [
         {
@@ -199,6 +352,9 @@ export function FloraProvider({ children }: { children: ReactNode }) {
         status: "pending",
         createdAt: new Date().toISOString(),
         initiatorAccountId: activeAccountId,
+        accountId: floraAccount.accountId,
+        threshold: floraAccount.threshold,
+        purposeTags: tags,
       };
 
       const payload: FloraCreateRequestPayload = {
@@ -209,9 +365,13 @@ export function FloraProvider({ children }: { children: ReactNode }) {
         sentAt: new Date().toISOString(),
         flora: {
           name,
+          accountId: floraAccount.accountId,
+          threshold: floraAccount.threshold,
+          purposeTags: tags,
           communicationTopicId: topics.communication,
           transactionTopicId: topics.transaction,
           stateTopicId: topics.state,
+          topicKeyScheduleIds,
           initiator: {
             accountId: activeAccountId,
             alias: initiatorAlias,
@@ -236,17 +396,32 @@ export function FloraProvider({ children }: { children: ReactNode }) {
 
       await announceFloraOnCommunicationTopic(signer, topics.communication, payload);
 
+      try {
+        await publishFloraToRegistry(signer, {
+          floraId: floraRecord.id,
+          name,
+          accountId: floraAccount.accountId,
+          topics,
+          memberCount: members.length,
+          threshold: floraAccount.threshold,
+          purposeTags: tags,
+          initiatorAccountId: activeAccountId,
+        });
+      } catch (error) {
+        getLogger("flora-provider").warn("Failed to publish flora to registry", error);
+      }
+
       const updatedFloras = [...state.floras.filter((flora) => flora.id !== floraRecord.id), floraRecord];
       dispatch({ type: "setFloras", floras: updatedFloras });
       persistFloras(activeAccountId, updatedFloras);
 
       return floraRecord;
     },
-    [activeAccountId, persistFloras, state.floras],
+    [activeAccountId, network, persistFloras, state.floras],
   );
 
   const ingestFloraInvite = useCallback(
-    (message: FloraCreateRequestPayload) => {
+    (message: FloraCreateRequestPayload | FloraJoinAcceptedPayload) => {
       if (!activeAccountId) {
         return;
       }
@@ -267,6 +442,9 @@ export function FloraProvider({ children }: { children: ReactNode }) {
         status: "pending",
         createdAt: message.sentAt,
         initiatorAccountId: message.flora.initiator.accountId,
+        accountId: message.flora.accountId,
+        threshold: message.flora.threshold,
+        purposeTags: message.flora.purposeTags,
       };
 
       const invite: FloraInvite = {
@@ -286,6 +464,50 @@ export function FloraProvider({ children }: { children: ReactNode }) {
     [activeAccountId, persistInvites, state.invites],
   );
 
+  const syncFloraMembership = useCallback(
+    (floraId: string, change: FloraMembershipChange) => {
+      if (!activeAccountId) {
+        return;
+      }
+      const flora = state.floras.find((item) => item.id === floraId);
+      if (!flora) {
+        return;
+      }
+      const current = flora.members.map((member) => member.accountId);
+      const status: FloraRecord["status"] = change.dissolved
+        ? "dissolved"
+        : change.members.includes(activeAccountId)
+          ? flora.status
+          : "removed";
+      const unchanged =
+        flora.status === status &&
+        flora.threshold === change.threshold &&
+        current.length === change.members.length &&
+        change.members.every((accountId) => current.includes(accountId));
+      if (unchanged) {
+        return;
+      }
+
+      const members = change.members.map<FloraMember>((accountId) => {
+        const existing = flora.members.find((member) => member.accountId === accountId);
+        if (existing) {
+          return existing;
+        }
+        return {
+          accountId,
+          alias: change.aliases?.[accountId],
+          status: accountId === activeAccountId ? "self" : "accepted",
+        };
+      });
+      const updatedFloras = state.floras.map((item) =>
+        item.id === floraId ? { ...item, members, threshold: change.threshold, status } : item,
+      );
+      dispatch({ type: "setFloras", floras: updatedFloras });
+      persistFloras(activeAccountId, updatedFloras);
+    },
+    [activeAccountId, persistFloras, state.floras],
+  );
+
   const acceptInvite = useCallback(
     async (inviteId: string, signer: DAppSigner) => {
       if (!activeAccountId) {
@@ -343,11 +565,23 @@ export function FloraProvider({ children }: { children: ReactNode }) {
       if (!activeAccountId) {
         return;
       }
+      const invite = state.invites.find((item) => item.id === inviteId);
       const updatedInvites = state.invites.filter((item) => item.id !== inviteId);
       dispatch({ type: "setInvites", invites: updatedInvites });
       persistInvites(activeAccountId, updatedInvites);
+      if (invite) {
+        const updatedPreferences = {
+          ...state.preferences,
+          [invite.flora.id]: {
+            muted: state.preferences[invite.flora.id]?.muted ?? false,
+            declined: true,
+          },
+        };
+        dispatch({ type: "setPreferences", preferences: updatedPreferences });
+        persistPreferences(activeAccountId, updatedPreferences);
+      }
     },
-    [activeAccountId, persistInvites, state.invites],
+    [activeAccountId, persistInvites, persistPreferences, state.invites, state.preferences],
   );
 
   const toggleMute = useCallback(
@@ -358,7 +592,7 @@ export function FloraProvider({ children }: { children: ReactNode }) {
       const current = state.preferences[floraId] ?? { muted: false };
       const updated = {
         ...state.preferences,
-        [floraId]: { muted: !current.muted },
+        [floraId]: { ...current, muted: !current.muted },
       };
       dispatch({ type: "setPreferences", preferences: updated });
       persistPreferences(activeAccountId, updated);
@@ -376,8 +610,11 @@ export function FloraProvider({ children }: { children: ReactNode }) {
       floras: state.floras,
       invites: state.invites,
       preferences: state.preferences,
+      reconciling: state.reconciling,
+      refreshFloras,
       createFlora,
       ingestFloraInvite,
+      syncFloraMembership,
       acceptInvite,
       declineInvite,
       toggleMute,
@@ -387,8 +624,11 @@ export function FloraProvider({ children }: { children: ReactNode }) {
       state.floras,
       state.invites,
       state.preferences,
+      state.reconciling,
+      refreshFloras,
       createFlora,
       ingestFloraInvite,
+      syncFloraMembership,
       acceptInvite,
       declineInvite,
       toggleMute,
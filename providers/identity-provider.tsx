@@ -7,13 +7,20 @@ import {
   useEffect,
   useMemo,
   useReducer,
+  useRef,
   type ReactNode,
 } from "react";
-import type { PetalRecord } from "@/lib/hedera/petals";
+import {
+  discoverPetalAccounts,
+  mergePetalRecords,
+  type PetalRecord,
+} from "@/lib/hedera/petals";
+import { getSignerPublicKeyString } from "@/lib/hedera/keys";
 import { readAccountData, writeAccountData, storageNamespaces } from "@/lib/storage";
 import { useWallet } from "@/providers/wallet-provider";
 import type { DAppSigner } from "@/lib/hedera/wallet-types";
 import { AccountId } from "@hashgraph/sdk";
+import { getLogger } from "@/lib/logger";
 
 export type Identity = {
   type: "base" | "petal";
@@ -25,8 +32,11 @@ export type IdentityContextValue = {
   activeIdentity: Identity | null;
   baseAccountId: string | null;
   petals: PetalRecord[];
+  discoveringPetals: boolean;
+  rescanPetals: () => Promise<number>;
   addPetal: (petal: PetalRecord) => void;
   updatePetal: (accountId: string, updates: Partial<PetalRecord>) => void;
+  updatePetals: (updates: Record<string, Partial<PetalRecord>>) => void;
   removePetal: (accountId: string) => void;
   activateIdentity: (accountId: string) => Promise<DAppSigner>;
 };
@@ -37,18 +47,21 @@ type IdentityState = {
   baseAccountId: string | null;
   activeIdentity: Identity | null;
   petals: PetalRecord[];
+  discoveringPetals: boolean;
 };
 
 type IdentityAction =
   | { type: "reset" }
   | { type: "initialize"; baseAccountId: string; petals: PetalRecord[] }
   | { type: "setPetals"; petals: PetalRecord[] }
-  | { type: "setActive"; identity: Identity | null };
+  | { type: "setActive"; identity: Identity | null }
+  | { type: "setDiscovering"; discovering: boolean };
 
 const initialState: IdentityState = {
   baseAccountId: null,
   activeIdentity: null,
   petals: [],
+  discoveringPetals: false,
 };
 
 function identityReducer(state: IdentityState, action: IdentityAction): IdentityState {
@@ -60,11 +73,14 @@ function identityReducer(state: IdentityState, action: IdentityAction): Identity
         baseAccountId: action.baseAccountId,
         petals: action.petals,
         activeIdentity: { type: "base", accountId: action.baseAccountId },
+        discoveringPetals: false,
       };
     case "setPetals":
       return { ...state, petals: action.petals };
     case "setActive":
       return { ...state, activeIdentity: action.identity };
+    case "setDiscovering":
+      return { ...state, discoveringPetals: action.discovering };
     default:
       return state;
   }
@@ -73,7 +89,12 @@ function identityReducer(state: IdentityState, action: IdentityAction): Identity
 export function IdentityProvider({ children }: { children: ReactNode }) {
   const { accountId: walletAccountId, sdk } = useWallet();
   const [state, dispatch] = useReducer(identityReducer, initialState);
-  const { baseAccountId, petals, activeIdentity } = state;
+  const { baseAccountId, petals, activeIdentity, discoveringPetals } = state;
+  const petalsRef = useRef(petals);
+  petalsRef.current = petals;
+  const baseAccountRef = useRef(baseAccountId);
+  baseAccountRef.current = baseAccountId;
+  const scannedAccountRef = useRef<string | null>(null);
 
   const walletSigner = useMemo((): DAppSigner | null => {
     if (!sdk || !walletAccountId) {
@@ -110,17 +131,55 @@ export function IdentityProvider({ children }: { children: ReactNode }) {
     dispatch({ type: "initialize", baseAccountId: walletAccountId, petals: storedPetals });
   }, [walletAccountId, loadPetals]);
 
+  const rescanPetals = useCallback(async () => {
+    const accountId = baseAccountRef.current;
+    if (!accountId || !walletSigner) {
+      throw new Error("Connect a wallet before scanning for petals");
+    }
+
+    dispatch({ type: "setDiscovering", discovering: true });
+    try {
+      const publicKey = await getSignerPublicKeyString(walletSigner, accountId);
+      if (!publicKey) {
+        throw new Error("Unable to determine wallet public key for petal discovery");
+      }
+      const discovered = await discoverPetalAccounts(accountId, publicKey);
+      if (baseAccountRef.current !== accountId) {
+        return 0;
+      }
+      const current = petalsRef.current;
+      const known = new Set(current.map((petal) => petal.accountId));
+      const merged = mergePetalRecords(current, discovered);
+      persistPetals(accountId, merged);
+      dispatch({ type: "setPetals", petals: merged });
+      return discovered.filter((petal) => !known.has(petal.accountId)).length;
+    } finally {
+      dispatch({ type: "setDiscovering", discovering: false });
+    }
+  }, [persistPetals, walletSigner]);
+
+  useEffect(() => {
+    if (!baseAccountId || !walletSigner || scannedAccountRef.current === baseAccountId) {
+      return;
+    }
+    scannedAccountRef.current = baseAccountId;
+    rescanPetals().catch((error) => {
+      getLogger("identity-provider").warn("Petal discovery failed", error);
+    });
+  }, [baseAccountId, walletSigner, rescanPetals]);
+
   const addPetal = useCallback(
     (petal: PetalRecord) => {
       if (!baseAccountId) {
         throw new Error("Connect a wallet before registering petals");
       }
-      const filtered = petals.filter((item) => item.accountId !== petal.accountId);
+      const filtered = petalsRef.current.filter((item) => item.accountId !== petal.accountId);
       const updated = [...filtered, petal];
+      petalsRef.current = updated;
       persistPetals(baseAccountId, updated);
       dispatch({ type: "setPetals", petals: updated });
     },
-    [baseAccountId, persistPetals, petals],
+    [baseAccountId, persistPetals],
   );
 
   const updatePetal = useCallback(
@@ -128,13 +187,29 @@ export function IdentityProvider({ children }: { children: ReactNode }) {
       if (!baseAccountId) {
         throw new Error("Connect a wallet before updating petals");
       }
-      const updated = petals.map((petal) =>
+      const updated = petalsRef.current.map((petal) =>
         petal.accountId === accountId ? { ...petal, ...updates } : petal,
       );
+      petalsRef.current = updated;
       persistPetals(baseAccountId, updated);
       dispatch({ type: "setPetals", petals: updated });
     },
-    [baseAccountId, persistPetals, petals],
+    [baseAccountId, persistPetals],
+  );
+
+  const updatePetals = useCallback(
+    (updates: Record<string, Partial<PetalRecord>>) => {
+      if (!baseAccountId) {
+        throw new Error("Connect a wallet before updating petals");
+      }
+      const updated = petalsRef.current.map((petal) =>
+        updates[petal.accountId] ? { ...petal, ...updates[petal.accountId] } : petal,
+      );
+      petalsRef.current = updated;
+      persistPetals(baseAccountId, updated);
+      dispatch({ type: "setPetals", petals: updated });
+    },
+    [baseAccountId, persistPetals],
   );
 
   const removePetal = useCallback(
@@ -142,11 +217,15 @@ export function IdentityProvider({ children }: { children: ReactNode }) {
       if (!baseAccountId) {
         return;
       }
-      const updated = petals.filter((petal) => petal.accountId !== accountId);
+      const updated = petalsRef.current.filter((petal) => petal.accountId !== accountId);
+      petalsRef.current = updated;
       persistPetals(baseAccountId, updated);
       dispatch({ type: "setPetals", petals: updated });
+      if (activeIdentity?.accountId === accountId) {
+        dispatch({ type: "setActive", identity: { type: "base", accountId: baseAccountId } });
+      }
     },
-    [baseAccountId, persistPetals, petals],
+    [activeIdentity, baseAccountId, persistPetals],
   );
 
   const activateIdentity = useCallback(
@@ -196,8 +275,11 @@ export function IdentityProvider({ children }: { children: ReactNode }) {
       activeIdentity,
       baseAccountId,
       petals,
+      discoveringPetals,
+      rescanPetals,
       addPetal,
       updatePetal,
+      updatePetals,
       removePetal,
       activateIdentity,
     }),
@@ -205,8 +287,11 @@ export function IdentityProvider({ children }: { children: ReactNode }) {
       activeIdentity,
       baseAccountId,
       petals,
+      discoveringPetals,
+      rescanPetals,
       addPetal,
       updatePetal,
+      updatePetals,
       removePetal,
       activateIdentity,
     ],
@@ -0,0 +1,268 @@
+"use client";
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  type ReactNode,
+} from "react";
+import { getConnectionState, type ConnectionRecord } from "@/lib/hedera/connections";
+import { getMirrorSuggestedRefreshInterval } from "@/lib/hedera/mirror";
+import { normalizeInboxPolicy, type InboxPolicy } from "@/lib/hedera/inbox-policy";
+import {
+  baselineReadMarkers,
+  countUnread,
+  fetchTopicActivity,
+  markTopicRead,
+  type ReadMarkers,
+  type TopicActivity,
+  type TrackedTopic,
+} from "@/lib/hedera/read-state";
+import { fetchLatestProfileForAccount } from "@/lib/hedera/registry";
+import { getLogger } from "@/lib/logger";
+import { readAccountData, writeAccountData, storageNamespaces } from "@/lib/storage";
+import { isFloraArchived, useFlora } from "@/providers/flora-provider";
+import { useIdentity } from "@/providers/identity-provider";
+
+type UnreadTotals = {
+  messages: number;
+  flora: number;
+};
+
+type ReadStateContextValue = {
+  inboundTopicId: string | null;
+  unreadTotals: UnreadTotals;
+  unreadCount: (topicId: string) => number;
+  lastReadSequence: (topicId: string) => number | null;
+  markRead: (topicId: string, sequenceNumber: number) => void;
+  markAllRead: (kinds?: TrackedTopic["kind"][]) => void;
+  /** Keeps tracked connections and blocked senders in step with the messages page. */
+  trackMessaging: (state: { connections: ConnectionRecord[]; blockedAccountIds: string[] }) => void;
+};
+
+const ReadStateContext = createContext<ReadStateContextValue | null>(null);
+
+function connectionTopicIds(records: ConnectionRecord[]): string[] {
+  return records
+    .filter((record) => getConnectionState(record) !== "requested" && !record.archived)
+    .map((record) => record.connectionTopicId);
+}
+
+function sameIds(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((id, index) => id === b[index]);
+}
+
+export function ReadStateProvider({ children }: { children: ReactNode }) {
+  const logger = getLogger("read-state");
+  const { activeIdentity, baseAccountId, petals } = useIdentity();
+  const { floras, preferences } = useFlora();
+  const accountId = activeIdentity?.accountId ?? null;
+  const [markers, setMarkers] = useState<ReadMarkers>({});
+  const [activity, setActivity] = useState<Record<string, TopicActivity>>({});
+  const [connectionTopics, setConnectionTopics] = useState<string[]>([]);
+  const [blockedAccountIds, setBlockedAccountIds] = useState<string[]>([]);
+  const [profileInboundTopicId, setProfileInboundTopicId] = useState<string | null>(null);
+
+  const petalInboundTopicId =
+    activeIdentity?.type === "petal"
+      ? petals.find((petal) => petal.accountId === accountId)?.inboundTopicId ?? null
+      : null;
+  const inboundTopicId = petalInboundTopicId ?? profileInboundTopicId;
+
+  useEffect(() => {
+    setActivity({});
+    if (!accountId) {
+      setMarkers({});
+      setConnectionTopics([]);
+      setBlockedAccountIds([]);
+      return;
+    }
+    setMarkers(readAccountData<ReadMarkers>(storageNamespaces.readState, accountId, {}) ?? {});
+    setConnectionTopics(
+      connectionTopicIds(
+        readAccountData<ConnectionRecord[] | null>(storageNamespaces.connections, accountId, []) ??
+          [],
+      ),
+    );
+    setBlockedAccountIds(
+      normalizeInboxPolicy(
+        readAccountData<Partial<InboxPolicy> | null>(
+          storageNamespaces.inboxPolicy,
+          accountId,
+          null,
+        ),
+      ).blockedAccountIds,
+    );
+  }, [accountId]);
+
+  const trackMessaging = useCallback(
+    (state: { connections: ConnectionRecord[]; blockedAccountIds: string[] }) => {
+      const topics = connectionTopicIds(state.connections);
+      setConnectionTopics((current) => (sameIds(current, topics) ? current : topics));
+      setBlockedAccountIds((current) =>
+        sameIds(current, state.blockedAccountIds) ? current : state.blockedAccountIds,
+      );
+    },
+    [],
+  );
+
+  useEffect(() => {
+    setProfileInboundTopicId(null);
+    if (!accountId || petalInboundTopicId) {
+      return;
+    }
+    let cancelled = false;
+    fetchLatestProfileForAccount(accountId)
+      .then((profile) => {
+        if (!cancelled) {
+          setProfileInboundTopicId(profile?.inboundTopicId ?? null);
+        }
+      })
+      .catch((error) => logger.warn("read-state:profile", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [accountId, logger, petalInboundTopicId]);
+
+  const floraTopics = useMemo<TrackedTopic[]>(
+    () =>
+      floras
+        .filter((flora) => !isFloraArchived(flora) && !preferences[flora.id]?.muted)
+        .map((flora) => ({ topicId: flora.topics.communication, kind: "flora" })),
+    [floras, preferences],
+  );
+
+  const updateMarkers = useCallback(
+    (updater: (current: ReadMarkers) => ReadMarkers) => {
+      setMarkers((current) => {
+        const next = updater(current);
+        if (next !== current && accountId) {
+          writeAccountData(storageNamespaces.readState, accountId, next);
+        }
+        return next;
+      });
+    },
+    [accountId],
+  );
+
+  const trackedTopics = useMemo<TrackedTopic[]>(() => {
+    if (!accountId) {
+      return [];
+    }
+    return [
+      ...(inboundTopicId ? [{ topicId: inboundTopicId, kind: "inbox" as const }] : []),
+      ...connectionTopics.map((topicId) => ({ topicId, kind: "connection" as const })),
+      ...floraTopics,
+    ];
+  }, [accountId, connectionTopics, floraTopics, inboundTopicId]);
+
+  useEffect(() => {
+    if (!accountId) {
+      return;
+    }
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const poll = async () => {
+      // Our own posts and blocked senders never count as unread.
+      const ownAccountIds = [accountId, ...(baseAccountId ? [baseAccountId] : [])];
+      const inboxIgnored = [...ownAccountIds, ...blockedAccountIds];
+      const entries = await Promise.all(
+        trackedTopics.map(async ({ topicId, kind }) => {
+          try {
+            const ignored = kind === "inbox" ? inboxIgnored : ownAccountIds;
+            return [topicId, await fetchTopicActivity(topicId, ignored)] as const;
+          } catch (error) {
+            logger.warn("read-state:latest", error);
+            return null;
+          }
+        }),
+      );
+      if (cancelled) {
+        return;
+      }
+      const observed = Object.fromEntries(
+        entries.filter((entry): entry is readonly [string, TopicActivity] => entry !== null),
+      );
+      setActivity((current) => ({ ...current, ...observed }));
+      updateMarkers((current) =>
+        baselineReadMarkers(
+          current,
+          Object.fromEntries(
+            Object.entries(observed).map(([topicId, { latest }]) => [topicId, latest]),
+          ),
+        ),
+      );
+      timer = setTimeout(poll, getMirrorSuggestedRefreshInterval());
+    };
+    void poll();
+
+    return () => {
+      cancelled = true;
+      if (timer) {
+        clearTimeout(timer);
+      }
+    };
+  }, [accountId, baseAccountId, blockedAccountIds, logger, trackedTopics, updateMarkers]);
+
+  const markRead = useCallback(
+    (topicId: string, sequenceNumber: number) => {
+      setActivity((current) =>
+        (current[topicId]?.latest ?? 0) >= sequenceNumber
+          ? current
+          : {
+              ...current,
+              [topicId]: { latest: sequenceNumber, incoming: current[topicId]?.incoming ?? [] },
+            },
+      );
+      updateMarkers((current) => markTopicRead(current, topicId, sequenceNumber));
+    },
+    [updateMarkers],
+  );
+
+  const markAllRead = useCallback(
+    (kinds?: TrackedTopic["kind"][]) => {
+      const topics = trackedTopics.filter((topic) => !kinds || kinds.includes(topic.kind));
+      updateMarkers((current) =>
+        topics.reduce((next, { topicId }) => {
+          const newest = activity[topicId]?.latest;
+          return newest === undefined ? next : markTopicRead(next, topicId, newest);
+        }, current),
+      );
+    },
+    [activity, trackedTopics, updateMarkers],
+  );
+
+  const value = useMemo<ReadStateContextValue>(() => {
+    const unreadCount = (topicId: string) => countUnread(markers, activity, topicId);
+    const unreadTotals = trackedTopics.reduce<UnreadTotals>(
+      (totals, topic) => {
+        const key = topic.kind === "flora" ? "flora" : "messages";
+        return { ...totals, [key]: totals[key] + unreadCount(topic.topicId) };
+      },
+      { messages: 0, flora: 0 },
+    );
+    return {
+      inboundTopicId,
+      unreadTotals,
+      unreadCount,
+      lastReadSequence: (topicId: string) => markers[topicId] ?? null,
+      markRead,
+      markAllRead,
+      trackMessaging,
+    };
+  }, [activity, inboundTopicId, markAllRead, markRead, markers, trackMessaging, trackedTopics]);
+
+  return <ReadStateContext.Provider value={value}>{children}</ReadStateContext.Provider>;
+}
+
+export function useReadState() {
+  const context = useContext(ReadStateContext);
+  if (!context) {
+    throw new Error("useReadState must be used within a ReadStateProvider");
+  }
+  return context;
+}